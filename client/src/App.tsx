@@ -46,7 +46,9 @@ import MainDashboardView, {
   SettingsView,
   PollsView,
   LeaderboardView,
-  ContentModerationView
+  ContentModerationView,
+  ContactInboxView,
+  CourseManagementView
 } from "@/components/MainDashboardView";
 
 // Pages
@@ -57,6 +59,10 @@ import EventDetailPage from "@/pages/EventDetailPage";
 import StaffPage from "@/pages/StaffPage";
 import StaffDetailPage from "@/pages/StaffDetailPage";
 import LearningResourceDetailPage from "@/pages/LearningResourceDetailPage";
+import CoursesPage from "@/pages/CoursesPage";
+import CourseDetailPage from "@/pages/CourseDetailPage";
+import CollectionPage from "@/pages/CollectionPage";
+import SearchPage from "@/pages/SearchPage";
 import ForgotPassword from "@/pages/forgot-password";
 import ResetPassword from "@/pages/reset-password";
 
@@ -208,7 +214,7 @@ function LandingPage() {
                       level: 'Author',
                     },
                     category: blog.category,
-                    publishedAt: new Date(blog.createdAt).toISOString().split('T')[0],
+                    publishedAt: new Date(blog.publishedAt ?? blog.createdAt).toISOString().split('T')[0],
                     readTime: blog.readTime,
                     likes: blog.likes,
                     comments: 0,
@@ -284,7 +290,7 @@ function LandingPage() {
 
                   // Check if user is registered for this event
                   const isUserRegistered = userRegistrations?.some(
-                    (reg) => reg.eventId === event._id
+                    (reg) => reg.eventId === event._id && (reg.status === 'registered' || reg.status === 'attended')
                   ) || false;
 
                   return (
@@ -342,7 +348,7 @@ function ResourcesPage() {
   const [isModalOpen, setIsModalOpen] = React.useState(false);
   const [previewResource, setPreviewResource] = React.useState<any>(null);
 
-  const { data: resources, isLoading, error } = useQuery({
+  const { data, isLoading, error } = useQuery({
     queryKey: ['/api/resources'],
     queryFn: async () => {
       const response = await fetch('/api/resources');
@@ -350,6 +356,7 @@ function ResourcesPage() {
       return response.json();
     },
   });
+  const resources = data?.resources;
 
   const handleReadMore = (id: string) => {
     const resource = resources?.find((r: any) => r._id === id);
@@ -362,14 +369,13 @@ function ResourcesPage() {
         category: resource.category,
         size: resource.fileSize || 'Unknown',
         downloads: resource.downloads || 0,
-        rating: resource.rating || 0,
+        rating: (resource.rating || 0) / 10, // Stored as the average * 10
         uploadedBy: resource.uploaderName || 'Unknown',
         uploadDate: new Date(resource.uploadedAt || resource.createdAt).toISOString().split('T')[0],
         tags: resource.tags || [],
         difficulty: resource.difficulty,
         thumbnail: resource.thumbnailUrl,
         previewAvailable: !!resource.previewUrl,
-        fileUrl: resource.fileUrl,
         fileName: resource.fileName
       };
       setSelectedResource(transformedResource);
@@ -415,14 +421,13 @@ function ResourcesPage() {
                   category: resource.category,
                   size: resource.fileSize || 'Unknown',
                   downloads: resource.downloads || 0,
-                  rating: resource.rating || 0,
+                  rating: (resource.rating || 0) / 10, // Stored as the average * 10
                   uploadedBy: resource.uploaderName || 'Unknown',
                   uploadDate: new Date(resource.uploadedAt || resource.createdAt).toISOString().split('T')[0],
                   tags: resource.tags || [],
                   difficulty: resource.difficulty,
                   thumbnail: resource.thumbnailUrl,
                   previewAvailable: !!resource.previewUrl,
-                  fileUrl: resource.fileUrl,
                   fileName: resource.fileName
                 };
 
@@ -459,22 +464,8 @@ function ResourcesPage() {
                 tags: [],
                 difficulty: '100l' as const,
                 previewAvailable: false,
-                fileUrl: '',
                 fileName: ''
               }}
-              onDownload={async (id) => {
-                try {
-                  await fetch(`/api/resources/${id}/download`, {
-                    method: 'POST',
-                    headers: {
-                      'Content-Type': 'application/json',
-                    },
-                    credentials: 'include',
-                  });
-                } catch (error) {
-                  console.error('Error recording download:', error);
-                }
-              }}
               onPreview={(id) => {
                 const resourceToPreview = resources.find((r: any) => r._id === id);
                 if (resourceToPreview) {
@@ -487,7 +478,7 @@ function ResourcesPage() {
               <FilePreviewModal
                 open={!!previewResource}
                 onOpenChange={(open) => !open && setPreviewResource(null)}
-                fileUrl={previewResource.fileUrl}
+                resourceId={previewResource._id}
                 fileName={previewResource.fileName || previewResource.title}
                 fileType={previewResource.type}
                 title={previewResource.title}
@@ -690,6 +681,9 @@ function DashboardRouter() {
           <Route path="/dashboard/staff">
             <AdminOnlyRoute><StaffManagementView /></AdminOnlyRoute>
           </Route>
+          <Route path="/dashboard/inbox">
+            <AdminOnlyRoute><ContactInboxView /></AdminOnlyRoute>
+          </Route>
           <Route path="/dashboard/analytics">
             <AdminOnlyRoute><AnalyticsView /></AdminOnlyRoute>
           </Route>
@@ -699,6 +693,9 @@ function DashboardRouter() {
           <Route path="/dashboard/resources">
             <AdminOnlyRoute><ResourceManagementView /></AdminOnlyRoute>
           </Route>
+          <Route path="/dashboard/courses">
+            <AdminOnlyRoute><CourseManagementView /></AdminOnlyRoute>
+          </Route>
 
           {/* Shared routes - accessible to all authenticated users */}
           <Route path="/dashboard/settings" component={SettingsView} />
@@ -740,8 +737,12 @@ function MainRouter() {
           <Route path="/resources/:id" component={LearningResourceDetailPage} />
           <Route path="/staff/:id" component={StaffDetailPage} />
           <Route path="/staff" component={StaffPage} />
+          <Route path="/courses/:id" component={CourseDetailPage} />
+          <Route path="/courses" component={CoursesPage} />
+          <Route path="/collections/shared/:token" component={CollectionPage} />
           <Route path="/about" component={AboutPage} />
           <Route path="/contact" component={ContactPage} />
+          <Route path="/search" component={SearchPage} />
           {/* Redirect to login if trying to access dashboard while not authenticated */}
           <Route path="/dashboard/:rest*">
             {(params) => <RedirectToLogin />}
@@ -766,9 +767,14 @@ function MainRouter() {
           <Route path="/resources/:id" component={LearningResourceDetailPage} />
           <Route path="/staff/:id" component={StaffDetailPage} />
           <Route path="/staff" component={StaffPage} />
+          <Route path="/courses/:id" component={CourseDetailPage} />
+          <Route path="/courses" component={CoursesPage} />
+          <Route path="/collections/shared/:token" component={CollectionPage} />
           <Route path="/resources" component={ResourcesPage} />
           <Route path="/about" component={AboutPage} />
           <Route path="/contact" component={ContactPage} />
+          <Route path="/search" component={SearchPage} />
+          <Route path="/collections/:id" component={CollectionPage} />
         </>
       )}
     </Switch>
@@ -44,7 +44,8 @@ import {
   X,
   Trophy,
   Medal,
-  FileText
+  FileText,
+  History
 } from 'lucide-react';
 import {
   Table,
@@ -57,6 +58,10 @@ import {
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import PollManagement from './PollManagement';
+import BlogRevisionHistory from './BlogRevisionHistory';
+import BadgeManagement from './BadgeManagement';
+import SuspiciousActivityReport from './SuspiciousActivityReport';
+import { ACTIVITY_ACTION_LABELS, type ActivityAction } from '@shared/mongoSchema';
 
 interface FilterState {
   searchTerm: string;
@@ -1194,11 +1199,105 @@ function UsersListContent({
   );
 }
 
+type LeaderboardPeriod = 'week' | 'month' | 'all';
+
+interface LeaderboardEntry {
+  rank: number;
+  userId: string;
+  firstName: string;
+  lastName: string;
+  matricNumber?: string;
+  studentLevel?: string;
+  profileImageUrl?: string;
+  level: number;
+  xp: number;
+}
+
+const leaderboardPeriodLabels: Record<LeaderboardPeriod, string> = {
+  week: 'Last 7 days',
+  month: 'Last 30 days',
+  all: 'All time',
+};
+
+// Points for each action on the activity ledger. Changes apply from now on.
+function PointsRulesCard() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<Partial<Record<ActivityAction, string>>>({});
+
+  const { data: rules } = useQuery<Record<ActivityAction, number>>({
+    queryKey: ['/api/admin/gamification/rules'],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (points: Partial<Record<ActivityAction, number>>) =>
+      (await apiRequest('PUT', '/api/admin/gamification/rules', points)).json(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/gamification/rules'] });
+      setDraft({});
+      toast({ title: 'Points updated', description: 'New activity will earn the new points.' });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Error', description: error.message || 'Failed to update points', variant: 'destructive' });
+    },
+  });
+
+  const changes = Object.fromEntries(
+    Object.entries(draft)
+      .filter(([action, value]) => value !== '' && Number(value) !== rules?.[action as ActivityAction])
+      .map(([action, value]) => [action, Number(value)])
+  ) as Partial<Record<ActivityAction, number>>;
+  const invalid = Object.values(changes).some(points => !Number.isInteger(points) || points! < 0 || points! > 1000);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Points Rules</CardTitle>
+        <CardDescription>XP awarded for each action. Points already earned keep their old value.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!rules ? (
+          <div className="h-24 bg-muted rounded animate-pulse" />
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+              {(Object.keys(ACTIVITY_ACTION_LABELS) as ActivityAction[]).map((action) => (
+                <div key={action} className="space-y-1">
+                  <label htmlFor={`points-${action}`} className="text-sm font-medium">{ACTIVITY_ACTION_LABELS[action]}</label>
+                  <Input
+                    id={`points-${action}`}
+                    type="number"
+                    min={0}
+                    max={1000}
+                    value={draft[action] ?? String(rules[action])}
+                    onChange={(e) => setDraft({ ...draft, [action]: e.target.value })}
+                    data-testid={`input-points-${action}`}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end">
+              <Button
+                onClick={() => saveMutation.mutate(changes)}
+                disabled={Object.keys(changes).length === 0 || invalid || saveMutation.isPending}
+                data-testid="button-save-points"
+              >
+                {saveMutation.isPending ? 'Saving...' : 'Save Points'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export function LeaderboardContent() {
-  const { data: leaderboard = [], isLoading } = useQuery({
-    queryKey: ['/api/admin/gamification/leaderboard'],
+  const [period, setPeriod] = useState<LeaderboardPeriod>('month');
+
+  const { data: leaderboard, isLoading } = useQuery<{ entries: LeaderboardEntry[] }>({
+    queryKey: ['/api/admin/gamification/leaderboard', period],
     queryFn: async () => {
-      const response = await fetch('/api/admin/gamification/leaderboard', {
+      const response = await fetch(`/api/admin/gamification/leaderboard?period=${period}`, {
         credentials: 'include',
       });
       if (!response.ok) throw new Error('Failed to fetch leaderboard');
@@ -1209,13 +1308,13 @@ export function LeaderboardContent() {
   const [searchTerm, setSearchTerm] = useState("");
   const [levelFilter, setLevelFilter] = useState("all");
 
-  const filteredLeaderboard = leaderboard.filter((student: any) => {
+  const filteredLeaderboard = (leaderboard?.entries ?? []).filter((student) => {
     const matchesSearch =
       (student.firstName?.toLowerCase() || '').includes(searchTerm.toLowerCase()) ||
       (student.lastName?.toLowerCase() || '').includes(searchTerm.toLowerCase()) ||
       (student.matricNumber?.toLowerCase() || '').includes(searchTerm.toLowerCase());
 
-    const matchesLevel = levelFilter === 'all' || student.level === levelFilter;
+    const matchesLevel = levelFilter === 'all' || student.studentLevel === levelFilter;
 
     return matchesSearch && matchesLevel;
   });
@@ -1239,6 +1338,7 @@ export function LeaderboardContent() {
   }
 
   return (
+    <div className="space-y-6">
     <Card>
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
@@ -1246,7 +1346,7 @@ export function LeaderboardContent() {
           Student Leaderboard
         </CardTitle>
         <CardDescription>
-          Performance ranking based on level and profile completeness (Points System)
+          Students ranked by the XP they earned from approved posts, comments, likes received, downloads, event attendance and poll votes
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -1260,6 +1360,16 @@ export function LeaderboardContent() {
               className="pl-9"
             />
           </div>
+          <Select value={period} onValueChange={(value) => setPeriod(value as LeaderboardPeriod)}>
+            <SelectTrigger className="w-[150px]" data-testid="select-leaderboard-period">
+              <SelectValue placeholder="Period" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(leaderboardPeriodLabels) as LeaderboardPeriod[]).map((value) => (
+                <SelectItem key={value} value={value}>{leaderboardPeriodLabels[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <Select value={levelFilter} onValueChange={setLevelFilter}>
             <SelectTrigger className="w-[140px]">
               <SelectValue placeholder="Level" />
@@ -1287,7 +1397,7 @@ export function LeaderboardContent() {
                 </div>
                 <div className="h-24 w-20 bg-gradient-to-t from-gray-200 to-gray-50/50 rounded-t-lg border-x border-t border-gray-200 flex flex-col items-center justify-end pb-2">
                   <span className="font-bold text-sm text-center px-1 line-clamp-1">{filteredLeaderboard[1].firstName}</span>
-                  <span className="font-bold text-xs text-muted-foreground">{Math.floor((filteredLeaderboard[1].profileCompletion || 0) * 10) + (parseInt(filteredLeaderboard[1].level || '0') * 5)} pts</span>
+                  <span className="font-bold text-xs text-muted-foreground">{filteredLeaderboard[1].xp} XP</span>
                 </div>
               </div>
 
@@ -1302,7 +1412,7 @@ export function LeaderboardContent() {
                 </div>
                 <div className="h-32 w-24 bg-gradient-to-t from-yellow-100 to-yellow-50/50 rounded-t-lg border-x border-t border-yellow-200 flex flex-col items-center justify-end pb-4">
                   <span className="font-bold text-base text-center px-1 line-clamp-1">{filteredLeaderboard[0].firstName}</span>
-                  <span className="font-bold text-sm text-yellow-700">{Math.floor((filteredLeaderboard[0].profileCompletion || 0) * 10) + (parseInt(filteredLeaderboard[0].level || '0') * 5)} pts</span>
+                  <span className="font-bold text-sm text-yellow-700">{filteredLeaderboard[0].xp} XP</span>
                 </div>
               </div>
 
@@ -1316,7 +1426,7 @@ export function LeaderboardContent() {
                 </div>
                 <div className="h-20 w-20 bg-gradient-to-t from-amber-100 to-amber-50/50 rounded-t-lg border-x border-t border-amber-200 flex flex-col items-center justify-end pb-2">
                   <span className="font-bold text-sm text-center px-1 line-clamp-1">{filteredLeaderboard[2].firstName}</span>
-                  <span className="font-bold text-xs text-muted-foreground">{Math.floor((filteredLeaderboard[2].profileCompletion || 0) * 10) + (parseInt(filteredLeaderboard[2].level || '0') * 5)} pts</span>
+                  <span className="font-bold text-xs text-muted-foreground">{filteredLeaderboard[2].xp} XP</span>
                 </div>
               </div>
             </div>
@@ -1328,7 +1438,7 @@ export function LeaderboardContent() {
                 <TableHead className="w-[80px]">Rank</TableHead>
                 <TableHead>Student</TableHead>
                 <TableHead>Level</TableHead>
-                <TableHead className="text-right">Total Points</TableHead>
+                <TableHead className="text-right">XP</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -1339,18 +1449,18 @@ export function LeaderboardContent() {
                   </TableCell>
                 </TableRow>
               ) : (
-                (filteredLeaderboard.length >= 3 ? filteredLeaderboard.slice(3) : filteredLeaderboard).map((student: any, index: number) => {
-                  const rank = (filteredLeaderboard.length >= 3 ? 3 : 0) + index + 1;
+                (filteredLeaderboard.length >= 3 ? filteredLeaderboard.slice(3) : filteredLeaderboard).map((student) => {
                   return (
-                    <TableRow key={student._id} className="hover:bg-muted/50">
+                    <TableRow key={student.userId} className="hover:bg-muted/50">
                       <TableCell>
                         <div className="flex items-center justify-center h-8 w-8 rounded-full bg-muted font-bold text-xs text-muted-foreground">
-                          #{rank}
+                          #{student.rank}
                         </div>
                       </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-3">
                           <Avatar className="h-8 w-8">
+                            {student.profileImageUrl && <AvatarImage src={student.profileImageUrl} alt={student.firstName} />}
                             <AvatarFallback className="text-xs bg-primary/10 text-primary">
                               {student.firstName?.[0]}
                             </AvatarFallback>
@@ -1362,10 +1472,13 @@ export function LeaderboardContent() {
                         </div>
                       </TableCell>
                       <TableCell>
-                        <Badge variant="secondary" className="font-normal text-xs">{student.level || 'N/A'}</Badge>
+                        <div className="flex items-center gap-2">
+                          <Badge variant="secondary" className="font-normal text-xs">{student.studentLevel || 'N/A'}</Badge>
+                          <span className="text-xs text-muted-foreground">Lvl {student.level}</span>
+                        </div>
                       </TableCell>
                       <TableCell className="text-right font-bold text-primary">
-                        {Math.floor((student.profileCompletion || 0) * 10) + (parseInt(student.level || '0') * 5)} pts
+                        {student.xp} XP
                       </TableCell>
                     </TableRow>
                   );
@@ -1376,6 +1489,11 @@ export function LeaderboardContent() {
         </div>
       </CardContent >
     </Card >
+
+    <PointsRulesCard />
+    <BadgeManagement />
+    <SuspiciousActivityReport />
+    </div>
   );
 }
 
@@ -1383,6 +1501,7 @@ export function BlogModerationContent() {
   const { toast } = useToast();
   const [filterStatus, setFilterStatus] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState("");
+  const [historyBlog, setHistoryBlog] = useState<{ _id: string; title: string } | null>(null);
 
   // Fetch blogs
   const { data: blogs = [], isLoading, refetch } = useQuery({
@@ -1544,6 +1663,14 @@ export function BlogModerationContent() {
                       ) : (
                         <Badge variant="outline" className="bg-red-500/10 text-red-600 border-red-500/20 hover:bg-red-500/20">Rejected</Badge>
                       )}
+                      {blog.pendingRevision && (
+                        <Badge variant="outline" className="ml-2 bg-yellow-500/10 text-yellow-600 border-yellow-500/20">Changes pending</Badge>
+                      )}
+                      {blog.publishAt && blog.status !== 'published' && new Date(blog.publishAt) > new Date() && (
+                        <Badge variant="outline" className="ml-2 bg-blue-500/10 text-blue-600 border-blue-500/20" title="Approving publishes the post at this time">
+                          {blog.status === 'scheduled' ? 'Scheduled' : 'Publish'} {new Date(blog.publishAt).toLocaleString()}
+                        </Badge>
+                      )}
                     </div>
                   </TableCell>
                   <TableCell className="text-right">
@@ -1578,6 +1705,15 @@ export function BlogModerationContent() {
                           Change Status
                         </Button>
                       )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-8 px-2"
+                        title={blog.pendingRevision ? "Review changes" : "Revision history"}
+                        onClick={() => setHistoryBlog(blog)}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
                     </div>
                   </TableCell>
                 </TableRow>
@@ -1586,6 +1722,14 @@ export function BlogModerationContent() {
           </TableBody>
         </Table>
       </CardContent>
+
+      <BlogRevisionHistory
+        blogId={historyBlog?._id ?? null}
+        blogTitle={historyBlog?.title ?? ""}
+        open={!!historyBlog}
+        onOpenChange={(open) => !open && setHistoryBlog(null)}
+        canModerate
+      />
     </Card>
   );
 }
\ No newline at end of file
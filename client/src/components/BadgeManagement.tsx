@@ -0,0 +1,422 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pencil, Plus, Trash2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { badgeIcons, describeBadgeCondition, eventTypeLabels, type BadgeWithAwards } from "@/lib/badges";
+import {
+  ACTIVITY_ACTION_LABELS,
+  insertBadgeDefinitionSchema,
+  type ActivityAction,
+  type BadgeCondition,
+  type BadgeIcon,
+  type Event,
+  type InsertBadgeDefinition,
+  type LeaderboardPeriod,
+} from "@shared/mongoSchema";
+
+const MAX_CONDITIONS = 5;
+
+const metricLabels: Record<BadgeCondition['metric'], string> = {
+  activity: 'Activity count',
+  xp: 'Total XP',
+  streak: 'Days in a row',
+  leaderboard_rank: 'Leaderboard place',
+};
+
+const periodLabels: Record<LeaderboardPeriod, string> = {
+  week: 'Last 7 days',
+  month: 'Last 30 days',
+  all: 'All time',
+};
+
+// A starting point for each kind of condition when it is picked
+const defaultConditions: Record<BadgeCondition['metric'], BadgeCondition> = {
+  activity: { metric: 'activity', action: 'event_attended', atLeast: 5 },
+  xp: { metric: 'xp', atLeast: 500 },
+  streak: { metric: 'streak', atLeast: 7 },
+  leaderboard_rank: { metric: 'leaderboard_rank', period: 'month', atMost: 3 },
+};
+
+const emptyForm: InsertBadgeDefinition = {
+  name: '',
+  description: '',
+  icon: 'award',
+  criteria: [defaultConditions.activity],
+  active: true,
+};
+
+function ConditionEditor({ condition, onChange, onRemove }: {
+  condition: BadgeCondition;
+  onChange: (condition: BadgeCondition) => void;
+  onRemove?: () => void;
+}) {
+  const setNumber = (value: string) => Number.parseInt(value, 10) || 0;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-md border p-2">
+      <Select
+        value={condition.metric}
+        onValueChange={(metric) => onChange(defaultConditions[metric as BadgeCondition['metric']])}
+      >
+        <SelectTrigger className="w-[160px]" data-testid="select-condition-metric">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(metricLabels) as BadgeCondition['metric'][]).map((metric) => (
+            <SelectItem key={metric} value={metric}>{metricLabels[metric]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {condition.metric === 'activity' && (
+        <>
+          <Select
+            value={condition.action}
+            onValueChange={(action) => onChange({ metric: 'activity', action: action as ActivityAction, atLeast: condition.atLeast })}
+          >
+            <SelectTrigger className="w-[190px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ACTIVITY_ACTION_LABELS) as ActivityAction[]).map((action) => (
+                <SelectItem key={action} value={action}>{ACTIVITY_ACTION_LABELS[action]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {condition.action === 'event_attended' && (
+            <Select
+              value={condition.eventType ?? 'any'}
+              onValueChange={(type) => onChange({ ...condition, eventType: type === 'any' ? undefined : type as Event['type'] })}
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any event</SelectItem>
+                {(Object.keys(eventTypeLabels) as Event['type'][]).map((type) => (
+                  <SelectItem key={type} value={type}>{eventTypeLabels[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </>
+      )}
+
+      {condition.metric === 'leaderboard_rank' ? (
+        <>
+          <span className="text-sm text-muted-foreground">top</span>
+          <Input
+            type="number"
+            min={1}
+            max={100}
+            className="w-20"
+            value={condition.atMost}
+            onChange={(e) => onChange({ ...condition, atMost: setNumber(e.target.value) })}
+          />
+          <Select
+            value={condition.period}
+            onValueChange={(period) => onChange({ ...condition, period: period as LeaderboardPeriod })}
+          >
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(periodLabels) as LeaderboardPeriod[]).map((period) => (
+                <SelectItem key={period} value={period}>{periodLabels[period]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </>
+      ) : (
+        <>
+          <span className="text-sm text-muted-foreground">at least</span>
+          <Input
+            type="number"
+            min={1}
+            className="w-24"
+            value={condition.atLeast}
+            onChange={(e) => onChange({ ...condition, atLeast: setNumber(e.target.value) })}
+          />
+        </>
+      )}
+
+      {onRemove && (
+        <Button type="button" variant="ghost" size="sm" className="ml-auto h-8 w-8 p-0" onClick={onRemove} aria-label="Remove condition">
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// Mounted each time it opens, so the form starts from the badge being edited
+function BadgeFormDialog({ badge, onOpenChange }: {
+  badge: BadgeWithAwards | null; // null when creating
+  onOpenChange: (open: boolean) => void;
+}) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<InsertBadgeDefinition>(() => badge
+    ? { name: badge.name, description: badge.description, icon: badge.icon, criteria: badge.criteria, active: badge.active }
+    : emptyForm);
+
+  const validation = insertBadgeDefinitionSchema.safeParse(form);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertBadgeDefinition) => {
+      const response = badge
+        ? await apiRequest('PUT', `/api/admin/gamification/badges/${badge._id}`, data)
+        : await apiRequest('POST', '/api/admin/gamification/badges', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/gamification/badges'] });
+      toast({
+        title: badge ? "Badge updated" : "Badge created",
+        description: "Students who meet the conditions will be awarded it shortly",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save badge", variant: "destructive" });
+    },
+  });
+
+  const updateCondition = (index: number, condition: BadgeCondition) =>
+    setForm({ ...form, criteria: form.criteria.map((existing, i) => i === index ? condition : existing) });
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" data-testid="dialog-badge-form">
+        <DialogHeader>
+          <DialogTitle>{badge ? 'Edit Badge' : 'New Badge'}</DialogTitle>
+          <DialogDescription>
+            A badge is awarded once every condition is met, and kept after that.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="badge-name">Name</Label>
+            <Input
+              id="badge-name"
+              value={form.name}
+              maxLength={60}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="e.g. Seminar Regular"
+              data-testid="input-badge-name"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="badge-description">Description</Label>
+            <Textarea
+              id="badge-description"
+              value={form.description}
+              maxLength={200}
+              rows={2}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              placeholder="Shown to students under the badge"
+              data-testid="input-badge-description"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Icon</Label>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(badgeIcons) as BadgeIcon[]).map((icon) => {
+                const Icon = badgeIcons[icon];
+                return (
+                  <Button
+                    key={icon}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className={cn("h-10 w-10 p-0", form.icon === icon && "border-primary bg-primary/10 text-primary")}
+                    onClick={() => setForm({ ...form, icon })}
+                    aria-label={icon}
+                    aria-pressed={form.icon === icon}
+                  >
+                    <Icon className="h-5 w-5" />
+                  </Button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Conditions</Label>
+            <div className="space-y-2">
+              {form.criteria.map((condition, index) => (
+                <ConditionEditor
+                  key={index}
+                  condition={condition}
+                  onChange={(updated) => updateCondition(index, updated)}
+                  onRemove={form.criteria.length > 1
+                    ? () => setForm({ ...form, criteria: form.criteria.filter((_, i) => i !== index) })
+                    : undefined}
+                />
+              ))}
+            </div>
+            {form.criteria.length < MAX_CONDITIONS && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setForm({ ...form, criteria: [...form.criteria, defaultConditions.activity] })}
+                data-testid="button-add-condition"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Condition
+              </Button>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between rounded-md border p-3">
+            <div>
+              <Label htmlFor="badge-active">Active</Label>
+              <p className="text-xs text-muted-foreground">Inactive badges are no longer awarded; students who earned one keep it</p>
+            </div>
+            <Switch id="badge-active" checked={form.active} onCheckedChange={(active) => setForm({ ...form, active })} />
+          </div>
+
+          {!validation.success && form.name.trim() && (
+            <p className="text-sm text-destructive">{validation.error.issues[0].message}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button
+            onClick={() => validation.success && saveMutation.mutate(validation.data)}
+            disabled={!validation.success || saveMutation.isPending}
+            data-testid="button-save-badge"
+          >
+            {saveMutation.isPending ? 'Saving...' : badge ? 'Save Changes' : 'Create Badge'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function BadgeManagement() {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<BadgeWithAwards | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [badgeToDelete, setBadgeToDelete] = useState<BadgeWithAwards | null>(null);
+
+  const { data: badges = [], isLoading } = useQuery<BadgeWithAwards[]>({
+    queryKey: ['/api/admin/gamification/badges'],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest('DELETE', `/api/admin/gamification/badges/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/gamification/badges'] });
+      toast({ title: "Badge deleted" });
+      setBadgeToDelete(null);
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete badge", variant: "destructive" });
+    },
+  });
+
+  const openForm = (badge: BadgeWithAwards | null) => {
+    setEditing(badge);
+    setFormOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Badges</CardTitle>
+          <CardDescription>Awarded automatically, with a notification, when a student meets every condition</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openForm(null)} data-testid="button-new-badge">
+          <Plus className="h-4 w-4 mr-1" />
+          New Badge
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-24 bg-muted rounded animate-pulse" />
+        ) : badges.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No badges defined yet</p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {badges.map((badge) => {
+              const Icon = badgeIcons[badge.icon];
+              return (
+                <div
+                  key={badge._id}
+                  className={cn("flex gap-3 rounded-lg border p-4", !badge.active && "opacity-60")}
+                  data-testid={`badge-definition-${badge._id}`}
+                >
+                  <Icon className="h-8 w-8 flex-shrink-0 text-primary" />
+                  <div className="flex-1 min-w-0 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-medium truncate">{badge.name}</h4>
+                      {!badge.active && <Badge variant="outline">Inactive</Badge>}
+                    </div>
+                    {badge.description && <p className="text-sm text-muted-foreground">{badge.description}</p>}
+                    <div className="flex flex-wrap gap-1">
+                      {badge.criteria.map((condition, index) => (
+                        <Badge key={index} variant="secondary" className="font-normal">{describeBadgeCondition(condition)}</Badge>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Earned by {badge.awardedCount} {badge.awardedCount === 1 ? 'student' : 'students'}
+                    </p>
+                  </div>
+                  <div className="flex flex-col gap-1">
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => openForm(badge)} aria-label="Edit badge">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0 text-destructive" onClick={() => setBadgeToDelete(badge)} aria-label="Delete badge">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      {formOpen && <BadgeFormDialog badge={editing} onOpenChange={setFormOpen} />}
+
+      <AlertDialog open={!!badgeToDelete} onOpenChange={(open) => !open && setBadgeToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{badgeToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Students who earned it will lose it. To stop awarding it but let them keep it, make it inactive instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => badgeToDelete && deleteMutation.mutate(badgeToDelete._id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
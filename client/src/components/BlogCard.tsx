@@ -2,13 +2,14 @@ import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Heart, MessageCircle, Share2, Bookmark, Eye, Video } from "lucide-react";
+import { Heart, MessageCircle, Share2, Eye, Video } from "lucide-react";
 import { useState, useEffect } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import BlogEngagementDialog from "@/components/BlogEngagementDialog";
+import SaveButton from "@/components/SaveButton";
 
 interface BlogCardProps {
   blog: {
@@ -41,7 +42,6 @@ interface BlogCardProps {
 
 export default function BlogCard({ blog, onReadMore, onComment, onShare, onBookmark, isLikedByUser = false, disableEngagementDialogs = false }: BlogCardProps) {
   const [isLiked, setIsLiked] = useState(isLikedByUser);
-  const [isBookmarked, setIsBookmarked] = useState(false);
   const [likesCount, setLikesCount] = useState(blog.likes);
   const [showLikesDialog, setShowLikesDialog] = useState(false);
   const [showViewsDialog, setShowViewsDialog] = useState(false);
@@ -113,11 +113,6 @@ export default function BlogCard({ blog, onReadMore, onComment, onShare, onBookm
     }
   };
 
-  const handleBookmark = () => {
-    setIsBookmarked(!isBookmarked);
-    onBookmark?.(blog.id);
-  };
-
   const handleShare = async (e: React.MouseEvent) => {
     e.stopPropagation();
     if (onShare) {
@@ -325,15 +320,7 @@ export default function BlogCard({ blog, onReadMore, onComment, onShare, onBookm
 
         {/* Action Buttons */}
         <div className="flex items-center gap-2">
-          <Button
-            variant="ghost"
-            size="sm"
-            className={isBookmarked ? 'text-primary' : ''}
-            onClick={handleBookmark}
-            data-testid={`button-bookmark-${blog.id}`}
-          >
-            <Bookmark className={`h-4 w-4 ${isBookmarked ? 'fill-current' : ''}`} />
-          </Button>
+          <SaveButton itemType="blog" itemId={blog.id} onSavedChange={() => onBookmark?.(blog.id)} />
 
           {onReadMore && (
             <Button
@@ -0,0 +1,317 @@
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CheckCircle, RotateCcw, XCircle } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { collapseUnchanged, diffLines } from "@/lib/diff";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import type { BlogRevision, BlogRevisionStatus } from "@shared/mongoSchema";
+
+// Shape of GET /api/blogs/:id/revisions
+export type BlogRevisionEntry = BlogRevision & {
+  _id: string;
+  authorName: string;
+  isCurrent: boolean;
+};
+
+const statusBadges: Record<BlogRevisionStatus, { label: string; className: string }> = {
+  applied: { label: 'Previous', className: '' },
+  pending: { label: 'Pending', className: 'bg-yellow-500/10 text-yellow-600 border-yellow-500/20' },
+  rejected: { label: 'Rejected', className: 'bg-red-500/10 text-red-600 border-red-500/20' },
+  superseded: { label: 'Replaced', className: '' },
+};
+
+// Compared as text, a line per tag or image
+const comparedFields: Array<{ label: string; text: (revision: BlogRevision) => string }> = [
+  { label: 'Title', text: revision => revision.title },
+  { label: 'Excerpt', text: revision => revision.excerpt ?? '' },
+  { label: 'Category', text: revision => revision.category },
+  { label: 'Tags', text: revision => (revision.tags ?? []).join('\n') },
+  { label: 'Images', text: revision => [revision.imageUrl, ...(revision.imageUrls ?? [])].filter(Boolean).join('\n') },
+  { label: 'Content', text: revision => revision.content },
+];
+
+function SideBySideDiff({ before, after }: { before: string; after: string }) {
+  const rows = useMemo(() => collapseUnchanged(diffLines(before, after)), [before, after]);
+
+  return (
+    <div className="grid grid-cols-2 border rounded-md text-xs font-mono overflow-hidden">
+      {rows.map((row, index) => row.type === 'skipped' ? (
+        <div key={index} className="col-span-2 px-2 py-1 bg-muted text-muted-foreground text-center">
+          {row.count} unchanged {row.count === 1 ? 'line' : 'lines'}
+        </div>
+      ) : (
+        <Fragment key={index}>
+          <div className={cn(
+            "px-2 py-0.5 whitespace-pre-wrap break-words border-r min-h-[1.5em]",
+            row.type !== 'same' && row.before !== null && "bg-red-500/10 text-red-700 dark:text-red-300"
+          )}>
+            {row.before}
+          </div>
+          <div className={cn(
+            "px-2 py-0.5 whitespace-pre-wrap break-words min-h-[1.5em]",
+            row.type !== 'same' && row.after !== null && "bg-green-500/10 text-green-700 dark:text-green-300"
+          )}>
+            {row.after}
+          </div>
+        </Fragment>
+      ))}
+    </div>
+  );
+}
+
+interface BlogRevisionHistoryProps {
+  blogId: string | null;
+  blogTitle: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canModerate?: boolean; // Admins can approve, reject and restore revisions
+}
+
+// Every saved edit of a blog post, each compared with the version it would replace
+export default function BlogRevisionHistory({ blogId, blogTitle, open, onOpenChange, canModerate = false }: BlogRevisionHistoryProps) {
+  const { toast } = useToast();
+  const [selectedRevision, setSelectedRevision] = useState<number | null>(null);
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [rejectionReason, setRejectionReason] = useState("");
+  const [restoring, setRestoring] = useState<BlogRevisionEntry | null>(null);
+
+  const { data: revisions = [], isLoading } = useQuery<BlogRevisionEntry[]>({
+    queryKey: ['/api/blogs', blogId, 'revisions'],
+    enabled: open && !!blogId,
+  });
+
+  // Open on the edit waiting for approval, or else the latest one
+  useEffect(() => {
+    if (!open) {
+      setSelectedRevision(null);
+      setIsRejecting(false);
+      setRejectionReason("");
+    } else if (selectedRevision === null && revisions.length > 0) {
+      setSelectedRevision((revisions.find(revision => revision.status === 'pending') ?? revisions[0]).revision);
+    }
+  }, [open, revisions, selectedRevision]);
+
+  const selected = revisions.find(revision => revision.revision === selectedRevision);
+  const current = revisions.find(revision => revision.isCurrent);
+  // A pending edit would replace what is live now; anything else replaced the published revision before it
+  const base = selected?.status === 'pending'
+    ? current
+    : revisions.find(revision => selected && revision.revision < selected.revision && revision.status === 'applied');
+
+  const changedFields = selected
+    ? comparedFields
+      .map(field => ({ label: field.label, before: base ? field.text(base) : '', after: field.text(selected) }))
+      .filter(field => field.before !== field.after)
+    : [];
+
+  const onSuccess = (description: string) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/blogs'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/blogs'] });
+    setIsRejecting(false);
+    setRejectionReason("");
+    setSelectedRevision(null);
+    toast({ title: "Success", description });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message || "Failed to update revision", variant: "destructive" });
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ revision, status }: { revision: number; status: 'approved' | 'rejected' }) =>
+      apiRequest('PUT', `/api/admin/blogs/${blogId}/revisions/${revision}/approval`, {
+        status,
+        rejectionReason: status === 'rejected' ? rejectionReason.trim() || undefined : undefined,
+      }),
+    onSuccess: (_, { status }) => onSuccess(status === 'approved' ? "The changes are now published" : "The changes were rejected"),
+    onError,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (revision: number) => apiRequest('POST', `/api/admin/blogs/${blogId}/revisions/${revision}/restore`),
+    onSuccess: () => {
+      setRestoring(null);
+      onSuccess("The earlier version has been restored");
+    },
+    onError,
+  });
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto w-[95vw]">
+          <DialogHeader>
+            <DialogTitle>Revision History</DialogTitle>
+            <DialogDescription className="line-clamp-1">{blogTitle}</DialogDescription>
+          </DialogHeader>
+
+          {isLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-48 w-full" />
+            </div>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-[220px_1fr]">
+              <ol className="space-y-2 md:max-h-[65vh] md:overflow-y-auto">
+                {revisions.map((revision) => (
+                  <li key={revision._id}>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setSelectedRevision(revision.revision);
+                        setIsRejecting(false);
+                      }}
+                      className={cn(
+                        "w-full text-left p-3 border rounded-lg space-y-1 hover:bg-muted/50 transition-colors",
+                        revision.revision === selectedRevision && "border-primary bg-muted/50"
+                      )}
+                      data-testid={`button-blog-revision-${revision.revision}`}
+                    >
+                      <div className="flex flex-wrap items-center gap-1">
+                        <span className="text-sm font-medium">Revision {revision.revision}</span>
+                        {revision.isCurrent ? (
+                          <Badge variant="secondary">Live</Badge>
+                        ) : (
+                          <Badge variant="outline" className={statusBadges[revision.status].className}>
+                            {statusBadges[revision.status].label}
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {revision.authorName} · {new Date(revision.createdAt).toLocaleString()}
+                      </p>
+                      {revision.restoredFrom && (
+                        <p className="text-xs text-muted-foreground">Restored from revision {revision.restoredFrom}</p>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ol>
+
+              {selected && (
+                <div className="space-y-4 min-w-0">
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                    <p className="text-sm text-muted-foreground">
+                      {base
+                        ? `Revision ${base.revision}${base.isCurrent ? ' (live)' : ''} on the left, revision ${selected.revision} on the right`
+                        : 'First version of the post'}
+                    </p>
+                    {canModerate && (
+                      <div className="flex gap-2">
+                        {selected.status === 'pending' ? (
+                          <>
+                            <Button
+                              size="sm"
+                              className="bg-green-600 hover:bg-green-700"
+                              onClick={() => reviewMutation.mutate({ revision: selected.revision, status: 'approved' })}
+                              disabled={reviewMutation.isPending}
+                              data-testid="button-approve-blog-revision"
+                            >
+                              <CheckCircle className="h-4 w-4 mr-1" />
+                              Approve
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              onClick={() => setIsRejecting(true)}
+                              disabled={reviewMutation.isPending}
+                              data-testid="button-reject-blog-revision"
+                            >
+                              <XCircle className="h-4 w-4 mr-1" />
+                              Reject
+                            </Button>
+                          </>
+                        ) : !selected.isCurrent && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setRestoring(selected)}
+                            data-testid="button-restore-blog-revision"
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Restore
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  {isRejecting && selected.status === 'pending' && (
+                    <form
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        reviewMutation.mutate({ revision: selected.revision, status: 'rejected' });
+                      }}
+                      className="space-y-2 p-3 border rounded-lg"
+                    >
+                      <Label htmlFor="revision-rejection-reason">Reason (optional)</Label>
+                      <Textarea
+                        id="revision-rejection-reason"
+                        placeholder="Shown to the author. The published version stays as it is."
+                        value={rejectionReason}
+                        onChange={(e) => setRejectionReason(e.target.value)}
+                        maxLength={500}
+                        rows={2}
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button type="button" variant="outline" size="sm" onClick={() => setIsRejecting(false)}>
+                          Cancel
+                        </Button>
+                        <Button type="submit" variant="destructive" size="sm" disabled={reviewMutation.isPending}>
+                          {reviewMutation.isPending ? "Rejecting..." : "Reject Changes"}
+                        </Button>
+                      </div>
+                    </form>
+                  )}
+
+                  {selected.rejectionReason && (
+                    <p className="text-sm text-red-600">Reason: {selected.rejectionReason}</p>
+                  )}
+
+                  {changedFields.length === 0 ? (
+                    <p className="text-sm text-muted-foreground py-8 text-center">No changes from revision {base?.revision}.</p>
+                  ) : (
+                    changedFields.map((field) => (
+                      <div key={field.label} className="space-y-1">
+                        <h4 className="text-sm font-medium">{field.label}</h4>
+                        <SideBySideDiff before={field.before} after={field.after} />
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={restoring !== null} onOpenChange={(open) => !open && setRestoring(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore Revision {restoring?.revision}</AlertDialogTitle>
+            <AlertDialogDescription>
+              The post's text will be replaced with revision {restoring?.revision}. The current version stays in the history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => restoring && restoreMutation.mutate(restoring.revision)}
+              disabled={restoreMutation.isPending}
+            >
+              {restoreMutation.isPending ? "Restoring..." : "Restore"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,114 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { CalendarPlus, Copy, RefreshCw } from "lucide-react";
+
+interface CalendarFeed {
+  url: string;
+  webcalUrl: string;
+}
+
+function toWebcalUrl(url: string): string {
+  return url.replace(/^https?:\/\//, 'webcal://');
+}
+
+export default function CalendarSubscribe() {
+  const { toast } = useToast();
+  const { isAuthenticated } = useAuth();
+
+  const departmentFeedUrl = `${window.location.origin}/api/calendar/department.ics`;
+
+  const { data: feed } = useQuery<CalendarFeed>({
+    queryKey: ['/api/user/calendar-feed'],
+    enabled: isAuthenticated,
+  });
+
+  const resetFeedMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/user/calendar-feed/reset');
+      return response.json() as Promise<CalendarFeed>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['/api/user/calendar-feed'], data);
+      toast({
+        title: "Calendar link reset",
+        description: "Your old link no longer works. Subscribe again with the new one",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reset calendar link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyLink = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Link copied",
+        description: "Paste it into your calendar app's \"subscribe by URL\" option",
+      });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to copy link",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" data-testid="button-calendar-subscribe">
+          <CalendarPlus className="h-4 w-4 mr-2" />
+          Subscribe to Calendar
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>All department events</DropdownMenuLabel>
+        <DropdownMenuItem asChild>
+          <a href={toWebcalUrl(departmentFeedUrl)} data-testid="link-subscribe-department">
+            <CalendarPlus className="h-4 w-4 mr-2" />
+            Subscribe
+          </a>
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => copyLink(departmentFeedUrl)}>
+          <Copy className="h-4 w-4 mr-2" />
+          Copy link
+        </DropdownMenuItem>
+
+        {isAuthenticated && feed && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Events I'm registered for</DropdownMenuLabel>
+            <DropdownMenuItem asChild>
+              <a href={feed.webcalUrl} data-testid="link-subscribe-personal">
+                <CalendarPlus className="h-4 w-4 mr-2" />
+                Subscribe
+              </a>
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => copyLink(feed.url)}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy private link
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => resetFeedMutation.mutate()}
+              disabled={resetFeedMutation.isPending}
+              data-testid="button-reset-calendar-feed"
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Reset private link
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
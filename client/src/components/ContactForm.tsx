@@ -6,6 +6,7 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { apiRequest } from "@/lib/queryClient";
 import { Phone, Mail, MapPin, Send, AlertCircle, CheckCircle } from "lucide-react";
 
 interface ContactFormProps {
@@ -20,6 +21,15 @@ interface ContactFormData {
   message: string;
 }
 
+export const contactCategories = [
+  { value: "general", label: "General Inquiry" },
+  { value: "admission", label: "Admission Questions" },
+  { value: "technical", label: "Technical Support" },
+  { value: "academic", label: "Academic Support" },
+  { value: "events", label: "Events & Activities" },
+  { value: "feedback", label: "Feedback & Suggestions" },
+];
+
 export default function ContactForm({ onSubmit }: ContactFormProps) {
   const [formData, setFormData] = useState<ContactFormData>({
     name: "",
@@ -33,15 +43,6 @@ export default function ContactForm({ onSubmit }: ContactFormProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSubmitted, setIsSubmitted] = useState(false);
 
-  const categories = [
-    { value: "general", label: "General Inquiry" },
-    { value: "admission", label: "Admission Questions" },
-    { value: "technical", label: "Technical Support" },
-    { value: "academic", label: "Academic Support" },
-    { value: "events", label: "Events & Activities" },
-    { value: "feedback", label: "Feedback & Suggestions" },
-  ];
-
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
 
@@ -82,12 +83,10 @@ export default function ContactForm({ onSubmit }: ContactFormProps) {
     setIsSubmitting(true);
 
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      await apiRequest("POST", "/api/contact", formData);
 
       onSubmit?.(formData);
       setIsSubmitted(true);
-      console.log("Contact form submitted:", formData);
 
       // Reset form after successful submission
       setFormData({
@@ -99,6 +98,7 @@ export default function ContactForm({ onSubmit }: ContactFormProps) {
       });
     } catch (error) {
       console.error("Contact form error:", error);
+      setErrors({ submit: "We couldn't send your message. Please try again." });
     } finally {
       setIsSubmitting(false);
     }
@@ -253,7 +253,7 @@ export default function ContactForm({ onSubmit }: ContactFormProps) {
                     <SelectValue placeholder="Select category" />
                   </SelectTrigger>
                   <SelectContent>
-                    {categories.map((category) => (
+                    {contactCategories.map((category) => (
                       <SelectItem key={category.value} value={category.value}>
                         {category.label}
                       </SelectItem>
@@ -301,6 +301,13 @@ export default function ContactForm({ onSubmit }: ContactFormProps) {
               </AlertDescription>
             </Alert>
 
+            {errors.submit && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{errors.submit}</AlertDescription>
+              </Alert>
+            )}
+
             {/* Submit Button */}
             <Button
               type="submit"
@@ -0,0 +1,287 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Inbox, Mail, Send } from "lucide-react";
+import { contactCategories } from "./ContactForm";
+import type { ContactSubmission } from "@shared/mongoSchema";
+
+type ContactStatus = ContactSubmission['status'];
+
+const statusLabels: Record<ContactStatus, string> = {
+  new: 'New',
+  read: 'Read',
+  responded: 'Responded',
+  closed: 'Closed',
+};
+
+const statusVariants: Record<ContactStatus, "default" | "secondary" | "outline"> = {
+  new: 'default',
+  read: 'secondary',
+  responded: 'outline',
+  closed: 'outline',
+};
+
+const categoryLabel = (category: string) =>
+  contactCategories.find(c => c.value === category)?.label ?? category;
+
+export default function ContactInbox() {
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [categoryFilter, setCategoryFilter] = useState<string>("all");
+  const [selected, setSelected] = useState<ContactSubmission | null>(null);
+
+  const { data: submissions = [], isLoading } = useQuery<ContactSubmission[]>({
+    queryKey: ['/api/admin/contact-submissions', statusFilter, categoryFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (statusFilter !== 'all') params.set('status', statusFilter);
+      if (categoryFilter !== 'all') params.set('category', categoryFilter);
+      const response = await fetch(`/api/admin/contact-submissions?${params}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch contact submissions');
+      return response.json();
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold">Contact Inbox</h2>
+          <p className="text-muted-foreground">Messages sent through the contact form</p>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-4 w-full sm:w-auto">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-full sm:w-[140px]" data-testid="select-contact-status">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Status</SelectItem>
+              {Object.entries(statusLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+            <SelectTrigger className="w-full sm:w-[200px]" data-testid="select-contact-category">
+              <SelectValue placeholder="Category" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Categories</SelectItem>
+              {contactCategories.map((category) => (
+                <SelectItem key={category.value} value={category.value}>{category.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-24 w-full" />
+          ))}
+        </div>
+      ) : submissions.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Inbox className="w-12 h-12 mx-auto text-gray-400 mb-4" />
+            <p className="text-muted-foreground">No messages found</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {submissions.map((submission) => (
+            <Card
+              key={submission._id}
+              className={`cursor-pointer hover-elevate ${submission.status === 'new' ? 'border-primary' : ''}`}
+              onClick={() => setSelected(submission)}
+              data-testid={`card-contact-${submission._id}`}
+            >
+              <CardContent className="p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0 flex-1">
+                    <p className={`truncate ${submission.status === 'new' ? 'font-semibold' : 'font-medium'}`}>
+                      {submission.subject}
+                    </p>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {submission.name} · {submission.email}
+                    </p>
+                    <p className="text-sm text-muted-foreground line-clamp-1 mt-1">{submission.message}</p>
+                  </div>
+                  <div className="flex flex-col items-end gap-1 shrink-0">
+                    <Badge variant={statusVariants[submission.status]}>{statusLabels[submission.status]}</Badge>
+                    <span className="text-xs text-muted-foreground">{categoryLabel(submission.category)}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(submission.createdAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {selected && (
+        <ContactSubmissionDialog
+          submission={selected}
+          isOpen={!!selected}
+          onClose={() => setSelected(null)}
+          onUpdated={setSelected}
+        />
+      )}
+    </div>
+  );
+}
+
+function ContactSubmissionDialog({
+  submission,
+  isOpen,
+  onClose,
+  onUpdated
+}: {
+  submission: ContactSubmission;
+  isOpen: boolean;
+  onClose: () => void;
+  // The dialog stays open on a message even once it no longer matches the inbox filters
+  onUpdated: (submission: ContactSubmission) => void;
+}) {
+  const { toast } = useToast();
+  const [reply, setReply] = useState("");
+
+  const handleUpdated = (updated: ContactSubmission) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/contact-submissions'] });
+    onUpdated(updated);
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: async (status: ContactStatus) => {
+      const response = await apiRequest('PUT', `/api/admin/contact-submissions/${submission._id}/status`, { status });
+      return response.json();
+    },
+    onSuccess: handleUpdated,
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update status",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async (message: string) => {
+      const response = await apiRequest('POST', `/api/admin/contact-submissions/${submission._id}/replies`, { message });
+      return response.json();
+    },
+    onSuccess: (updated: ContactSubmission) => {
+      handleUpdated(updated);
+      setReply("");
+      toast({
+        title: "Reply sent",
+        description: `Your reply was emailed to ${submission.email}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send reply",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Opening a new message marks it as read
+  useEffect(() => {
+    if (isOpen && submission.status === 'new') {
+      statusMutation.mutate('read');
+    }
+  }, [isOpen, submission._id]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{submission.subject}</DialogTitle>
+          <DialogDescription>
+            From {submission.name} ({submission.email}) · {categoryLabel(submission.category)} · {new Date(submission.createdAt).toLocaleString()}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <Label>Status</Label>
+            <Select
+              value={submission.status}
+              onValueChange={(value) => statusMutation.mutate(value as ContactStatus)}
+              disabled={statusMutation.isPending}
+            >
+              <SelectTrigger className="w-[160px]" data-testid="select-submission-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(statusLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Card className="p-4 bg-muted/50">
+            <p className="whitespace-pre-wrap">{submission.message}</p>
+          </Card>
+
+          {submission.replies.length > 0 && (
+            <div className="space-y-3">
+              {submission.replies.map((item, index) => (
+                <Card key={index} className="p-4 ml-6 border-primary/40" data-testid={`reply-${index}`}>
+                  <p className="text-xs text-muted-foreground mb-2">
+                    <Mail className="w-3 h-3 inline mr-1" />
+                    {item.sentByName} · {new Date(item.sentAt).toLocaleString()}
+                  </p>
+                  <p className="whitespace-pre-wrap">{item.message}</p>
+                </Card>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="contact-reply">Reply</Label>
+            <Textarea
+              id="contact-reply"
+              rows={5}
+              placeholder={`Write a reply to ${submission.name}...`}
+              value={reply}
+              onChange={(e) => setReply(e.target.value)}
+              data-testid="input-contact-reply"
+            />
+            <p className="text-xs text-muted-foreground">
+              The reply is emailed to {submission.email} and the message is marked as responded.
+            </p>
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              onClick={() => replyMutation.mutate(reply)}
+              disabled={!reply.trim() || replyMutation.isPending}
+              data-testid="button-send-reply"
+            >
+              <Send className="w-4 h-4 mr-2" />
+              {replyMutation.isPending ? "Sending..." : "Send Reply"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,423 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useDebounce } from "@/hooks/use-debounce";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Plus, Edit, Trash2, Search, GraduationCap, BookOpen } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import MultiSelectCombobox from "./MultiSelectCombobox";
+import { courseLevelLabels, semesterLabels, type CourseWithLecturers } from "@/lib/courses";
+import { courseSchema } from "@shared/mongoSchema";
+
+const courseFormSchema = z.object({
+  code: z.string().trim().regex(/^[A-Za-z]{2,4}\s*\d{3}[A-Za-z]?$/, "Course code must look like SOC 201"),
+  title: z.string().trim().min(1, "Title is required"),
+  description: z.string().optional(),
+  level: courseSchema.shape.level,
+  semester: courseSchema.shape.semester,
+  units: z.string().regex(/^\d*$/, "Units must be a whole number").optional(),
+  lecturerIds: z.array(z.string()).default([]),
+});
+
+type CourseFormData = z.infer<typeof courseFormSchema>;
+
+interface StaffOption {
+  _id: string;
+  name: string;
+  title: string;
+}
+
+const emptyCourseForm: CourseFormData = {
+  code: "",
+  title: "",
+  description: "",
+  level: "100",
+  semester: "first",
+  units: "",
+  lecturerIds: [],
+};
+
+export default function CourseManagement() {
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [levelFilter, setLevelFilter] = useState("all");
+  const [semesterFilter, setSemesterFilter] = useState("all");
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingCourse, setEditingCourse] = useState<CourseWithLecturers | null>(null);
+  const [deletingCourse, setDeletingCourse] = useState<CourseWithLecturers | null>(null);
+  const debouncedSearch = useDebounce(search.trim());
+
+  const { data: courses = [], isLoading } = useQuery<CourseWithLecturers[]>({
+    queryKey: ['/api/courses', debouncedSearch, levelFilter, semesterFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (debouncedSearch) params.set('search', debouncedSearch);
+      if (levelFilter !== 'all') params.set('level', levelFilter);
+      if (semesterFilter !== 'all') params.set('semester', semesterFilter);
+      const response = await fetch(`/api/courses?${params}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch courses');
+      return response.json();
+    },
+  });
+
+  const { data: staff = [] } = useQuery<StaffOption[]>({
+    queryKey: ['/api/staff'],
+  });
+
+  const form = useForm<CourseFormData>({
+    resolver: zodResolver(courseFormSchema),
+    defaultValues: emptyCourseForm,
+  });
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingCourse(null);
+    form.reset(emptyCourseForm);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: CourseFormData) => {
+      const courseData = {
+        ...data,
+        units: data.units ? Number(data.units) : undefined,
+      };
+      return editingCourse
+        ? apiRequest('PUT', `/api/courses/${editingCourse._id}`, courseData)
+        : apiRequest('POST', '/api/courses', courseData);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/courses'] });
+      toast({
+        title: "Success",
+        description: editingCourse ? "Course updated successfully" : "Course created successfully",
+      });
+      closeForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save course",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/courses/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/courses'] });
+      toast({
+        title: "Success",
+        description: "Course deleted successfully",
+      });
+      setDeletingCourse(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete course",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEdit = (course: CourseWithLecturers) => {
+    setEditingCourse(course);
+    form.reset({
+      code: course.code,
+      title: course.title,
+      description: course.description || "",
+      level: course.level,
+      semester: course.semester,
+      units: course.units !== undefined ? String(course.units) : "",
+      lecturerIds: course.lecturerIds || [],
+    });
+    setIsFormOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold" data-testid="heading-course-management">Courses</h2>
+          <p className="text-muted-foreground">Manage the course catalogue, its lecturers and materials</p>
+        </div>
+        <Button onClick={() => setIsFormOpen(true)} data-testid="button-add-course">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Course
+        </Button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by code or title..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+            data-testid="input-search-courses"
+          />
+        </div>
+        <Select value={levelFilter} onValueChange={setLevelFilter}>
+          <SelectTrigger className="w-full sm:w-[160px]" data-testid="select-course-level-filter">
+            <SelectValue placeholder="Level" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Levels</SelectItem>
+            {Object.entries(courseLevelLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={semesterFilter} onValueChange={setSemesterFilter}>
+          <SelectTrigger className="w-full sm:w-[180px]" data-testid="select-course-semester-filter">
+            <SelectValue placeholder="Semester" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Semesters</SelectItem>
+            {Object.entries(semesterLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-20 w-full" />
+          ))}
+        </div>
+      ) : courses.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <GraduationCap className="w-12 h-12 mx-auto text-gray-400 mb-4" />
+            <p className="text-muted-foreground">No courses found</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {courses.map((course) => (
+            <Card key={course._id} data-testid={`card-course-${course._id}`}>
+              <CardContent className="p-4 flex items-start justify-between gap-4">
+                <div className="min-w-0 flex-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold">{course.code}</span>
+                    <span className="truncate">{course.title}</span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 mt-2">
+                    <Badge variant="secondary">{courseLevelLabels[course.level]}</Badge>
+                    <Badge variant="outline">{semesterLabels[course.semester]}</Badge>
+                    {course.units !== undefined && (
+                      <Badge variant="outline">{course.units} {course.units === 1 ? 'unit' : 'units'}</Badge>
+                    )}
+                    <span className="text-sm text-muted-foreground flex items-center gap-1">
+                      <BookOpen className="h-3 w-3" />
+                      {course.resourceCount} {course.resourceCount === 1 ? 'resource' : 'resources'}
+                    </span>
+                  </div>
+                  {course.lecturers.length > 0 && (
+                    <p className="text-sm text-muted-foreground mt-2 truncate">
+                      {course.lecturers.map(lecturer => lecturer.name).join(', ')}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <Button size="icon" variant="outline" onClick={() => handleEdit(course)} data-testid={`button-edit-course-${course._id}`}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button size="icon" variant="outline" onClick={() => setDeletingCourse(course)} data-testid={`button-delete-course-${course._id}`}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={isFormOpen} onOpenChange={(open) => !open && closeForm()}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingCourse ? 'Edit Course' : 'Add Course'}</DialogTitle>
+            <DialogDescription>
+              Resources and events are attached to courses from their own forms.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="code"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Code</FormLabel>
+                      <FormControl>
+                        <Input placeholder="SOC 201" {...field} data-testid="input-course-code" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="title"
+                  render={({ field }) => (
+                    <FormItem className="sm:col-span-2">
+                      <FormLabel>Title</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Sociological Theory" {...field} data-testid="input-course-title" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="level"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Level</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-course-level">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(courseLevelLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="semester"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Semester</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-course-semester">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(semesterLabels).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="units"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Units</FormLabel>
+                      <FormControl>
+                        <Input inputMode="numeric" placeholder="3" {...field} data-testid="input-course-units" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea rows={4} placeholder="What the course covers..." {...field} data-testid="input-course-description" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="lecturerIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Lecturers</FormLabel>
+                    <MultiSelectCombobox
+                      options={staff.map(member => ({ value: member._id, label: member.name, description: member.title }))}
+                      value={field.value}
+                      onChange={field.onChange}
+                      placeholder="Select lecturers"
+                      searchPlaceholder="Search staff..."
+                      emptyMessage="No staff found."
+                      testId="select-course-lecturers"
+                    />
+                    <FormDescription>Lecturers are picked from the staff directory</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={closeForm}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-course">
+                  {saveMutation.isPending ? 'Saving...' : editingCourse ? 'Update Course' : 'Create Course'}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingCourse} onOpenChange={() => setDeletingCourse(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deletingCourse?.code}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The course will be removed from the catalogue. Its resources and events are kept but no longer linked to it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingCourse && deleteMutation.mutate(deletingCourse._id)}
+              className="bg-red-600 hover:bg-red-700"
+              disabled={deleteMutation.isPending}
+              data-testid="button-confirm-delete-course"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
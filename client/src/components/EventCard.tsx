@@ -1,8 +1,10 @@
 import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Calendar, Clock, MapPin, Users } from "lucide-react";
+import { Calendar, CalendarPlus, Clock, MapPin, Users } from "lucide-react";
 import { useState } from "react";
+import { formatNaira } from "@/lib/utils";
+import SaveButton from "@/components/SaveButton";
 
 interface EventCardProps {
   event: {
@@ -15,10 +17,12 @@ interface EventCardProps {
     type: 'workshop' | 'seminar' | 'conference' | 'social' | 'academic';
     capacity: number;
     registered: number;
-    price?: number;
+    price?: number; // In kobo
     image?: string;
     organizer: string;
     tags: string[];
+    cancelled?: boolean;
+    seriesSessionCount?: number; // Set when the card stands for a series, shown by its next session
   };
   isRegistered?: boolean;
   onRegister?: (id: string) => void;
@@ -55,6 +59,7 @@ export default function EventCard({ event, isRegistered = false, onRegister, onR
   const spotsLeft = event.capacity - event.registered;
   const isAlmostFull = spotsLeft <= 10 && spotsLeft > 0;
   const isFull = spotsLeft <= 0;
+  const isSeries = !!event.seriesSessionCount;
 
   return (
     <Card className="group overflow-hidden hover-elevate transition-all duration-200">
@@ -75,18 +80,26 @@ export default function EventCard({ event, isRegistered = false, onRegister, onR
           <Badge className={getTypeColor(event.type)} data-testid={`badge-type-${event.id}`}>
             {event.type}
           </Badge>
-          {event.price && (
-            <Badge variant="outline" className="text-green-600">
-              ₦{event.price}
-            </Badge>
-          )}
-          {!event.price && (
-            <Badge variant="outline" className="text-green-600">
-              Free
-            </Badge>
-          )}
+          <Badge variant="outline" className="text-green-600" data-testid={`badge-price-${event.id}`}>
+            {event.price ? formatNaira(event.price) : 'Free'}
+          </Badge>
         </div>
 
+        {(isSeries || event.cancelled) && (
+          <div className="flex flex-wrap gap-2">
+            {isSeries && (
+              <Badge variant="secondary" data-testid={`badge-series-${event.id}`}>
+                Series · {event.seriesSessionCount} sessions
+              </Badge>
+            )}
+            {event.cancelled && (
+              <Badge variant="destructive" data-testid={`badge-cancelled-${event.id}`}>
+                Cancelled
+              </Badge>
+            )}
+          </div>
+        )}
+
         {/* Title */}
         <h3 className="text-xl font-semibold line-clamp-2 group-hover:text-primary transition-colors">
           {event.title}
@@ -101,7 +114,9 @@ export default function EventCard({ event, isRegistered = false, onRegister, onR
         <div className="space-y-2">
           <div className="flex items-center gap-2 text-sm">
             <Calendar className="h-4 w-4 text-muted-foreground" />
-            <span data-testid={`text-date-${event.id}`}>{formatDate(event.date)}</span>
+            <span data-testid={`text-date-${event.id}`}>
+              {isSeries ? `Next: ${formatDate(event.date)}` : formatDate(event.date)}
+            </span>
           </div>
 
           <div className="flex items-center gap-2 text-sm">
@@ -150,7 +165,28 @@ export default function EventCard({ event, isRegistered = false, onRegister, onR
       <CardFooter className="flex flex-col sm:flex-row items-stretch sm:items-center gap-3 pt-0">
         {/* Action Buttons */}
         <div className="flex items-center gap-2 flex-1">
-          {!isRegistered && !isFull && (
+          {isSeries && !isRegistered && (
+            <Button
+              onClick={() => onReadMore?.(event.id)}
+              className="flex-1"
+              data-testid={`button-view-sessions-${event.id}`}
+            >
+              View Sessions
+            </Button>
+          )}
+
+          {event.cancelled && !isSeries && (
+            <Button
+              variant="outline"
+              className="flex-1"
+              disabled
+              data-testid={`button-cancelled-${event.id}`}
+            >
+              Cancelled
+            </Button>
+          )}
+
+          {!isRegistered && !isFull && !isSeries && !event.cancelled && (
             <Button
               onClick={handleRegister}
               className="flex-1"
@@ -171,7 +207,7 @@ export default function EventCard({ event, isRegistered = false, onRegister, onR
             </Button>
           )}
 
-          {isFull && !isRegistered && (
+          {isFull && !isRegistered && !isSeries && !event.cancelled && (
             <Button
               variant="outline"
               className="flex-1"
@@ -182,6 +218,20 @@ export default function EventCard({ event, isRegistered = false, onRegister, onR
             </Button>
           )}
 
+          <Button
+            variant="outline"
+            size="icon"
+            asChild
+            title="Add to calendar"
+            data-testid={`button-add-to-calendar-${event.id}`}
+          >
+            <a href={`/api/events/${event.id}/ics`} download aria-label="Add to calendar">
+              <CalendarPlus className="h-4 w-4" />
+            </a>
+          </Button>
+
+          <SaveButton itemType="event" itemId={event.id} variant="outline" size="icon" />
+
           <Button
             size="sm"
             onClick={() => onReadMore?.(event.id)}
@@ -0,0 +1,215 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CalendarRange } from "lucide-react";
+import type { Event, EventSeries } from "@shared/mongoSchema";
+
+type SeriesSession = Event & {
+  registrationStatus?: string;
+  isRegistered?: boolean;
+  isWaitlisted?: boolean;
+  paymentStatus?: 'paid' | 'refunded';
+};
+
+type SeriesWithSessions = EventSeries & { sessions: SeriesSession[] };
+
+const frequencyLabels: Record<EventSeries['recurrence']['frequency'], string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every two weeks',
+  custom: 'Multiple dates',
+};
+
+interface EventSeriesSessionsProps {
+  seriesId: string;
+  currentEventId: string;
+}
+
+export default function EventSeriesSessions({ seriesId, currentEventId }: EventSeriesSessionsProps) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { isAuthenticated } = useAuth();
+
+  const { data: series, isLoading } = useQuery<SeriesWithSessions>({
+    queryKey: ['/api/event-series', seriesId],
+  });
+
+  const invalidateRegistrations = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/event-series', seriesId] });
+    queryClient.invalidateQueries({ queryKey: ['/api/events'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/user/event-registrations'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/user/event-tickets'] });
+  };
+
+  const showError = (error: Error, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const sessionMutation = useMutation({
+    mutationFn: async ({ sessionId, register }: { sessionId: string; register: boolean }) => {
+      const res = await apiRequest(register ? 'POST' : 'DELETE', `/api/events/${sessionId}/register`);
+      return await res.json();
+    },
+    onSuccess: (data) => {
+      // Paid sessions hold the seat and send the user to checkout
+      if (data.checkoutUrl) {
+        window.location.href = data.checkoutUrl;
+        return;
+      }
+
+      invalidateRegistrations();
+      toast({ title: data.message });
+    },
+    onError: (error: Error) => showError(error, "Failed to update registration"),
+  });
+
+  const seriesMutation = useMutation({
+    mutationFn: async (register: boolean) => {
+      const res = await apiRequest(register ? 'POST' : 'DELETE', `/api/event-series/${seriesId}/register`);
+      return await res.json();
+    },
+    onSuccess: (data) => {
+      invalidateRegistrations();
+      toast({ title: data.message });
+    },
+    onError: (error: Error) => showError(error, "Failed to update series registration"),
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+
+  if (!series) {
+    return null;
+  }
+
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+  const isUpcoming = (session: SeriesSession) => new Date(session.date) >= startOfToday && !session.cancelled;
+  const hasRegistration = (session: SeriesSession) => !!session.registrationStatus;
+  // Paid registrations are cancelled through the organisers, who handle the refund
+  const canCancel = (session: SeriesSession) => hasRegistration(session) && session.paymentStatus !== 'paid';
+  const upcomingSessions = series.sessions.filter(isUpcoming);
+  // Each paid session goes through its own checkout
+  const isPaidSeries = upcomingSessions.some(session => session.price > 0);
+  const hasActiveRegistration = upcomingSessions.some(canCancel);
+  const isFullyRegistered = upcomingSessions.length > 0 && upcomingSessions.every(hasRegistration);
+
+  const requireLogin = () => {
+    toast({
+      title: "Login Required",
+      description: "Please login to register for events",
+      variant: "destructive",
+    });
+  };
+
+  return (
+    <Card className="mt-8" data-testid="card-series-sessions">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarRange className="w-5 h-5" />
+          Sessions in this series
+        </CardTitle>
+        <CardDescription>
+          {frequencyLabels[series.recurrence.frequency]} · {series.sessions.length} sessions · {upcomingSessions.length} upcoming
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {upcomingSessions.length > 0 && (
+          <div className="flex flex-col sm:flex-row gap-2">
+            {!isFullyRegistered && !isPaidSeries && (
+              <Button
+                onClick={() => isAuthenticated ? seriesMutation.mutate(true) : requireLogin()}
+                disabled={seriesMutation.isPending}
+                data-testid="button-register-series"
+              >
+                Register for all upcoming sessions
+              </Button>
+            )}
+            {hasActiveRegistration && (
+              <Button
+                variant="outline"
+                onClick={() => seriesMutation.mutate(false)}
+                disabled={seriesMutation.isPending}
+                data-testid="button-cancel-series"
+              >
+                Cancel all my upcoming sessions
+              </Button>
+            )}
+          </div>
+        )}
+
+        <div className="divide-y rounded-md border">
+          {series.sessions.map((session) => {
+            const isFull = (session.registeredCount ?? 0) >= session.capacity;
+            return (
+              <div
+                key={session._id}
+                className={`flex flex-col sm:flex-row sm:items-center gap-3 p-3 ${session._id === currentEventId ? 'bg-muted/50' : ''}`}
+                data-testid={`session-${session._id}`}
+              >
+                <button
+                  type="button"
+                  onClick={() => setLocation(`/events/${session._id}`)}
+                  className="flex-1 min-w-0 text-left"
+                >
+                  <p className="font-medium hover:underline">
+                    {new Date(session.date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' })}
+                  </p>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {session.time} · {session.location}
+                  </p>
+                </button>
+
+                <div className="flex items-center gap-2">
+                  {session.cancelled && <Badge variant="destructive">Cancelled</Badge>}
+                  {session.isRegistered && <Badge>Registered</Badge>}
+                  {session.isWaitlisted && <Badge variant="secondary">Waitlisted</Badge>}
+                  {session.registrationStatus === 'pending_payment' && <Badge variant="secondary">Awaiting payment</Badge>}
+                  {!session.cancelled && isFull && !hasRegistration(session) && (
+                    <Badge variant="outline" className="text-red-600">Full</Badge>
+                  )}
+
+                  {isUpcoming(session) && session.paymentStatus !== 'paid' && (
+                    canCancel(session) ? (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => sessionMutation.mutate({ sessionId: session._id!, register: false })}
+                        disabled={sessionMutation.isPending}
+                        data-testid={`button-cancel-session-${session._id}`}
+                      >
+                        Cancel
+                      </Button>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => isAuthenticated
+                          ? sessionMutation.mutate({ sessionId: session._id!, register: true })
+                          : requireLogin()}
+                        disabled={sessionMutation.isPending}
+                        data-testid={`button-register-session-${session._id}`}
+                      >
+                        {isFull ? 'Join waitlist' : 'Register'}
+                      </Button>
+                    )
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,101 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import QRCode from "qrcode";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Calendar, Clock, MapPin, Ticket } from "lucide-react";
+import type { EventRegistration } from "@shared/mongoSchema";
+
+interface EventTicket {
+  registration: EventRegistration;
+  ticketCode: string;
+  event: {
+    _id: string;
+    title: string;
+    date: string;
+    time: string;
+    location: string;
+  };
+}
+
+function TicketQrCode({ code }: { code: string }) {
+  const [dataUrl, setDataUrl] = useState<string>();
+
+  useEffect(() => {
+    QRCode.toDataURL(code, { width: 160, margin: 1 }).then(setDataUrl).catch(() => setDataUrl(undefined));
+  }, [code]);
+
+  if (!dataUrl) {
+    return <div className="w-32 h-32 bg-muted animate-pulse rounded" />;
+  }
+
+  return <img src={dataUrl} alt="Ticket QR code" className="w-32 h-32 rounded bg-white p-1" />;
+}
+
+export default function EventTickets() {
+  const [, setLocation] = useLocation();
+
+  const { data: tickets = [], isLoading } = useQuery<EventTicket[]>({
+    queryKey: ['/api/user/event-tickets'],
+  });
+
+  // Only show tickets for events that haven't finished yet
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+  const upcomingTickets = tickets.filter((ticket) => new Date(ticket.event.date) >= startOfToday);
+
+  if (isLoading || upcomingTickets.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card data-testid="card-event-tickets">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Ticket className="w-5 h-5" />
+          My Event Tickets
+        </CardTitle>
+        <CardDescription>Show the QR code at the entrance to check in</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {upcomingTickets.map((ticket) => (
+            <div
+              key={ticket.registration._id}
+              className="flex gap-4 rounded-lg border p-4"
+              data-testid={`ticket-${ticket.registration._id}`}
+            >
+              <TicketQrCode code={ticket.ticketCode} />
+              <div className="min-w-0 flex-1 space-y-1">
+                <button
+                  type="button"
+                  onClick={() => setLocation(`/events/${ticket.event._id}`)}
+                  className="text-left font-semibold hover:underline line-clamp-2"
+                >
+                  {ticket.event.title}
+                </button>
+                <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                  <Calendar className="w-3 h-3" />
+                  {new Date(ticket.event.date).toLocaleDateString()}
+                </p>
+                <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                  <Clock className="w-3 h-3" />
+                  {ticket.event.time}
+                </p>
+                <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                  <MapPin className="w-3 h-3" />
+                  {ticket.event.location}
+                </p>
+                {ticket.registration.status === 'attended' && (
+                  <Badge className="mt-1">Checked in</Badge>
+                )}
+                <p className="font-mono text-[10px] text-muted-foreground break-all">{ticket.ticketCode}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
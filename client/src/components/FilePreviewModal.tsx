@@ -1,26 +1,29 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { X, Download, ExternalLink, Loader2 } from "lucide-react";
-import { downloadFile, getPreviewUrl } from "@/lib/cloudinary";
+import { downloadResource, getResourcePreviewUrl } from "@/lib/resources";
 import { useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
 
 interface FilePreviewModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  fileUrl: string;
+  resourceId: string;
   fileName: string;
   fileType: string;
   title?: string;
+  // PDF page to open at
+  page?: number;
 }
 
 export default function FilePreviewModal({
   open,
   onOpenChange,
-  fileUrl,
+  resourceId,
   fileName,
   fileType,
-  title
+  title,
+  page
 }: FilePreviewModalProps) {
   const [isDownloading, setIsDownloading] = useState(false);
   const [isLoadingPreview, setIsLoadingPreview] = useState(true);
@@ -29,26 +32,25 @@ export default function FilePreviewModal({
 
   // Fetch signed preview URL when modal opens
   useEffect(() => {
-    if (open && fileUrl) {
+    if (open && resourceId) {
       setIsLoadingPreview(true);
-      getPreviewUrl(fileUrl)
+      getResourcePreviewUrl(resourceId)
         .then(signedUrl => {
           setPreviewUrl(signedUrl);
           setIsLoadingPreview(false);
         })
         .catch(error => {
           console.error('Failed to get preview URL:', error);
-          // Fallback to original URL
-          setPreviewUrl(fileUrl);
+          setPreviewUrl('');
           setIsLoadingPreview(false);
         });
     }
-  }, [open, fileUrl]);
+  }, [open, resourceId]);
 
   const handleDownload = async () => {
     setIsDownloading(true);
     try {
-      await downloadFile(fileUrl, fileName);
+      await downloadResource(resourceId, { fileName });
       toast({
         title: "Download Complete",
         description: `${fileName} has been downloaded successfully.`,
@@ -66,8 +68,7 @@ export default function FilePreviewModal({
   };
 
   const handleOpenInNewTab = () => {
-    // Use signed preview URL if available, otherwise fallback to original
-    window.open(previewUrl || fileUrl, '_blank');
+    window.open(previewUrl, '_blank');
   };
 
   const renderPreview = () => {
@@ -83,12 +84,23 @@ export default function FilePreviewModal({
       );
     }
 
+    // Signed in as someone without access, or the file couldn't be signed
+    if (!previewUrl) {
+      return (
+        <div className="w-full h-[60vh] flex items-center justify-center bg-muted rounded-md p-8 text-center">
+          <p className="text-sm text-muted-foreground">The preview could not be loaded. Please try again later.</p>
+        </div>
+      );
+    }
+
     // PDF files
     if (fileType === 'pdf' || fileName.toLowerCase().endsWith('.pdf')) {
       return (
         <div className="w-full h-[70vh] bg-muted rounded-md overflow-hidden">
+          {/* Keyed on the page so the viewer reloads at it; browsers' PDF viewers read #page */}
           <iframe
-            src={previewUrl}
+            key={page}
+            src={page ? `${previewUrl}#page=${page}` : previewUrl}
             className="w-full h-full border-0"
             title={title || fileName}
             data-testid="pdf-preview"
@@ -1,20 +1,26 @@
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
-import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Award,
   Trophy,
   Target,
-  BookOpen,
   MessageSquare,
   Download,
   Heart,
-  Users,
-  LucideIcon
+  Users
 } from "lucide-react";
 import PollVoter from "./PollVoter";
+import EventTickets from "./EventTickets";
+import MyCourses from "./MyCourses";
+import SavedItems from "./SavedItems";
+
+import { badgeIcons, type UserBadgeStatus } from "@/lib/badges";
 
 import type { User } from "@shared/mongoSchema";
 
@@ -25,47 +31,104 @@ interface GamificationDashboardProps {
 interface UserStats {
   level: number;
   xp: number;
+  levelStartXp: number;
+  nextLevelXp: number;
   xpToNext: number;
   totalBadges: number;
   totalComments: number;
   totalDownloads: number;
   blogLikes: number;
+  eventsAttended: number;
   streak: number;
-  recentAchievements?: Array<{
+  longestStreak: number;
+  recentAchievements: Array<{
+    action: string;
     title: string;
     time: string;
     xp: number;
   }>;
 }
 
-interface BadgeItem {
-  name: string;
-  description: string;
-  earned: boolean;
-  icon?: LucideIcon;
-}
+type LeaderboardPeriod = 'week' | 'month' | 'all';
 
 interface LeaderboardMember {
-  name: string;
-  avatar: string;
+  rank: number;
+  userId: string;
+  firstName: string;
+  lastName: string;
+  profileImageUrl?: string;
   level: number;
   xp: number;
 }
 
+interface Leaderboard {
+  period: LeaderboardPeriod;
+  entries: LeaderboardMember[];
+  currentUser?: LeaderboardMember;
+}
+
+const periodDescriptions: Record<LeaderboardPeriod, string> = {
+  week: "Top contributors over the last 7 days",
+  month: "Top contributors over the last 30 days",
+  all: "Top contributors of all time",
+};
+
+function LeaderboardRow({ member, isCurrentUser }: { member: LeaderboardMember; isCurrentUser: boolean }) {
+  return (
+    <div className={`flex items-center space-x-3 p-2 rounded-lg ${isCurrentUser ? 'bg-blue-50 dark:bg-blue-900/20 border border-blue-200' : ''
+      }`}>
+      <div className="flex items-center space-x-2">
+        <div className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold ${member.rank === 1 ? 'bg-yellow-500 text-white' :
+          member.rank === 2 ? 'bg-gray-400 text-white' :
+            member.rank === 3 ? 'bg-orange-500 text-white' :
+              'bg-gray-200 text-gray-700'
+          }`}>
+          {member.rank}
+        </div>
+        <Avatar className="w-8 h-8">
+          {member.profileImageUrl && <AvatarImage src={member.profileImageUrl} alt={member.firstName} />}
+          <AvatarFallback className="text-xs">{`${member.firstName?.[0] || ''}${member.lastName?.[0] || ''}`}</AvatarFallback>
+        </Avatar>
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="font-medium text-sm truncate">{member.firstName} {member.lastName}</p>
+        <p className="text-xs text-gray-600 dark:text-gray-400">
+          Level {member.level} • {member.xp} XP
+        </p>
+      </div>
+      {member.rank <= 3 && (
+        <Trophy className={`w-4 h-4 ${member.rank === 1 ? 'text-yellow-500' :
+          member.rank === 2 ? 'text-gray-400' :
+            'text-orange-500'
+          }`} />
+      )}
+    </div>
+  );
+}
+
 export default function GamificationDashboard({ user }: GamificationDashboardProps) {
+  const [period, setPeriod] = useState<LeaderboardPeriod>('week');
+
   const { data: userStats, isLoading: statsLoading, error: statsError } = useQuery<UserStats>({
     queryKey: ['/api/gamification/user-stats', user._id],
     refetchInterval: 30000,
     enabled: !!user._id
   });
 
-  const { data: leaderboard = [], isLoading: leaderboardLoading, error: leaderboardError } = useQuery<LeaderboardMember[]>({
-    queryKey: ['/api/gamification/leaderboard'],
+  const { data: leaderboard, isLoading: leaderboardLoading, error: leaderboardError } = useQuery<Leaderboard>({
+    queryKey: ['/api/gamification/leaderboard', period],
+    queryFn: async () => {
+      const response = await fetch(`/api/gamification/leaderboard?period=${period}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch leaderboard');
+      return response.json();
+    },
+    // Keep showing the last period while another loads
+    placeholderData: keepPreviousData,
     refetchInterval: 60000,
     enabled: !!user._id
   });
 
-  const { data: badges = [], isLoading: badgesLoading, error: badgesError } = useQuery<BadgeItem[]>({
+  const { data: badges = [], isLoading: badgesLoading, error: badgesError } = useQuery<UserBadgeStatus[]>({
     queryKey: ['/api/gamification/badges', user._id],
     refetchInterval: 60000,
     enabled: !!user._id
@@ -140,26 +203,14 @@ export default function GamificationDashboard({ user }: GamificationDashboardPro
     );
   }
 
-  const iconMapping: Record<string, LucideIcon> = {
-    "First Comment": MessageSquare,
-    "Resource Explorer": BookOpen,
-    "Active Participant": Users,
-    "Popular Contributor": Heart,
-    "Streak Master": Target,
-    "Scholar": Trophy,
-  };
-
-  const badgesWithIcons = badges.map((badge) => ({
-    ...badge,
-    icon: iconMapping[badge.name] || Award
-  }));
+  const levelXp = userStats.nextLevelXp - userStats.levelStartXp;
+  const progressToNext = levelXp > 0 ? ((userStats.xp - userStats.levelStartXp) / levelXp) * 100 : 100;
 
-  const progressToNext = userStats.xpToNext > 0 ? ((1000 - userStats.xpToNext) / 1000) * 100 : 100;
-
-  const recentAchievements = userStats.recentAchievements || [
-    { title: "Welcome to Nsasa!", time: "Just now", xp: 10 },
-    { title: "Explore the platform", time: "Ongoing", xp: 50 },
-  ];
+  const leaderboardEntries = leaderboard?.entries ?? [];
+  // The viewer's own place is shown under the top list when they're outside it
+  const ownPlace = leaderboard?.currentUser && !leaderboardEntries.some(member => member.userId === leaderboard.currentUser!.userId)
+    ? leaderboard.currentUser
+    : undefined;
 
   return (
     <div className="space-y-6">
@@ -180,7 +231,7 @@ export default function GamificationDashboard({ user }: GamificationDashboardPro
               <div>
                 <h3 className="text-2xl font-bold">Level {userStats.level}</h3>
                 <p className="text-purple-100">
-                  {userStats.xp} / {userStats.xpToNext} XP
+                  {userStats.xp} / {userStats.nextLevelXp} XP · {userStats.xpToNext} XP to level {userStats.level + 1}
                 </p>
                 <Progress value={progressToNext} className="w-48 h-2 mt-2 bg-white/20" />
               </div>
@@ -221,13 +272,24 @@ export default function GamificationDashboard({ user }: GamificationDashboardPro
                 </div>
                 <Badge variant="secondary">{userStats.blogLikes}</Badge>
               </div>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <Users className="w-5 h-5 text-orange-600" />
+                  <span>Events Attended</span>
+                </div>
+                <Badge variant="secondary">{userStats.eventsAttended}</Badge>
+              </div>
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-2">
                   <Target className="w-5 h-5 text-purple-600" />
                   <span>Current Streak</span>
                 </div>
-                <Badge variant="outline" className="text-purple-600 border-purple-600">
-                  {userStats.streak} days
+                <Badge
+                  variant="outline"
+                  className="text-purple-600 border-purple-600"
+                  title={`Best streak: ${userStats.longestStreak} ${userStats.longestStreak === 1 ? 'day' : 'days'}`}
+                >
+                  {userStats.streak} {userStats.streak === 1 ? 'day' : 'days'}
                 </Badge>
               </div>
             </CardContent>
@@ -239,11 +301,18 @@ export default function GamificationDashboard({ user }: GamificationDashboardPro
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
-                {recentAchievements.map((achievement, index) => (
+                {userStats.recentAchievements.length === 0 && (
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Comment, vote in polls, download resources and attend events to earn XP.
+                  </p>
+                )}
+                {userStats.recentAchievements.map((achievement, index) => (
                   <div key={index} className="flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-800 rounded-lg">
                     <div>
                       <p className="font-medium text-sm">{achievement.title}</p>
-                      <p className="text-xs text-gray-600 dark:text-gray-400">{achievement.time}</p>
+                      <p className="text-xs text-gray-600 dark:text-gray-400">
+                        {formatDistanceToNow(new Date(achievement.time), { addSuffix: true })}
+                      </p>
                     </div>
                     <Badge className="bg-green-100 text-green-700 border-green-200">
                       +{achievement.xp} XP
@@ -262,11 +331,11 @@ export default function GamificationDashboard({ user }: GamificationDashboardPro
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-2 gap-4">
-              {badgesWithIcons.map((badge, index) => {
-                const Icon = badge.icon;
+              {badges.map((badge) => {
+                const Icon = badgeIcons[badge.icon] || Award;
                 return (
                   <div
-                    key={index}
+                    key={badge._id}
                     className={`p-4 rounded-lg border-2 text-center transition-all ${badge.earned
                       ? 'border-blue-200 bg-blue-50 dark:bg-blue-900/20'
                       : 'border-gray-200 bg-gray-50 dark:bg-gray-800 opacity-50'
@@ -281,6 +350,11 @@ export default function GamificationDashboard({ user }: GamificationDashboardPro
                     <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
                       {badge.description}
                     </p>
+                    {badge.earnedAt && (
+                      <p className="text-xs font-medium text-blue-700 dark:text-blue-300 mt-2">
+                        Earned {format(new Date(badge.earnedAt), 'd MMM yyyy')}
+                      </p>
+                    )}
                   </div>
                 );
               })}
@@ -291,44 +365,39 @@ export default function GamificationDashboard({ user }: GamificationDashboardPro
         <Card data-testid="card-leaderboard">
           <CardHeader>
             <CardTitle>Department Leaderboard</CardTitle>
-            <CardDescription>Top contributors this month</CardDescription>
+            <CardDescription>{periodDescriptions[period]}</CardDescription>
+            <Tabs value={period} onValueChange={(value) => setPeriod(value as LeaderboardPeriod)}>
+              <TabsList className="grid w-full grid-cols-3">
+                <TabsTrigger value="week" data-testid="tab-leaderboard-week">Week</TabsTrigger>
+                <TabsTrigger value="month" data-testid="tab-leaderboard-month">Month</TabsTrigger>
+                <TabsTrigger value="all" data-testid="tab-leaderboard-all">All time</TabsTrigger>
+              </TabsList>
+            </Tabs>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {leaderboard.map((member, index) => (
-                <div key={index} className={`flex items-center space-x-3 p-2 rounded-lg ${user.firstName && member.name.includes(user.firstName) ? 'bg-blue-50 dark:bg-blue-900/20 border border-blue-200' : ''
-                  }`}>
-                  <div className="flex items-center space-x-2">
-                    <div className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold ${index === 0 ? 'bg-yellow-500 text-white' :
-                      index === 1 ? 'bg-gray-400 text-white' :
-                        index === 2 ? 'bg-orange-500 text-white' :
-                          'bg-gray-200 text-gray-700'
-                      }`}>
-                      {index + 1}
-                    </div>
-                    <Avatar className="w-8 h-8">
-                      <AvatarFallback className="text-xs">{member.avatar}</AvatarFallback>
-                    </Avatar>
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <p className="font-medium text-sm truncate">{member.name}</p>
-                    <p className="text-xs text-gray-600 dark:text-gray-400">
-                      Level {member.level} • {member.xp} XP
-                    </p>
-                  </div>
-                  {index < 3 && (
-                    <Trophy className={`w-4 h-4 ${index === 0 ? 'text-yellow-500' :
-                      index === 1 ? 'text-gray-400' :
-                        'text-orange-500'
-                      }`} />
-                  )}
-                </div>
+              {leaderboardEntries.length === 0 && (
+                <p className="text-sm text-gray-600 dark:text-gray-400">No one has earned XP in this period yet.</p>
+              )}
+              {leaderboardEntries.map((member) => (
+                <LeaderboardRow key={member.userId} member={member} isCurrentUser={member.userId === user._id} />
               ))}
+              {ownPlace && (
+                <div className="border-t pt-4">
+                  <LeaderboardRow member={ownPlace} isCurrentUser />
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
       </div>
 
+      <MyCourses />
+
+      <SavedItems />
+
+      <EventTickets />
+
       <PollVoter showOnlyActive={true} />
     </div>
   );
@@ -1,11 +1,11 @@
-import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from "@/components/ui/dropdown-menu";
-import { Bell, Search, Menu, User, Settings, LogOut, Home, BookOpen, Calendar, Users, FileText, Phone, Info, LayoutDashboard, ChevronDown, Compass } from "lucide-react";
+import { Menu, User, Settings, LogOut, Home, BookOpen, Calendar, Users, FileText, Phone, Info, LayoutDashboard, ChevronDown, Compass, GraduationCap } from "lucide-react";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
-import { Input } from "@/components/ui/input";
+import NotificationBell from "@/components/NotificationBell";
+import SearchBox from "@/components/SearchBox";
 import logoUrl from "@assets/WhatsApp Image 2025-09-24 at 15.46.00_1759342497956.jpeg";
 
 interface HeaderProps {
@@ -19,7 +19,6 @@ interface HeaderProps {
 
 export default function Header({ user, onAuthAction }: HeaderProps) {
   const [location, setLocation] = useLocation();
-  const [searchQuery, setSearchQuery] = useState("");
 
   // Primary navigation items (always visible)
   const primaryNav = [
@@ -34,15 +33,9 @@ export default function Header({ user, onAuthAction }: HeaderProps) {
     { path: "/events", label: "Events", icon: Calendar, description: "Join our community events" },
     { path: "/resources", label: "Resources", icon: FileText, description: "Access learning materials" },
     { path: "/staff", label: "Staff", icon: Users, description: "Meet our faculty" },
+    { path: "/courses", label: "Courses", icon: GraduationCap, description: "Browse the course catalogue" },
   ];
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (searchQuery.trim()) {
-      setLocation(`/blogs?search=${encodeURIComponent(searchQuery.trim())}`);
-    }
-  };
-
   return (
     <header className="sticky top-0 z-50 w-full border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="container mx-auto px-4">
@@ -113,27 +106,17 @@ export default function Header({ user, onAuthAction }: HeaderProps) {
           </nav>
 
           {/* Search Bar */}
-          <form onSubmit={handleSearch} className="hidden md:flex items-center gap-2">
-            <div className="relative">
-              <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-              <Input
-                type="search"
-                placeholder="Search blogs, events..."
-                className="pl-8 w-64"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                data-testid="input-search"
-              />
-            </div>
-          </form>
+          <SearchBox
+            placeholder="Search blogs, events, staff..."
+            className="hidden md:block"
+            inputClassName="w-64"
+          />
 
           {/* User Actions */}
           <div className="flex items-center gap-2 flex-shrink-0">
             {user ? (
               <>
-                <Button variant="ghost" size="icon" data-testid="button-notifications">
-                  <Bell className="h-4 w-4" />
-                </Button>
+                <NotificationBell />
 
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
@@ -218,19 +201,7 @@ export default function Header({ user, onAuthAction }: HeaderProps) {
                   )}
 
                   {/* Mobile Search */}
-                  <form onSubmit={handleSearch} className="px-2">
-                    <div className="relative">
-                      <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                      <Input
-                        type="search"
-                        placeholder="Search..."
-                        className="pl-8"
-                        value={searchQuery}
-                        onChange={(e) => setSearchQuery(e.target.value)}
-                        data-testid="mobile-input-search"
-                      />
-                    </div>
-                  </form>
+                  <SearchBox className="mx-2" testId="mobile-input-search" />
 
                   {/* Mobile Navigation */}
                   <nav className="flex flex-col gap-1 px-2">
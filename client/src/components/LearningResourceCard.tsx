@@ -11,12 +11,12 @@ import {
   BookOpen,
   Calendar,
   User,
-  Star,
-  Heart
+  Star
 } from "lucide-react";
 import { useState } from "react";
-import { downloadFile } from "@/lib/cloudinary";
+import { downloadResource } from "@/lib/resources";
 import { useToast } from "@/hooks/use-toast";
+import SaveButton from "@/components/SaveButton";
 
 interface LearningResourceCardProps {
   resource: {
@@ -34,7 +34,6 @@ interface LearningResourceCardProps {
     difficulty: '100l' | '200l' | '300l' | '400l';
     thumbnail?: string;
     previewAvailable: boolean;
-    fileUrl: string;
     fileName: string;
   };
   onDownload?: (id: string) => void;
@@ -54,7 +53,6 @@ export default function LearningResourceCard({
 }: LearningResourceCardProps) {
   const [isDownloading, setIsDownloading] = useState(false);
   const [downloadProgress, setDownloadProgress] = useState(0);
-  const [isFavorited, setIsFavorited] = useState(false);
   const [userRating, setUserRating] = useState(0);
   const { toast } = useToast();
 
@@ -95,7 +93,7 @@ export default function LearningResourceCard({
     }, 100);
 
     try {
-      await downloadFile(resource.fileUrl, resource.fileName || resource.title);
+      await downloadResource(resource.id, { fileName: resource.fileName || resource.title });
       setDownloadProgress(100);
       onDownload?.(resource.id);
       console.log(`Downloaded resource: ${resource.title}`);
@@ -118,13 +116,6 @@ export default function LearningResourceCard({
     console.log(`Preview resource: ${resource.title}`);
   };
 
-  const handleFavorite = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    setIsFavorited(!isFavorited);
-    onFavorite?.(resource.id);
-    console.log(`${isFavorited ? 'Unfavorited' : 'Favorited'} resource: ${resource.title}`);
-  };
-
   const handleRating = async (e: React.MouseEvent, rating: number) => {
     e.stopPropagation();
     setUserRating(rating);
@@ -295,15 +286,7 @@ export default function LearningResourceCard({
               {isDownloading ? 'Downloading...' : 'Download'}
             </Button>
 
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={handleFavorite}
-              className={isFavorited ? 'text-red-500' : ''}
-              data-testid={`button-favorite-${resource.id}`}
-            >
-              <Heart className={`h-4 w-4 ${isFavorited ? 'fill-current' : ''}`} />
-            </Button>
+            <SaveButton itemType="resource" itemId={resource.id} size="icon" onSavedChange={() => onFavorite?.(resource.id)} />
           </div>
 
           {resource.previewAvailable && (
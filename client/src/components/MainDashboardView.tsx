@@ -1,15 +1,27 @@
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useAuth } from "@/hooks/useAuth";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, useInfiniteQuery } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { formatNaira } from "@/lib/utils";
+import { courseLevelLabels, type CourseWithLecturers } from "@/lib/courses";
+import { resourceVisibilityLabels } from "@/lib/resources";
 import { useToast } from "@/hooks/use-toast";
+import { useDebounce } from "@/hooks/use-debounce";
 import { ImageUpload } from "@/components/ui/image-upload";
 import { MultipleImageUpload } from "@/components/ui/multiple-image-upload";
 import AnalyticsDashboard from "./AnalyticsDashboard";
 import GamificationDashboard from "./GamificationDashboard";
 import AdminDashboard, { LeaderboardContent, BlogModerationContent } from "./AdminDashboard";
 import PollManagement from "./PollManagement";
+import ContactInbox from "./ContactInbox";
+import ReviewModeration from "./ReviewModeration";
 import StudentDashboard from "./StudentDashboard";
+import QrScanner, { isQrScanningSupported } from "./QrScanner";
+import EventTickets from "./EventTickets";
+import CourseManagement from "./CourseManagement";
+import BlogRevisionHistory from "./BlogRevisionHistory";
+import RichTextEditor from "./RichTextEditor";
+import MultiSelectCombobox from "./MultiSelectCombobox";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -24,11 +36,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
-import { Plus, Edit, Trash2, FileText, Calendar, Eye, Heart, Star, Download, MapPin, Clock, Users, Search } from "lucide-react";
+import { Plus, Edit, Trash2, FileText, Calendar, Eye, Heart, Star, Download, MapPin, Clock, Users, Search, QrCode, Camera, CheckCircle2, XCircle, CalendarRange, Banknote, History } from "lucide-react";
 import { useForm } from "react-hook-form";
+import { format } from "date-fns";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { blogPostSchema, eventSchema, learningResourceSchema, staffProfileSchema, staffProfileBaseSchema, userSchema } from "@shared/mongoSchema";
+import { blogPostSchema, eventSchema, type BlogPostStatus, learningResourceSchema, staffProfileSchema, staffProfileBaseSchema, userSchema, type NotificationPreferences, type EventRecurrence, type EventSeries, type EventListing } from "@shared/mongoSchema";
 
 // Use shared types
 type BlogPost = z.infer<typeof blogPostSchema>;
@@ -45,21 +58,61 @@ const blogFormSchema = blogPostSchema.omit({
   updatedAt: true,
   likes: true,
   views: true,
-  readTime: true
+  readTime: true,
+  approvalStatus: true,
+  rejectionReason: true,
+  status: true,
+  published: true,
+  publishAt: true,
+  publishedAt: true,
+  excerpt: true
 }).extend({
+  content: z.string().min(1, "Content is required"),
   tags: z.string().optional(),
   imageUrl: z.string().url("Invalid URL").optional().or(z.literal("")),
-  imageUrls: z.array(z.string()).optional().default([])
+  imageUrls: z.array(z.string()).optional().default([]),
+  publishAt: z.string().optional() // datetime-local value, in the browser's time zone
 });
 
 type BlogFormData = z.infer<typeof blogFormSchema>;
 
+// A stored date as the value of a datetime-local input, in the browser's time zone
+function toDateTimeLocal(date?: Date | string): string {
+  return date ? format(new Date(date), "yyyy-MM-dd'T'HH:mm") : "";
+}
+
+const blogStatusLabels: Record<BlogPostStatus, string> = {
+  draft: "Draft",
+  submitted: "Awaiting Approval",
+  scheduled: "Scheduled",
+  published: "Published",
+};
+
+// What saving a post did, for the toast after the form closes
+function blogSavedDescription(blog: BlogPost): string {
+  switch (blog.status) {
+    case 'draft':
+      return "Your draft has been saved.";
+    case 'scheduled':
+      return `Your post will be published on ${format(new Date(blog.publishAt!), "PPp")}.`;
+    case 'submitted':
+      return "Your post has been submitted for approval.";
+    default:
+      return "Your blog post has been published.";
+  }
+}
+
 // Event form validation schema
 const eventFormSchema = eventSchema.omit({
   _id: true,
   organizerId: true,
   createdAt: true,
-  updatedAt: true
+  updatedAt: true,
+  registeredCount: true,
+  seriesId: true,
+  occurrenceDate: true,
+  overriddenFields: true,
+  cancelled: true
 }).extend({
   date: z.string().min(1, "Date is required"), // Transform Date to string for form input
   tags: z.string().optional(), // Transform array to comma-separated string for form input
@@ -69,6 +122,16 @@ const eventFormSchema = eventSchema.omit({
 
 type EventFormData = z.infer<typeof eventFormSchema>;
 
+type RepeatOption = 'none' | EventRecurrence['frequency'];
+
+// How the event form's submission should be saved
+interface EventFormSubmitOptions {
+  // Set when creating a series or editing a whole series
+  recurrence?: EventRecurrence;
+  // Editing a session of a series can change just that session or the whole series
+  scope: 'event' | 'series';
+}
+
 // Learning Resource form validation schema
 const resourceFormSchema = learningResourceSchema.omit({
   _id: true,
@@ -81,11 +144,26 @@ const resourceFormSchema = learningResourceSchema.omit({
 }).extend({
   tags: z.string().optional(), // Transform array to comma-separated string for form input
   fileUrl: z.string().url("File URL is required").min(1, "File is required"),
-  thumbnailUrl: z.string().url("Invalid URL").optional().or(z.literal(""))
+  thumbnailUrl: z.string().url("Invalid URL").optional().or(z.literal("")),
+  changelog: z.string().max(1000).optional() // Saved with the new version when the file is replaced
+}).refine(data => data.visibility !== 'levels' || data.allowedLevels.length > 0, {
+  message: "Choose at least one level",
+  path: ['allowedLevels']
 });
 
+const levelOptions = Object.entries(courseLevelLabels).map(([value, label]) => ({ value, label }));
+
 type ResourceFormData = z.infer<typeof resourceFormSchema>;
 
+// Course choices for linking resources and events to courses
+function useCourseOptions(enabled: boolean) {
+  const { data: courses = [] } = useQuery<CourseWithLecturers[]>({
+    queryKey: ['/api/courses'],
+    enabled
+  });
+  return courses.map(course => ({ value: course._id, label: course.code, description: course.title }));
+}
+
 // Staff Profile form validation schema
 const staffFormSchema = staffProfileBaseSchema.omit({
   _id: true,
@@ -176,6 +254,8 @@ function AlumniDashboard({ user }: { user: User }) {
           </CardHeader>
         </Card>
       </div>
+
+      <EventTickets />
     </div>
   );
 }
@@ -252,14 +332,14 @@ function BlogFormModal({
     resolver: zodResolver(blogFormSchema),
     defaultValues: {
       title: blog?.title || "",
-      excerpt: blog?.excerpt || "",
       content: blog?.content || "",
       category: blog?.category || "",
       tags: blog?.tags?.join(", ") || "",
       imageUrl: blog?.imageUrl || "",
       imageUrls: blog?.imageUrls || [],
-      published: blog?.published || false,
-      featured: blog?.featured || false
+      featured: blog?.featured || false,
+      publishAt: toDateTimeLocal(blog?.publishAt),
+      notifySubscribers: blog?.notifySubscribers || false
     }
   });
 
@@ -267,23 +347,32 @@ function BlogFormModal({
   useEffect(() => {
     form.reset({
       title: blog?.title || "",
-      excerpt: blog?.excerpt || "",
       content: blog?.content || "",
       category: blog?.category || "",
       tags: blog?.tags?.join(", ") || "",
       imageUrl: blog?.imageUrl || "",
       imageUrls: blog?.imageUrls || [],
-      published: blog?.published || false,
-      featured: blog?.featured || false
+      featured: blog?.featured || false,
+      publishAt: toDateTimeLocal(blog?.publishAt),
+      notifySubscribers: blog?.notifySubscribers || false
     });
   }, [blog, form]);
 
-  const handleSubmit = (data: BlogFormData) => {
+  const handleSubmit = (data: BlogFormData, status: BlogPostStatus) => {
+    const publishAt = data.publishAt ? new Date(data.publishAt) : undefined;
+    if (status === 'scheduled' && (!publishAt || publishAt.getTime() <= Date.now())) {
+      form.setError("publishAt", { message: "Choose a time in the future to schedule the post" });
+      return;
+    }
+
     const submitData = {
       ...data,
+      status,
       tags: data.tags ? data.tags.split(",").map(tag => tag.trim()).filter(Boolean) : [],
       imageUrl: data.imageUrl || undefined,
-      imageUrls: data.imageUrls || []
+      imageUrls: data.imageUrls || [],
+      publishAt: status === 'scheduled' ? publishAt?.toISOString() : undefined,
+      notifySubscribers: status === 'scheduled' ? data.notifySubscribers : undefined
     };
     onSubmit(submitData);
   };
@@ -296,7 +385,7 @@ function BlogFormModal({
         </DialogHeader>
 
         <Form {...form}>
-          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+          <form onSubmit={form.handleSubmit(data => handleSubmit(data, 'published'))} className="space-y-6">
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -397,20 +486,6 @@ function BlogFormModal({
               )}
             />
 
-            <FormField
-              control={form.control}
-              name="excerpt"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Excerpt</FormLabel>
-                  <FormControl>
-                    <Textarea placeholder="Brief description of your blog post..." rows={3} {...field} data-testid="textarea-blog-excerpt" />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
             <FormField
               control={form.control}
               name="content"
@@ -418,36 +493,54 @@ function BlogFormModal({
                 <FormItem>
                   <FormLabel>Content *</FormLabel>
                   <FormControl>
-                    <Textarea
+                    <RichTextEditor
+                      value={field.value}
+                      onChange={field.onChange}
                       placeholder="Write your blog content here..."
-                      rows={10}
-                      {...field}
-                      data-testid="textarea-blog-content"
+                      data-testid="editor-blog-content"
                     />
                   </FormControl>
+                  <FormDescription>The excerpt and read time are worked out from the content</FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
             />
 
-            <div className="flex flex-col sm:flex-row gap-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-start">
               <FormField
                 control={form.control}
-                name="published"
+                name="publishAt"
                 render={({ field }) => (
-                  <FormItem className="flex items-center space-x-2">
+                  <FormItem>
+                    <FormLabel>Publish At</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} data-testid="input-blog-publish-at" />
+                    </FormControl>
+                    <FormDescription>Used when the post is scheduled</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="notifySubscribers"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 sm:pt-8">
                     <FormControl>
                       <Switch
-                        checked={field.value}
+                        checked={field.value || false}
                         onCheckedChange={field.onChange}
-                        data-testid="switch-blog-published"
+                        data-testid="switch-blog-notify-subscribers"
                       />
                     </FormControl>
-                    <FormLabel>Published</FormLabel>
+                    <FormLabel>Email newsletter subscribers when it goes live</FormLabel>
                   </FormItem>
                 )}
               />
+            </div>
 
+            <div className="flex flex-col sm:flex-row gap-4">
               <FormField
                 control={form.control}
                 name="featured"
@@ -476,13 +569,34 @@ function BlogFormModal({
               >
                 Cancel
               </Button>
+              <Button
+                type="button"
+                variant="outline"
+                disabled={isLoading}
+                onClick={form.handleSubmit(data => handleSubmit(data, 'draft'))}
+                className="flex-1 sm:flex-none"
+                data-testid="button-save-blog-draft"
+              >
+                Save Draft
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                disabled={isLoading}
+                onClick={form.handleSubmit(data => handleSubmit(data, 'scheduled'))}
+                className="flex-1 sm:flex-none"
+                data-testid="button-schedule-blog"
+              >
+                <Clock className="w-4 h-4 mr-2" />
+                Schedule
+              </Button>
               <Button
                 type="submit"
                 disabled={isLoading}
                 className="flex-1 sm:flex-none"
                 data-testid="button-submit-blog"
               >
-                {isLoading ? "Saving..." : blog ? "Update Blog" : "Create Blog"}
+                {isLoading ? "Saving..." : blog?.status === 'published' ? "Update Blog" : "Publish Now"}
               </Button>
             </div>
           </form>
@@ -608,9 +722,25 @@ function EventFormModal({
   isOpen: boolean;
   onClose: () => void;
   event: Event | null;
-  onSubmit: (data: any) => void;
+  onSubmit: (data: any, options: EventFormSubmitOptions) => void;
   isLoading: boolean;
 }) {
+  const isSeriesSession = !!event?.seriesId;
+  const eventDate = event?.date ? new Date(event.date).toISOString().split('T')[0] : "";
+  const [scope, setScope] = useState<EventFormSubmitOptions['scope']>('event');
+  const [repeat, setRepeat] = useState<RepeatOption>('none');
+  const [endMode, setEndMode] = useState<'date' | 'count'>('count');
+  const [endDate, setEndDate] = useState("");
+  const [sessionCount, setSessionCount] = useState(4);
+  const [extraDates, setExtraDates] = useState<string[]>([]);
+
+  const { data: series } = useQuery<EventSeries>({
+    queryKey: ['/api/event-series', event?.seriesId],
+    enabled: isOpen && isSeriesSession
+  });
+
+  const courseOptions = useCourseOptions(isOpen);
+
   const form = useForm<EventFormData>({
     resolver: zodResolver(eventFormSchema),
     defaultValues: {
@@ -621,8 +751,9 @@ function EventFormModal({
       location: event?.location || "",
       type: event?.type || 'workshop',
       capacity: event?.capacity || 50,
-      price: event?.price || 0,
+      price: (event?.price || 0) / 100,
       tags: event?.tags?.join(", ") || "",
+      courseIds: event?.courseIds || [],
       imageUrl: event?.imageUrl || "",
       videoUrl: event?.videoUrl || ""
     }
@@ -638,22 +769,68 @@ function EventFormModal({
       location: event?.location || "",
       type: event?.type || 'workshop',
       capacity: event?.capacity || 50,
-      price: event?.price || 0,
+      price: (event?.price || 0) / 100,
       tags: event?.tags?.join(", ") || "",
+      courseIds: event?.courseIds || [],
       imageUrl: event?.imageUrl || "",
       videoUrl: event?.videoUrl || ""
     });
+    setScope('event');
+    setRepeat('none');
+    setEndMode('count');
+    setEndDate("");
+    setSessionCount(4);
+    setExtraDates([]);
   }, [event, form]);
 
+  // Editing the whole series starts from its current schedule
+  useEffect(() => {
+    if (scope !== 'series' || !series) return;
+
+    const { recurrence } = series;
+    const [firstDate, ...otherDates] = recurrence.frequency === 'custom' ? recurrence.dates || [] : [recurrence.startDate || ""];
+    setRepeat(recurrence.frequency);
+    setEndMode(recurrence.endDate ? 'date' : 'count');
+    setEndDate(recurrence.endDate || "");
+    setSessionCount(recurrence.count || 4);
+    setExtraDates(recurrence.frequency === 'custom' ? otherDates : []);
+    form.setValue('date', firstDate || eventDate);
+  }, [scope, series, form, eventDate]);
+
+  const handleScopeChange = (value: EventFormSubmitOptions['scope']) => {
+    setScope(value);
+    if (value === 'event') {
+      setRepeat('none');
+      form.setValue('date', eventDate);
+    }
+  };
+
+  const showSchedule = !event || scope === 'series';
+
+  const buildRecurrence = (startDate: string): EventRecurrence | undefined => {
+    if (repeat === 'none') return undefined;
+    if (repeat === 'custom') {
+      return { frequency: 'custom', dates: [startDate, ...extraDates.filter(Boolean)] };
+    }
+    return endMode === 'date'
+      ? { frequency: repeat, startDate, endDate }
+      : { frequency: repeat, startDate, count: sessionCount };
+  };
+
   const handleSubmit = (data: EventFormData) => {
     const submitData = {
       ...data,
       date: new Date(data.date),
+      // Prices are stored in kobo
+      price: Math.round((data.price || 0) * 100),
       tags: data.tags ? data.tags.split(",").map(tag => tag.trim()).filter(Boolean) : [],
       imageUrl: data.imageUrl || undefined,
       videoUrl: data.videoUrl || undefined
     };
-    onSubmit(submitData);
+    onSubmit(submitData, {
+      recurrence: showSchedule ? buildRecurrence(data.date) : undefined,
+      scope: isSeriesSession ? scope : 'event'
+    });
   };
 
   return (
@@ -665,6 +842,26 @@ function EventFormModal({
 
         <Form {...form}>
           <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+            {isSeriesSession && (
+              <div className="space-y-2 rounded-md border p-4">
+                <Label>Apply changes to</Label>
+                <Select value={scope} onValueChange={(value) => handleScopeChange(value as EventFormSubmitOptions['scope'])}>
+                  <SelectTrigger data-testid="select-edit-scope">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="event">This session only</SelectItem>
+                    <SelectItem value="series">All upcoming sessions in the series</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {scope === 'event'
+                    ? "Changes made here are kept even if the series is edited later."
+                    : "Sessions that were edited individually keep their own changes. Past sessions are not changed."}
+                </p>
+              </div>
+            )}
+
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -710,7 +907,7 @@ function EventFormModal({
                 name="date"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Date *</FormLabel>
+                    <FormLabel>{repeat === 'none' ? "Date *" : repeat === 'custom' ? "First Date *" : "Starts On *"}</FormLabel>
                     <FormControl>
                       <Input type="date" {...field} data-testid="input-event-date" />
                     </FormControl>
@@ -768,8 +965,9 @@ function EventFormModal({
                   <FormItem>
                     <FormLabel>Amount in Naira</FormLabel>
                     <FormControl>
-                      <Input type="number" placeholder="0" {...field} onChange={e => field.onChange(parseInt(e.target.value))} data-testid="input-event-price" />
+                      <Input type="number" min="0" step="0.01" placeholder="0" {...field} onChange={e => field.onChange(parseFloat(e.target.value) || 0)} data-testid="input-event-price" />
                     </FormControl>
+                    <FormDescription>Leave at 0 for a free event. Paid events take payment when people register.</FormDescription>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -788,8 +986,130 @@ function EventFormModal({
                   </FormItem>
                 )}
               />
+
+              <FormField
+                control={form.control}
+                name="courseIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Related Courses</FormLabel>
+                    <FormControl>
+                      <MultiSelectCombobox
+                        options={courseOptions}
+                        value={field.value || []}
+                        onChange={field.onChange}
+                        placeholder="Link to courses..."
+                        searchPlaceholder="Search courses..."
+                        emptyMessage="No courses found."
+                        testId="select-event-courses"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             </div>
 
+            {showSchedule && (
+              <div className="space-y-4 rounded-md border p-4">
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Repeats</Label>
+                    <Select value={repeat} onValueChange={(value) => setRepeat(value as RepeatOption)}>
+                      <SelectTrigger data-testid="select-event-repeat">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {!event && <SelectItem value="none">Does not repeat</SelectItem>}
+                        <SelectItem value="weekly">Weekly</SelectItem>
+                        <SelectItem value="biweekly">Every two weeks</SelectItem>
+                        <SelectItem value="custom">On specific dates</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {(repeat === 'weekly' || repeat === 'biweekly') && (
+                    <div className="space-y-2">
+                      <Label>Ends</Label>
+                      <div className="flex gap-2">
+                        <Select value={endMode} onValueChange={(value) => setEndMode(value as 'date' | 'count')}>
+                          <SelectTrigger className="w-40" data-testid="select-event-repeat-end">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="count">After</SelectItem>
+                            <SelectItem value="date">On date</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        {endMode === 'count' ? (
+                          <Input
+                            type="number"
+                            min={1}
+                            max={52}
+                            value={sessionCount}
+                            onChange={(e) => setSessionCount(parseInt(e.target.value) || 1)}
+                            aria-label="Number of sessions"
+                            data-testid="input-event-session-count"
+                          />
+                        ) : (
+                          <Input
+                            type="date"
+                            value={endDate}
+                            onChange={(e) => setEndDate(e.target.value)}
+                            required
+                            aria-label="End date"
+                            data-testid="input-event-end-date"
+                          />
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {repeat === 'custom' && (
+                  <div className="space-y-2">
+                    <Label>Other dates</Label>
+                    {extraDates.map((date, index) => (
+                      <div key={index} className="flex gap-2">
+                        <Input
+                          type="date"
+                          value={date}
+                          onChange={(e) => setExtraDates(dates => dates.map((d, i) => i === index ? e.target.value : d))}
+                          required
+                          data-testid={`input-event-extra-date-${index}`}
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setExtraDates(dates => dates.filter((_, i) => i !== index))}
+                          aria-label="Remove date"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setExtraDates(dates => [...dates, ""])}
+                      data-testid="button-add-event-date"
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add date
+                    </Button>
+                  </div>
+                )}
+
+                {repeat !== 'none' && (
+                  <p className="text-xs text-muted-foreground">
+                    Each date becomes its own session with its own seats, tickets and check-in.
+                  </p>
+                )}
+              </div>
+            )}
+
             <FormField
               control={form.control}
               name="imageUrl"
@@ -884,6 +1204,7 @@ export function BlogManagementView() {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [editingBlog, setEditingBlog] = useState<BlogPost | null>(null);
   const [deletingBlog, setDeletingBlog] = useState<BlogPost | null>(null);
+  const [historyBlog, setHistoryBlog] = useState<BlogPost | null>(null);
   const [engagementModalType, setEngagementModalType] = useState<'likes' | 'views' | null>(null);
   const [engagementBlogId, setEngagementBlogId] = useState<string | null>(null);
   const [engagementBlogTitle, setEngagementBlogTitle] = useState<string>("");
@@ -893,9 +1214,13 @@ export function BlogManagementView() {
   const [categoryFilter, setCategoryFilter] = useState<string>("all");
   const [statusFilter, setStatusFilter] = useState<string>("all");
 
-  // Fetch blogs query
+  // Fetch blogs query. The admin listing includes drafts and scheduled posts, which /api/blogs leaves out.
   const { data: blogs = [], isLoading, refetch } = useQuery<BlogPost[]>({
-    queryKey: ['/api/blogs'],
+    queryKey: ['/api/admin/blogs', 'manage'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/admin/blogs?status=all&limit=200');
+      return response.json();
+    },
     enabled: !!user && (user.role === 'admin' || user.role === 'super_admin')
   });
 
@@ -912,9 +1237,7 @@ export function BlogManagementView() {
       const matchesCategory = categoryFilter === "all" || blog.category === categoryFilter;
 
       // Status filter
-      const matchesStatus = statusFilter === "all" ||
-        (statusFilter === "published" && blog.published) ||
-        (statusFilter === "draft" && !blog.published);
+      const matchesStatus = statusFilter === "all" || blog.status === statusFilter;
 
       return matchesSearch && matchesCategory && matchesStatus;
     });
@@ -922,13 +1245,14 @@ export function BlogManagementView() {
 
   // Create blog mutation
   const createBlogMutation = useMutation({
-    mutationFn: (blogData: any) => apiRequest('POST', '/api/blogs', blogData),
-    onSuccess: () => {
+    mutationFn: async (blogData: any): Promise<BlogPost> => (await apiRequest('POST', '/api/blogs', blogData)).json(),
+    onSuccess: (blog) => {
       queryClient.invalidateQueries({ queryKey: ['/api/blogs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/blogs'] });
       setIsCreateModalOpen(false);
       toast({
         title: "Blog created successfully",
-        description: "Your blog post has been published."
+        description: blogSavedDescription(blog)
       });
     },
     onError: (error: any) => {
@@ -942,13 +1266,14 @@ export function BlogManagementView() {
 
   // Update blog mutation
   const updateBlogMutation = useMutation({
-    mutationFn: ({ id, blogData }: { id: string; blogData: any }) => apiRequest('PUT', `/api/blogs/${id}`, blogData),
-    onSuccess: () => {
+    mutationFn: async ({ id, blogData }: { id: string; blogData: any }): Promise<BlogPost> => (await apiRequest('PUT', `/api/blogs/${id}`, blogData)).json(),
+    onSuccess: (blog) => {
       queryClient.invalidateQueries({ queryKey: ['/api/blogs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/blogs'] });
       setEditingBlog(null);
       toast({
         title: "Blog updated successfully",
-        description: "Your changes have been saved."
+        description: blogSavedDescription(blog)
       });
     },
     onError: (error: any) => {
@@ -965,6 +1290,7 @@ export function BlogManagementView() {
     mutationFn: (id: string) => apiRequest('DELETE', `/api/blogs/${id}`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/blogs'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/blogs'] });
       setDeletingBlog(null);
       toast({
         title: "Blog deleted successfully",
@@ -1044,6 +1370,8 @@ export function BlogManagementView() {
             <SelectContent>
               <SelectItem value="all">All Status</SelectItem>
               <SelectItem value="published">Published</SelectItem>
+              <SelectItem value="scheduled">Scheduled</SelectItem>
+              <SelectItem value="submitted">Awaiting Approval</SelectItem>
               <SelectItem value="draft">Draft</SelectItem>
             </SelectContent>
           </Select>
@@ -1119,8 +1447,13 @@ export function BlogManagementView() {
                           </Badge>
                         )}
                         <Badge variant={blog.published ? "default" : "secondary"}>
-                          {blog.published ? "Published" : "Draft"}
+                          {blogStatusLabels[blog.status] ?? (blog.published ? "Published" : "Draft")}
                         </Badge>
+                        {blog.pendingRevision && (
+                          <Badge variant="outline" className="bg-yellow-500/10 text-yellow-600 border-yellow-500/20">
+                            Changes pending
+                          </Badge>
+                        )}
                       </div>
 
                       {blog.excerpt && (
@@ -1130,8 +1463,14 @@ export function BlogManagementView() {
                       <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500">
                         <span className="flex items-center gap-1">
                           <Calendar className="w-4 h-4" />
-                          {new Date(blog.createdAt).toLocaleDateString()}
+                          {new Date(blog.publishedAt ?? blog.createdAt).toLocaleDateString()}
                         </span>
+                        {blog.status === 'scheduled' && blog.publishAt && (
+                          <span className="flex items-center gap-1 text-blue-600 dark:text-blue-400">
+                            <Clock className="w-4 h-4" />
+                            Goes live {format(new Date(blog.publishAt), "PPp")}
+                          </span>
+                        )}
                         <button
                           className="flex items-center gap-1 cursor-pointer hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
                           onClick={() => {
@@ -1172,6 +1511,16 @@ export function BlogManagementView() {
                         <span className="hidden sm:inline">Edit</span>
                         <span className="sm:hidden">Edit</span>
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setHistoryBlog(blog)}
+                        className="flex-1 lg:flex-none"
+                        data-testid={`button-history-blog-${blog._id}`}
+                      >
+                        <History className="w-4 h-4 mr-2" />
+                        <span>History</span>
+                      </Button>
                       <Button
                         variant="outline"
                         size="sm"
@@ -1210,6 +1559,14 @@ export function BlogManagementView() {
         isLoading={createBlogMutation.isPending || updateBlogMutation.isPending}
       />
 
+      <BlogRevisionHistory
+        blogId={historyBlog?._id ?? null}
+        blogTitle={historyBlog?.title ?? ""}
+        open={!!historyBlog}
+        onOpenChange={(open) => !open && setHistoryBlog(null)}
+        canModerate
+      />
+
       {/* Delete Confirmation Modal */}
       <AlertDialog open={!!deletingBlog} onOpenChange={() => setDeletingBlog(null)}>
         <AlertDialogContent>
@@ -1258,6 +1615,9 @@ export function EventManagementView() {
   const [editingEvent, setEditingEvent] = useState<Event | null>(null);
   const [deletingEvent, setDeletingEvent] = useState<Event | null>(null);
   const [viewingRegistrations, setViewingRegistrations] = useState<Event | null>(null);
+  const [checkInEvent, setCheckInEvent] = useState<Event | null>(null);
+  const [revenueEvent, setRevenueEvent] = useState<Event | null>(null);
+  const [viewingSessions, setViewingSessions] = useState<Event | null>(null);
 
   // Search and filter state
   const [searchQuery, setSearchQuery] = useState("");
@@ -1265,7 +1625,7 @@ export function EventManagementView() {
   const [dateFilter, setDateFilter] = useState<string>("all");
 
   // Fetch events query
-  const { data: events = [], isLoading, refetch } = useQuery<Event[]>({
+  const { data: events = [], isLoading, refetch } = useQuery<EventListing[]>({
     queryKey: ['/api/events'],
     enabled: !!user && (user.role === 'admin' || user.role === 'super_admin')
   });
@@ -1292,15 +1652,21 @@ export function EventManagementView() {
     });
   }, [events, searchQuery, typeFilter, dateFilter]);
 
-  // Create event mutation
+  // Create event mutation; repeating events are created as a series
   const createEventMutation = useMutation({
-    mutationFn: (eventData: any) => apiRequest('POST', '/api/events', eventData),
-    onSuccess: () => {
+    mutationFn: ({ eventData, recurrence }: { eventData: any; recurrence?: EventRecurrence }) => {
+      if (!recurrence) {
+        return apiRequest('POST', '/api/events', eventData);
+      }
+      const { date, ...template } = eventData;
+      return apiRequest('POST', '/api/event-series', { ...template, recurrence });
+    },
+    onSuccess: (_, { recurrence }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/events'] });
       setIsCreateModalOpen(false);
       toast({
-        title: "Event created successfully",
-        description: "Your event has been published."
+        title: recurrence ? "Event series created successfully" : "Event created successfully",
+        description: recurrence ? "All sessions have been published." : "Your event has been published."
       });
     },
     onError: (error: any) => {
@@ -1314,9 +1680,16 @@ export function EventManagementView() {
 
   // Update event mutation
   const updateEventMutation = useMutation({
-    mutationFn: ({ id, eventData }: { id: string; eventData: any }) => apiRequest('PUT', `/api/events/${id}`, eventData),
+    mutationFn: ({ event, eventData, options }: { event: Event; eventData: any; options: EventFormSubmitOptions }) => {
+      if (options.scope === 'series' && event.seriesId) {
+        const { date, ...template } = eventData;
+        return apiRequest('PUT', `/api/event-series/${event.seriesId}`, { ...template, recurrence: options.recurrence });
+      }
+      return apiRequest('PUT', `/api/events/${event._id}`, eventData);
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/events'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/event-series'] });
       setEditingEvent(null);
       toast({
         title: "Event updated successfully",
@@ -1332,9 +1705,11 @@ export function EventManagementView() {
     }
   });
 
-  // Delete event mutation
+  // Delete event mutation; a series is deleted with all of its sessions
   const deleteEventMutation = useMutation({
-    mutationFn: (id: string) => apiRequest('DELETE', `/api/events/${id}`),
+    mutationFn: (event: Event) => event.seriesId
+      ? apiRequest('DELETE', `/api/event-series/${event.seriesId}`)
+      : apiRequest('DELETE', `/api/events/${event._id}`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/events'] });
       setDeletingEvent(null);
@@ -1461,7 +1836,7 @@ export function EventManagementView() {
               </CardContent>
             </Card>
           ) : (
-            filteredEvents.map((event: Event) => (
+            filteredEvents.map((event: EventListing) => (
               <Card key={event._id} className="hover:shadow-md transition-shadow">
                 <CardContent className="p-6">
                   <div className="flex flex-col lg:flex-row lg:items-start gap-4">
@@ -1469,6 +1844,10 @@ export function EventManagementView() {
                       <div className="flex flex-wrap items-center gap-2">
                         <h3 className="text-lg font-semibold line-clamp-2">{event.title}</h3>
                         <Badge variant="outline">{event.type}</Badge>
+                        {event.seriesId && (
+                          <Badge variant="secondary">Series · {event.seriesSessionCount} sessions</Badge>
+                        )}
+                        {event.cancelled && <Badge variant="destructive">Cancelled</Badge>}
                       </div>
 
                       {event.description && (
@@ -1484,12 +1863,25 @@ export function EventManagementView() {
                         <span>{event.location}</span>
                         <span>Capacity: {event.capacity}</span>
                         {event.price > 0 && (
-                          <span className="text-green-600">₦{event.price}</span>
+                          <span className="text-green-600">{formatNaira(event.price)}</span>
                         )}
                       </div>
                     </div>
 
                     <div className="flex lg:flex-col gap-2">
+                      {event.seriesId && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setViewingSessions(event)}
+                          className="flex-1 lg:flex-none"
+                          data-testid={`button-view-sessions-${event._id}`}
+                        >
+                          <CalendarRange className="w-4 h-4 mr-2" />
+                          <span className="hidden sm:inline">Sessions</span>
+                          <span className="sm:hidden">Sess</span>
+                        </Button>
+                      )}
                       <Button
                         variant="outline"
                         size="sm"
@@ -1501,6 +1893,30 @@ export function EventManagementView() {
                         <span className="hidden sm:inline">Registrations</span>
                         <span className="sm:hidden">Reg</span>
                       </Button>
+                      {event.price > 0 && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setRevenueEvent(event)}
+                          className="flex-1 lg:flex-none"
+                          data-testid={`button-view-revenue-${event._id}`}
+                        >
+                          <Banknote className="w-4 h-4 mr-2" />
+                          <span className="hidden sm:inline">Revenue</span>
+                          <span className="sm:hidden">Rev</span>
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setCheckInEvent(event)}
+                        className="flex-1 lg:flex-none"
+                        data-testid={`button-check-in-${event._id}`}
+                      >
+                        <QrCode className="w-4 h-4 mr-2" />
+                        <span className="hidden sm:inline">Check-in</span>
+                        <span className="sm:hidden">Scan</span>
+                      </Button>
                       <Button
                         variant="outline"
                         size="sm"
@@ -1540,11 +1956,11 @@ export function EventManagementView() {
           setEditingEvent(null);
         }}
         event={editingEvent}
-        onSubmit={(eventData) => {
+        onSubmit={(eventData, options) => {
           if (editingEvent) {
-            updateEventMutation.mutate({ id: editingEvent._id!, eventData });
+            updateEventMutation.mutate({ event: editingEvent, eventData, options });
           } else {
-            createEventMutation.mutate(eventData);
+            createEventMutation.mutate({ eventData, recurrence: options.recurrence });
           }
         }}
         isLoading={createEventMutation.isPending || updateEventMutation.isPending}
@@ -1556,13 +1972,15 @@ export function EventManagementView() {
           <AlertDialogHeader>
             <AlertDialogTitle>Are you sure?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete the event "{deletingEvent?.title}".
+              {deletingEvent?.seriesId
+                ? `This action cannot be undone. This will permanently delete the series "${deletingEvent.title}" and all of its sessions and registrations. To call off a single session, cancel it from Sessions instead.`
+                : `This action cannot be undone. This will permanently delete the event "${deletingEvent?.title}".`}
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction
-              onClick={() => deletingEvent && deleteEventMutation.mutate(deletingEvent._id!)}
+              onClick={() => deletingEvent && deleteEventMutation.mutate(deletingEvent)}
               className="bg-red-600 hover:bg-red-700"
               disabled={deleteEventMutation.isPending}
               data-testid="button-confirm-delete-event"
@@ -1581,10 +1999,513 @@ export function EventManagementView() {
           onClose={() => setViewingRegistrations(null)}
         />
       )}
+
+      {/* Series Sessions Modal */}
+      {viewingSessions?.seriesId && (
+        <EventSessionsModal
+          seriesId={viewingSessions.seriesId}
+          title={viewingSessions.title}
+          isOpen={!!viewingSessions}
+          onClose={() => setViewingSessions(null)}
+          onEditSession={(session) => {
+            setViewingSessions(null);
+            setEditingEvent(session);
+          }}
+        />
+      )}
+
+      {/* Check-in and Attendance Modal */}
+      {checkInEvent && (
+        <EventCheckInModal
+          event={checkInEvent}
+          isOpen={!!checkInEvent}
+          onClose={() => setCheckInEvent(null)}
+        />
+      )}
+
+      {/* Revenue Modal */}
+      {revenueEvent && (
+        <EventRevenueModal
+          event={revenueEvent}
+          isOpen={!!revenueEvent}
+          onClose={() => setRevenueEvent(null)}
+        />
+      )}
     </div>
   );
 }
 
+// Event Series Sessions Modal Component
+function EventSessionsModal({
+  seriesId,
+  title,
+  isOpen,
+  onClose,
+  onEditSession
+}: {
+  seriesId: string;
+  title: string;
+  isOpen: boolean;
+  onClose: () => void;
+  onEditSession: (session: Event) => void;
+}) {
+  const { toast } = useToast();
+  const [cancellingSession, setCancellingSession] = useState<Event | null>(null);
+
+  const { data: series, isLoading } = useQuery<EventSeries & { sessions: Event[] }>({
+    queryKey: ['/api/event-series', seriesId],
+    enabled: isOpen
+  });
+
+  const sessionStatusMutation = useMutation({
+    mutationFn: ({ session, cancel }: { session: Event; cancel: boolean }) =>
+      apiRequest('POST', `/api/events/${session._id}/${cancel ? 'cancel' : 'reinstate'}`),
+    onSuccess: (_, { cancel }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/event-series', seriesId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/events'] });
+      setCancellingSession(null);
+      toast({
+        title: cancel ? "Session cancelled" : "Session reinstated",
+        description: cancel
+          ? "Registered attendees have been notified."
+          : "Attendees will need to register again."
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error updating session",
+        description: error.message || "Failed to update session",
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sessions - {title}</DialogTitle>
+          <DialogDescription>
+            Edit or cancel individual sessions. Use Edit on any session to change the whole series.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {series?.sessions.map((session) => (
+              <Card key={session._id} className="p-4" data-testid={`card-session-${session._id}`}>
+                <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <p className="font-medium">{new Date(session.date).toLocaleDateString()}</p>
+                      {session.cancelled && <Badge variant="destructive">Cancelled</Badge>}
+                      {!!session.overriddenFields?.length && <Badge variant="outline">Edited</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {session.time} · {session.location} · {session.registeredCount ?? 0}/{session.capacity} registered
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => onEditSession(session)}
+                      data-testid={`button-edit-session-${session._id}`}
+                    >
+                      <Edit className="w-4 h-4 mr-2" />
+                      Edit
+                    </Button>
+                    {session.cancelled ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => sessionStatusMutation.mutate({ session, cancel: false })}
+                        disabled={sessionStatusMutation.isPending}
+                        data-testid={`button-reinstate-session-${session._id}`}
+                      >
+                        Reinstate
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setCancellingSession(session)}
+                        className="text-red-600 hover:bg-red-50 dark:hover:bg-red-950/30"
+                        data-testid={`button-cancel-session-${session._id}`}
+                      >
+                        <XCircle className="w-4 h-4 mr-2" />
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <AlertDialog open={!!cancellingSession} onOpenChange={() => setCancellingSession(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Cancel this session?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The session on {cancellingSession && new Date(cancellingSession.date).toLocaleDateString()} will be marked as cancelled and everyone registered or waitlisted will be notified.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep Session</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => cancellingSession && sessionStatusMutation.mutate({ session: cancellingSession, cancel: true })}
+                className="bg-red-600 hover:bg-red-700"
+                disabled={sessionStatusMutation.isPending}
+                data-testid="button-confirm-cancel-session"
+              >
+                Cancel Session
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface EventAttendanceReport {
+  capacity: number;
+  registered: number;
+  attended: number;
+  waitlisted: number;
+  cancelled: number;
+  attendanceRate: number;
+  attendees: Array<{
+    registrationId: string;
+    name: string;
+    email?: string;
+    status: string;
+    checkedInAt?: string;
+  }>;
+}
+
+interface EventRevenueSummary {
+  price: number;
+  paidCount: number;
+  grossAmount: number;
+  refundedCount: number;
+  refundedAmount: number;
+  netAmount: number;
+  pendingCount: number;
+  payments: Array<{
+    reference: string;
+    name: string;
+    email?: string;
+    amount: number;
+    status: 'paid' | 'refund_pending' | 'refunded';
+    paidAt?: string;
+    refundedAt?: string;
+  }>;
+}
+
+const paymentStatusLabels: Record<EventRevenueSummary['payments'][number]['status'], string> = {
+  paid: 'Paid',
+  refund_pending: 'Refund pending',
+  refunded: 'Refunded',
+};
+
+// Event Revenue Modal Component
+function EventRevenueModal({
+  event,
+  isOpen,
+  onClose
+}: {
+  event: Event;
+  isOpen: boolean;
+  onClose: () => void;
+}) {
+  const { data: summary, isLoading } = useQuery<EventRevenueSummary>({
+    queryKey: [`/api/events/${event._id}/revenue`],
+    enabled: isOpen && !!event._id
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Revenue - {event.title}</DialogTitle>
+          <DialogDescription>
+            Ticket price {formatNaira(event.price)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !summary ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <Card className="p-4">
+                <p className="text-sm text-muted-foreground">Net revenue</p>
+                <p className="text-2xl font-bold" data-testid="text-revenue-net">{formatNaira(summary.netAmount)}</p>
+              </Card>
+              <Card className="p-4">
+                <p className="text-sm text-muted-foreground">Collected</p>
+                <p className="text-2xl font-bold" data-testid="text-revenue-gross">{formatNaira(summary.grossAmount)}</p>
+              </Card>
+              <Card className="p-4">
+                <p className="text-sm text-muted-foreground">Refunded ({summary.refundedCount})</p>
+                <p className="text-2xl font-bold" data-testid="text-revenue-refunded">{formatNaira(summary.refundedAmount)}</p>
+              </Card>
+              <Card className="p-4">
+                <p className="text-sm text-muted-foreground">Paid / Awaiting payment</p>
+                <p className="text-2xl font-bold">{summary.paidCount} / {summary.pendingCount}</p>
+              </Card>
+            </div>
+
+            {summary.payments.length === 0 ? (
+              <div className="text-center py-8">
+                <Banknote className="w-12 h-12 mx-auto text-gray-400 mb-4" />
+                <p className="text-muted-foreground">No payments yet</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {summary.payments.map((payment) => (
+                  <Card key={payment.reference} className="p-3" data-testid={`card-payment-${payment.reference}`}>
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className="font-medium">{payment.name}</p>
+                        {payment.email && <p className="text-sm text-muted-foreground">{payment.email}</p>}
+                        <p className="text-xs text-muted-foreground font-mono truncate">
+                          {payment.reference}
+                          {payment.paidAt && ` · ${new Date(payment.paidAt).toLocaleString()}`}
+                        </p>
+                      </div>
+                      <div className="text-right space-y-1">
+                        <p className="font-medium">{formatNaira(payment.amount)}</p>
+                        <Badge variant={payment.status === 'paid' ? 'default' : 'secondary'}>
+                          {paymentStatusLabels[payment.status]}
+                        </Badge>
+                      </div>
+                    </div>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Event Check-in Modal Component
+function EventCheckInModal({
+  event,
+  isOpen,
+  onClose
+}: {
+  event: Event;
+  isOpen: boolean;
+  onClose: () => void;
+}) {
+  const [activeTab, setActiveTab] = useState("check-in");
+  const [ticketCode, setTicketCode] = useState("");
+  const [isScanning, setIsScanning] = useState(false);
+  const [lastResult, setLastResult] = useState<{ success: boolean; message: string } | null>(null);
+  const attendanceQueryKey = [`/api/events/${event._id}/attendance`];
+
+  const { data: report, isLoading: reportLoading } = useQuery<EventAttendanceReport>({
+    queryKey: attendanceQueryKey,
+    enabled: isOpen && !!event._id
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest('POST', `/api/events/${event._id}/check-in`, { code });
+      return await res.json();
+    },
+    onSuccess: (data) => {
+      const name = data.attendee ? `${data.attendee.firstName || ''} ${data.attendee.lastName || ''}`.trim() : 'Attendee';
+      setLastResult({ success: true, message: `${name} checked in` });
+      setTicketCode("");
+      queryClient.invalidateQueries({ queryKey: attendanceQueryKey });
+    },
+    onError: (error: any) => {
+      // apiRequest errors look like "409: {json}", so pull out the server message
+      const match = /^\d+: ([\s\S]*)$/.exec(error.message || '');
+      let message = error.message || 'Check-in failed';
+      try {
+        message = match ? JSON.parse(match[1]).message : message;
+      } catch {
+        // Keep the raw message
+      }
+      setLastResult({ success: false, message });
+    }
+  });
+
+  const submitCode = (code: string) => {
+    if (!code.trim() || checkInMutation.isPending) return;
+    checkInMutation.mutate(code.trim());
+  };
+
+  // The camera sees the same ticket for a while, so ignore repeat scans of it
+  const lastScanRef = useRef<{ code: string; at: number } | null>(null);
+  const handleScan = (code: string) => {
+    const now = Date.now();
+    if (lastScanRef.current?.code === code && now - lastScanRef.current.at < 5000) return;
+    lastScanRef.current = { code, at: now };
+    submitCode(code);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Check-in - {event.title}</DialogTitle>
+          <DialogDescription>
+            Scan or type ticket codes to mark attendance
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="check-in" data-testid="tab-check-in">Check In</TabsTrigger>
+            <TabsTrigger value="attendance" data-testid="tab-attendance">Attendance Report</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="check-in" className="space-y-4">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                submitCode(ticketCode);
+              }}
+              className="flex gap-2"
+            >
+              <Input
+                value={ticketCode}
+                onChange={(e) => setTicketCode(e.target.value)}
+                placeholder="Scan or enter ticket code"
+                autoFocus
+                data-testid="input-ticket-code"
+              />
+              <Button type="submit" disabled={!ticketCode.trim() || checkInMutation.isPending} data-testid="button-submit-check-in">
+                {checkInMutation.isPending ? "Checking..." : "Check In"}
+              </Button>
+            </form>
+
+            {isQrScanningSupported() && (
+              <div className="space-y-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setIsScanning(!isScanning)}
+                  data-testid="button-toggle-camera"
+                >
+                  <Camera className="w-4 h-4 mr-2" />
+                  {isScanning ? "Stop Camera" : "Scan with Camera"}
+                </Button>
+                {isScanning && (
+                  <QrScanner onScan={handleScan} paused={checkInMutation.isPending} />
+                )}
+              </div>
+            )}
+
+            {lastResult && (
+              <div
+                className={`flex items-center gap-2 rounded-md p-3 text-sm ${lastResult.success
+                  ? 'bg-green-50 text-green-700 dark:bg-green-950/30 dark:text-green-400'
+                  : 'bg-red-50 text-red-700 dark:bg-red-950/30 dark:text-red-400'}`}
+                data-testid="text-check-in-result"
+              >
+                {lastResult.success ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+                {lastResult.message}
+              </div>
+            )}
+
+            {report && (
+              <p className="text-sm text-muted-foreground">
+                {report.attended} of {report.registered + report.attended} checked in
+              </p>
+            )}
+          </TabsContent>
+
+          <TabsContent value="attendance" className="space-y-4">
+            {reportLoading || !report ? (
+              <div className="space-y-3">
+                {[1, 2, 3].map((i) => (
+                  <Skeleton key={i} className="h-16 w-full" />
+                ))}
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  <Card className="p-4">
+                    <p className="text-sm text-muted-foreground">Seats taken</p>
+                    <p className="text-2xl font-bold" data-testid="text-attendance-seats">
+                      {report.registered + report.attended}/{report.capacity}
+                    </p>
+                  </Card>
+                  <Card className="p-4">
+                    <p className="text-sm text-muted-foreground">Checked in</p>
+                    <p className="text-2xl font-bold" data-testid="text-attendance-attended">{report.attended}</p>
+                  </Card>
+                  <Card className="p-4">
+                    <p className="text-sm text-muted-foreground">Attendance rate</p>
+                    <p className="text-2xl font-bold" data-testid="text-attendance-rate">{report.attendanceRate}%</p>
+                  </Card>
+                  <Card className="p-4">
+                    <p className="text-sm text-muted-foreground">Waitlist / Cancelled</p>
+                    <p className="text-2xl font-bold">{report.waitlisted} / {report.cancelled}</p>
+                  </Card>
+                </div>
+
+                {report.attendees.length === 0 ? (
+                  <div className="text-center py-8">
+                    <Users className="w-12 h-12 mx-auto text-gray-400 mb-4" />
+                    <p className="text-muted-foreground">No registrations yet</p>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {report.attendees.map((attendee) => (
+                      <Card key={attendee.registrationId} className="p-3" data-testid={`card-attendee-${attendee.registrationId}`}>
+                        <div className="flex items-center justify-between gap-4">
+                          <div>
+                            <p className="font-medium">{attendee.name}</p>
+                            {attendee.email && <p className="text-sm text-muted-foreground">{attendee.email}</p>}
+                          </div>
+                          {attendee.status === 'attended' ? (
+                            <Badge>
+                              Checked in {attendee.checkedInAt ? new Date(attendee.checkedInAt).toLocaleTimeString() : ''}
+                            </Badge>
+                          ) : (
+                            <Badge variant="secondary">Not checked in</Badge>
+                          )}
+                        </div>
+                      </Card>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        <div className="flex justify-end pt-4">
+          <Button onClick={onClose} variant="outline" data-testid="button-close-check-in-modal">
+            Close
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 // Event Registrations Modal Component
 function EventRegistrationsModal({
   event,
@@ -1661,8 +2582,11 @@ function EventRegistrationsModal({
                           className="mt-2"
                           data-testid={`badge-status-${registration._id || index}`}
                         >
-                          {registration.status}
+                          {registration.status === 'pending_payment' ? 'awaiting payment' : registration.status}
                         </Badge>
+                        {registration.paymentStatus && (
+                          <Badge variant="outline" className="mt-2 ml-2">{registration.paymentStatus}</Badge>
+                        )}
                       </div>
                     </div>
                   </Card>
@@ -1696,6 +2620,8 @@ function ResourceFormModal({
   onSubmit: (data: any) => void;
   isLoading: boolean;
 }) {
+  const courseOptions = useCourseOptions(isOpen);
+
   const form = useForm<ResourceFormData>({
     resolver: zodResolver(resourceFormSchema),
     defaultValues: {
@@ -1708,8 +2634,12 @@ function ResourceFormModal({
       fileSize: "",
       difficulty: '100l',
       tags: "",
+      courseIds: [],
+      visibility: 'public',
+      allowedLevels: [],
       previewAvailable: false,
-      thumbnailUrl: ""
+      thumbnailUrl: "",
+      changelog: ""
     }
   });
 
@@ -1726,8 +2656,12 @@ function ResourceFormModal({
         fileSize: resource.fileSize || "",
         difficulty: resource.difficulty || '100l',
         tags: resource.tags?.join(", ") || "",
+        courseIds: resource.courseIds || [],
+        visibility: resource.visibility || 'public',
+        allowedLevels: resource.allowedLevels || [],
         previewAvailable: resource.previewAvailable || false,
-        thumbnailUrl: resource.thumbnailUrl || ""
+        thumbnailUrl: resource.thumbnailUrl || "",
+        changelog: ""
       });
     } else {
       form.reset({
@@ -1740,17 +2674,24 @@ function ResourceFormModal({
         fileSize: "",
         difficulty: '100l',
         tags: "",
+        courseIds: [],
+        visibility: 'public',
+        allowedLevels: [],
         previewAvailable: false,
-        thumbnailUrl: ""
+        thumbnailUrl: "",
+        changelog: ""
       });
     }
   }, [resource, form]);
 
+  const fileReplaced = !!resource && form.watch("fileUrl") !== resource.fileUrl;
+
   const handleSubmit = (data: ResourceFormData) => {
     const submitData = {
       ...data,
       tags: data.tags ? data.tags.split(",").map(tag => tag.trim()).filter(Boolean) : [],
-      thumbnailUrl: data.thumbnailUrl || undefined
+      thumbnailUrl: data.thumbnailUrl || undefined,
+      changelog: fileReplaced ? data.changelog?.trim() || undefined : undefined
     };
     onSubmit(submitData);
   };
@@ -1883,6 +2824,76 @@ function ResourceFormModal({
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="courseIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Courses</FormLabel>
+                    <FormControl>
+                      <MultiSelectCombobox
+                        options={courseOptions}
+                        value={field.value || []}
+                        onChange={field.onChange}
+                        placeholder="Link to courses..."
+                        searchPlaceholder="Search courses..."
+                        emptyMessage="No courses found."
+                        testId="select-resource-courses"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="visibility"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Visibility</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-resource-visibility">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(resourceVisibilityLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Who can find, preview and download this resource</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {form.watch("visibility") === 'levels' && (
+                <FormField
+                  control={form.control}
+                  name="allowedLevels"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Levels *</FormLabel>
+                      <FormControl>
+                        <MultiSelectCombobox
+                          options={levelOptions}
+                          value={field.value || []}
+                          onChange={field.onChange}
+                          placeholder="Choose levels..."
+                          searchPlaceholder="Search levels..."
+                          emptyMessage="No levels found."
+                          testId="select-resource-levels"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
               <FormField
                 control={form.control}
                 name="previewAvailable"
@@ -1923,6 +2934,30 @@ function ResourceFormModal({
               )}
             />
 
+            {fileReplaced && (
+              <FormField
+                control={form.control}
+                name="changelog"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>What changed?</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder="e.g. Updated slides for week 4, fixed typos in the reading list..."
+                        rows={3}
+                        {...field}
+                        data-testid="textarea-resource-changelog"
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      The new file becomes version {(resource?.currentVersion || 1) + 1}. The previous file stays available in the version history.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <FormField
               control={form.control}
               name="thumbnailUrl"
@@ -1989,6 +3024,27 @@ function ResourceFormModal({
   );
 }
 
+interface FacetCount {
+  value: string;
+  count: number;
+}
+
+interface LearningResourcePage {
+  resources: LearningResource[];
+  facets: {
+    type: FacetCount[];
+    category: FacetCount[];
+    difficulty: FacetCount[];
+    tags: FacetCount[];
+    uploader: Array<FacetCount & { name: string }>;
+  };
+  total: number;
+  nextCursor: string | null;
+}
+
+const facetCount = (counts: FacetCount[] | undefined, value: string) =>
+  counts?.find(facet => facet.value === value)?.count ?? 0;
+
 export function ResourceManagementView() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -2001,44 +3057,52 @@ export function ResourceManagementView() {
   const [categoryFilter, setCategoryFilter] = useState<string>("all");
   const [typeFilter, setTypeFilter] = useState<string>("all");
   const [difficultyFilter, setDifficultyFilter] = useState<string>("all");
-
-  // Fetch resources query
-  const { data: resources = [], isLoading, refetch } = useQuery<LearningResource[]>({
-    queryKey: ['/api/resources'],
+  const [tagFilter, setTagFilter] = useState<string>("all");
+  const [uploaderFilter, setUploaderFilter] = useState<string>("all");
+  const [minRatingFilter, setMinRatingFilter] = useState<string>("all");
+  const [sortBy, setSortBy] = useState<string>("recent");
+  const debouncedSearch = useDebounce(searchQuery.trim());
+
+  // Filtering, sorting and paging all happen on the server
+  const resourceParams = useMemo(() => {
+    const params = new URLSearchParams({ sort: sortBy });
+    if (debouncedSearch) params.set('search', debouncedSearch);
+    if (categoryFilter !== "all") params.set('category', categoryFilter);
+    if (typeFilter !== "all") params.set('type', typeFilter);
+    if (difficultyFilter !== "all") params.set('difficulty', difficultyFilter);
+    if (tagFilter !== "all") params.set('tags', tagFilter);
+    if (uploaderFilter !== "all") params.set('uploader', uploaderFilter);
+    if (minRatingFilter !== "all") params.set('minRating', minRatingFilter);
+    return params.toString();
+  }, [debouncedSearch, categoryFilter, typeFilter, difficultyFilter, tagFilter, uploaderFilter, minRatingFilter, sortBy]);
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteQuery({
+    queryKey: ['/api/resources', resourceParams],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams(resourceParams);
+      if (pageParam) params.set('cursor', pageParam);
+      const response = await fetch(`/api/resources?${params}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch resources');
+      return response.json() as Promise<LearningResourcePage>;
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
     enabled: !!user && (user.role === 'admin' || user.role === 'super_admin')
   });
 
-  // Extract unique categories from resources for the filter dropdown
-  const uniqueCategories = useMemo(() => {
-    const categories = resources.map(r => r.category).filter(Boolean);
-    return Array.from(new Set(categories)).sort();
-  }, [resources]);
-
-  // Filter resources based on search query and filters
-  const filteredResources = useMemo(() => {
-    return resources.filter((resource) => {
-      // Search filter - matches title or category
-      const searchLower = searchQuery.toLowerCase();
-      const matchesSearch = searchQuery === "" ||
-        resource.title.toLowerCase().includes(searchLower) ||
-        resource.category.toLowerCase().includes(searchLower) ||
-        resource.description?.toLowerCase().includes(searchLower);
-
-      // Category filter
-      const matchesCategory = categoryFilter === "all" || resource.category === categoryFilter;
-
-      // Type filter
-      const matchesType = typeFilter === "all" || resource.type === typeFilter;
-
-      // Difficulty filter
-      const matchesDifficulty = difficultyFilter === "all" || resource.difficulty === difficultyFilter;
-
-      return matchesSearch && matchesCategory && matchesType && matchesDifficulty;
-    });
-  }, [resources, searchQuery, categoryFilter, typeFilter, difficultyFilter]);
+  const resources = useMemo(() => data?.pages.flatMap(page => page.resources) ?? [], [data]);
+  const facets = data?.pages[0]?.facets;
+  const total = data?.pages[0]?.total ?? 0;
 
   // Check if any filters are active
-  const hasActiveFilters = searchQuery !== "" || categoryFilter !== "all" || typeFilter !== "all" || difficultyFilter !== "all";
+  const hasActiveFilters = searchQuery !== "" || categoryFilter !== "all" || typeFilter !== "all" || difficultyFilter !== "all" ||
+    tagFilter !== "all" || uploaderFilter !== "all" || minRatingFilter !== "all";
 
   // Clear all filters
   const clearFilters = () => {
@@ -2046,6 +3110,9 @@ export function ResourceManagementView() {
     setCategoryFilter("all");
     setTypeFilter("all");
     setDifficultyFilter("all");
+    setTagFilter("all");
+    setUploaderFilter("all");
+    setMinRatingFilter("all");
   };
 
   // Create resource mutation
@@ -2168,8 +3235,8 @@ export function ResourceManagementView() {
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Categories</SelectItem>
-              {uniqueCategories.map((category) => (
-                <SelectItem key={category} value={category}>{category}</SelectItem>
+              {facets?.category.map((category) => (
+                <SelectItem key={category.value} value={category.value}>{category.value} ({category.count})</SelectItem>
               ))}
             </SelectContent>
           </Select>
@@ -2179,10 +3246,10 @@ export function ResourceManagementView() {
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Types</SelectItem>
-              <SelectItem value="pdf">PDF</SelectItem>
-              <SelectItem value="video">Video</SelectItem>
-              <SelectItem value="image">Image</SelectItem>
-              <SelectItem value="document">Document</SelectItem>
+              <SelectItem value="pdf">PDF ({facetCount(facets?.type, 'pdf')})</SelectItem>
+              <SelectItem value="video">Video ({facetCount(facets?.type, 'video')})</SelectItem>
+              <SelectItem value="image">Image ({facetCount(facets?.type, 'image')})</SelectItem>
+              <SelectItem value="document">Document ({facetCount(facets?.type, 'document')})</SelectItem>
             </SelectContent>
           </Select>
           <Select value={difficultyFilter} onValueChange={setDifficultyFilter}>
@@ -2191,15 +3258,67 @@ export function ResourceManagementView() {
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Levels</SelectItem>
-              <SelectItem value="100l">100 Level</SelectItem>
-              <SelectItem value="200l">200 Level</SelectItem>
-              <SelectItem value="300l">300 Level</SelectItem>
-              <SelectItem value="400l">400 Level</SelectItem>
+              <SelectItem value="100l">100 Level ({facetCount(facets?.difficulty, '100l')})</SelectItem>
+              <SelectItem value="200l">200 Level ({facetCount(facets?.difficulty, '200l')})</SelectItem>
+              <SelectItem value="300l">300 Level ({facetCount(facets?.difficulty, '300l')})</SelectItem>
+              <SelectItem value="400l">400 Level ({facetCount(facets?.difficulty, '400l')})</SelectItem>
             </SelectContent>
           </Select>
         </div>
       </div>
 
+      <div className="flex flex-col sm:flex-row gap-4">
+        <Select value={tagFilter} onValueChange={setTagFilter}>
+          <SelectTrigger className="w-full sm:w-[180px]" data-testid="select-filter-resource-tag">
+            <SelectValue placeholder="All Tags" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Tags</SelectItem>
+            {facets?.tags.map((tag) => (
+              <SelectItem key={tag.value} value={tag.value}>{tag.value} ({tag.count})</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={uploaderFilter} onValueChange={setUploaderFilter}>
+          <SelectTrigger className="w-full sm:w-[180px]" data-testid="select-filter-resource-uploader">
+            <SelectValue placeholder="All Uploaders" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Uploaders</SelectItem>
+            {facets?.uploader.map((uploader) => (
+              <SelectItem key={uploader.value} value={uploader.value}>{uploader.name} ({uploader.count})</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={minRatingFilter} onValueChange={setMinRatingFilter}>
+          <SelectTrigger className="w-full sm:w-[150px]" data-testid="select-filter-resource-rating">
+            <SelectValue placeholder="Any Rating" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any Rating</SelectItem>
+            <SelectItem value="4">4+ stars</SelectItem>
+            <SelectItem value="3">3+ stars</SelectItem>
+            <SelectItem value="2">2+ stars</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={sortBy} onValueChange={setSortBy}>
+          <SelectTrigger className="w-full sm:w-[170px] sm:ml-auto" data-testid="select-sort-resources">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="recent">Newest first</SelectItem>
+            <SelectItem value="downloads">Most downloaded</SelectItem>
+            <SelectItem value="rating">Highest rated</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!isLoading && (
+        <p className="text-sm text-muted-foreground" data-testid="text-resource-count">
+          Showing {resources.length} of {total} resources
+        </p>
+      )}
+
       {isLoading ? (
         <div className="space-y-4">
           {[...Array(3)].map((_, i) => (
@@ -2215,7 +3334,7 @@ export function ResourceManagementView() {
         </div>
       ) : (
         <div className="grid gap-4">
-          {resources.length === 0 ? (
+          {resources.length === 0 && !hasActiveFilters ? (
             <Card>
               <CardContent className="p-8 text-center">
                 <FileText className="w-12 h-12 mx-auto text-gray-400 mb-4" />
@@ -2233,7 +3352,7 @@ export function ResourceManagementView() {
                 </Button>
               </CardContent>
             </Card>
-          ) : filteredResources.length === 0 ? (
+          ) : resources.length === 0 ? (
             <Card>
               <CardContent className="p-8 text-center" data-testid="no-resources-results">
                 <Search className="w-12 h-12 mx-auto text-gray-400 mb-4" />
@@ -2251,7 +3370,7 @@ export function ResourceManagementView() {
               </CardContent>
             </Card>
           ) : (
-            filteredResources.map((resource: LearningResource) => (
+            resources.map((resource: LearningResource) => (
               <Card key={resource._id} className="hover:shadow-md transition-shadow">
                 <CardContent className="p-6">
                   <div className="flex flex-col lg:flex-row lg:items-start gap-4">
@@ -2317,6 +3436,19 @@ export function ResourceManagementView() {
         </div>
       )}
 
+      {hasNextPage && (
+        <div className="flex justify-center">
+          <Button
+            variant="outline"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            data-testid="button-load-more-resources"
+          >
+            {isFetchingNextPage ? "Loading..." : "Load more"}
+          </Button>
+        </div>
+      )}
+
       {/* Create/Edit Resource Modal */}
       <ResourceFormModal
         isOpen={isCreateModalOpen || !!editingResource}
@@ -2367,6 +3499,7 @@ export function SettingsView() {
   const [activeTab, setActiveTab] = useState("profile");
   const [isPasswordModalOpen, setIsPasswordModalOpen] = useState(false);
   const [isDeleteAccountModalOpen, setIsDeleteAccountModalOpen] = useState(false);
+  const [deleteAccountPassword, setDeleteAccountPassword] = useState("");
 
   // Profile update form
   const profileForm = useForm({
@@ -2388,7 +3521,7 @@ export function SettingsView() {
   const passwordForm = useForm({
     resolver: zodResolver(z.object({
       currentPassword: z.string().min(1, "Current password is required"),
-      newPassword: z.string().min(6, "Password must be at least 6 characters"),
+      newPassword: z.string().min(8, "Password must be at least 8 characters"),
       confirmPassword: z.string().min(1, "Please confirm your password")
     }).refine((data) => data.newPassword === data.confirmPassword, {
       message: "Passwords don't match",
@@ -2419,6 +3552,18 @@ export function SettingsView() {
     }
   });
 
+  // Load saved notification preferences into the form
+  const { data: notificationPreferences } = useQuery<NotificationPreferences>({
+    queryKey: ['/api/user/notifications'],
+    enabled: !!user,
+  });
+
+  useEffect(() => {
+    if (notificationPreferences) {
+      notificationForm.reset(notificationPreferences);
+    }
+  }, [notificationPreferences]);
+
   // Theme preferences
   const [theme, setTheme] = useState<"light" | "dark" | "system">("system");
 
@@ -2441,6 +3586,28 @@ export function SettingsView() {
     }
   });
 
+  // Delete account mutation
+  const deleteAccountMutation = useMutation({
+    mutationFn: (password: string) => apiRequest('DELETE', '/api/user/account', { password }),
+    onSuccess: () => {
+      toast({
+        title: "Account deleted",
+        description: "Your account and personal data have been removed."
+      });
+      queryClient.clear();
+      setTimeout(() => {
+        window.location.href = '/';
+      }, 100);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error deleting account",
+        description: error.message || "Failed to delete account",
+        variant: "destructive"
+      });
+    }
+  });
+
   // Change password mutation
   const changePasswordMutation = useMutation({
     mutationFn: (passwordData: any) => apiRequest('PUT', '/api/user/password', passwordData),
@@ -2465,6 +3632,7 @@ export function SettingsView() {
   const updateNotificationsMutation = useMutation({
     mutationFn: (notificationData: any) => apiRequest('PUT', '/api/user/notifications', notificationData),
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/user/notifications'] });
       toast({
         title: "Notification preferences updated",
         description: "Your notification settings have been saved."
@@ -2664,6 +3832,26 @@ export function SettingsView() {
                       )}
                     />
 
+                    <FormField
+                      control={notificationForm.control}
+                      name="pushNotifications"
+                      render={({ field }) => (
+                        <FormItem className="flex items-center justify-between">
+                          <div>
+                            <FormLabel>In-App Notifications</FormLabel>
+                            <FormDescription>Show notifications under the bell icon</FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              data-testid="switch-push-notifications"
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
                     <FormField
                       control={notificationForm.control}
                       name="blogNotifications"
@@ -2802,6 +3990,21 @@ export function SettingsView() {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle>Your Data</CardTitle>
+              <CardDescription>Download a copy of everything we store about you</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button variant="outline" asChild data-testid="button-export-data">
+                <a href="/api/user/export" download>
+                  <Download className="w-4 h-4 mr-2" />
+                  Export My Data
+                </a>
+              </Button>
+            </CardContent>
+          </Card>
+
           <Card className="border-red-200 dark:border-red-800">
             <CardHeader>
               <CardTitle className="text-red-600 dark:text-red-400">Danger Zone</CardTitle>
@@ -2895,7 +4098,13 @@ export function SettingsView() {
       </Dialog>
 
       {/* Delete Account Confirmation Modal */}
-      <AlertDialog open={isDeleteAccountModalOpen} onOpenChange={setIsDeleteAccountModalOpen}>
+      <AlertDialog
+        open={isDeleteAccountModalOpen}
+        onOpenChange={(open) => {
+          setIsDeleteAccountModalOpen(open);
+          if (!open) setDeleteAccountPassword("");
+        }}
+      >
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
@@ -2903,13 +4112,28 @@ export function SettingsView() {
               This action cannot be undone. This will permanently delete your account and remove all your data from our servers.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="delete-account-password">Enter your password to confirm</Label>
+            <Input
+              id="delete-account-password"
+              type="password"
+              value={deleteAccountPassword}
+              onChange={(e) => setDeleteAccountPassword(e.target.value)}
+              data-testid="input-delete-account-password"
+            />
+          </div>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction
               className="bg-red-600 hover:bg-red-700"
+              onClick={(e) => {
+                e.preventDefault();
+                deleteAccountMutation.mutate(deleteAccountPassword);
+              }}
+              disabled={!deleteAccountPassword || deleteAccountMutation.isPending}
               data-testid="button-confirm-delete-account"
             >
-              Delete Account
+              {deleteAccountMutation.isPending ? "Deleting..." : "Delete Account"}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -3725,5 +4949,40 @@ export function ContentModerationView() {
       </div>
     );
   }
-  return <BlogModerationContent />;
+  return (
+    <div className="space-y-6">
+      <BlogModerationContent />
+      <ReviewModeration />
+    </div>
+  );
+}
+
+export function ContactInboxView() {
+  const { user } = useAuth();
+  if (!user || (user.role !== 'admin' && user.role !== 'super_admin')) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold">Access Denied</h2>
+          <p className="text-gray-600 dark:text-gray-400">You don't have permission to view this page.</p>
+        </div>
+      </div>
+    );
+  }
+  return <ContactInbox />;
+}
+
+export function CourseManagementView() {
+  const { user } = useAuth();
+  if (!user || (user.role !== 'admin' && user.role !== 'super_admin')) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold">Access Denied</h2>
+          <p className="text-gray-600 dark:text-gray-400">You don't have permission to view this page.</p>
+        </div>
+      </div>
+    );
+  }
+  return <CourseManagement />;
 }
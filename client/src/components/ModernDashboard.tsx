@@ -30,15 +30,17 @@ import {
   Download,
   Heart,
   Shield,
-  Bell,
   LogOut,
   UserCog,
   Menu,
   X,
   GraduationCap,
-  Trophy
+  Trophy,
+  Inbox,
+  Library
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import NotificationBell from "./NotificationBell";
 
 const DASHBOARD_BASE = "/dashboard";
 
@@ -51,7 +53,9 @@ const sidebarItems = [
   { icon: FileText, label: "Blog Management", path: "/blogs", roles: ["admin", "super_admin"] },
   { icon: Calendar, label: "Events", path: "/events", roles: ["admin", "super_admin"] },
   { icon: BookOpen, label: "Learning Resources", path: "/resources", roles: ["admin", "super_admin"] },
+  { icon: Library, label: "Courses", path: "/courses", roles: ["admin", "super_admin"] },
   { icon: GraduationCap, label: "Staff Management", path: "/staff", roles: ["admin", "super_admin"] },
+  { icon: Inbox, label: "Contact Inbox", path: "/inbox", roles: ["admin", "super_admin"] },
   { icon: BarChart3, label: "Analytics", path: "/analytics", roles: ["admin", "super_admin"] },
   { icon: Award, label: "Gamification", path: "/gamification", roles: ["student"] },
   { icon: MessageSquare, label: "My Posts", path: "/my-posts", roles: ["student"] },
@@ -244,9 +248,7 @@ export default function ModernDashboard({ children }: ModernDashboardProps) {
                   </SelectContent>
                 </Select>
               )}
-              <Button variant="ghost" size="sm" data-testid="button-notifications">
-                <Bell className="w-5 h-5" />
-              </Button>
+              <NotificationBell />
 
               {/* User Profile with Badge */}
               <DropdownMenu>
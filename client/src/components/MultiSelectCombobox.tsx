@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Check, ChevronsUpDown, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface MultiSelectOption {
+  value: string;
+  label: string;
+  description?: string;
+}
+
+interface MultiSelectComboboxProps {
+  options: MultiSelectOption[];
+  value: string[];
+  onChange: (value: string[]) => void;
+  placeholder?: string;
+  searchPlaceholder?: string;
+  emptyMessage?: string;
+  testId?: string;
+}
+
+// Searchable picker for several values, shown as removable badges
+export default function MultiSelectCombobox({
+  options,
+  value,
+  onChange,
+  placeholder = "Select...",
+  searchPlaceholder = "Search...",
+  emptyMessage = "Nothing found.",
+  testId
+}: MultiSelectComboboxProps) {
+  const [open, setOpen] = useState(false);
+  const selected = value
+    .map(item => options.find(option => option.value === item))
+    .filter((option): option is MultiSelectOption => !!option);
+
+  const toggle = (item: string) => {
+    onChange(value.includes(item) ? value.filter(v => v !== item) : [...value, item]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className={cn("w-full justify-between", selected.length === 0 && "text-muted-foreground")}
+            data-testid={testId}
+          >
+            {selected.length > 0 ? `${selected.length} selected` : placeholder}
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[400px] p-0" align="start">
+          <Command>
+            <CommandInput placeholder={searchPlaceholder} />
+            <CommandList>
+              <CommandEmpty>{emptyMessage}</CommandEmpty>
+              <CommandGroup>
+                {options.map((option) => (
+                  <CommandItem
+                    key={option.value}
+                    value={`${option.label} ${option.description ?? ''}`}
+                    onSelect={() => toggle(option.value)}
+                  >
+                    <Check className={cn("mr-2 h-4 w-4", value.includes(option.value) ? "opacity-100" : "opacity-0")} />
+                    <div>
+                      <p>{option.label}</p>
+                      {option.description && (
+                        <p className="text-xs text-muted-foreground">{option.description}</p>
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {selected.map((option) => (
+            <Badge key={option.value} variant="secondary" className="gap-1">
+              {option.label}
+              <button
+                type="button"
+                onClick={() => toggle(option.value)}
+                className="rounded-full hover:bg-muted-foreground/20"
+                aria-label={`Remove ${option.label}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
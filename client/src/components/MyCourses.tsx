@@ -0,0 +1,89 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { GraduationCap, BookOpen } from "lucide-react";
+import { courseLevelLabels, semesterLabels, type CourseWithLecturers } from "@/lib/courses";
+import type { Course } from "@shared/mongoSchema";
+
+interface UserCourses {
+  // The student's level, null when their profile doesn't have one
+  level: string | null;
+  courses: CourseWithLecturers[];
+}
+
+// Courses for the signed-in student's level, by semester
+export default function MyCourses() {
+  const [, setLocation] = useLocation();
+
+  const { data, isLoading } = useQuery<UserCourses>({
+    queryKey: ['/api/user/courses'],
+  });
+
+  if (isLoading || !data) {
+    return null;
+  }
+
+  const levelLabel = data.level ? courseLevelLabels[data.level as Course['level']] ?? `${data.level} Level` : null;
+
+  return (
+    <Card data-testid="card-my-courses">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GraduationCap className="w-5 h-5" />
+          My Courses
+        </CardTitle>
+        <CardDescription>
+          {levelLabel ? `Courses for ${levelLabel}` : 'Set your level in your profile to see your courses'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!data.level ? (
+          <Button variant="outline" onClick={() => setLocation('/dashboard/settings')} data-testid="button-set-level">
+            Update Profile
+          </Button>
+        ) : data.courses.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No courses have been listed for your level yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {(Object.keys(semesterLabels) as Course['semester'][]).map((semester) => {
+              const courses = data.courses.filter(course => course.semester === semester);
+              if (courses.length === 0) return null;
+
+              return (
+                <div key={semester} className="space-y-2">
+                  <p className="text-sm font-medium text-muted-foreground">{semesterLabels[semester]}</p>
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    {courses.map((course) => (
+                      <div
+                        key={course._id}
+                        className="p-3 border rounded-lg hover-elevate cursor-pointer"
+                        onClick={() => setLocation(`/courses/${course._id}`)}
+                        data-testid={`my-course-${course._id}`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-semibold">{course.code}</span>
+                          <Badge variant="outline" className="text-xs">
+                            <BookOpen className="w-3 h-3 mr-1" />
+                            {course.resourceCount}
+                          </Badge>
+                        </div>
+                        <p className="text-sm line-clamp-1">{course.title}</p>
+                        {course.lecturers.length > 0 && (
+                          <p className="text-xs text-muted-foreground line-clamp-1 mt-1">
+                            {course.lecturers.map(lecturer => lecturer.name).join(', ')}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
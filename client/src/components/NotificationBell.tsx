@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Bell, CheckCheck, CheckCircle2, XCircle, MessageSquare, Heart, BarChart3, Calendar, CalendarX, MessageSquareReply, Award } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Notification } from "@shared/mongoSchema";
+
+const notificationIcons: Record<Notification['type'], typeof Bell> = {
+  blog_approved: CheckCircle2,
+  blog_rejected: XCircle,
+  comment_reply: MessageSquare,
+  comment_like: Heart,
+  poll_created: BarChart3,
+  event_updated: Calendar,
+  event_cancelled: CalendarX,
+  review_reply: MessageSquareReply,
+  badge_earned: Award,
+};
+
+interface NotificationBellProps {
+  className?: string;
+}
+
+export default function NotificationBell({ className }: NotificationBellProps) {
+  const [, setLocation] = useLocation();
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Poll the unread count so the badge updates without a page reload
+  const { data: unread } = useQuery<{ count: number }>({
+    queryKey: ['/api/notifications/unread-count'],
+    refetchInterval: 30000,
+  });
+
+  // Only load the full list when the popover is open
+  const { data: notifications, isLoading } = useQuery<Notification[]>({
+    queryKey: ['/api/notifications'],
+    enabled: isOpen,
+  });
+
+  const invalidateNotifications = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/notifications/unread-count'] });
+  };
+
+  const markReadMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('PUT', `/api/notifications/${id}/read`),
+    onSuccess: invalidateNotifications,
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: () => apiRequest('PUT', '/api/notifications/read-all'),
+    onSuccess: invalidateNotifications,
+  });
+
+  const handleNotificationClick = (notification: Notification) => {
+    if (!notification.read && notification._id) {
+      markReadMutation.mutate(notification._id);
+    }
+    if (notification.link) {
+      setIsOpen(false);
+      setLocation(notification.link);
+    }
+  };
+
+  const formatTimestamp = (timestamp: Date | string) => {
+    const date = new Date(timestamp);
+    const now = new Date();
+    const diffInMinutes = Math.floor((now.getTime() - date.getTime()) / (1000 * 60));
+
+    if (diffInMinutes < 1) return "Just now";
+    if (diffInMinutes < 60) return `${diffInMinutes}m ago`;
+    if (diffInMinutes < 60 * 24) return `${Math.floor(diffInMinutes / 60)}h ago`;
+    return `${Math.floor(diffInMinutes / (60 * 24))}d ago`;
+  };
+
+  const unreadCount = unread?.count || 0;
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className={cn("relative", className)} data-testid="button-notifications">
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold text-destructive-foreground"
+              data-testid="badge-unread-notifications"
+            >
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <h3 className="font-semibold">Notifications</h3>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-auto gap-1 px-2 py-1 text-xs"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+              data-testid="button-mark-all-read"
+            >
+              <CheckCheck className="h-3 w-3" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+
+        <ScrollArea className="max-h-96">
+          {isLoading ? (
+            <div className="space-y-3 p-4">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-12 bg-muted animate-pulse rounded" />
+              ))}
+            </div>
+          ) : notifications && notifications.length > 0 ? (
+            <div className="divide-y">
+              {notifications.map((notification) => {
+                const Icon = notificationIcons[notification.type] || Bell;
+                return (
+                  <button
+                    key={notification._id}
+                    type="button"
+                    onClick={() => handleNotificationClick(notification)}
+                    className={cn(
+                      "flex w-full gap-3 px-4 py-3 text-left hover-elevate",
+                      !notification.read && "bg-primary/5"
+                    )}
+                    data-testid={`notification-${notification._id}`}
+                  >
+                    <Icon className="mt-0.5 h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                    <div className="min-w-0 flex-1">
+                      <p className={cn("text-sm", !notification.read && "font-semibold")}>{notification.title}</p>
+                      <p className="text-xs text-muted-foreground line-clamp-2">{notification.message}</p>
+                      <p className="mt-1 text-[11px] text-muted-foreground">{formatTimestamp(notification.createdAt)}</p>
+                    </div>
+                    {!notification.read && (
+                      <span className="mt-1.5 h-2 w-2 flex-shrink-0 rounded-full bg-primary" />
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="p-6 text-center text-sm text-muted-foreground">You're all caught up.</p>
+          )}
+        </ScrollArea>
+      </PopoverContent>
+    </Popover>
+  );
+}
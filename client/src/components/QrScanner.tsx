@@ -0,0 +1,99 @@
+import { useEffect, useRef, useState } from "react";
+
+// Minimal typing for the browser BarcodeDetector API (Chrome, Edge, Android)
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | undefined {
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+}
+
+export function isQrScanningSupported(): boolean {
+  return typeof window !== "undefined" && !!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia;
+}
+
+interface QrScannerProps {
+  onScan: (value: string) => void;
+  paused?: boolean;
+}
+
+export default function QrScanner({ onScan, paused = false }: QrScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the latest props in refs so the scan loop doesn't restart the camera
+  const onScanRef = useRef(onScan);
+  const pausedRef = useRef(paused);
+  onScanRef.current = onScan;
+  pausedRef.current = paused;
+
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!Detector) return;
+
+    const detector = new Detector({ formats: ["qr_code"] });
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let cancelled = false;
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (!cancelled && video && !pausedRef.current && video.readyState >= 2) {
+        try {
+          const [barcode] = await detector.detect(video);
+          if (barcode?.rawValue) {
+            onScanRef.current(barcode.rawValue);
+          }
+        } catch {
+          // Frames that can't be decoded are skipped
+        }
+      }
+      if (!cancelled) {
+        timer = window.setTimeout(scan, 400);
+      }
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then((mediaStream) => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          videoRef.current.play().catch(() => {});
+        }
+        scan();
+      })
+      .catch(() => setError("Camera access was denied or is unavailable"));
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  if (error) {
+    return <p className="text-sm text-red-600" data-testid="text-scanner-error">{error}</p>;
+  }
+
+  return (
+    <video
+      ref={videoRef}
+      className="w-full max-h-72 rounded-md bg-black object-cover"
+      muted
+      playsInline
+      data-testid="video-qr-scanner"
+    />
+  );
+}
@@ -27,7 +27,7 @@ import {
 } from "lucide-react";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { downloadFile } from "@/lib/cloudinary";
+import { downloadResource } from "@/lib/resources";
 
 interface Comment {
   id: string;
@@ -55,7 +55,6 @@ interface ResourceDetailModalProps {
     difficulty: '100l' | '200l' | '300l' | '400l';
     thumbnail?: string;
     previewAvailable: boolean;
-    fileUrl: string;
     fileName?: string;
   };
   onDownload?: (id: string) => void;
@@ -179,7 +178,7 @@ export default function ResourceDetailModal({
     }, 100);
 
     try {
-      await downloadFile(resource.fileUrl, resource.fileName || resource.title);
+      await downloadResource(resource.id, { fileName: resource.fileName || resource.title });
       setDownloadProgress(100);
       onDownload?.(resource.id);
       console.log(`Downloaded resource: ${resource.title}`);
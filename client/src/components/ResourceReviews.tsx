@@ -0,0 +1,418 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Flag, MessageSquareReply, Star, ThumbsUp, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import type { ResourceReview } from "@shared/mongoSchema";
+
+type ReviewSort = 'helpful' | 'recent' | 'highest' | 'lowest';
+
+export type ResourceReviewEntry = Omit<ResourceReview, 'flags'> & {
+  _id: string;
+  authorName: string;
+  authorAvatar: string;
+  replyAuthorName?: string;
+  votedHelpful: boolean;
+};
+
+interface ResourceReviewPage {
+  reviews: ResourceReviewEntry[];
+  total: number;
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+  myReview: (ResourceReview & { _id: string }) | null;
+}
+
+const PAGE_SIZE = 10;
+
+function StarRating({ value, size = "h-4 w-4" }: { value: number; size?: string }) {
+  return (
+    <div className="flex items-center gap-0.5" aria-label={`${value} out of 5 stars`}>
+      {[1, 2, 3, 4, 5].map((star) => (
+        <Star key={star} className={`${size} ${star <= value ? 'text-yellow-500 fill-current' : 'text-gray-300'}`} />
+      ))}
+    </div>
+  );
+}
+
+interface ResourceReviewsProps {
+  resourceId: string;
+  uploadedById: string;
+}
+
+// Star ratings and written reviews of a learning resource, with replies from its uploader
+export default function ResourceReviews({ resourceId, uploadedById }: ResourceReviewsProps) {
+  const { user, isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const [sort, setSort] = useState<ReviewSort>('helpful');
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const [reportReason, setReportReason] = useState("");
+  const [replyingId, setReplyingId] = useState<string | null>(null);
+  const [replyContent, setReplyContent] = useState("");
+
+  const isUploader = !!user && user._id === uploadedById;
+
+  const { data, isLoading } = useQuery<ResourceReviewPage>({
+    queryKey: ['/api/resources', resourceId, 'reviews', { sort, limit }],
+    queryFn: async () => {
+      const response = await fetch(`/api/resources/${resourceId}/reviews?sort=${sort}&limit=${limit}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch reviews');
+      return response.json();
+    },
+  });
+
+  const myReview = data?.myReview ?? null;
+
+  useEffect(() => {
+    setRating(myReview?.rating ?? 0);
+    setComment(myReview?.comment ?? "");
+  }, [myReview?._id, myReview?.rating, myReview?.comment]);
+
+  // The page header shows the average too, so refresh the resource along with its reviews
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/resources', resourceId] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message || "Failed to update review", variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/resources/${resourceId}/reviews`, { rating, comment: comment.trim() }),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: myReview ? "Review updated" : "Review posted" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest('DELETE', `/api/resources/${resourceId}/reviews/mine`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Review deleted" });
+    },
+    onError,
+  });
+
+  const helpfulMutation = useMutation({
+    mutationFn: (review: ResourceReviewEntry) =>
+      apiRequest(review.votedHelpful ? 'DELETE' : 'POST', `/api/reviews/${review._id}/helpful`),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const reportMutation = useMutation({
+    mutationFn: (reviewId: string) => apiRequest('POST', `/api/reviews/${reviewId}/flag`, { reason: reportReason.trim() || undefined }),
+    onSuccess: () => {
+      setReportingId(null);
+      setReportReason("");
+      toast({ title: "Review reported", description: "A moderator will take a look" });
+    },
+    onError,
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: ({ reviewId, content }: { reviewId: string; content: string | null }) => content === null
+      ? apiRequest('DELETE', `/api/reviews/${reviewId}/reply`)
+      : apiRequest('PUT', `/api/reviews/${reviewId}/reply`, { content }),
+    onSuccess: () => {
+      invalidate();
+      setReplyingId(null);
+      setReplyContent("");
+    },
+    onError,
+  });
+
+  const total = data?.total ?? 0;
+  const distribution = data?.distribution ?? { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  const average = total > 0
+    ? ([1, 2, 3, 4, 5] as const).reduce((sum, star) => sum + star * distribution[star], 0) / total
+    : 0;
+
+  return (
+    <Card className="p-6 mb-8" id="reviews">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Star className="h-5 w-5" />
+        Reviews
+      </h3>
+
+      {/* Summary */}
+      <div className="flex flex-col sm:flex-row gap-6 mb-6">
+        <div className="text-center sm:w-32 shrink-0">
+          <p className="text-4xl font-bold" data-testid="text-review-average">{average.toFixed(1)}</p>
+          <div className="flex justify-center my-1">
+            <StarRating value={Math.round(average)} />
+          </div>
+          <p className="text-sm text-muted-foreground">{total} {total === 1 ? 'rating' : 'ratings'}</p>
+        </div>
+        <div className="flex-1 space-y-1">
+          {([5, 4, 3, 2, 1] as const).map((star) => (
+            <div key={star} className="flex items-center gap-2 text-sm">
+              <span className="w-3">{star}</span>
+              <Star className="h-3 w-3 text-yellow-500 fill-current" />
+              <Progress value={total > 0 ? (distribution[star] / total) * 100 : 0} className="h-2 flex-1" />
+              <span className="w-8 text-right text-muted-foreground">{distribution[star]}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* The user's own review */}
+      {isAuthenticated ? (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (rating > 0) saveMutation.mutate();
+          }}
+          className="space-y-3 border rounded-lg p-4 mb-6"
+        >
+          <Label>{myReview ? 'Your review' : 'Rate this resource'}</Label>
+          {myReview?.status === 'hidden' && (
+            <Alert>
+              <AlertDescription>
+                Your review has been hidden by a moderator and doesn't count towards the rating.
+                {myReview.moderationNote && ` Note: ${myReview.moderationNote}`}
+              </AlertDescription>
+            </Alert>
+          )}
+          <div className="flex items-center gap-1">
+            {[1, 2, 3, 4, 5].map((star) => (
+              <button
+                key={star}
+                type="button"
+                onClick={() => setRating(star)}
+                className="p-0 border-0 bg-transparent hover:scale-110 transition-transform"
+                aria-label={`${star} stars`}
+                data-testid={`star-${star}`}
+              >
+                <Star
+                  className={`h-7 w-7 ${
+                    star <= rating ? 'text-yellow-500 fill-current' : 'text-gray-300 hover:text-yellow-400'
+                  }`}
+                />
+              </button>
+            ))}
+          </div>
+          <Textarea
+            placeholder="What was useful, and what could be better? (optional)"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            maxLength={2000}
+            rows={3}
+            data-testid="input-review-comment"
+          />
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" disabled={rating === 0 || saveMutation.isPending} data-testid="button-save-review">
+              {saveMutation.isPending ? "Saving..." : myReview ? "Update Review" : "Post Review"}
+            </Button>
+            {myReview && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => deleteMutation.mutate()}
+                disabled={deleteMutation.isPending}
+                data-testid="button-delete-review"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </Button>
+            )}
+          </div>
+        </form>
+      ) : (
+        <p className="text-sm text-muted-foreground mb-6">Log in to rate and review this resource.</p>
+      )}
+
+      {/* Reviews */}
+      {total > 0 && (
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <span className="text-sm text-muted-foreground">Sort by</span>
+          <Select value={sort} onValueChange={(value) => { setSort(value as ReviewSort); setLimit(PAGE_SIZE); }}>
+            <SelectTrigger className="w-44" data-testid="select-review-sort">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="helpful">Most helpful</SelectItem>
+              <SelectItem value="recent">Most recent</SelectItem>
+              <SelectItem value="highest">Highest rated</SelectItem>
+              <SelectItem value="lowest">Lowest rated</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-3">
+          <Skeleton className="h-20 w-full" />
+          <Skeleton className="h-20 w-full" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {data?.reviews.map((review) => {
+            const isOwn = review.userId === user?._id;
+            return (
+              <div key={review._id} className="border-b pb-4 last:border-b-0" data-testid={`review-${review._id}`}>
+                <div className="flex items-start gap-3">
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={review.authorAvatar} />
+                    <AvatarFallback>{review.authorName.charAt(0)}</AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium text-sm">{review.authorName}</span>
+                      <StarRating value={review.rating} size="h-3 w-3" />
+                      <span className="text-xs text-muted-foreground">{new Date(review.createdAt).toLocaleDateString()}</span>
+                    </div>
+                    {review.comment && <p className="text-sm whitespace-pre-wrap">{review.comment}</p>}
+
+                    <div className="flex flex-wrap items-center gap-1 pt-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className={review.votedHelpful ? 'text-primary' : ''}
+                        onClick={() => helpfulMutation.mutate(review)}
+                        disabled={!isAuthenticated || isOwn || helpfulMutation.isPending}
+                        data-testid={`button-helpful-${review._id}`}
+                      >
+                        <ThumbsUp className={`h-4 w-4 mr-1 ${review.votedHelpful ? 'fill-current' : ''}`} />
+                        Helpful{review.helpfulCount > 0 ? ` (${review.helpfulCount})` : ''}
+                      </Button>
+                      {isAuthenticated && !isOwn && (
+                        <Button variant="ghost" size="sm" onClick={() => setReportingId(review._id)} data-testid={`button-report-${review._id}`}>
+                          <Flag className="h-4 w-4 mr-1" />
+                          Report
+                        </Button>
+                      )}
+                      {isUploader && !review.reply && replyingId !== review._id && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => { setReplyingId(review._id); setReplyContent(""); }}
+                          data-testid={`button-reply-${review._id}`}
+                        >
+                          <MessageSquareReply className="h-4 w-4 mr-1" />
+                          Reply
+                        </Button>
+                      )}
+                    </div>
+
+                    {review.reply && replyingId !== review._id && (
+                      <div className="mt-2 ml-2 pl-3 border-l-2 space-y-1">
+                        <p className="text-xs text-muted-foreground">
+                          Reply from {review.replyAuthorName ?? 'the uploader'} · {new Date(review.reply.updatedAt).toLocaleDateString()}
+                        </p>
+                        <p className="text-sm whitespace-pre-wrap">{review.reply.content}</p>
+                        {isUploader && (
+                          <div className="flex gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => { setReplyingId(review._id); setReplyContent(review.reply!.content); }}
+                            >
+                              Edit
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => replyMutation.mutate({ reviewId: review._id, content: null })}
+                              disabled={replyMutation.isPending}
+                            >
+                              Delete
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {replyingId === review._id && (
+                      <form
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          if (replyContent.trim()) replyMutation.mutate({ reviewId: review._id, content: replyContent.trim() });
+                        }}
+                        className="mt-2 space-y-2"
+                      >
+                        <Textarea
+                          placeholder="Reply to this review"
+                          value={replyContent}
+                          onChange={(e) => setReplyContent(e.target.value)}
+                          maxLength={2000}
+                          rows={2}
+                          data-testid={`input-reply-${review._id}`}
+                        />
+                        <div className="flex gap-2">
+                          <Button type="submit" size="sm" disabled={!replyContent.trim() || replyMutation.isPending}>
+                            {replyMutation.isPending ? "Saving..." : "Save Reply"}
+                          </Button>
+                          <Button type="button" variant="outline" size="sm" onClick={() => setReplyingId(null)}>
+                            Cancel
+                          </Button>
+                        </div>
+                      </form>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+
+          {data && data.reviews.length < total && (
+            <Button variant="outline" size="sm" onClick={() => setLimit(limit + PAGE_SIZE)} data-testid="button-more-reviews">
+              Show more reviews
+            </Button>
+          )}
+        </div>
+      )}
+
+      <Dialog open={reportingId !== null} onOpenChange={(open) => !open && setReportingId(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Report Review</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (reportingId) reportMutation.mutate(reportingId);
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="report-reason">Reason (optional)</Label>
+              <Textarea
+                id="report-reason"
+                placeholder="e.g. spam, offensive, not about this resource"
+                value={reportReason}
+                onChange={(e) => setReportReason(e.target.value)}
+                maxLength={500}
+                rows={3}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setReportingId(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={reportMutation.isPending}>
+                {reportMutation.isPending ? "Reporting..." : "Report"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
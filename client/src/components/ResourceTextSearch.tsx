@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useDebounce } from "@/hooks/use-debounce";
+import { Search, Loader2 } from "lucide-react";
+
+interface ResourcePageMatch {
+  page: number;
+  snippet: string; // HTML with <mark> highlights, escaped by the server
+  score: number;
+}
+
+interface ResourcePageSearch {
+  query: string;
+  matches: ResourcePageMatch[];
+}
+
+interface ResourceTextSearchProps {
+  resourceId: string;
+  textStatus?: 'pending' | 'processing' | 'ready' | 'failed' | 'unsupported';
+  initialQuery?: string;
+  onOpenPage: (page: number) => void;
+}
+
+// Search inside a resource's file and jump to the matching page
+export default function ResourceTextSearch({ resourceId, textStatus, initialQuery = "", onOpenPage }: ResourceTextSearchProps) {
+  const [query, setQuery] = useState(initialQuery);
+  const debouncedQuery = useDebounce(query.trim());
+
+  const { data, isLoading } = useQuery<ResourcePageSearch>({
+    queryKey: ['/api/resources', resourceId, 'pages', debouncedQuery],
+    queryFn: async () => {
+      const response = await fetch(`/api/resources/${resourceId}/pages/search?q=${encodeURIComponent(debouncedQuery)}`);
+      if (!response.ok) throw new Error('Failed to search resource');
+      return response.json();
+    },
+    enabled: textStatus === 'ready' && debouncedQuery.length > 0,
+  });
+
+  if (textStatus !== 'ready' && textStatus !== 'pending' && textStatus !== 'processing') {
+    return null;
+  }
+
+  return (
+    <Card className="p-6 mb-8">
+      <h3 className="text-lg font-semibold mb-4">Search in this document</h3>
+
+      {textStatus !== 'ready' ? (
+        <p className="text-sm text-muted-foreground flex items-center gap-2" data-testid="text-extraction-pending">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          The text of this file is still being processed. Check back shortly.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              type="search"
+              placeholder="Find a word or phrase..."
+              className="pl-8"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              data-testid="input-document-search"
+            />
+          </div>
+
+          {debouncedQuery && (isLoading ? (
+            <div className="space-y-2">
+              {[1, 2].map((i) => (
+                <Skeleton key={i} className="h-14 w-full" />
+              ))}
+            </div>
+          ) : data && data.matches.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No pages mention "{debouncedQuery}".</p>
+          ) : data && (
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              <p className="text-sm text-muted-foreground">
+                Found on {data.matches.length} {data.matches.length === 1 ? 'page' : 'pages'}
+              </p>
+              {data.matches.map((match) => (
+                <button
+                  key={match.page}
+                  type="button"
+                  onClick={() => onOpenPage(match.page)}
+                  className="w-full text-left rounded-md border p-3 hover-elevate"
+                  data-testid={`button-document-page-${match.page}`}
+                >
+                  <p className="text-sm font-medium mb-1">Page {match.page}</p>
+                  <p
+                    className="text-sm text-muted-foreground [&_mark]:bg-yellow-200 dark:[&_mark]:bg-yellow-700 [&_mark]:text-foreground [&_mark]:rounded-sm"
+                    dangerouslySetInnerHTML={{ __html: match.snippet }}
+                  />
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,81 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Download, History } from "lucide-react";
+import type { ResourceVersion } from "@shared/mongoSchema";
+
+export type ResourceVersionEntry = ResourceVersion & {
+  _id: string;
+  uploaderName: string;
+  isCurrent: boolean;
+};
+
+interface ResourceVersionHistoryProps {
+  resourceId: string;
+  isDownloading: boolean;
+  onDownload: (version: ResourceVersionEntry) => void;
+}
+
+// Files previously uploaded for a resource, each still downloadable
+export default function ResourceVersionHistory({ resourceId, isDownloading, onDownload }: ResourceVersionHistoryProps) {
+  const { data: versions = [], isLoading } = useQuery<ResourceVersionEntry[]>({
+    queryKey: ['/api/resources', resourceId, 'versions'],
+  });
+
+  // A single upload has no history worth showing
+  if (!isLoading && versions.length < 2) {
+    return null;
+  }
+
+  return (
+    <Card className="p-6 mb-8">
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <History className="h-5 w-5" />
+        Version History
+      </h3>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          <Skeleton className="h-16 w-full" />
+          <Skeleton className="h-16 w-full" />
+        </div>
+      ) : (
+        <ol className="space-y-3">
+          {versions.map((version) => (
+            <li
+              key={version._id}
+              className="flex items-start justify-between gap-4 p-3 border rounded-lg"
+              data-testid={`resource-version-${version.version}`}
+            >
+              <div className="min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">Version {version.version}</span>
+                  {version.isCurrent && <Badge variant="secondary">Current</Badge>}
+                </div>
+                <p className="text-sm">
+                  {version.changelog || (version.version === 1 ? 'Initial upload' : 'No notes')}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {version.uploaderName} · {new Date(version.createdAt).toLocaleDateString()} · {version.fileName}
+                  {version.fileSize ? ` (${version.fileSize})` : ''} · {version.downloads} {version.downloads === 1 ? 'download' : 'downloads'}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onDownload(version)}
+                disabled={isDownloading}
+                data-testid={`button-download-version-${version.version}`}
+              >
+                <Download className="h-4 w-4 mr-1" />
+                Download
+              </Button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </Card>
+  );
+}
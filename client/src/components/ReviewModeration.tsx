@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Check, Eye, EyeOff, Star, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ResourceReview } from "@shared/mongoSchema";
+
+type ModerationStatus = 'flagged' | 'hidden' | 'all';
+type ModerationAction = 'hide' | 'restore' | 'dismiss';
+
+type ModerationReview = ResourceReview & {
+  _id: string;
+  authorName: string;
+  resourceTitle: string;
+};
+
+const actionLabels: Record<ModerationAction, string> = {
+  hide: 'Hide Review',
+  restore: 'Restore Review',
+  dismiss: 'Dismiss Reports',
+};
+
+// Reported resource reviews for admins to hide, restore or delete
+export default function ReviewModeration() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<ModerationStatus>('flagged');
+  const [pending, setPending] = useState<{ review: ModerationReview; action: ModerationAction } | null>(null);
+  const [note, setNote] = useState("");
+  const [deleting, setDeleting] = useState<ModerationReview | null>(null);
+
+  const { data, isLoading } = useQuery<{ reviews: ModerationReview[]; total: number }>({
+    queryKey: ['/api/admin/reviews', status],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/reviews?status=${status}&limit=100`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch reviews');
+      return response.json();
+    },
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message || "Failed to moderate review", variant: "destructive" });
+  };
+
+  const moderateMutation = useMutation({
+    mutationFn: ({ id, action }: { id: string; action: ModerationAction }) =>
+      apiRequest('PUT', `/api/admin/reviews/${id}/moderation`, { action, note: note.trim() || undefined }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/reviews'] });
+      setPending(null);
+      setNote("");
+      toast({ title: "Success", description: "Review updated successfully" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/admin/reviews/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/reviews'] });
+      setDeleting(null);
+      toast({ title: "Review deleted" });
+    },
+    onError,
+  });
+
+  const reviews = data?.reviews ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <CardTitle>Review Moderation</CardTitle>
+            <CardDescription>Reviews of learning resources that users reported</CardDescription>
+          </div>
+          <Select value={status} onValueChange={(value) => setStatus(value as ModerationStatus)}>
+            <SelectTrigger className="w-[180px]" data-testid="select-review-moderation-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="flagged">Reported</SelectItem>
+              <SelectItem value="hidden">Hidden</SelectItem>
+              <SelectItem value="all">All Reviews</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Review</TableHead>
+              <TableHead>Resource</TableHead>
+              <TableHead>Reports</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8">Loading reviews...</TableCell>
+              </TableRow>
+            ) : reviews.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                  {status === 'flagged' ? 'No reported reviews.' : 'No reviews found.'}
+                </TableCell>
+              </TableRow>
+            ) : (
+              reviews.map((review) => (
+                <TableRow key={review._id} data-testid={`row-review-${review._id}`}>
+                  <TableCell className="max-w-[320px]">
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="font-medium">{review.authorName}</span>
+                      <span className="flex items-center gap-0.5 text-muted-foreground">
+                        {review.rating}
+                        <Star className="h-3 w-3 text-yellow-500 fill-current" />
+                      </span>
+                    </div>
+                    <p className="text-sm text-muted-foreground line-clamp-3 whitespace-pre-wrap">
+                      {review.comment || 'No written review'}
+                    </p>
+                  </TableCell>
+                  <TableCell className="max-w-[200px]">
+                    <Link href={`/resources/${review.resourceId}`} className="text-sm hover:underline line-clamp-2">
+                      {review.resourceTitle}
+                    </Link>
+                  </TableCell>
+                  <TableCell>
+                    {review.flagCount > 0 ? (
+                      <div className="space-y-1">
+                        <Badge variant="outline" className="bg-red-500/10 text-red-600 border-red-500/20">{review.flagCount}</Badge>
+                        {review.flags.filter(flag => flag.reason).slice(0, 3).map((flag, index) => (
+                          <p key={index} className="text-xs text-muted-foreground line-clamp-1">"{flag.reason}"</p>
+                        ))}
+                      </div>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">None</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {review.status === 'hidden' ? (
+                      <Badge variant="outline">Hidden</Badge>
+                    ) : (
+                      <Badge variant="outline" className="bg-green-500/10 text-green-600 border-green-500/20">Published</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      {review.status === 'hidden' ? (
+                        <Button size="sm" variant="outline" className="h-8 px-2" title="Restore" onClick={() => setPending({ review, action: 'restore' })}>
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      ) : (
+                        <>
+                          <Button size="sm" variant="outline" className="h-8 px-2" title="Hide" onClick={() => setPending({ review, action: 'hide' })}>
+                            <EyeOff className="h-4 w-4" />
+                          </Button>
+                          {review.flagCount > 0 && (
+                            <Button size="sm" variant="outline" className="h-8 px-2" title="Dismiss reports" onClick={() => setPending({ review, action: 'dismiss' })}>
+                              <Check className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </>
+                      )}
+                      <Button size="sm" variant="outline" className="h-8 px-2 text-red-600" title="Delete" onClick={() => setDeleting(review)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <Dialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{pending ? actionLabels[pending.action] : ''}</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (pending) moderateMutation.mutate({ id: pending.review._id, action: pending.action });
+            }}
+            className="space-y-4"
+          >
+            <p className="text-sm text-muted-foreground">
+              {pending?.action === 'hide' && 'The review will no longer be shown or count towards the resource rating. Its author can still see it.'}
+              {pending?.action === 'restore' && 'The review will be shown again and count towards the resource rating.'}
+              {pending?.action === 'dismiss' && 'The reports are cleared and the review stays published.'}
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="moderation-note">Note (optional)</Label>
+              <Textarea
+                id="moderation-note"
+                placeholder={pending?.action === 'hide' ? 'Shown to the author of the review' : ''}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                maxLength={500}
+                rows={3}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setPending(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={moderateMutation.isPending}>
+                {moderateMutation.isPending ? "Saving..." : "Confirm"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Review</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete this review by {deleting?.authorName}? This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting._id)}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
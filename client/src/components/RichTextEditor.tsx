@@ -0,0 +1,240 @@
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { EditorContent, useEditor, useEditorState, type Editor } from "@tiptap/react";
+import StarterKit from "@tiptap/starter-kit";
+import Image from "@tiptap/extension-image";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Separator } from "@/components/ui/separator";
+import { Bold, Heading2, Heading3, ImagePlus, Italic, Link2, Link2Off, List, ListOrdered, Loader2, Quote, Redo2, Undo2 } from "lucide-react";
+import { uploadToCloudinary, validateFile } from "@/lib/cloudinary";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+// Editor for blog post bodies. It produces HTML limited to what the server's
+// sanitizer keeps: headings, lists, quotes, links and images uploaded to Cloudinary.
+
+interface RichTextEditorProps {
+  value: string;
+  onChange: (html: string) => void;
+  placeholder?: string;
+  folder?: string;
+  disabled?: boolean;
+  "data-testid"?: string;
+}
+
+function ToolbarButton({ label, active, disabled, onClick, children }: {
+  label: string;
+  active?: boolean;
+  disabled?: boolean;
+  onClick: () => void;
+  children: ReactNode;
+}) {
+  return (
+    <Button
+      type="button"
+      variant="ghost"
+      size="sm"
+      className={cn("h-8 w-8 p-0", active && "bg-muted text-foreground")}
+      aria-label={label}
+      aria-pressed={active}
+      title={label}
+      disabled={disabled}
+      onClick={onClick}
+    >
+      {children}
+    </Button>
+  );
+}
+
+function LinkButton({ editor }: { editor: Editor }) {
+  const [open, setOpen] = useState(false);
+  const [url, setUrl] = useState("");
+
+  const applyLink = () => {
+    const href = url.trim();
+    if (!href) {
+      editor.chain().focus().extendMarkRange("link").unsetLink().run();
+    } else {
+      editor.chain().focus().extendMarkRange("link").setLink({ href: /^(https?:|mailto:)/i.test(href) ? href : `https://${href}` }).run();
+    }
+    setOpen(false);
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        if (next) setUrl(editor.getAttributes("link").href ?? "");
+        setOpen(next);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className={cn("h-8 w-8 p-0", editor.isActive("link") && "bg-muted text-foreground")}
+          aria-label="Link"
+          title="Link"
+        >
+          <Link2 className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-2" align="start">
+        <Input
+          placeholder="https://example.com"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              applyLink();
+            }
+          }}
+          autoFocus
+        />
+        <div className="flex justify-end gap-2">
+          <Button type="button" size="sm" onClick={applyLink}>Apply</Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export default function RichTextEditor({ value, onChange, placeholder, folder = "blogs", disabled, "data-testid": testId }: RichTextEditorProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const editor = useEditor({
+    extensions: [
+      StarterKit.configure({
+        heading: { levels: [2, 3, 4] },
+        link: { openOnClick: false, autolink: true, protocols: ["mailto"] },
+      }),
+      Image,
+    ],
+    content: value,
+    editable: !disabled,
+    editorProps: {
+      attributes: {
+        class: "prose dark:prose-invert max-w-none min-h-[240px] px-3 py-2 focus:outline-none [&>:first-child]:mt-0",
+        ...(placeholder ? { "aria-placeholder": placeholder } : {}),
+      },
+    },
+    onUpdate: ({ editor }) => onChange(editor.isEmpty ? "" : editor.getHTML()),
+  });
+
+  // Re-render the toolbar as the selection moves so active states stay right
+  const active = useEditorState({
+    editor,
+    selector: ({ editor }) => editor ? {
+      isEmpty: editor.isEmpty,
+      bold: editor.isActive("bold"),
+      italic: editor.isActive("italic"),
+      h2: editor.isActive("heading", { level: 2 }),
+      h3: editor.isActive("heading", { level: 3 }),
+      bulletList: editor.isActive("bulletList"),
+      orderedList: editor.isActive("orderedList"),
+      blockquote: editor.isActive("blockquote"),
+      link: editor.isActive("link"),
+    } : null,
+  });
+
+  // Forms reset the value when a different post is opened
+  useEffect(() => {
+    if (editor && !editor.isDestroyed && value !== (editor.isEmpty ? "" : editor.getHTML())) {
+      editor.commands.setContent(value, { emitUpdate: false });
+    }
+  }, [editor, value]);
+
+  useEffect(() => {
+    editor?.setEditable(!disabled);
+  }, [editor, disabled]);
+
+  const handleImageSelected = async (file: File | undefined) => {
+    if (!file || !editor) return;
+
+    const validation = validateFile(file, { allowedExtensions: [".jpg", ".jpeg", ".png", ".gif", ".webp"] });
+    if (!validation.isValid) {
+      toast({ title: "Image not added", description: validation.error, variant: "destructive" });
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const result = await uploadToCloudinary(file, { folder, resourceType: "image" });
+      editor.chain().focus().setImage({ src: result.secure_url, alt: file.name.replace(/\.[^.]+$/, "") }).run();
+    } catch (error: any) {
+      toast({ title: "Image upload failed", description: error.message || "Please try again", variant: "destructive" });
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  if (!editor) {
+    return <div className="min-h-[290px] rounded-md border bg-muted/30" />;
+  }
+
+  return (
+    <div className={cn("rounded-md border bg-background", disabled && "opacity-60")} data-testid={testId}>
+      <div className="flex flex-wrap items-center gap-1 border-b p-1">
+        <ToolbarButton label="Bold" active={active?.bold} onClick={() => editor.chain().focus().toggleBold().run()}>
+          <Bold className="w-4 h-4" />
+        </ToolbarButton>
+        <ToolbarButton label="Italic" active={active?.italic} onClick={() => editor.chain().focus().toggleItalic().run()}>
+          <Italic className="w-4 h-4" />
+        </ToolbarButton>
+        <Separator orientation="vertical" className="mx-1 h-6" />
+        <ToolbarButton label="Heading" active={active?.h2} onClick={() => editor.chain().focus().toggleHeading({ level: 2 }).run()}>
+          <Heading2 className="w-4 h-4" />
+        </ToolbarButton>
+        <ToolbarButton label="Subheading" active={active?.h3} onClick={() => editor.chain().focus().toggleHeading({ level: 3 }).run()}>
+          <Heading3 className="w-4 h-4" />
+        </ToolbarButton>
+        <ToolbarButton label="Bulleted list" active={active?.bulletList} onClick={() => editor.chain().focus().toggleBulletList().run()}>
+          <List className="w-4 h-4" />
+        </ToolbarButton>
+        <ToolbarButton label="Numbered list" active={active?.orderedList} onClick={() => editor.chain().focus().toggleOrderedList().run()}>
+          <ListOrdered className="w-4 h-4" />
+        </ToolbarButton>
+        <ToolbarButton label="Quote" active={active?.blockquote} onClick={() => editor.chain().focus().toggleBlockquote().run()}>
+          <Quote className="w-4 h-4" />
+        </ToolbarButton>
+        <Separator orientation="vertical" className="mx-1 h-6" />
+        <LinkButton editor={editor} />
+        {active?.link && (
+          <ToolbarButton label="Remove link" onClick={() => editor.chain().focus().extendMarkRange("link").unsetLink().run()}>
+            <Link2Off className="w-4 h-4" />
+          </ToolbarButton>
+        )}
+        <ToolbarButton label="Insert image" disabled={isUploading} onClick={() => fileInputRef.current?.click()}>
+          {isUploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImagePlus className="w-4 h-4" />}
+        </ToolbarButton>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/jpeg,image/png,image/gif,image/webp"
+          className="hidden"
+          onChange={(e) => handleImageSelected(e.target.files?.[0])}
+        />
+        <div className="ml-auto flex items-center gap-1">
+          <ToolbarButton label="Undo" disabled={!editor.can().undo()} onClick={() => editor.chain().focus().undo().run()}>
+            <Undo2 className="w-4 h-4" />
+          </ToolbarButton>
+          <ToolbarButton label="Redo" disabled={!editor.can().redo()} onClick={() => editor.chain().focus().redo().run()}>
+            <Redo2 className="w-4 h-4" />
+          </ToolbarButton>
+        </div>
+      </div>
+      <div className="relative">
+        {active?.isEmpty && placeholder && (
+          <p className="pointer-events-none absolute left-3 top-2 text-muted-foreground">{placeholder}</p>
+        )}
+        <EditorContent editor={editor} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Bookmark, FolderPlus } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import type { SavedItem, StudyCollectionSummary } from "@/lib/saved";
+import type { SavedItemType } from "@shared/mongoSchema";
+
+interface SaveButtonProps {
+  itemType: SavedItemType;
+  itemId: string;
+  variant?: "ghost" | "outline";
+  size?: "sm" | "icon";
+  onSavedChange?: (saved: boolean) => void;
+}
+
+// Bookmarks an item and adds it to the user's study collections
+export default function SaveButton({ itemType, itemId, variant = "ghost", size = "sm", onSavedChange }: SaveButtonProps) {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [newCollectionName, setNewCollectionName] = useState("");
+
+  const { data: bookmarks = [] } = useQuery<SavedItem[]>({
+    queryKey: ['/api/bookmarks'],
+    enabled: isAuthenticated,
+  });
+
+  const { data: collections = [] } = useQuery<StudyCollectionSummary[]>({
+    queryKey: ['/api/collections'],
+    enabled: isAuthenticated,
+  });
+
+  const isSaved = bookmarks.some(item => item.itemType === itemType && item.itemId === itemId);
+  const inCollection = (collection: StudyCollectionSummary) =>
+    collection.items.some(item => item.itemType === itemType && item.itemId === itemId);
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message || "Failed to update saved items", variant: "destructive" });
+  };
+
+  const bookmarkMutation = useMutation({
+    mutationFn: (save: boolean) => save
+      ? apiRequest('POST', '/api/bookmarks', { itemType, itemId })
+      : apiRequest('DELETE', `/api/bookmarks/${itemType}/${itemId}`),
+    onSuccess: (_, save) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/bookmarks'] });
+      onSavedChange?.(save);
+      toast({ title: save ? "Saved" : "Removed from saved" });
+    },
+    onError,
+  });
+
+  const collectionItemMutation = useMutation({
+    mutationFn: ({ collectionId, add }: { collectionId: string; add: boolean }) => add
+      ? apiRequest('POST', `/api/collections/${collectionId}/items`, { itemType, itemId })
+      : apiRequest('DELETE', `/api/collections/${collectionId}/items/${itemType}/${itemId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/collections'] });
+    },
+    onError,
+  });
+
+  const createCollectionMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest('POST', '/api/collections', { name, visibility: 'private' });
+      const collection = await response.json();
+      await apiRequest('POST', `/api/collections/${collection._id}/items`, { itemType, itemId });
+      return collection;
+    },
+    onSuccess: (collection) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/collections'] });
+      setIsCreateOpen(false);
+      setNewCollectionName("");
+      toast({ title: "Collection created", description: `Added to "${collection.name}"` });
+    },
+    onError,
+  });
+
+  const trigger = (
+    <Button
+      variant={variant}
+      size={size}
+      className={isSaved ? 'text-primary' : ''}
+      aria-label={isSaved ? "Saved" : "Save"}
+      data-testid={`button-save-${itemType}-${itemId}`}
+    >
+      <Bookmark className={`h-4 w-4 ${isSaved ? 'fill-current' : ''}`} />
+    </Button>
+  );
+
+  if (!isAuthenticated) {
+    return (
+      <span
+        onClick={(e) => {
+          e.stopPropagation();
+          toast({ title: "Login Required", description: "Please login to save items", variant: "destructive" });
+        }}
+      >
+        {trigger}
+      </span>
+    );
+  }
+
+  return (
+    <span onClick={(e) => e.stopPropagation()}>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>{trigger}</DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuCheckboxItem
+            checked={isSaved}
+            onCheckedChange={(checked) => bookmarkMutation.mutate(checked)}
+            onSelect={(e) => e.preventDefault()}
+            data-testid={`menu-bookmark-${itemType}-${itemId}`}
+          >
+            Saved
+          </DropdownMenuCheckboxItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel>Collections</DropdownMenuLabel>
+          {collections.map((collection) => (
+            <DropdownMenuCheckboxItem
+              key={collection._id}
+              checked={inCollection(collection)}
+              onCheckedChange={(checked) => collectionItemMutation.mutate({ collectionId: collection._id, add: checked })}
+              onSelect={(e) => e.preventDefault()}
+            >
+              <span className="truncate">{collection.name}</span>
+            </DropdownMenuCheckboxItem>
+          ))}
+          <DropdownMenuItem onSelect={() => setIsCreateOpen(true)} data-testid="menu-new-collection">
+            <FolderPlus className="h-4 w-4 mr-2" />
+            New collection...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Collection</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (newCollectionName.trim()) createCollectionMutation.mutate(newCollectionName.trim());
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor={`collection-name-${itemType}-${itemId}`}>Name</Label>
+              <Input
+                id={`collection-name-${itemType}-${itemId}`}
+                placeholder='e.g. "SOC 301 exam prep"'
+                value={newCollectionName}
+                onChange={(e) => setNewCollectionName(e.target.value)}
+                maxLength={100}
+                data-testid="input-collection-name"
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!newCollectionName.trim() || createCollectionMutation.isPending}>
+                {createCollectionMutation.isPending ? "Creating..." : "Create and Add"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </span>
+  );
+}
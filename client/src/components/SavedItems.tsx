@@ -0,0 +1,267 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Bookmark, Folder, Link2, Lock, Plus, X } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { savedItemTypeLabels, type SavedItem, type StudyCollectionSummary } from "@/lib/saved";
+import type { SavedItemType } from "@shared/mongoSchema";
+
+interface SavedItemRowProps {
+  item: SavedItem;
+  onRemove?: (item: SavedItem) => void;
+}
+
+// One bookmarked or collected item, linking to its page
+export function SavedItemRow({ item, onRemove }: SavedItemRowProps) {
+  const [, setLocation] = useLocation();
+
+  return (
+    <div
+      className="flex items-start gap-3 p-3 border rounded-lg hover-elevate cursor-pointer"
+      onClick={() => setLocation(item.url)}
+      data-testid={`saved-${item.itemType}-${item.itemId}`}
+    >
+      {item.imageUrl && (
+        <img src={item.imageUrl} alt="" className="h-12 w-16 rounded object-cover shrink-0" />
+      )}
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className="text-xs shrink-0">{savedItemTypeLabels[item.itemType]}</Badge>
+          {item.itemType === 'event' && item.date && (
+            <span className="text-xs text-muted-foreground">{new Date(item.date).toLocaleDateString()}</span>
+          )}
+        </div>
+        <p className="font-medium line-clamp-1 mt-1">{item.title}</p>
+        <p className="text-sm text-muted-foreground line-clamp-2">{item.description}</p>
+      </div>
+      {onRemove && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove(item);
+          }}
+          aria-label="Remove"
+          data-testid={`button-remove-saved-${item.itemType}-${item.itemId}`}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// The student's bookmarks and study collections
+export default function SavedItems() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [typeFilter, setTypeFilter] = useState<SavedItemType | 'all'>('all');
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [shared, setShared] = useState(false);
+
+  const { data: bookmarks = [], isLoading: bookmarksLoading } = useQuery<SavedItem[]>({
+    queryKey: ['/api/bookmarks'],
+  });
+
+  const { data: collections = [], isLoading: collectionsLoading } = useQuery<StudyCollectionSummary[]>({
+    queryKey: ['/api/collections'],
+  });
+
+  const removeBookmarkMutation = useMutation({
+    mutationFn: (item: SavedItem) => apiRequest('DELETE', `/api/bookmarks/${item.itemType}/${item.itemId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/bookmarks'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to remove bookmark", variant: "destructive" });
+    },
+  });
+
+  const createCollectionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/collections', {
+        name: name.trim(),
+        description: description.trim() || undefined,
+        visibility: shared ? 'link' : 'private',
+      });
+      return response.json();
+    },
+    onSuccess: (collection) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/collections'] });
+      setIsCreateOpen(false);
+      setName("");
+      setDescription("");
+      setShared(false);
+      setLocation(`/collections/${collection._id}`);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to create collection", variant: "destructive" });
+    },
+  });
+
+  const filteredBookmarks = typeFilter === 'all' ? bookmarks : bookmarks.filter(item => item.itemType === typeFilter);
+
+  return (
+    <Card data-testid="card-saved">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bookmark className="w-5 h-5" />
+          Saved
+        </CardTitle>
+        <CardDescription>Blog posts, events and resources you saved for later</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="items">
+          <TabsList>
+            <TabsTrigger value="items" data-testid="tab-saved-items">Items ({bookmarks.length})</TabsTrigger>
+            <TabsTrigger value="collections" data-testid="tab-saved-collections">Collections ({collections.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="items" className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {(['all', 'blog', 'event', 'resource'] as const).map((type) => (
+                <Button
+                  key={type}
+                  variant={typeFilter === type ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setTypeFilter(type)}
+                  data-testid={`filter-saved-${type}`}
+                >
+                  {type === 'all' ? 'All' : `${savedItemTypeLabels[type]}s`}
+                </Button>
+              ))}
+            </div>
+
+            {bookmarksLoading ? (
+              <div className="space-y-2">
+                <Skeleton className="h-16 w-full" />
+                <Skeleton className="h-16 w-full" />
+              </div>
+            ) : filteredBookmarks.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Nothing saved yet. Use the bookmark button on a blog post, event or resource to save it here.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {filteredBookmarks.map((item) => (
+                  <SavedItemRow
+                    key={`${item.itemType}-${item.itemId}`}
+                    item={item}
+                    onRemove={(removed) => removeBookmarkMutation.mutate(removed)}
+                  />
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="collections" className="space-y-4">
+            <Button size="sm" onClick={() => setIsCreateOpen(true)} data-testid="button-new-collection">
+              <Plus className="h-4 w-4 mr-2" />
+              New Collection
+            </Button>
+
+            {collectionsLoading ? (
+              <Skeleton className="h-16 w-full" />
+            ) : collections.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Group saved items into collections, such as "SOC 301 exam prep", and share them with classmates.
+              </p>
+            ) : (
+              <div className="grid gap-2 sm:grid-cols-2">
+                {collections.map((collection) => (
+                  <div
+                    key={collection._id}
+                    className="p-3 border rounded-lg hover-elevate cursor-pointer"
+                    onClick={() => setLocation(`/collections/${collection._id}`)}
+                    data-testid={`collection-${collection._id}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-medium flex items-center gap-2 min-w-0">
+                        <Folder className="h-4 w-4 shrink-0" />
+                        <span className="truncate">{collection.name}</span>
+                      </p>
+                      {collection.visibility === 'link' ? (
+                        <Badge variant="secondary" className="text-xs"><Link2 className="h-3 w-3 mr-1" />Shared</Badge>
+                      ) : (
+                        <Badge variant="outline" className="text-xs"><Lock className="h-3 w-3 mr-1" />Private</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      {collection.itemCount} {collection.itemCount === 1 ? 'item' : 'items'}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Collection</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (name.trim()) createCollectionMutation.mutate();
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="new-collection-name">Name</Label>
+              <Input
+                id="new-collection-name"
+                placeholder='e.g. "SOC 301 exam prep"'
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                data-testid="input-new-collection-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-collection-description">Description (optional)</Label>
+              <Textarea
+                id="new-collection-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                maxLength={500}
+                rows={3}
+              />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="new-collection-shared">Share by link</Label>
+                <p className="text-sm text-muted-foreground">Anyone with the link can view this collection</p>
+              </div>
+              <Switch id="new-collection-shared" checked={shared} onCheckedChange={setShared} />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim() || createCollectionMutation.isPending}>
+                {createCollectionMutation.isPending ? "Creating..." : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
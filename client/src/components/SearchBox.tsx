@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Input } from "@/components/ui/input";
+import { useDebounce } from "@/hooks/use-debounce";
+import { cn } from "@/lib/utils";
+import { Search, BookOpen, Calendar, FileText, Users, BarChart3 } from "lucide-react";
+
+export type SearchType = 'blogs' | 'events' | 'resources' | 'staff' | 'polls';
+
+export const searchTypeLabels: Record<SearchType, string> = {
+  blogs: 'Blogs',
+  events: 'Events',
+  resources: 'Resources',
+  staff: 'Staff',
+  polls: 'Polls',
+};
+
+export const searchTypeIcons: Record<SearchType, typeof Search> = {
+  blogs: BookOpen,
+  events: Calendar,
+  resources: FileText,
+  staff: Users,
+  polls: BarChart3,
+};
+
+interface SearchSuggestion {
+  id: string;
+  type: SearchType;
+  title: string;
+  url: string;
+}
+
+interface SearchBoxProps {
+  placeholder?: string;
+  className?: string;
+  inputClassName?: string;
+  testId?: string;
+  // Called after navigating, e.g. to close the mobile menu
+  onNavigate?: () => void;
+}
+
+// Header search with typeahead. Enter opens the full results page unless a
+// suggestion is highlighted.
+export default function SearchBox({ placeholder = "Search...", className, inputClassName, testId = "input-search", onNavigate }: SearchBoxProps) {
+  const [, setLocation] = useLocation();
+  const [query, setQuery] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const debouncedQuery = useDebounce(query.trim(), 200);
+
+  const { data: suggestions = [] } = useQuery<SearchSuggestion[]>({
+    queryKey: ['/api/search/suggestions', debouncedQuery],
+    queryFn: async () => {
+      const response = await fetch(`/api/search/suggestions?q=${encodeURIComponent(debouncedQuery)}`);
+      if (!response.ok) throw new Error('Failed to fetch suggestions');
+      return response.json();
+    },
+    enabled: debouncedQuery.length >= 2,
+    staleTime: 30000,
+  });
+
+  const visibleSuggestions = debouncedQuery.length >= 2 ? suggestions : [];
+
+  const navigate = (url: string) => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+    setLocation(url);
+    onNavigate?.();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const suggestion = visibleSuggestions[activeIndex];
+    if (suggestion) {
+      navigate(suggestion.url);
+    } else if (query.trim()) {
+      navigate(`/search?q=${encodeURIComponent(query.trim())}`);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex(index => Math.min(index + 1, visibleSuggestions.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, -1));
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+      setActiveIndex(-1);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={cn("relative", className)} role="search">
+      <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+      <Input
+        type="search"
+        placeholder={placeholder}
+        className={cn("pl-8", inputClassName)}
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+          setActiveIndex(-1);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        aria-autocomplete="list"
+        aria-expanded={isOpen && visibleSuggestions.length > 0}
+        data-testid={testId}
+      />
+
+      {isOpen && visibleSuggestions.length > 0 && (
+        <ul
+          className="absolute left-0 right-0 top-full mt-1 z-50 rounded-md border bg-popover text-popover-foreground shadow-md py-1"
+          role="listbox"
+          data-testid="list-search-suggestions"
+        >
+          {visibleSuggestions.map((suggestion, index) => {
+            const Icon = searchTypeIcons[suggestion.type];
+            return (
+              // mousedown is cancelled so clicking a suggestion doesn't blur the input first
+              <li
+                key={`${suggestion.type}-${suggestion.id}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                className={cn(
+                  "flex items-center gap-2 px-3 py-2 text-sm cursor-pointer",
+                  index === activeIndex ? "bg-accent text-accent-foreground" : "hover:bg-accent/50"
+                )}
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => navigate(suggestion.url)}
+                data-testid={`suggestion-${suggestion.type}-${suggestion.id}`}
+              >
+                <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <span className="truncate flex-1">{suggestion.title}</span>
+                <span className="text-xs text-muted-foreground">{searchTypeLabels[suggestion.type]}</span>
+              </li>
+            );
+          })}
+          <li
+            role="option"
+            aria-selected={false}
+            className="px-3 py-2 text-sm text-primary cursor-pointer border-t hover:bg-accent/50"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => navigate(`/search?q=${encodeURIComponent(query.trim())}`)}
+          >
+            See all results for "{query.trim()}"
+          </li>
+        </ul>
+      )}
+    </form>
+  );
+}
@@ -9,12 +9,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, Search, Edit, Trash2, Eye, Clock, CheckCircle, XCircle } from "lucide-react";
+import { Plus, Search, Edit, Trash2, Eye, Clock, CheckCircle, XCircle, History, FileText, Calendar } from "lucide-react";
 import { ImageUpload } from "@/components/ui/image-upload";
 import { MultipleImageUpload } from "@/components/ui/multiple-image-upload";
-import type { BlogPost } from "@shared/mongoSchema";
+import BlogRevisionHistory from "@/components/BlogRevisionHistory";
+import RichTextEditor from "@/components/RichTextEditor";
+import type { BlogPost, BlogRevision } from "@shared/mongoSchema";
+
+// An edit of an approved post that is waiting for approval comes with the author's posts
+type AuthorBlogPost = BlogPost & { pendingEdit?: Pick<BlogRevision, 'title' | 'excerpt' | 'content' | 'category' | 'tags' | 'imageUrl' | 'imageUrls'> };
 
 const BLOG_CATEGORIES = ["Psychology", "Research", "Academic", "Sociology", "News", "Tutorial", "Entertainment", "Others"];
 
@@ -22,8 +26,9 @@ export function StudentBlogPostsView() {
     const { user } = useAuth();
     const { toast } = useToast();
     const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
-    const [editingBlog, setEditingBlog] = useState<BlogPost | null>(null);
+    const [editingBlog, setEditingBlog] = useState<AuthorBlogPost | null>(null);
     const [deletingBlog, setDeletingBlog] = useState<BlogPost | null>(null);
+    const [historyBlog, setHistoryBlog] = useState<BlogPost | null>(null);
     const [searchQuery, setSearchQuery] = useState("");
     const [categoryFilter, setCategoryFilter] = useState<string>("all");
 
@@ -31,7 +36,6 @@ export function StudentBlogPostsView() {
     const [formData, setFormData] = useState({
         title: "",
         content: "",
-        excerpt: "",
         category: "",
         tags: "",
         imageUrl: "",
@@ -40,7 +44,7 @@ export function StudentBlogPostsView() {
 
 
     // Fetch user's own blogs
-    const { data: blogs = [], isLoading, error: fetchError, refetch } = useQuery<BlogPost[]>({
+    const { data: blogs = [], isLoading, error: fetchError, refetch } = useQuery<AuthorBlogPost[]>({
         queryKey: ['/api/user/blogs'],
         enabled: !!user,
         retry: 1
@@ -75,11 +79,14 @@ export function StudentBlogPostsView() {
     // Create blog mutation
     const createBlogMutation = useMutation({
         mutationFn: (blogData: any) => apiRequest('POST', '/api/blogs', blogData),
-        onSuccess: () => {
+        onSuccess: (_, blogData) => {
             queryClient.invalidateQueries({ queryKey: ['/api/user/blogs'] });
             setIsCreateModalOpen(false);
             resetForm();
-            toast({
+            toast(blogData.status === 'draft' ? {
+                title: "Draft saved",
+                description: "Only you can see it until you submit it for review."
+            } : {
                 title: "Blog submitted successfully",
                 description: "Your blog post is pending admin approval."
             });
@@ -96,13 +103,18 @@ export function StudentBlogPostsView() {
     // Update blog mutation
     const updateBlogMutation = useMutation({
         mutationFn: ({ id, blogData }: { id: string; blogData: any }) => apiRequest('PUT', `/api/blogs/${id}`, blogData),
-        onSuccess: () => {
+        onSuccess: (_, { blogData }) => {
             queryClient.invalidateQueries({ queryKey: ['/api/user/blogs'] });
+            const wasApproved = editingBlog?.approvalStatus === 'approved';
             setEditingBlog(null);
             resetForm();
             toast({
                 title: "Blog updated successfully",
-                description: "Your changes are pending admin approval."
+                description: wasApproved
+                    ? "Your changes are pending admin approval. The approved version stays published until then."
+                    : blogData.status === 'draft'
+                        ? "Your draft has been saved."
+                        : "Your changes are pending admin approval."
             });
         },
         onError: (error: any) => {
@@ -138,7 +150,6 @@ export function StudentBlogPostsView() {
         setFormData({
             title: "",
             content: "",
-            excerpt: "",
             category: "",
             tags: "",
             imageUrl: "",
@@ -146,12 +157,13 @@ export function StudentBlogPostsView() {
         });
     };
 
-    const handleOpenEdit = (blog: BlogPost) => {
-        setEditingBlog(blog);
+    const handleOpenEdit = (post: AuthorBlogPost) => {
+        // Carry on from changes still waiting for approval rather than the published text
+        const blog = { ...post, ...post.pendingEdit };
+        setEditingBlog(post);
         setFormData({
             title: blog.title,
             content: blog.content,
-            excerpt: blog.excerpt || "",
             category: blog.category,
             tags: blog.tags?.join(", ") || "",
             imageUrl: blog.imageUrl || "",
@@ -159,7 +171,9 @@ export function StudentBlogPostsView() {
         });
     };
 
-    const handleSubmit = () => {
+    // Posts are kept as a private draft or submitted for review. Edits to approved
+    // posts are always reviewed, so the status is left out for those.
+    const handleSubmit = (status: 'draft' | 'submitted') => {
         if (!formData.title || !formData.content || !formData.category) {
             toast({
                 title: "Missing required fields",
@@ -172,7 +186,7 @@ export function StudentBlogPostsView() {
         const blogData = {
             ...formData,
             tags: formData.tags ? formData.tags.split(",").map(t => t.trim()).filter(Boolean) : [],
-            approvalStatus: 'pending' // Always pending for students
+            ...(editingBlog?.approvalStatus === 'approved' ? {} : { status })
         };
 
         if (editingBlog) {
@@ -182,8 +196,14 @@ export function StudentBlogPostsView() {
         }
     };
 
-    const getApprovalBadge = (status: string) => {
-        switch (status) {
+    const getApprovalBadge = (blog: AuthorBlogPost) => {
+        if (blog.status === 'draft') {
+            return <Badge variant="outline"><FileText className="w-3 h-3 mr-1" />Draft</Badge>;
+        }
+        if (blog.status === 'scheduled') {
+            return <Badge className="bg-blue-100 text-blue-800"><Calendar className="w-3 h-3 mr-1" />Scheduled</Badge>;
+        }
+        switch (blog.approvalStatus || 'pending') {
             case 'approved':
                 return <Badge className="bg-green-100 text-green-800"><CheckCircle className="w-3 h-3 mr-1" />Approved</Badge>;
             case 'rejected':
@@ -263,7 +283,12 @@ export function StudentBlogPostsView() {
                             <CardHeader>
                                 <div className="flex items-start justify-between gap-2">
                                     <CardTitle className="text-lg line-clamp-2">{blog.title}</CardTitle>
-                                    {getApprovalBadge(blog.approvalStatus || 'pending')}
+                                    <div className="flex flex-col items-end gap-1">
+                                        {getApprovalBadge(blog)}
+                                        {blog.pendingEdit && (
+                                            <Badge variant="secondary"><Clock className="w-3 h-3 mr-1" />Changes Pending</Badge>
+                                        )}
+                                    </div>
                                 </div>
                                 <CardDescription>{blog.category}</CardDescription>
                             </CardHeader>
@@ -280,6 +305,14 @@ export function StudentBlogPostsView() {
                                         <Edit className="w-4 h-4 mr-1" />
                                         Edit
                                     </Button>
+                                    <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() => setHistoryBlog(blog)}
+                                    >
+                                        <History className="w-4 h-4 mr-1" />
+                                        History
+                                    </Button>
                                     <Button
                                         size="sm"
                                         variant="destructive"
@@ -298,6 +331,13 @@ export function StudentBlogPostsView() {
                 </div>
             )}
 
+            <BlogRevisionHistory
+                blogId={historyBlog?._id ?? null}
+                blogTitle={historyBlog?.title ?? ""}
+                open={!!historyBlog}
+                onOpenChange={(open) => !open && setHistoryBlog(null)}
+            />
+
             {/* Create/Edit Modal */}
             <Dialog open={isCreateModalOpen || !!editingBlog} onOpenChange={(open) => {
                 if (!open) {
@@ -312,7 +352,7 @@ export function StudentBlogPostsView() {
                         <DialogDescription>
                             {editingBlog ? (
                                 editingBlog.approvalStatus === 'approved'
-                                    ? "Editing this approved post will require re-approval from an admin before changes are published"
+                                    ? "Your changes will be reviewed by an admin. The approved version stays published until then"
                                     : "Update your blog post"
                             ) : "Your post will be reviewed by an admin before publishing"}
                         </DialogDescription>
@@ -341,23 +381,11 @@ export function StudentBlogPostsView() {
                             </Select>
                         </div>
                         <div>
-                            <Label htmlFor="excerpt">Excerpt</Label>
-                            <Textarea
-                                id="excerpt"
-                                value={formData.excerpt}
-                                onChange={(e) => setFormData({ ...formData, excerpt: e.target.value })}
-                                placeholder="Brief description (optional)"
-                                rows={2}
-                            />
-                        </div>
-                        <div>
-                            <Label htmlFor="content">Content *</Label>
-                            <Textarea
-                                id="content"
+                            <Label>Content *</Label>
+                            <RichTextEditor
                                 value={formData.content}
-                                onChange={(e) => setFormData({ ...formData, content: e.target.value })}
+                                onChange={(content) => setFormData(current => ({ ...current, content }))}
                                 placeholder="Write your blog content"
-                                rows={8}
                             />
                         </div>
                         <div>
@@ -397,8 +425,17 @@ export function StudentBlogPostsView() {
                         }}>
                             Cancel
                         </Button>
-                        <Button onClick={handleSubmit} disabled={createBlogMutation.isPending || updateBlogMutation.isPending}>
-                            {editingBlog ? "Update Post" : "Submit for Review"}
+                        {editingBlog?.approvalStatus !== 'approved' && (
+                            <Button
+                                variant="outline"
+                                onClick={() => handleSubmit('draft')}
+                                disabled={createBlogMutation.isPending || updateBlogMutation.isPending}
+                            >
+                                Save Draft
+                            </Button>
+                        )}
+                        <Button onClick={() => handleSubmit('submitted')} disabled={createBlogMutation.isPending || updateBlogMutation.isPending}>
+                            {editingBlog?.approvalStatus === 'approved' ? "Update Post" : "Submit for Review"}
                         </Button>
                     </DialogFooter>
                 </DialogContent>
@@ -17,6 +17,8 @@ import {
   FileText
 } from "lucide-react";
 import PollVoter from "./PollVoter";
+import MyCourses from "./MyCourses";
+import SavedItems from "./SavedItems";
 
 interface StudentDashboardProps {
   student: {
@@ -202,6 +204,10 @@ export default function StudentDashboard({
         </Card>
       </div>
 
+      <MyCourses />
+
+      <SavedItems />
+
       {/* Main Content Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Recent Activity */}
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ShieldAlert } from "lucide-react";
+import type { EngagementKind } from "@shared/mongoSchema";
+
+type SuspicionFlag = 'xp_spike' | 'rate_limited' | 'repeated_requests' | 'points_capped';
+
+// Shape of GET /api/admin/gamification/suspicious-activity
+interface SuspiciousActivityReportData {
+  since: string;
+  users: Array<{
+    userId: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+    matricNumber?: string;
+    xp: number;
+    usualXp: number;
+    cappedEntries: number;
+    rejected: Record<EngagementKind, number>;
+    rateLimited: number;
+    duplicates: number;
+    flags: SuspicionFlag[];
+  }>;
+  addresses: Array<{ ip: string; rateLimited: number; duplicates: number }>;
+}
+
+const flagLabels: Record<SuspicionFlag, { label: string; description: string }> = {
+  xp_spike: { label: 'XP spike', description: 'Earned far more XP than usual' },
+  rate_limited: { label: 'Rate limited', description: 'Went over the download or like limits' },
+  repeated_requests: { label: 'Repeated requests', description: 'Repeated the same downloads many times' },
+  points_capped: { label: 'Points capped', description: 'Hit the points cap for a single post, comment or resource' },
+};
+
+const windowOptions = [
+  { hours: 6, label: 'Last 6 hours' },
+  { hours: 24, label: 'Last 24 hours' },
+  { hours: 72, label: 'Last 3 days' },
+  { hours: 168, label: 'Last 7 days' },
+];
+
+export default function SuspiciousActivityReport() {
+  const [hours, setHours] = useState(24);
+
+  const { data: report, isLoading } = useQuery<SuspiciousActivityReportData>({
+    queryKey: ['/api/admin/gamification/suspicious-activity', hours],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/gamification/suspicious-activity?hours=${hours}`, {
+        credentials: 'include',
+      });
+      if (!response.ok) throw new Error('Failed to fetch suspicious activity report');
+      return response.json();
+    },
+    placeholderData: keepPreviousData,
+  });
+
+  return (
+    <Card data-testid="card-suspicious-activity">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-orange-500" />
+            Suspicious Activity
+          </CardTitle>
+          <CardDescription>
+            Students whose downloads, likes or XP look like point farming
+            {report && ` since ${formatDistanceToNow(new Date(report.since), { addSuffix: true })}`}
+          </CardDescription>
+        </div>
+        <Select value={String(hours)} onValueChange={(value) => setHours(Number(value))}>
+          <SelectTrigger className="w-[150px]" data-testid="select-suspicious-window">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {windowOptions.map((option) => (
+              <SelectItem key={option.hours} value={String(option.hours)}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !report ? (
+          <div className="h-24 bg-muted rounded animate-pulse" />
+        ) : report.users.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">Nothing suspicious in this period</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="hover:bg-transparent">
+                <TableHead>Student</TableHead>
+                <TableHead>Flags</TableHead>
+                <TableHead className="text-right">XP (usual)</TableHead>
+                <TableHead className="text-right">Throttled</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.users.map((user) => (
+                <TableRow key={user.userId} data-testid={`row-suspicious-${user.userId}`}>
+                  <TableCell>
+                    <div className="flex flex-col">
+                      <span className="font-medium text-sm">{user.firstName} {user.lastName}</span>
+                      <span className="text-xs text-muted-foreground">{user.matricNumber || user.email}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {user.flags.map((flag) => (
+                        <Badge key={flag} variant="outline" className="border-orange-300 text-orange-700 dark:text-orange-300" title={flagLabels[flag].description}>
+                          {flagLabels[flag].label}
+                        </Badge>
+                      ))}
+                      {user.cappedEntries > 0 && (
+                        <span className="text-xs text-muted-foreground">{user.cappedEntries} capped</span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <span className="font-bold">{user.xp}</span>
+                    <span className="text-xs text-muted-foreground"> ({user.usualXp})</span>
+                  </TableCell>
+                  <TableCell className="text-right text-xs text-muted-foreground">
+                    <div>{user.rejected.download} downloads</div>
+                    <div>{user.rejected.like} likes</div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {report && report.addresses.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Anonymous views over the limit</h4>
+            <div className="flex flex-wrap gap-2">
+              {report.addresses.map((address) => (
+                <Badge key={address.ip} variant="secondary" className="font-mono font-normal">
+                  {address.ip}: {address.rateLimited}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
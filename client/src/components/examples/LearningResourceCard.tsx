@@ -17,7 +17,6 @@ export default function LearningResourceCardExample() {
     difficulty: '400l' as const,
     thumbnail: "https://images.unsplash.com/photo-1551288049-bebda4e38f71?w=400&h=200&fit=crop",
     previewAvailable: true,
-    fileUrl: "https://example.com/file.pdf",
     fileName: "advanced_statistics.pdf"
   };
 
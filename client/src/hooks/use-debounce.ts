@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+// Returns the value once it has stopped changing for the given delay
+export function useDebounce<T>(value: T, delay = 300): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debounced;
+}
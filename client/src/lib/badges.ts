@@ -0,0 +1,85 @@
+import { Award, BookOpen, CalendarCheck, Download, Flame, GraduationCap, Heart, Medal, MessageSquare, Star, Target, Trophy, Vote, Zap, type LucideIcon } from "lucide-react";
+import type { ActivityAction, BadgeCondition, BadgeDefinition, BadgeIcon, Event, LeaderboardPeriod } from "@shared/mongoSchema";
+
+// Shape of GET /api/admin/gamification/badges
+export type BadgeWithAwards = BadgeDefinition & {
+  _id: string;
+  awardedCount: number;
+};
+
+// Shape of GET /api/gamification/badges/:userId
+export interface UserBadgeStatus {
+  _id: string;
+  name: string;
+  description: string;
+  icon: BadgeIcon;
+  earned: boolean;
+  earnedAt?: string;
+}
+
+export const badgeIcons: Record<BadgeIcon, LucideIcon> = {
+  'award': Award,
+  'trophy': Trophy,
+  'medal': Medal,
+  'star': Star,
+  'flame': Flame,
+  'zap': Zap,
+  'target': Target,
+  'heart': Heart,
+  'message-square': MessageSquare,
+  'book-open': BookOpen,
+  'download': Download,
+  'calendar-check': CalendarCheck,
+  'graduation-cap': GraduationCap,
+  'vote': Vote,
+};
+
+const leaderboardPeriodNames: Record<LeaderboardPeriod, string> = {
+  week: 'this week',
+  month: 'this month',
+  all: 'of all time',
+};
+
+// Singular and plural of what each activity condition counts
+const activityNouns: Record<ActivityAction, [string, string]> = {
+  blog_post_approved: ['approved blog post', 'approved blog posts'],
+  comment_posted: ['comment', 'comments'],
+  like_received: ['like received', 'likes received'],
+  resource_downloaded: ['resource downloaded', 'resources downloaded'],
+  event_attended: ['event attended', 'events attended'],
+  poll_voted: ['poll vote', 'poll votes'],
+};
+
+const eventTypeNouns: Record<Event['type'], [string, string]> = {
+  workshop: ['workshop attended', 'workshops attended'],
+  seminar: ['seminar attended', 'seminars attended'],
+  conference: ['conference attended', 'conferences attended'],
+  social: ['social event attended', 'social events attended'],
+  academic: ['academic event attended', 'academic events attended'],
+};
+
+function plural(count: number, [one, many]: [string, string]): string {
+  return `${count} ${count === 1 ? one : many}`;
+}
+
+// A condition in words, e.g. "5 seminars attended" or "Top 3 this month"
+export function describeBadgeCondition(condition: BadgeCondition): string {
+  switch (condition.metric) {
+    case 'activity':
+      return plural(condition.atLeast, condition.eventType ? eventTypeNouns[condition.eventType] : activityNouns[condition.action]);
+    case 'xp':
+      return `${condition.atLeast} XP`;
+    case 'streak':
+      return `${plural(condition.atLeast, ['day', 'days'])} in a row`;
+    case 'leaderboard_rank':
+      return `${condition.atMost === 1 ? 'First' : `Top ${condition.atMost}`} ${leaderboardPeriodNames[condition.period]}`;
+  }
+}
+
+export const eventTypeLabels: Record<Event['type'], string> = {
+  workshop: 'Workshop',
+  seminar: 'Seminar',
+  conference: 'Conference',
+  social: 'Social',
+  academic: 'Academic',
+};
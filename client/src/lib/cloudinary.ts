@@ -243,78 +243,8 @@ export const getDownloadUrl = (url: string, filename?: string): string => {
   }
 };
 
-const requestSignedUrl = async (
-  publicId: string,
-  resourceType: string,
-  filename?: string
-): Promise<string | null> => {
-  try {
-    const response = await fetch('/api/cloudinary/signed-url', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ publicId, resourceType, filename })
-    });
-
-    if (!response.ok) {
-      return null;
-    }
-
-    const data = await response.json();
-    return data?.url || null;
-  } catch (error) {
-    console.error('Error requesting signed URL:', error);
-    return null;
-  }
-};
-
-/**
- * Extract public ID from Cloudinary URL
- * Cloudinary URL structure: /{resource_type}/upload/{transformations}/{version}/{public_id}
- * @param url - Cloudinary URL
- * @returns Public ID and resource type
- */
-const extractCloudinaryPublicId = (url: string): { publicId: string; resourceType: string } => {
-  try {
-    const urlParts = url.split('/upload/');
-    if (urlParts.length !== 2) {
-      throw new Error('Invalid Cloudinary URL');
-    }
-
-    // Extract path after upload
-    const pathAfterUpload = urlParts[1];
-    const pathParts = pathAfterUpload.split('/');
-
-    // Find the version token (v followed by digits) or start of actual path
-    // Everything after the version token is the public ID
-    let versionIndex = -1;
-    for (let i = 0; i < pathParts.length; i++) {
-      if (pathParts[i].match(/^v\d+$/)) {
-        versionIndex = i;
-        break;
-      }
-    }
-
-    // If version found, public ID is everything after it
-    // Otherwise, assume no transformations and whole path is public ID
-    const publicIdParts = versionIndex >= 0
-      ? pathParts.slice(versionIndex + 1)
-      : pathParts;
-
-    const publicId = publicIdParts.join('/');
-
-    // Determine resource type from URL
-    const resourceType = url.includes('/image/') ? 'image' :
-      url.includes('/video/') ? 'video' : 'raw';
-
-    return { publicId, resourceType };
-  } catch (error) {
-    console.error('Error extracting public ID:', error);
-    throw error;
-  }
-};
-
 /**
- * Download a file from Cloudinary (for public files)
+ * Download a file from Cloudinary (a public URL, or a signed link from the server)
  * @param fileUrl - Cloudinary file URL
  * @param fileName - Desired filename for download
  */
@@ -322,20 +252,7 @@ export const downloadFile = async (fileUrl: string, fileName: string): Promise<v
   try {
     console.log(`📥 Downloading file: ${fileName}`);
 
-    let downloadUrl = getDownloadUrl(fileUrl, fileName);
-
-    // Prefer signed URLs to handle authenticated/private resources
-    if (fileUrl && fileUrl.includes('cloudinary.com')) {
-      try {
-        const { publicId, resourceType } = extractCloudinaryPublicId(fileUrl);
-        const signedUrl = await requestSignedUrl(publicId, resourceType, fileName);
-        if (signedUrl) {
-          downloadUrl = signedUrl;
-        }
-      } catch (error) {
-        console.warn('Falling back to direct download URL:', error);
-      }
-    }
+    const downloadUrl = getDownloadUrl(fileUrl, fileName);
 
     // Try to download using fetch and blob for better cross-origin handling
     try {
@@ -376,32 +293,3 @@ export const downloadFile = async (fileUrl: string, fileName: string): Promise<v
     throw error;
   }
 };
-
-/**
- * Get preview URL for a file (especially PDFs and documents)
- * For public files, returns the direct URL without attachment flag
- * @param url - Original Cloudinary URL
- * @returns Promise with preview URL
- */
-export const getPreviewUrl = async (url: string): Promise<string> => {
-  if (!url || !url.includes('cloudinary.com')) {
-    return url;
-  }
-
-  try {
-    // Prefer signed URLs to handle authenticated/private resources in previews
-    const { publicId, resourceType } = extractCloudinaryPublicId(url);
-    const signedUrl = await requestSignedUrl(publicId, resourceType);
-    if (signedUrl) {
-      return signedUrl;
-    }
-
-    // Fallback to direct URL for public files
-    console.log('✅ Using direct URL for preview (public file)');
-    return url;
-  } catch (error) {
-    console.error('Error generating preview URL:', error);
-    // Fallback to original URL
-    return url;
-  }
-};
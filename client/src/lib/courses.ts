@@ -0,0 +1,30 @@
+import type { Course, Event, LearningResource } from "@shared/mongoSchema";
+
+export interface CourseLecturer {
+  _id: string;
+  name: string;
+  title: string;
+  avatar?: string;
+}
+
+// Shape of GET /api/courses
+export type CourseWithLecturers = Course & { _id: string; lecturers: CourseLecturer[]; resourceCount: number };
+
+// Shape of GET /api/courses/:id
+export type CourseDetail = CourseWithLecturers & {
+  resources: LearningResource[];
+  events: Event[];
+};
+
+export const courseLevelLabels: Record<Course['level'], string> = {
+  '100': '100 Level',
+  '200': '200 Level',
+  '300': '300 Level',
+  '400': '400 Level',
+  postgraduate: 'Postgraduate',
+};
+
+export const semesterLabels: Record<Course['semester'], string> = {
+  first: 'First Semester',
+  second: 'Second Semester',
+};
@@ -0,0 +1,126 @@
+// Line-by-line comparison of two texts, laid out for showing side by side
+
+export type DiffRowType = 'same' | 'changed' | 'removed' | 'added';
+
+export interface DiffRow {
+  type: DiffRowType;
+  before: string | null; // null where the line only exists after the change
+  after: string | null;
+}
+
+export type DisplayDiffRow = DiffRow | { type: 'skipped'; count: number };
+
+// Above this many line pairs the texts are shown as replaced wholesale rather than compared
+const MAX_COMPARED_CELLS = 1_000_000;
+
+function toLines(text: string): string[] {
+  return text === '' ? [] : text.split('\n');
+}
+
+// Longest common subsequence of lines, walked back into removed, added and unchanged lines
+function compareLines(before: string[], after: string[]): Array<{ type: 'same' | 'removed' | 'added'; line: string }> {
+  if (before.length * after.length > MAX_COMPARED_CELLS) {
+    return [
+      ...before.map(line => ({ type: 'removed' as const, line })),
+      ...after.map(line => ({ type: 'added' as const, line })),
+    ];
+  }
+
+  const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: Array<{ type: 'same' | 'removed' | 'added'; line: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      ops.push({ type: 'same', line: before[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      ops.push({ type: 'removed', line: before[i++] });
+    } else {
+      ops.push({ type: 'added', line: after[j++] });
+    }
+  }
+  while (i < before.length) ops.push({ type: 'removed', line: before[i++] });
+  while (j < after.length) ops.push({ type: 'added', line: after[j++] });
+  return ops;
+}
+
+// Removed lines followed by added ones are paired up as changed lines
+export function diffLines(beforeText: string, afterText: string): DiffRow[] {
+  const before = toLines(beforeText);
+  const after = toLines(afterText);
+
+  // Only the part between the common start and end needs comparing
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  const rows: DiffRow[] = before.slice(0, start).map(line => ({ type: 'same', before: line, after: line }));
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k] ?? null;
+      const right = added[k] ?? null;
+      rows.push({ type: left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added', before: left, after: right });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const op of compareLines(before.slice(start, endBefore), after.slice(start, endAfter))) {
+    if (op.type === 'same') {
+      flush();
+      rows.push({ type: 'same', before: op.line, after: op.line });
+    } else if (op.type === 'removed') {
+      removed.push(op.line);
+    } else {
+      added.push(op.line);
+    }
+  }
+  flush();
+
+  for (const line of before.slice(endBefore)) {
+    rows.push({ type: 'same', before: line, after: line });
+  }
+  return rows;
+}
+
+// Long runs of unchanged lines are folded away, keeping a few lines around each change
+export function collapseUnchanged(rows: DiffRow[], context = 2): DisplayDiffRow[] {
+  const keep = rows.map(() => false);
+  rows.forEach((row, index) => {
+    if (row.type === 'same') return;
+    for (let k = Math.max(0, index - context); k <= Math.min(rows.length - 1, index + context); k++) {
+      keep[k] = true;
+    }
+  });
+
+  const display: DisplayDiffRow[] = [];
+  let skipped = 0;
+  rows.forEach((row, index) => {
+    if (keep[index]) {
+      if (skipped > 0) display.push({ type: 'skipped', count: skipped });
+      skipped = 0;
+      display.push(row);
+    } else {
+      skipped++;
+    }
+  });
+  if (skipped > 0) display.push({ type: 'skipped', count: skipped });
+  return display;
+}
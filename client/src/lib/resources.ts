@@ -0,0 +1,26 @@
+import { apiRequest } from "@/lib/queryClient";
+import { downloadFile } from "@/lib/cloudinary";
+import type { ResourceVisibility } from "@shared/mongoSchema";
+
+export const resourceVisibilityLabels: Record<ResourceVisibility, string> = {
+  public: 'Everyone',
+  students: 'Signed-in students',
+  levels: 'Specific levels',
+  admins: 'Admins only',
+};
+
+// The server records the download and answers with a short-lived link to the file.
+// Pass a version to download an older file of the resource.
+export async function downloadResource(resourceId: string, options: { version?: number; fileName?: string } = {}): Promise<void> {
+  const response = await apiRequest('POST', `/api/resources/${resourceId}/download`, options.version ? { version: options.version } : {});
+  const { url, fileName } = await response.json();
+  await downloadFile(url, options.fileName || fileName);
+}
+
+// A short-lived link for viewing the resource's file in the browser
+export async function getResourcePreviewUrl(resourceId: string): Promise<string> {
+  const response = await fetch(`/api/resources/${resourceId}/preview`, { credentials: 'include' });
+  if (!response.ok) throw new Error('Failed to get preview URL');
+  const { url } = await response.json();
+  return url;
+}
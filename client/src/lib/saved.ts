@@ -0,0 +1,36 @@
+import type { SavedItemRef, SavedItemType, StudyCollection } from "@shared/mongoSchema";
+
+// Shape of GET /api/bookmarks, and of the items of a collection
+export interface SavedItem extends SavedItemRef {
+  title: string;
+  description: string;
+  url: string;
+  imageUrl?: string;
+  date?: string;
+  savedAt: string;
+}
+
+// Shape of GET /api/collections
+export type StudyCollectionSummary = Omit<StudyCollection, 'items'> & {
+  _id: string;
+  items: SavedItemRef[];
+  itemCount: number;
+};
+
+// Shape of GET /api/collections/:id; shared collections come without their shareToken
+export type StudyCollectionWithItems = Omit<StudyCollection, 'items' | 'shareToken'> & {
+  _id: string;
+  shareToken?: string;
+  items: SavedItem[];
+  ownerName: string;
+};
+
+export const savedItemTypeLabels: Record<SavedItemType, string> = {
+  blog: 'Blog Post',
+  event: 'Event',
+  resource: 'Resource',
+};
+
+export function getCollectionShareUrl(shareToken: string): string {
+  return `${window.location.origin}/collections/shared/${shareToken}`;
+}
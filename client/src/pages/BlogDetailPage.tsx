@@ -279,7 +279,7 @@ export default function BlogDetailPage() {
             {/* Date */}
             <div className="flex items-center gap-2 text-muted-foreground">
               <Calendar className="h-4 w-4" />
-              <span className="text-sm">{formatDate(blog.createdAt)}</span>
+              <span className="text-sm">{formatDate(blog.publishedAt ?? blog.createdAt)}</span>
             </div>
 
             {/* Read Time */}
@@ -302,14 +302,7 @@ export default function BlogDetailPage() {
             </button>
           </div>
 
-          {/* Excerpt */}
-          {blog.excerpt && (
-            <p className="text-xl text-muted-foreground mb-8 italic" data-testid="text-excerpt">
-              {blog.excerpt}
-            </p>
-          )}
-
-          {/* Content */}
+          {/* Content, sanitized by the server. The excerpt is its opening, so it isn't repeated above it. */}
           <div
             className="prose prose-lg dark:prose-invert max-w-none mb-12"
             data-testid="content-body"
@@ -80,7 +80,7 @@ export default function BlogsPage() {
                   level: 'Author',
                 },
                 category: blog.category,
-                publishedAt: new Date(blog.createdAt).toISOString().split('T')[0],
+                publishedAt: new Date(blog.publishedAt ?? blog.createdAt).toISOString().split('T')[0],
                 readTime: blog.readTime,
                 likes: blog.likes,
                 comments: blog.commentCount || 0,
@@ -0,0 +1,259 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { ArrowLeft, Copy, Edit, Folder, Link2, Lock, Trash2 } from "lucide-react";
+import { SavedItemRow } from "@/components/SavedItems";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { getCollectionShareUrl, type SavedItem, type StudyCollectionWithItems } from "@/lib/saved";
+
+// A study collection: the owner's view at /collections/:id, read-only at /collections/shared/:token
+export default function CollectionPage() {
+  const { id, token } = useParams();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const isOwner = !token;
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+
+  const queryKey = isOwner ? ['/api/collections', id] : ['/api/collections/shared', token];
+  const { data: collection, isLoading, error } = useQuery<StudyCollectionWithItems>({
+    queryKey,
+    queryFn: async () => {
+      const response = await fetch(isOwner ? `/api/collections/${id}` : `/api/collections/shared/${token}`, { credentials: 'include' });
+      if (!response.ok) throw new Error('Failed to fetch collection');
+      return response.json();
+    },
+    enabled: !!(id || token),
+  });
+
+  useEffect(() => {
+    if (collection) {
+      setName(collection.name);
+      setDescription(collection.description || "");
+    }
+  }, [collection]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/collections'] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: "Error", description: error.message || "Failed to update collection", variant: "destructive" });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: (updates: { name?: string; description?: string; visibility?: 'private' | 'link' }) =>
+      apiRequest('PUT', `/api/collections/${id}`, updates),
+    onSuccess: () => {
+      invalidate();
+      setIsEditOpen(false);
+    },
+    onError,
+  });
+
+  const removeItemMutation = useMutation({
+    mutationFn: (item: SavedItem) => apiRequest('DELETE', `/api/collections/${id}/items/${item.itemType}/${item.itemId}`),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest('DELETE', `/api/collections/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Collection deleted" });
+      setLocation('/dashboard');
+    },
+    onError,
+  });
+
+  const handleCopyLink = async () => {
+    if (!collection?.shareToken) return;
+    await navigator.clipboard.writeText(getCollectionShareUrl(collection.shareToken));
+    toast({ title: "Link Copied", description: "Anyone with this link can view the collection" });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <Skeleton className="h-8 w-32 mb-8" />
+        <Skeleton className="h-10 w-2/3 mb-4" />
+        <Skeleton className="h-24 w-full mb-2" />
+        <Skeleton className="h-24 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !collection) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <Alert variant="destructive">
+          <AlertDescription>
+            {isOwner ? 'Collection not found.' : 'This collection does not exist or is no longer shared.'}
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        {isOwner && (
+          <Button variant="ghost" onClick={() => setLocation('/dashboard')} className="mb-8" data-testid="button-back">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Dashboard
+          </Button>
+        )}
+
+        <div className="mb-8 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <Folder className="h-6 w-6" />
+            <h1 className="text-3xl font-bold" data-testid="heading-collection">{collection.name}</h1>
+            {collection.visibility === 'link' ? (
+              <Badge variant="secondary"><Link2 className="h-3 w-3 mr-1" />Shared</Badge>
+            ) : (
+              <Badge variant="outline"><Lock className="h-3 w-3 mr-1" />Private</Badge>
+            )}
+          </div>
+          {collection.description && (
+            <p className="text-muted-foreground whitespace-pre-wrap">{collection.description}</p>
+          )}
+          <p className="text-sm text-muted-foreground">
+            By {collection.ownerName} · {collection.items.length} {collection.items.length === 1 ? 'item' : 'items'}
+          </p>
+        </div>
+
+        {isOwner && (
+          <Card className="mb-8">
+            <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center gap-4 justify-between">
+              <div className="flex items-center gap-3">
+                <Switch
+                  id="collection-shared"
+                  checked={collection.visibility === 'link'}
+                  onCheckedChange={(checked) => updateMutation.mutate({ visibility: checked ? 'link' : 'private' })}
+                  disabled={updateMutation.isPending}
+                  data-testid="switch-collection-shared"
+                />
+                <div>
+                  <Label htmlFor="collection-shared">Share by link</Label>
+                  <p className="text-sm text-muted-foreground">
+                    {collection.visibility === 'link'
+                      ? 'Anyone with the link can view. Turning this off disables the link.'
+                      : 'Only you can see this collection'}
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                {collection.visibility === 'link' && (
+                  <Button variant="outline" size="sm" onClick={handleCopyLink} data-testid="button-copy-link">
+                    <Copy className="h-4 w-4 mr-2" />
+                    Copy Link
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" onClick={() => setIsEditOpen(true)} data-testid="button-edit-collection">
+                  <Edit className="h-4 w-4 mr-2" />
+                  Edit
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setIsDeleteOpen(true)} data-testid="button-delete-collection">
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {collection.items.length === 0 ? (
+          <p className="text-muted-foreground text-center py-12">
+            {isOwner
+              ? 'This collection is empty. Use the bookmark button on a blog post, event or resource to add it here.'
+              : 'This collection is empty.'}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {collection.items.map((item) => (
+              <SavedItemRow
+                key={`${item.itemType}-${item.itemId}`}
+                item={item}
+                onRemove={isOwner ? (removed) => removeItemMutation.mutate(removed) : undefined}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit Collection</DialogTitle>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (name.trim()) updateMutation.mutate({ name: name.trim(), description: description.trim() });
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="edit-collection-name">Name</Label>
+              <Input id="edit-collection-name" value={name} onChange={(e) => setName(e.target.value)} maxLength={100} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-collection-description">Description</Label>
+              <Textarea
+                id="edit-collection-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                maxLength={500}
+                rows={3}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsEditOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim() || updateMutation.isPending}>
+                {updateMutation.isPending ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Collection</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{collection.name}"? The blog posts, events and resources in it are not affected, but anyone you shared the link with loses access.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteMutation.mutate()}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
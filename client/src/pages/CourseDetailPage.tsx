@@ -0,0 +1,191 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams, useLocation } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ArrowLeft, BookOpen, Calendar, Clock, FileText, MapPin, Users } from "lucide-react";
+import { courseLevelLabels, semesterLabels, type CourseDetail } from "@/lib/courses";
+
+export default function CourseDetailPage() {
+  const { id } = useParams();
+  const [, setLocation] = useLocation();
+
+  const { data: course, isLoading, error } = useQuery<CourseDetail>({
+    queryKey: ['/api/courses', id],
+    queryFn: async () => {
+      const response = await fetch(`/api/courses/${id}`);
+      if (!response.ok) throw new Error('Failed to fetch course');
+      return response.json();
+    },
+    enabled: !!id,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        <Skeleton className="h-8 w-32 mb-8" />
+        <Skeleton className="h-10 w-2/3 mb-4" />
+        <Skeleton className="h-4 w-full mb-2" />
+        <Skeleton className="h-4 w-3/4 mb-8" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !course) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <Alert variant="destructive">
+          <AlertDescription>Course not found.</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-8 max-w-5xl">
+        <Button variant="ghost" onClick={() => setLocation('/courses')} className="mb-8" data-testid="button-back">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Courses
+        </Button>
+
+        <div className="mb-8">
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            <Badge variant="secondary">{courseLevelLabels[course.level]}</Badge>
+            <Badge variant="outline">{semesterLabels[course.semester]}</Badge>
+            {course.units !== undefined && (
+              <Badge variant="outline">{course.units} {course.units === 1 ? 'unit' : 'units'}</Badge>
+            )}
+          </div>
+          <h1 className="text-4xl font-bold" data-testid="heading-course">
+            {course.code}: {course.title}
+          </h1>
+          {course.description && (
+            <p className="text-muted-foreground leading-relaxed mt-4 whitespace-pre-wrap">{course.description}</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <BookOpen className="h-5 w-5" />
+                  Materials
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {course.resources.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No materials have been added to this course yet.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {course.resources.map((resource) => (
+                      <div
+                        key={resource._id}
+                        className="flex items-center gap-3 p-3 border rounded-lg hover-elevate cursor-pointer"
+                        onClick={() => setLocation(`/resources/${resource._id}`)}
+                        data-testid={`course-resource-${resource._id}`}
+                      >
+                        <FileText className="h-5 w-5 text-muted-foreground shrink-0" />
+                        <div className="min-w-0 flex-1">
+                          <p className="font-medium truncate">{resource.title}</p>
+                          <p className="text-xs text-muted-foreground uppercase">
+                            {resource.type}{resource.pageCount ? ` · ${resource.pageCount} pages` : ''}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Calendar className="h-5 w-5" />
+                  Related Events
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {course.events.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No events are linked to this course.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {course.events.map((event) => {
+                      const isPast = new Date(event.date) < startOfToday;
+                      return (
+                        <div
+                          key={event._id}
+                          className={`p-3 border rounded-lg hover-elevate cursor-pointer ${isPast ? 'opacity-70' : ''}`}
+                          onClick={() => setLocation(`/events/${event._id}`)}
+                          data-testid={`course-event-${event._id}`}
+                        >
+                          <div className="flex items-center justify-between gap-2">
+                            <p className="font-medium line-clamp-1">{event.title}</p>
+                            {isPast && <Badge variant="outline">Past</Badge>}
+                          </div>
+                          <div className="flex flex-wrap items-center gap-3 mt-1 text-sm text-muted-foreground">
+                            <span className="flex items-center gap-1">
+                              <Clock className="h-3 w-3" />
+                              {new Date(event.date).toLocaleDateString()} • {event.time}
+                            </span>
+                            <span className="flex items-center gap-1">
+                              <MapPin className="h-3 w-3" />
+                              {event.location}
+                            </span>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="h-fit">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Lecturers
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {course.lecturers.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No lecturers assigned yet.</p>
+              ) : (
+                <div className="space-y-3">
+                  {course.lecturers.map((lecturer) => (
+                    <div
+                      key={lecturer._id}
+                      className="flex items-center gap-3 p-2 rounded-lg hover-elevate cursor-pointer"
+                      onClick={() => setLocation(`/staff/${lecturer._id}`)}
+                      data-testid={`course-lecturer-${lecturer._id}`}
+                    >
+                      <Avatar className="h-10 w-10">
+                        <AvatarImage src={lecturer.avatar} />
+                        <AvatarFallback>{lecturer.name.charAt(0)}</AvatarFallback>
+                      </Avatar>
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{lecturer.name}</p>
+                        <p className="text-sm text-muted-foreground truncate">{lecturer.title}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
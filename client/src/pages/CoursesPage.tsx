@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GraduationCap, BookOpen, Search } from "lucide-react";
+import PageHeader from "@/components/PageHeader";
+import { useDebounce } from "@/hooks/use-debounce";
+import { courseLevelLabels, semesterLabels, type CourseWithLecturers } from "@/lib/courses";
+import type { Course } from "@shared/mongoSchema";
+
+export default function CoursesPage() {
+  const [, setLocation] = useLocation();
+  const [search, setSearch] = useState("");
+  const [semesterFilter, setSemesterFilter] = useState("all");
+  const debouncedSearch = useDebounce(search.trim());
+
+  const { data: courses = [], isLoading } = useQuery<CourseWithLecturers[]>({
+    queryKey: ['/api/courses', debouncedSearch, semesterFilter],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (debouncedSearch) params.set('search', debouncedSearch);
+      if (semesterFilter !== 'all') params.set('semester', semesterFilter);
+      const response = await fetch(`/api/courses?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch courses');
+      return response.json();
+    },
+  });
+
+  const levels = (Object.keys(courseLevelLabels) as Course['level'][])
+    .map(level => ({ level, courses: courses.filter(course => course.level === level) }))
+    .filter(group => group.courses.length > 0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <PageHeader
+        title="Course Catalogue"
+        description="Courses offered by the department, with their lecturers and learning materials"
+      />
+
+      <div className="container mx-auto px-4 py-12 space-y-8">
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by code or title..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9"
+              data-testid="input-search-courses"
+            />
+          </div>
+          <Select value={semesterFilter} onValueChange={setSemesterFilter}>
+            <SelectTrigger className="w-full sm:w-[180px]" data-testid="select-semester">
+              <SelectValue placeholder="Semester" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Semesters</SelectItem>
+              {Object.entries(semesterLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {[...Array(6)].map((_, i) => (
+              <Skeleton key={i} className="h-32 w-full" />
+            ))}
+          </div>
+        ) : levels.length === 0 ? (
+          <div className="text-center py-12">
+            <GraduationCap className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">No courses found.</p>
+          </div>
+        ) : (
+          levels.map(({ level, courses: levelCourses }) => (
+            <section key={level} className="space-y-4" data-testid={`section-level-${level}`}>
+              <h2 className="text-2xl font-semibold">{courseLevelLabels[level]}</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {levelCourses.map((course) => (
+                  <Card
+                    key={course._id}
+                    className="cursor-pointer hover-elevate"
+                    onClick={() => setLocation(`/courses/${course._id}`)}
+                    data-testid={`card-course-${course._id}`}
+                  >
+                    <CardContent className="p-5 space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-lg font-bold">{course.code}</span>
+                        <Badge variant="outline">{semesterLabels[course.semester]}</Badge>
+                      </div>
+                      <p className="font-medium line-clamp-2">{course.title}</p>
+                      {course.lecturers.length > 0 && (
+                        <p className="text-sm text-muted-foreground line-clamp-1">
+                          {course.lecturers.map(lecturer => lecturer.name).join(', ')}
+                        </p>
+                      )}
+                      <p className="text-sm text-muted-foreground flex items-center gap-1">
+                        <BookOpen className="h-3 w-3" />
+                        {course.resourceCount} {course.resourceCount === 1 ? 'resource' : 'resources'}
+                      </p>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </section>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,14 +7,37 @@ import { Badge } from "@/components/ui/badge";
 import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel";
 import { Card } from "@/components/ui/card";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
-import { ArrowLeft, Calendar, Clock, MapPin, Users, DollarSign, X, ChevronLeft, ChevronRight, Share2, User } from "lucide-react";
+import { ArrowLeft, Calendar, Clock, MapPin, Users, DollarSign, X, ChevronLeft, ChevronRight, Share2, User, CalendarPlus } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatNaira } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { useState, useEffect } from "react";
 import CommentsSection from "@/components/CommentsSection";
+import EventSeriesSessions from "@/components/EventSeriesSessions";
 import type { Event } from "@shared/mongoSchema";
 
+// Shown when the payment callback sends the user back here with ?payment=<outcome>
+const paymentOutcomeToasts: Record<string, { title: string; description: string; variant?: "destructive" }> = {
+  success: {
+    title: "Payment Successful",
+    description: "Your place is confirmed. Your receipt and ticket are on their way to your inbox",
+  },
+  pending: {
+    title: "Payment Processing",
+    description: "We'll confirm your place as soon as the payment goes through",
+  },
+  failed: {
+    title: "Payment Not Completed",
+    description: "Your place is held for a short while. Try again to confirm it",
+    variant: "destructive",
+  },
+  refunded: {
+    title: "Payment Refunded",
+    description: "The place held for you was released before your payment arrived, so we've refunded you",
+  },
+};
+
 export default function EventDetailPage() {
   const params = useParams();
   const [, setLocation] = useLocation();
@@ -22,7 +45,10 @@ export default function EventDetailPage() {
   const { isAuthenticated } = useAuth();
   const { toast } = useToast();
   const [isRegistered, setIsRegistered] = useState(false);
+  const [isWaitlisted, setIsWaitlisted] = useState(false);
+  const [isPendingPayment, setIsPendingPayment] = useState(false);
   const [registeredCount, setRegisteredCount] = useState(0);
+  const [waitlistCount, setWaitlistCount] = useState(0);
   const [selectedImageIndex, setSelectedImageIndex] = useState<number | null>(null);
   const [isImageModalOpen, setIsImageModalOpen] = useState(false);
 
@@ -39,20 +65,46 @@ export default function EventDetailPage() {
   useEffect(() => {
     if (event) {
       setIsRegistered(event.isRegistered || false);
+      setIsWaitlisted(event.isWaitlisted || false);
+      setIsPendingPayment(event.registrationStatus === 'pending_payment');
       setRegisteredCount(event.registeredCount || 0);
+      setWaitlistCount(event.waitlistCount || 0);
     }
   }, [event]);
 
+  useEffect(() => {
+    const outcome = new URLSearchParams(window.location.search).get('payment');
+    if (!outcome || !paymentOutcomeToasts[outcome]) return;
+
+    toast(paymentOutcomeToasts[outcome]);
+    window.history.replaceState(null, '', window.location.pathname);
+  }, [toast]);
+
   const registerMutation = useMutation({
     mutationFn: async () => {
       const res = await apiRequest('POST', `/api/events/${eventId}/register`);
       return await res.json();
     },
     onSuccess: (data) => {
-      setIsRegistered(true);
-      setRegisteredCount(data.registeredCount || registeredCount + 1);
+      // Paid events hold the seat and send the user to checkout
+      if (data.checkoutUrl) {
+        window.location.href = data.checkoutUrl;
+        return;
+      }
+
+      const waitlisted = data.registration?.status === 'waitlisted';
+      setIsRegistered(!waitlisted);
+      setIsWaitlisted(waitlisted);
+      setRegisteredCount(data.registeredCount ?? registeredCount);
+      setWaitlistCount(data.waitlistCount ?? waitlistCount);
       queryClient.invalidateQueries({ queryKey: ['/api/events', eventId] });
-      toast({
+      queryClient.invalidateQueries({ queryKey: ['/api/user/event-registrations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user/event-tickets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/event-series'] });
+      toast(waitlisted ? {
+        title: "Added to Waitlist",
+        description: "The event is full. We'll email you if a spot opens up",
+      } : {
         title: "Registration Successful",
         description: "You have been registered for this event",
       });
@@ -73,8 +125,14 @@ export default function EventDetailPage() {
     },
     onSuccess: (data) => {
       setIsRegistered(false);
-      setRegisteredCount(data.registeredCount || registeredCount - 1);
+      setIsWaitlisted(false);
+      setIsPendingPayment(false);
+      setRegisteredCount(data.registeredCount ?? registeredCount);
+      setWaitlistCount(data.waitlistCount ?? waitlistCount);
       queryClient.invalidateQueries({ queryKey: ['/api/events', eventId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user/event-registrations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/user/event-tickets'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/event-series'] });
       toast({
         title: "Registration Cancelled",
         description: "Your registration has been cancelled",
@@ -99,7 +157,7 @@ export default function EventDetailPage() {
       return;
     }
 
-    if (isRegistered) {
+    if (isRegistered || isWaitlisted) {
       unregisterMutation.mutate();
     } else {
       registerMutation.mutate();
@@ -195,6 +253,10 @@ export default function EventDetailPage() {
   const spotsLeft = event.capacity - registeredCount;
   const isAlmostFull = spotsLeft <= 10 && spotsLeft > 0;
   const isFull = spotsLeft <= 0;
+  const isCancelled = !!event.cancelled;
+  const isPaidEvent = event.price > 0;
+  // Paid registrations are cancelled through the organisers, who handle the refund
+  const isPaidRegistration = isRegistered && event.paymentStatus === 'paid';
 
   return (
     <div className="min-h-screen bg-background">
@@ -233,6 +295,11 @@ export default function EventDetailPage() {
             <Badge className={getTypeColor(event.type)} data-testid="badge-type">
               {event.type}
             </Badge>
+            {event.seriesId && (
+              <Badge variant="secondary" data-testid="badge-series">
+                Part of a series
+              </Badge>
+            )}
             {event.tags && event.tags.map((tag: string, index: number) => (
               <Badge key={index} variant="outline" className="text-xs">
                 #{tag}
@@ -245,6 +312,14 @@ export default function EventDetailPage() {
             {event.title}
           </h1>
 
+          {isCancelled && (
+            <Alert variant="destructive" className="mb-8" data-testid="alert-cancelled">
+              <AlertDescription>
+                {event.seriesId ? 'This session has been cancelled.' : 'This event has been cancelled.'}
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Key Event Information */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8 pb-8 border-b">
             {/* Date & Time */}
@@ -285,6 +360,11 @@ export default function EventDetailPage() {
                   <p className="font-medium" data-testid="text-capacity">
                     {registeredCount}/{event.capacity} registered
                   </p>
+                  {waitlistCount > 0 && (
+                    <p className="text-sm text-muted-foreground" data-testid="text-waitlist">
+                      {waitlistCount} on waitlist
+                    </p>
+                  )}
                   {isAlmostFull && (
                     <Badge variant="outline" className="text-orange-600 text-xs mt-1">
                       Almost Full
@@ -303,7 +383,7 @@ export default function EventDetailPage() {
                 <div>
                   <p className="text-sm text-muted-foreground">Price</p>
                   <p className="font-medium" data-testid="text-price">
-                    {event.price > 0 ? `₦${(event.price / 100).toFixed(2)}` : 'Free'}
+                    {isPaidEvent ? formatNaira(event.price) : 'Free'}
                   </p>
                 </div>
               </div>
@@ -416,18 +496,52 @@ export default function EventDetailPage() {
 
           {/* Action Buttons */}
           <div className="flex items-center gap-4 py-8 border-t border-b">
-            {!isRegistered && !isFull && (
+            {!isCancelled && !isRegistered && !isWaitlisted && !isPendingPayment && !isFull && (
               <Button
                 onClick={handleRegister}
                 disabled={registerMutation.isPending}
                 className="flex-1"
                 data-testid="button-register"
               >
-                {registerMutation.isPending ? 'Registering...' : 'Register for Event'}
+                {registerMutation.isPending
+                  ? 'Registering...'
+                  : isPaidEvent ? `Pay ${formatNaira(event.price)} & Register` : 'Register for Event'}
               </Button>
             )}
 
-            {isRegistered && (
+            {!isCancelled && isPendingPayment && (
+              <>
+                <Button
+                  onClick={() => registerMutation.mutate()}
+                  disabled={registerMutation.isPending}
+                  className="flex-1"
+                  data-testid="button-complete-payment"
+                >
+                  {registerMutation.isPending ? 'Opening checkout...' : `Complete Payment (${formatNaira(event.price)})`}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => unregisterMutation.mutate()}
+                  disabled={unregisterMutation.isPending}
+                  data-testid="button-release-seat"
+                >
+                  {unregisterMutation.isPending ? 'Releasing...' : 'Release Seat'}
+                </Button>
+              </>
+            )}
+
+            {isPaidRegistration && (
+              <Button
+                variant="outline"
+                disabled
+                className="flex-1"
+                data-testid="button-registered-paid"
+              >
+                ✓ Registered (Paid)
+              </Button>
+            )}
+
+            {isRegistered && !isPaidRegistration && (
               <Button
                 variant="outline"
                 onClick={handleRegister}
@@ -439,17 +553,37 @@ export default function EventDetailPage() {
               </Button>
             )}
 
-            {isFull && !isRegistered && (
+            {!isCancelled && isFull && !isRegistered && !isWaitlisted && !isPendingPayment && (
               <Button
                 variant="outline"
-                disabled
+                onClick={handleRegister}
+                disabled={registerMutation.isPending}
                 className="flex-1"
-                data-testid="button-full"
+                data-testid="button-join-waitlist"
               >
-                Event Full
+                {registerMutation.isPending ? 'Joining...' : 'Event Full - Join Waitlist'}
               </Button>
             )}
 
+            {isWaitlisted && (
+              <Button
+                variant="outline"
+                onClick={handleRegister}
+                disabled={unregisterMutation.isPending}
+                className="flex-1"
+                data-testid="button-leave-waitlist"
+              >
+                {unregisterMutation.isPending ? 'Leaving...' : 'On Waitlist - Click to Leave'}
+              </Button>
+            )}
+
+            <Button variant="outline" asChild data-testid="button-add-to-calendar">
+              <a href={`/api/events/${eventId}/ics`} download>
+                <CalendarPlus className="h-4 w-4 mr-2" />
+                Add to Calendar
+              </a>
+            </Button>
+
             <Button
               variant="ghost"
               size="icon"
@@ -459,6 +593,10 @@ export default function EventDetailPage() {
             </Button>
           </div>
 
+          {event.seriesId && (
+            <EventSeriesSessions seriesId={event.seriesId} currentEventId={eventId!} />
+          )}
+
           {/* Comments Section */}
           <div className="mt-12">
             <CommentsSection resourceType="event" resourceId={eventId!} />
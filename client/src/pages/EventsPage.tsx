@@ -4,18 +4,19 @@ import EventCard from "@/components/EventCard";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Calendar } from "lucide-react";
-import type { Event } from "@shared/mongoSchema";
+import type { EventListing } from "@shared/mongoSchema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import PageHeader from "@/components/PageHeader";
+import CalendarSubscribe from "@/components/CalendarSubscribe";
 
 export default function EventsPage() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const { user, isAuthenticated } = useAuth();
 
-  const { data: events, isLoading, error } = useQuery<Event[]>({
+  const { data: events, isLoading, error } = useQuery<EventListing[]>({
     queryKey: ['/api/events'],
   });
 
@@ -31,9 +32,19 @@ export default function EventsPage() {
       const res = await apiRequest('POST', `/api/events/${eventId}/register`);
       return await res.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
+      // Paid events hold the seat and send the user to checkout
+      if (data.checkoutUrl) {
+        window.location.href = data.checkoutUrl;
+        return;
+      }
+
       queryClient.invalidateQueries({ queryKey: ['/api/events'] });
-      toast({
+      queryClient.invalidateQueries({ queryKey: ['/api/user/event-registrations'] });
+      toast(data.registration?.status === 'waitlisted' ? {
+        title: "Added to Waitlist",
+        description: "The event is full. We'll email you if a spot opens up",
+      } : {
         title: "Registration Successful",
         description: "You have been registered for this event",
       });
@@ -79,6 +90,9 @@ export default function EventsPage() {
         description="Join us for workshops, seminars, and community gatherings"
       />
       <div className="container mx-auto px-4 py-8">
+        <div className="flex justify-end mb-6">
+          <CalendarSubscribe />
+        </div>
 
         {isLoading ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
@@ -108,11 +122,14 @@ export default function EventsPage() {
                 image: event.imageUrl,
                 organizer: (event as any).organizerName || event.organizerId,
                 tags: event.tags,
+                cancelled: event.cancelled,
+                // Series are listed once, by their next session
+                seriesSessionCount: event.seriesSessionCount,
               };
 
               // Check if user is registered for this event
               const isUserRegistered = userRegistrations?.some(
-                (reg) => reg.eventId === event._id
+                (reg) => reg.eventId === event._id && (reg.status === 'registered' || reg.status === 'attended')
               ) || false;
 
               return (
@@ -1,5 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
-import { useParams, useLocation } from "wouter";
+import { useParams, useLocation, useSearch } from "wouter";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
@@ -22,26 +22,36 @@ import {
   X,
   ChevronLeft,
   ChevronRight,
+  History,
+  Lock,
 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
 import { useState, useEffect } from "react";
 import CommentsSection from "@/components/CommentsSection";
-import { downloadFile } from "@/lib/cloudinary";
+import { downloadResource, resourceVisibilityLabels } from "@/lib/resources";
 import FilePreviewModal from "@/components/FilePreviewModal";
+import ResourceTextSearch from "@/components/ResourceTextSearch";
+import ResourceReviews from "@/components/ResourceReviews";
+import ResourceVersionHistory, { type ResourceVersionEntry } from "@/components/ResourceVersionHistory";
+import type { CourseWithLecturers } from "@/lib/courses";
 
 export default function LearningResourceDetailPage() {
   const params = useParams();
   const [, setLocation] = useLocation();
   const resourceId = params.id;
+  // Search results that matched inside the file link here with ?page=&q=
+  const searchParams = new URLSearchParams(useSearch());
+  const linkedPage = Number(searchParams.get('page')) || undefined;
   const { isAuthenticated } = useAuth();
   const { toast } = useToast();
   const [selectedImageIndex, setSelectedImageIndex] = useState<number | null>(null);
   const [isImageModalOpen, setIsImageModalOpen] = useState(false);
   const [isPreviewModalOpen, setIsPreviewModalOpen] = useState(false);
+  const [previewPage, setPreviewPage] = useState<number | undefined>(linkedPage);
   const [isDownloading, setIsDownloading] = useState(false);
   const [downloadProgress, setDownloadProgress] = useState(0);
-  const [userRating, setUserRating] = useState(0);
 
   const { data: resource, isLoading, error } = useQuery<any>({
     queryKey: ['/api/resources', resourceId],
@@ -53,6 +63,12 @@ export default function LearningResourceDetailPage() {
     enabled: !!resourceId
   });
 
+  const { data: courses = [] } = useQuery<CourseWithLecturers[]>({
+    queryKey: ['/api/courses'],
+    enabled: !!resource?.courseIds?.length
+  });
+  const resourceCourses = courses.filter(course => resource?.courseIds?.includes(course._id));
+
   const getTypeIcon = (type: string) => {
     switch (type) {
       case 'pdf':
@@ -96,7 +112,8 @@ export default function LearningResourceDetailPage() {
     return size ? size.toUpperCase() : 'UNKNOWN';
   };
 
-  const handleDownload = async () => {
+  // Without a version, the current file is downloaded
+  const handleDownload = async (version?: ResourceVersionEntry) => {
     if (!isAuthenticated) {
       toast({
         title: "Login Required",
@@ -121,16 +138,13 @@ export default function LearningResourceDetailPage() {
     }, 100);
 
     try {
-      // Record the download
-      await fetch(`/api/resources/${resourceId}/download`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-      });
-
-      await downloadFile(resource.fileUrl, resource.fileName || resource.title);
+      // The server records the download before handing out a link to the file
+      if (version) {
+        await downloadResource(resourceId!, { version: version.version, fileName: version.fileName || `${resource.title} (v${version.version})` });
+        queryClient.invalidateQueries({ queryKey: ['/api/resources', resourceId, 'versions'] });
+      } else {
+        await downloadResource(resourceId!, { fileName: resource.fileName || resource.title });
+      }
       setDownloadProgress(100);
       console.log(`Downloaded resource: ${resource.title}`);
     } catch (error) {
@@ -146,7 +160,7 @@ export default function LearningResourceDetailPage() {
     }
   };
 
-  const handlePreview = () => {
+  const handlePreview = (page?: number) => {
     if (!isAuthenticated) {
       toast({
         title: "Login Required",
@@ -155,25 +169,10 @@ export default function LearningResourceDetailPage() {
       });
       return;
     }
+    setPreviewPage(page);
     setIsPreviewModalOpen(true);
   };
 
-  const handleRating = (rating: number) => {
-    if (!isAuthenticated) {
-      toast({
-        title: "Login Required",
-        description: "Please login to rate resources",
-        variant: "destructive",
-      });
-      return;
-    }
-    setUserRating(rating);
-    toast({
-      title: "Rating Submitted",
-      description: `You rated this resource ${rating} stars`,
-    });
-  };
-
   const handleShare = () => {
     if (navigator.share) {
       navigator.share({
@@ -298,11 +297,28 @@ export default function LearningResourceDetailPage() {
             <Badge className={getDifficultyColor(resource.difficulty)} data-testid="badge-difficulty">
               {resource.difficulty}
             </Badge>
+            {resource.visibility && resource.visibility !== 'public' && (
+              <Badge variant="outline" className="gap-1" data-testid="badge-visibility">
+                <Lock className="h-3 w-3" />
+                {resourceVisibilityLabels[resource.visibility as keyof typeof resourceVisibilityLabels]}
+              </Badge>
+            )}
             {resource.tags && resource.tags.map((tag: string, index: number) => (
               <Badge key={index} variant="outline" className="text-xs">
                 #{tag}
               </Badge>
             ))}
+            {resourceCourses.map((course) => (
+              <Badge
+                key={course._id}
+                variant="outline"
+                className="cursor-pointer hover-elevate"
+                onClick={() => setLocation(`/courses/${course._id}`)}
+                data-testid={`badge-course-${course._id}`}
+              >
+                {course.code}
+              </Badge>
+            ))}
           </div>
 
           {/* Title */}
@@ -337,6 +353,24 @@ export default function LearningResourceDetailPage() {
               <span className="text-sm">{formatFileSize(resource.size)}</span>
             </div>
 
+            {/* Version */}
+            {resource.currentVersion > 1 && (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <History className="h-4 w-4" />
+                <span className="text-sm" data-testid="text-version">Version {resource.currentVersion}</span>
+              </div>
+            )}
+
+            {/* Page Count */}
+            {resource.pageCount > 0 && (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <BookOpen className="h-4 w-4" />
+                <span className="text-sm" data-testid="text-page-count">
+                  {resource.pageCount} {resource.pageCount === 1 ? 'page' : 'pages'}
+                </span>
+              </div>
+            )}
+
             {/* Downloads */}
             <div className="flex items-center gap-2 text-muted-foreground">
               <Download className="h-4 w-4" />
@@ -347,8 +381,9 @@ export default function LearningResourceDetailPage() {
             <div className="flex items-center gap-2">
               <Star className="h-4 w-4 text-yellow-500 fill-current" />
               <span className="text-sm font-medium" data-testid="text-rating">
-                {resource.rating ? resource.rating.toFixed(1) : '0.0'}
+                {((resource.rating || 0) / 10).toFixed(1)}
               </span>
+              <span className="text-sm text-muted-foreground">({resource.ratingCount || 0})</span>
             </div>
           </div>
 
@@ -383,33 +418,13 @@ export default function LearningResourceDetailPage() {
             </div>
           )}
 
-          {/* Rating System */}
-          <Card className="p-6 mb-8">
-            <h3 className="text-lg font-semibold mb-4">Rate this Resource</h3>
-            <div className="flex items-center gap-2 mb-4">
-              {[1, 2, 3, 4, 5].map((star) => (
-                <button
-                  key={star}
-                  onClick={() => handleRating(star)}
-                  className="p-0 border-0 bg-transparent hover:scale-110 transition-transform"
-                  data-testid={`star-${star}`}
-                >
-                  <Star
-                    className={`h-8 w-8 ${
-                      star <= userRating
-                        ? 'text-yellow-500 fill-current'
-                        : 'text-gray-300 hover:text-yellow-400'
-                    }`}
-                  />
-                </button>
-              ))}
-              {userRating > 0 && (
-                <span className="ml-2 text-sm text-muted-foreground">
-                  You rated: {userRating} stars
-                </span>
-              )}
-            </div>
-          </Card>
+          {/* Search inside the file */}
+          <ResourceTextSearch
+            resourceId={resourceId!}
+            textStatus={resource.textStatus}
+            initialQuery={searchParams.get('q') ?? ''}
+            onOpenPage={(page) => handlePreview(resource.previewAvailable ? page : undefined)}
+          />
 
           {/* Download Progress */}
           {isDownloading && (
@@ -427,7 +442,7 @@ export default function LearningResourceDetailPage() {
           {/* Action Buttons */}
           <div className="flex flex-wrap gap-4 mb-8">
             <Button
-              onClick={handleDownload}
+              onClick={() => handleDownload()}
               disabled={isDownloading}
               className="flex-1 min-w-[200px]"
               data-testid="button-download"
@@ -439,7 +454,7 @@ export default function LearningResourceDetailPage() {
             {resource.previewAvailable && (
               <Button
                 variant="outline"
-                onClick={handlePreview}
+                onClick={() => handlePreview(previewPage)}
                 className="flex-1 min-w-[200px]"
                 data-testid="button-preview"
               >
@@ -458,6 +473,14 @@ export default function LearningResourceDetailPage() {
             </Button>
           </div>
 
+          <ResourceVersionHistory
+            resourceId={resourceId!}
+            isDownloading={isDownloading}
+            onDownload={handleDownload}
+          />
+
+          <ResourceReviews resourceId={resourceId!} uploadedById={resource.uploadedById} />
+
           {/* Comments Section */}
           <div className="mt-12">
             <CommentsSection resourceType="resource" resourceId={resourceId!} />
@@ -529,10 +552,11 @@ export default function LearningResourceDetailPage() {
           <FilePreviewModal
             open={isPreviewModalOpen}
             onOpenChange={setIsPreviewModalOpen}
-            fileUrl={resource.fileUrl}
+            resourceId={resourceId!}
             fileName={resource.fileName || resource.title}
             fileType={resource.type}
             title={resource.title}
+            page={previewPage}
           />
         )}
       </div>
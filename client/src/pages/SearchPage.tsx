@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Search } from "lucide-react";
+import PageHeader from "@/components/PageHeader";
+import { searchTypeLabels, searchTypeIcons, type SearchType } from "@/components/SearchBox";
+
+interface SearchResult {
+  id: string;
+  type: SearchType;
+  title: string; // HTML with <mark> highlights, escaped by the server
+  snippet: string;
+  url: string;
+  score: number;
+  date?: string;
+}
+
+interface SearchResults {
+  query: string;
+  total: number;
+  counts: Record<SearchType, number>;
+  results: Record<SearchType, SearchResult[]>;
+}
+
+const SEARCH_TYPES: SearchType[] = ['blogs', 'events', 'resources', 'staff', 'polls'];
+const RESULTS_PER_TYPE = 5;
+const EXPANDED_RESULTS = 20;
+
+export default function SearchPage() {
+  const [, setLocation] = useLocation();
+  const query = new URLSearchParams(useSearch()).get('q')?.trim() ?? '';
+  // A single type expanded to show more of its results
+  const [expandedType, setExpandedType] = useState<SearchType | null>(null);
+
+  const { data, isLoading, error } = useQuery<SearchResults>({
+    queryKey: ['/api/search', query, expandedType],
+    queryFn: async () => {
+      const params = new URLSearchParams({ q: query, limit: String(expandedType ? EXPANDED_RESULTS : RESULTS_PER_TYPE) });
+      if (expandedType) params.set('types', expandedType);
+      const response = await fetch(`/api/search?${params}`);
+      if (!response.ok) throw new Error('Failed to search');
+      return response.json();
+    },
+    enabled: query.length > 0,
+  });
+
+  const visibleTypes = expandedType ? [expandedType] : SEARCH_TYPES.filter(type => data?.counts[type]);
+
+  return (
+    <div>
+      <PageHeader
+        title="Search"
+        description={query ? `Results for "${query}"` : "Search blogs, events, resources, staff and polls"}
+      />
+
+      <div className="container mx-auto px-4 py-8 space-y-8">
+        {!query ? (
+          <div className="text-center py-12">
+            <Search className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">Type in the search box to find content across the site.</p>
+          </div>
+        ) : error ? (
+          <Alert variant="destructive">
+            <AlertDescription>Search failed. Please try again later.</AlertDescription>
+          </Alert>
+        ) : isLoading || !data ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-24 w-full" />
+            ))}
+          </div>
+        ) : data.total === 0 ? (
+          <div className="text-center py-12" data-testid="text-no-search-results">
+            <Search className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">No results found for "{query}".</p>
+          </div>
+        ) : (
+          <>
+            {expandedType && (
+              <Button variant="ghost" onClick={() => setExpandedType(null)} data-testid="button-all-results">
+                ← All results
+              </Button>
+            )}
+
+            {visibleTypes.map((type) => {
+              const Icon = searchTypeIcons[type];
+              const results = data.results[type];
+              const count = data.counts[type];
+
+              return (
+                <section key={type} className="space-y-3" data-testid={`section-search-${type}`}>
+                  <div className="flex items-center justify-between">
+                    <h2 className="text-xl font-semibold flex items-center gap-2">
+                      <Icon className="w-5 h-5" />
+                      {searchTypeLabels[type]}
+                      <Badge variant="secondary">{count}</Badge>
+                    </h2>
+                    {!expandedType && count > results.length && (
+                      <Button variant="ghost" size="sm" onClick={() => setExpandedType(type)} data-testid={`button-more-${type}`}>
+                        Show more {searchTypeLabels[type].toLowerCase()}
+                      </Button>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    {results.map((result) => (
+                      <Card
+                        key={result.id}
+                        className="cursor-pointer hover-elevate"
+                        onClick={() => setLocation(result.url)}
+                        data-testid={`search-result-${type}-${result.id}`}
+                      >
+                        <CardContent className="p-4">
+                          <p
+                            className="font-medium [&_mark]:bg-yellow-200 dark:[&_mark]:bg-yellow-700 [&_mark]:rounded-sm"
+                            dangerouslySetInnerHTML={{ __html: result.title }}
+                          />
+                          {result.snippet && (
+                            <p
+                              className="text-sm text-muted-foreground mt-1 [&_mark]:bg-yellow-200 dark:[&_mark]:bg-yellow-700 [&_mark]:text-foreground [&_mark]:rounded-sm"
+                              dangerouslySetInnerHTML={{ __html: result.snippet }}
+                            />
+                          )}
+                          {result.date && (
+                            <p className="text-xs text-muted-foreground mt-2">
+                              {new Date(result.date).toLocaleDateString()}
+                            </p>
+                          )}
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                </section>
+              );
+            })}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
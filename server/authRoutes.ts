@@ -1,6 +1,7 @@
 import { Router } from 'express';
-import { mongoStorage } from './mongoStorage';
-import { generateToken, authenticateToken } from './customAuth';
+import { z } from 'zod';
+import { mongoStorage, PASSWORD_HASH_ROUNDS } from './mongoStorage';
+import { generateToken, authenticateToken, setAuthCookie, clearAuthCookie, validatePasswordStrength, generatePasswordResetToken, verifyPasswordResetToken } from './customAuth';
 import { initializeMongoDB } from './mongoDb';
 import {
   insertUserSchema,
@@ -9,11 +10,33 @@ import {
 } from '@shared/mongoSchema';
 import { sendPasswordResetEmail, sendApprovalEmail, sendRegistrationPendingEmail, sendRoleChangeEmail, sendAccountNotFoundEmail } from './emailService';
 import { config } from './config';
-import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
 
 const router = Router();
-const JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-this-in-production';
+
+// Fields users may change on their own profile. Email, matric number, role and
+// approval are identity or admin-owned and go through their own flows.
+const profileUpdateRequestSchema = userSchema.pick({
+  firstName: true,
+  lastName: true,
+  gender: true,
+  location: true,
+  address: true,
+  phoneNumber: true,
+  guardianPhoneNumber: true,
+  level: true,
+  occupation: true,
+}).extend({
+  profileImageUrl: z.union([z.string().url(), z.literal('')]).optional(),
+}).partial();
+
+const approvalRequestSchema = z.object({
+  status: z.enum(['approved', 'rejected']),
+});
+
+const roleChangeRequestSchema = z.object({
+  role: userSchema.shape.role.removeDefault(),
+});
 
 // Initialize MongoDB connection
 initializeMongoDB().catch(console.error);
@@ -92,15 +115,7 @@ router.post('/login', async (req, res) => {
     const { user, token } = await mongoStorage.loginUser(email, password);
 
     // Set token in HTTP-only cookie for security
-    // Only set secure flag when actually using HTTPS
-    const isSecure = req.secure || req.headers['x-forwarded-proto'] === 'https';
-    res.cookie('token', token, {
-      httpOnly: true,
-      secure: isSecure,
-      sameSite: isSecure ? 'strict' : 'lax',
-      maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-      path: '/' // Ensure cookie is sent for all paths
-    });
+    setAuthCookie(req, res, token);
 
     // Remove password hash from response
     const { passwordHash, ...userResponse } = user;
@@ -132,14 +147,7 @@ router.post('/login', async (req, res) => {
 
 // Logout endpoint - support both GET and POST for compatibility
 router.all('/logout', (req, res) => {
-  // Clear cookie with same options as when it was set
-  const isSecure = req.secure || req.headers['x-forwarded-proto'] === 'https';
-  res.clearCookie('token', {
-    httpOnly: true,
-    secure: isSecure,
-    sameSite: isSecure ? 'strict' : 'lax',
-    path: '/'
-  });
+  clearAuthCookie(req, res);
   res.json({ message: 'Logged out successfully' });
 });
 
@@ -175,17 +183,15 @@ router.put('/profile', authenticateToken, async (req, res) => {
       return res.status(401).json({ message: 'Not authenticated' });
     }
 
-    const updates = req.body;
-
-    // Don't allow updating certain fields
-    delete updates.passwordHash;
-    delete updates._id;
-    delete updates.email;
-    delete updates.role;
-    delete updates.approvalStatus;
-    delete updates.createdAt;
+    const validationResult = profileUpdateRequestSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        message: 'Invalid profile data',
+        errors: validationResult.error.issues
+      });
+    }
 
-    const updatedUser = await mongoStorage.completeUserProfile(req.user.userId, updates);
+    const updatedUser = await mongoStorage.completeUserProfile(req.user.userId, validationResult.data);
 
     // Remove password hash from response
     const { passwordHash, ...userResponse } = updatedUser;
@@ -231,30 +237,6 @@ router.get('/admin/users', authenticateToken, async (req, res) => {
   }
 });
 
-router.get('/admin/gamification/leaderboard', authenticateToken, async (req, res) => {
-  try {
-    if (!req.user || (req.user.role !== 'admin' && req.user.role !== 'super_admin')) {
-      return res.status(403).json({ message: 'Admin access required' });
-    }
-
-    const leaderboard = await mongoStorage.getGamificationLeaderboard();
-
-    // Remove sensitive data
-    const safeLeaderboard = leaderboard.map(user => {
-      const { passwordHash, ...safeUser } = user;
-      return safeUser;
-    });
-
-    res.json(safeLeaderboard);
-  } catch (error: any) {
-    console.error('Leaderboard error:', error);
-    res.status(500).json({
-      message: 'Failed to fetch leaderboard',
-      error: error.message
-    });
-  }
-});
-
 router.put('/admin/users/:id/approval', authenticateToken, async (req, res) => {
   try {
     if (!req.user || req.user.role !== 'super_admin') {
@@ -262,11 +244,14 @@ router.put('/admin/users/:id/approval', authenticateToken, async (req, res) => {
     }
 
     const { id } = req.params;
-    const { status } = req.body;
-
-    if (!['approved', 'rejected'].includes(status)) {
-      return res.status(400).json({ message: 'Status must be approved or rejected' });
+    const validationResult = approvalRequestSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        message: 'Status must be approved or rejected',
+        errors: validationResult.error.issues
+      });
     }
+    const { status } = validationResult.data;
 
     const updatedUser = await mongoStorage.updateUserApprovalStatus(id, status);
 
@@ -311,11 +296,14 @@ router.put('/admin/users/:id/role', authenticateToken, async (req, res) => {
     }
 
     const { id } = req.params;
-    const { role } = req.body;
-
-    if (!['student', 'admin', 'super_admin', 'alumnus'].includes(role)) {
-      return res.status(400).json({ message: 'Invalid role. Must be student, admin, super_admin, or alumnus' });
+    const validationResult = roleChangeRequestSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        message: 'Invalid role. Must be student, admin, super_admin, or alumnus',
+        errors: validationResult.error.issues
+      });
     }
+    const { role } = validationResult.data;
 
     const updatedUser = await mongoStorage.updateUserRole(id, role);
 
@@ -376,11 +364,7 @@ router.post('/forgot-password', async (req, res) => {
     }
 
     // Generate password reset token (expires in 1 hour)
-    const resetToken = jwt.sign(
-      { userId: user._id?.toString() || '', email: user.email },
-      JWT_SECRET,
-      { expiresIn: '1h' }
-    );
+    const resetToken = generatePasswordResetToken(user._id?.toString() || '', user.tokenVersion ?? 0);
 
     // Use request origin (frontend URL) or fallback to configured URL
     const origin = req.headers.origin || `${req.protocol}://${req.get('host')}`;
@@ -425,9 +409,9 @@ router.post('/reset-password', async (req, res) => {
     }
 
     // Verify token
-    let decoded: any;
+    let decoded: { userId: string; tokenVersion: number };
     try {
-      decoded = jwt.verify(token, JWT_SECRET);
+      decoded = verifyPasswordResetToken(token);
     } catch (error: any) {
       if (error.name === 'TokenExpiredError') {
         return res.status(400).json({ message: 'Password reset link has expired. Please request a new one.' });
@@ -436,12 +420,13 @@ router.post('/reset-password', async (req, res) => {
     }
 
     // Validate new password strength
-    if (newPassword.length < 8) {
-      return res.status(400).json({ message: 'Password must be at least 8 characters long' });
+    const passwordError = validatePasswordStrength(newPassword);
+    if (passwordError) {
+      return res.status(400).json({ message: passwordError });
     }
 
     // Hash new password
-    const hashedPassword = await bcrypt.hash(newPassword, 10);
+    const hashedPassword = await bcrypt.hash(newPassword, PASSWORD_HASH_ROUNDS);
 
     // Update user password
     const user = await mongoStorage.getUser(decoded.userId);
@@ -449,6 +434,11 @@ router.post('/reset-password', async (req, res) => {
       return res.status(404).json({ message: 'User not found' });
     }
 
+    // The password has changed since the link was sent, possibly through this link
+    if (decoded.tokenVersion !== (user.tokenVersion ?? 0)) {
+      return res.status(400).json({ message: 'This password reset link has already been used. Please request a new one.' });
+    }
+
     await mongoStorage.updateUserPassword(decoded.userId, hashedPassword);
 
     res.json({ message: 'Password reset successfully. You can now login with your new password.' });
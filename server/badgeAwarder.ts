@@ -0,0 +1,126 @@
+import type { BadgeDefinition, LeaderboardPeriod } from '@shared/mongoSchema';
+import { mongoStorage } from './mongoStorage';
+import { notifyBadgeEarned } from './notificationService';
+import { badgeEarned, type ActivityMetrics } from './gamification';
+
+// Automatic badge awards. Once a minute, users who earned points since the last
+// check are checked against the active badges. Leaderboard places can change
+// without the user doing anything, so everyone near the top of a leaderboard a
+// badge asks about is checked too. A new or changed badge checks everyone.
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+// Covers activity recorded while the previous check was starting
+const OVERLAP_MS = 5 * 1000;
+
+// The furthest down a leaderboard a badge can ask for
+const MAX_LEADERBOARD_RANK = 100;
+
+let checking = false;
+let timer: NodeJS.Timeout | null = null;
+let lastCheckStartedAt: Date | null = null;
+let fullCheckRequested = true;
+
+// Each user's rank on the leaderboards the badges ask about, for those near the top
+type LeaderboardStandings = Map<LeaderboardPeriod, Map<string, number>>;
+
+// Ranked once per check rather than once per user checked
+async function getLeaderboardStandings(badges: BadgeDefinition[]): Promise<LeaderboardStandings> {
+  const periods = new Set(badges.flatMap(badge =>
+    badge.criteria.flatMap(condition => condition.metric === 'leaderboard_rank' ? [condition.period] : [])
+  ));
+
+  const standings: LeaderboardStandings = new Map();
+  for (const period of Array.from(periods)) {
+    const { entries } = await mongoStorage.getLeaderboard(period, MAX_LEADERBOARD_RANK);
+    standings.set(period, new Map(entries.map(entry => [entry.userId, entry.rank])));
+  }
+  return standings;
+}
+
+function leaderboardRanksOf(userId: string, standings: LeaderboardStandings): ActivityMetrics['leaderboardRanks'] {
+  const ranks: ActivityMetrics['leaderboardRanks'] = {};
+  standings.forEach((ranked, period) => {
+    const rank = ranked.get(userId);
+    if (rank !== undefined) {
+      ranks[period] = rank;
+    }
+  });
+  return ranks;
+}
+
+async function awardBadgesTo(userId: string, badges: BadgeDefinition[], standings: LeaderboardStandings, notify: boolean): Promise<void> {
+  const earned = new Set((await mongoStorage.getUserBadgeAwards(userId)).map(award => award.badgeId));
+  const pending = badges.filter(badge => !earned.has(badge._id!));
+  if (pending.length === 0) {
+    return;
+  }
+
+  const metrics = await mongoStorage.getBadgeMetrics(userId, pending.flatMap(badge => badge.criteria), leaderboardRanksOf(userId, standings));
+  for (const badge of pending) {
+    if (badgeEarned(badge, metrics) && await mongoStorage.awardBadge(userId, badge._id!) && notify) {
+      await notifyBadgeEarned(userId, badge);
+    }
+  }
+}
+
+export async function awardDueBadges(notify = true): Promise<void> {
+  // A long full check shouldn't have the next one start alongside it
+  if (checking) {
+    return;
+  }
+  checking = true;
+
+  const startedAt = new Date();
+  const full = fullCheckRequested || !lastCheckStartedAt;
+  fullCheckRequested = false;
+
+  try {
+    const badges = await mongoStorage.getBadgeDefinitions(true);
+    if (badges.length > 0) {
+      const active = await mongoStorage.getActiveUserIds(full ? undefined : new Date(lastCheckStartedAt!.getTime() - OVERLAP_MS));
+      const standings = await getLeaderboardStandings(badges);
+      const userIds = new Set(active);
+      standings.forEach(ranked => ranked.forEach((_rank, userId) => userIds.add(userId)));
+
+      for (const userId of Array.from(userIds)) {
+        try {
+          await awardBadgesTo(userId, badges, standings, notify);
+        } catch (error) {
+          console.error(`Failed to check badges for user ${userId}:`, error);
+        }
+      }
+    }
+    lastCheckStartedAt = startedAt;
+  } catch (error) {
+    console.error('Failed to award badges:', error);
+    fullCheckRequested ||= full;
+  } finally {
+    checking = false;
+  }
+}
+
+// Badges were added or their conditions changed: check everyone on the next run
+export function requestFullBadgeCheck(): void {
+  fullCheckRequested = true;
+  void awardDueBadges();
+}
+
+// Seeds the former built-in badges on first run and awards them for past activity
+// without a notification each, then keeps checking
+export async function startBadgeAwarder(): Promise<void> {
+  if (timer) {
+    return;
+  }
+  timer = setInterval(() => void awardDueBadges(), CHECK_INTERVAL_MS);
+  // Don't keep the process alive just for the awarder
+  timer.unref();
+
+  let seeded = 0;
+  try {
+    seeded = await mongoStorage.seedDefaultBadges();
+  } catch (error) {
+    console.error('Failed to seed default badges:', error);
+  }
+  await awardDueBadges(seeded === 0);
+}
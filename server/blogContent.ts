@@ -0,0 +1,92 @@
+import sanitizeHtml from 'sanitize-html';
+import { stripHtml } from './searchService';
+
+// Blog post bodies are HTML from the rich-text editor. Everything is passed
+// through an allow-list before it is stored, and the excerpt and read time
+// are worked out from the cleaned body rather than taken from the client.
+
+const EXCERPT_LENGTH = 200;
+const WORDS_PER_MINUTE = 200;
+
+// Embedded images must have been uploaded through our Cloudinary account
+const IMAGE_HOST = 'res.cloudinary.com';
+
+const BLOCK_TAGS = ['p', 'h2', 'h3', 'h4', 'blockquote', 'pre', 'ul', 'ol', 'li', 'hr'];
+
+const sanitizeOptions: sanitizeHtml.IOptions = {
+  allowedTags: [...BLOCK_TAGS, 'br', 'strong', 'em', 'u', 's', 'code', 'a', 'img'],
+  allowedAttributes: {
+    a: ['href', 'target', 'rel'],
+    img: ['src', 'alt', 'title'],
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  allowedSchemesByTag: { img: ['https'] },
+  allowProtocolRelative: false,
+  // Headings from pasted content are brought down to the levels the editor offers
+  transformTags: {
+    h1: 'h2',
+    h5: 'h4',
+    h6: 'h4',
+    b: 'strong',
+    i: 'em',
+    a: sanitizeHtml.simpleTransform('a', { target: '_blank', rel: 'noopener noreferrer nofollow' }),
+  },
+  exclusiveFilter: (frame) => frame.tag === 'img' && !isAllowedImage(frame.attribs.src),
+};
+
+// Markup the editor produces; anything without it is treated as plain text
+const HTML_PATTERN = /<\/?(?:p|h[1-6]|div|ul|ol|li|blockquote|pre|br|strong|em|a|img)\b[^>]*>/i;
+
+function isAllowedImage(src?: string): boolean {
+  try {
+    return !!src && new URL(src).hostname === IMAGE_HOST;
+  } catch {
+    return false;
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Posts written before the editor, and ones sent without markup, are plain text:
+// blank lines separate paragraphs and single line breaks are kept
+function plainTextToParagraphs(text: string): string {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+}
+
+export function sanitizeBlogContent(content: string): string {
+  const html = HTML_PATTERN.test(content) ? content : plainTextToParagraphs(content);
+
+  return sanitizeHtml(html, sanitizeOptions)
+    // One block per line keeps revision diffs readable
+    .replace(new RegExp(`(</(?:${BLOCK_TAGS.join('|')})>|<hr />)(?!\\n)`, 'g'), '$1\n')
+    .trim();
+}
+
+// The opening of the body, cut at a word boundary
+export function deriveBlogExcerpt(content: string): string {
+  const text = stripHtml(content);
+  if (text.length <= EXCERPT_LENGTH) {
+    return text;
+  }
+
+  const cut = text.slice(0, EXCERPT_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > EXCERPT_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s.,;:!?-]+$/, '')}…`;
+}
+
+// Minutes to read the body, at least one
+export function estimateBlogReadTime(content: string): number {
+  const words = stripHtml(content).split(' ').filter(Boolean).length;
+  return Math.max(1, Math.round(words / WORDS_PER_MINUTE));
+}
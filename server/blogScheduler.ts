@@ -0,0 +1,63 @@
+import type { BlogPost } from '@shared/mongoSchema';
+import { mongoStorage } from './mongoStorage';
+import { sendNewBlogPostEmail } from './emailService';
+
+// Publishing of scheduled blog posts. Due posts are checked for once a minute,
+// so a post goes live within a minute of its publish time.
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+let checking = false;
+let timer: NodeJS.Timeout | null = null;
+
+// Emails go out one at a time so a large subscriber list doesn't flood the mail server
+async function emailSubscribers(post: BlogPost): Promise<void> {
+  const subscribers = await mongoStorage.getActiveNewsletterSubscribers();
+  for (const email of subscribers) {
+    try {
+      await sendNewBlogPostEmail(email, { _id: post._id!, title: post.title, excerpt: post.excerpt, category: post.category });
+    } catch (error) {
+      console.error(`Failed to email ${email} about blog post ${post._id}:`, error);
+    }
+  }
+}
+
+export async function publishDueBlogPosts(): Promise<void> {
+  // A slow round of emails shouldn't have the next check start alongside it
+  if (checking) {
+    return;
+  }
+  checking = true;
+
+  try {
+    const posts = await mongoStorage.publishDueBlogPosts();
+    for (const post of posts) {
+      console.log(`Published scheduled blog post ${post._id}`);
+      if (post.notifySubscribers) {
+        await emailSubscribers(post);
+      }
+    }
+  } catch (error) {
+    console.error('Failed to publish scheduled blog posts:', error);
+  } finally {
+    checking = false;
+  }
+}
+
+// Gives posts from before scheduling a status, publishes anything that fell due
+// while the server was down, then keeps checking
+export async function startBlogScheduler(): Promise<void> {
+  if (timer) {
+    return;
+  }
+  timer = setInterval(() => void publishDueBlogPosts(), CHECK_INTERVAL_MS);
+  // Don't keep the process alive just for the scheduler
+  timer.unref();
+
+  try {
+    await mongoStorage.backfillBlogPostStatuses();
+  } catch (error) {
+    console.error('Failed to backfill blog post statuses:', error);
+  }
+  await publishDueBlogPosts();
+}
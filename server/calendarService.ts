@@ -0,0 +1,229 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { Event } from '@shared/mongoSchema';
+
+const CALENDAR_SECRET = process.env.JWT_SECRET || 'fallback-secret-key-change-in-production';
+
+// Event times are entered as wall-clock times at the department
+export const EVENT_TIMEZONE = process.env.EVENT_TIMEZONE || 'Africa/Lagos';
+
+// Used when an event's time gives a start but no end
+const DEFAULT_EVENT_DURATION_MINUTES = 60;
+
+// Feed tokens are "<userId>-<signature>". The signature covers the user's
+// calendarFeedVersion, so bumping the version invalidates any leaked feed URL.
+
+function signCalendarFeed(userId: string, version: number): string {
+  return createHmac('sha256', CALENDAR_SECRET)
+    .update(`calendar:${userId}:${version}`)
+    .digest('hex')
+    .slice(0, 24);
+}
+
+export function generateCalendarFeedToken(userId: string, version: number = 0): string {
+  return `${userId}-${signCalendarFeed(userId, version)}`;
+}
+
+// Returns the user id a feed token claims to belong to, or null if it is malformed.
+// The signature still has to be checked against the user's current version.
+export function parseCalendarFeedToken(token: string): string | null {
+  const match = token.trim().toLowerCase().match(/^([0-9a-f]{24})-[0-9a-f]{24}$/);
+  return match ? match[1] : null;
+}
+
+export function verifyCalendarFeedToken(token: string, userId: string, version: number = 0): boolean {
+  const expected = generateCalendarFeedToken(userId, version);
+  const actual = token.trim().toLowerCase();
+  return actual.length === expected.length && timingSafeEqual(Buffer.from(actual), Buffer.from(expected));
+}
+
+const RANGE_START_PATTERN = /^\s*(?:-|–|—|to)\s*\d{1,2}(?:[:.]\d{2}|\s*[ap]\.?\s*m\b)/i;
+
+interface WallClockTime {
+  hours: number;
+  minutes: number;
+}
+
+// Event.time is free text ("9:00 AM - 5:00 PM", "14:00", "10am - 12pm"), so
+// anything we can't confidently read becomes an all-day event.
+export function parseEventTimeRange(time: string): { start: WallClockTime; end?: WallClockTime } | null {
+  const pattern = /(\d{1,2})(?:[:.](\d{2}))?\s*(?:([ap])\.?\s*m\b\.?)?/gi;
+  const parts: Array<{ hours: number; minutes: number; meridiem?: string }> = [];
+
+  const text = time || '';
+
+  for (const match of Array.from(text.matchAll(pattern))) {
+    const [matched, hours, minutes, meridiem] = match;
+    // A bare number ("Day 2") is not a time, unless it starts a range like "9 - 11am"
+    const rest = text.slice(match.index! + matched.length);
+    if (minutes === undefined && meridiem === undefined && !RANGE_START_PATTERN.test(rest)) continue;
+    parts.push({ hours: parseInt(hours, 10), minutes: minutes ? parseInt(minutes, 10) : 0, meridiem: meridiem?.toLowerCase() });
+    if (parts.length === 2) break;
+  }
+
+  if (parts.length === 0) {
+    return null;
+  }
+
+  // "9 - 11am" style ranges share the meridiem of the end time
+  if (parts.length === 2 && !parts[0].meridiem && parts[1].meridiem) {
+    parts[0].meridiem = parts[1].meridiem;
+  }
+
+  const times: WallClockTime[] = [];
+  for (const part of parts) {
+    let hours = part.hours;
+    if (part.meridiem) {
+      if (hours < 1 || hours > 12) return null;
+      hours = (hours % 12) + (part.meridiem === 'p' ? 12 : 0);
+    }
+    if (hours > 23 || part.minutes > 59) return null;
+    times.push({ hours, minutes: part.minutes });
+  }
+
+  return { start: times[0], end: times[1] };
+}
+
+// Offset of the timezone from UTC at the given instant, in minutes
+function getTimezoneOffsetMinutes(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(instant);
+  const value = (type: string) => parseInt(parts.find(part => part.type === type)!.value, 10);
+  const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return Math.round((asUtc - instant.getTime()) / 60000);
+}
+
+function wallClockToUtc(date: Date, time: WallClockTime, timeZone: string): Date {
+  const guess = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), time.hours, time.minutes));
+  const offset = getTimezoneOffsetMinutes(guess, timeZone);
+  return new Date(guess.getTime() - offset * 60000);
+}
+
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatDateValue(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+// RFC 5545 §3.3.11 TEXT escaping
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// RFC 5545 §3.1: lines longer than 75 octets are folded with CRLF + space
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of Array.from(line)) {
+    const charBytes = Buffer.byteLength(char);
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+export interface CalendarOptions {
+  name: string;
+  description?: string;
+  // Public site URL, used for event links and UIDs
+  baseUrl: string;
+}
+
+function buildEventLines(event: Event, baseUrl: string, now: Date): string[] {
+  const eventUrl = `${baseUrl}/events/${event._id}`;
+  const eventDate = new Date(event.date);
+  const timeRange = parseEventTimeRange(event.time);
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:event-${event._id}@${new URL(baseUrl).hostname}`,
+    `DTSTAMP:${formatUtcDateTime(now)}`
+  ];
+
+  if (timeRange) {
+    const start = wallClockToUtc(eventDate, timeRange.start, EVENT_TIMEZONE);
+    let end = timeRange.end ? wallClockToUtc(eventDate, timeRange.end, EVENT_TIMEZONE) : undefined;
+    // Ranges that run past midnight end on the following day
+    if (end && end <= start) {
+      end = new Date(end.getTime() + 24 * 60 * 60 * 1000);
+    }
+    end = end || new Date(start.getTime() + DEFAULT_EVENT_DURATION_MINUTES * 60000);
+    lines.push(`DTSTART:${formatUtcDateTime(start)}`, `DTEND:${formatUtcDateTime(end)}`);
+  } else {
+    const nextDay = new Date(eventDate.getTime() + 24 * 60 * 60 * 1000);
+    lines.push(`DTSTART;VALUE=DATE:${formatDateValue(eventDate)}`, `DTEND;VALUE=DATE:${formatDateValue(nextDay)}`);
+  }
+
+  const description = [
+    event.description,
+    event.videoUrl ? `Online: ${event.videoUrl}` : null,
+    event.time ? `Time: ${event.time}` : null,
+    `Details: ${eventUrl}`
+  ].filter(Boolean).join('\n\n');
+
+  lines.push(
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `LOCATION:${escapeText(event.location || event.videoUrl || '')}`,
+    `URL:${eventUrl}`,
+    event.cancelled ? 'STATUS:CANCELLED' : 'STATUS:CONFIRMED'
+  );
+
+  if (event.updatedAt) {
+    lines.push(`LAST-MODIFIED:${formatUtcDateTime(new Date(event.updatedAt))}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+// Builds a complete VCALENDAR document for the given events
+export function buildCalendar(events: Event[], options: CalendarOptions): string {
+  const now = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Nsasa//Department Events//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    `X-WR-TIMEZONE:${EVENT_TIMEZONE}`,
+    // Ask subscribing clients to refresh every few hours
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    'X-PUBLISHED-TTL:PT6H'
+  ];
+
+  if (options.description) {
+    lines.push(`X-WR-CALDESC:${escapeText(options.description)}`);
+  }
+
+  for (const event of events) {
+    lines.push(...buildEventLines(event, options.baseUrl, now));
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -2,7 +2,7 @@ import jwt from 'jsonwebtoken';
 import { Request, Response, NextFunction } from 'express';
 import { mongoStorage } from './mongoStorage';
 
-// Extend Express Request type to include user
+// Extend Express Request type to include the user and the raw JSON body
 declare global {
   namespace Express {
     interface Request {
@@ -11,6 +11,7 @@ declare global {
         email: string;
         role: string;
       };
+      rawBody?: Buffer;
     }
   }
 }
@@ -45,6 +46,11 @@ async function verifyToken(token: string) {
   try {
     const decoded = jwt.verify(token, JWT_SECRET) as any;
 
+    // Single-purpose tokens (e.g. unsubscribe links) must never grant a session
+    if (decoded.purpose) {
+      throw new Error('Token cannot be used for authentication');
+    }
+
     // Verify user still exists and is approved
     const user = await mongoStorage.getUser(decoded.userId);
     if (!user) {
@@ -55,6 +61,11 @@ async function verifyToken(token: string) {
       throw new Error('User not approved');
     }
 
+    // Tokens issued before the last password change are revoked
+    if ((decoded.tokenVersion ?? 0) !== (user.tokenVersion ?? 0)) {
+      throw new Error('Token has been revoked');
+    }
+
     return {
       userId: decoded.userId,
       email: decoded.email,
@@ -107,14 +118,95 @@ export const requireRole = (roles: string[]) => {
 };
 
 // Generate JWT token
-export function generateToken(userId: string, email: string, role: string): string {
+export function generateToken(userId: string, email: string, role: string, tokenVersion: number = 0): string {
   return jwt.sign(
-    { userId, email, role },
+    { userId, email, role, tokenVersion },
     JWT_SECRET,
     { expiresIn: '7d' }
   );
 }
 
+// Set the session token in an HTTP-only cookie
+// Only set secure flag when actually using HTTPS
+export function setAuthCookie(req: Request, res: Response, token: string): void {
+  const isSecure = req.secure || req.headers['x-forwarded-proto'] === 'https';
+  res.cookie('token', token, {
+    httpOnly: true,
+    secure: isSecure,
+    sameSite: isSecure ? 'strict' : 'lax',
+    maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
+    path: '/' // Ensure cookie is sent for all paths
+  });
+}
+
+// Clear the session cookie with the same options it was set with
+export function clearAuthCookie(req: Request, res: Response): void {
+  const isSecure = req.secure || req.headers['x-forwarded-proto'] === 'https';
+  res.clearCookie('token', {
+    httpOnly: true,
+    secure: isSecure,
+    sameSite: isSecure ? 'strict' : 'lax',
+    path: '/'
+  });
+}
+
+// Returns an error message if the password does not meet the strength rules, otherwise null
+export function validatePasswordStrength(password: string): string | null {
+  if (typeof password !== 'string' || password.length < 8) {
+    return 'Password must be at least 8 characters long';
+  }
+  return null;
+}
+
+// Generate a token for one-click email unsubscribe links. It expires so a
+// forwarded or leaked email can't be used to change the user's settings for
+// ever. The purpose claim keeps it from being accepted as a login token.
+export function generateUnsubscribeToken(userId: string): string {
+  return jwt.sign({ userId, purpose: 'unsubscribe' }, JWT_SECRET, { expiresIn: '90d' });
+}
+
+// Returns the userId encoded in an unsubscribe token, or null if it is invalid
+export function verifyUnsubscribeToken(token: string): string | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as any;
+    return decoded.purpose === 'unsubscribe' && decoded.userId ? decoded.userId : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Generate a one-hour token for password reset links. It carries the user's
+// token version, which the reset bumps, so each link only works once.
+export function generatePasswordResetToken(userId: string, tokenVersion: number = 0): string {
+  return jwt.sign({ userId, tokenVersion, purpose: 'password-reset' }, JWT_SECRET, { expiresIn: '1h' });
+}
+
+// Returns the claims of a password reset token. Throws jwt's errors, so callers
+// can tell an expired link from an invalid one.
+export function verifyPasswordResetToken(token: string): { userId: string; tokenVersion: number } {
+  const decoded = jwt.verify(token, JWT_SECRET) as any;
+  if (decoded.purpose !== 'password-reset' || !decoded.userId) {
+    throw new Error('Not a password reset token');
+  }
+  return { userId: decoded.userId, tokenVersion: decoded.tokenVersion ?? 0 };
+}
+
+// Newsletter subscribers may not have an account, so their unsubscribe links carry
+// the email instead. They expire like account unsubscribe links.
+export function generateNewsletterUnsubscribeToken(email: string): string {
+  return jwt.sign({ email, purpose: 'newsletter-unsubscribe' }, JWT_SECRET, { expiresIn: '90d' });
+}
+
+// Returns the email encoded in a newsletter unsubscribe token, or null if it is invalid
+export function verifyNewsletterUnsubscribeToken(token: string): string | null {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as any;
+    return decoded.purpose === 'newsletter-unsubscribe' && decoded.email ? decoded.email : null;
+  } catch (error) {
+    return null;
+  }
+}
+
 // Optional middleware for routes that work with or without authentication
 export const optionalAuth = async (req: Request, res: Response, next: NextFunction) => {
   try {
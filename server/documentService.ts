@@ -0,0 +1,277 @@
+import { createRequire } from 'module';
+import path from 'path';
+import { v2 as cloudinary } from 'cloudinary';
+import mammoth from 'mammoth';
+import type { LearningResource } from '@shared/mongoSchema';
+import { mongoStorage } from './mongoStorage';
+import { signResourceFileUrl } from './resourceAccess';
+
+// Text extraction for uploaded learning resources. Extraction runs in the
+// background after a resource is created, one file at a time, and stores the
+// text of each page so it can be searched.
+
+type DocumentKind = 'pdf' | 'docx' | 'text';
+
+const MAX_FILE_BYTES = 50 * 1024 * 1024;
+// Keeps a single page document well under Mongo's document size limit
+const MAX_PAGE_TEXT = 100_000;
+// Cloudinary folder for the rasterised copies that page thumbnails are cut from
+const PREVIEW_FOLDER = 'resource-previews';
+const THUMBNAIL_WIDTH = 400;
+// pdf.js reads the standard fonts from disk under Node; PDFs that use them warn without it
+const PDF_STANDARD_FONTS = path.join(path.dirname(createRequire(import.meta.url).resolve('pdfjs-dist/package.json')), 'standard_fonts') + path.sep;
+
+export function getDocumentKind(resource: Pick<LearningResource, 'type' | 'fileName'>): DocumentKind | null {
+  const fileName = resource.fileName.toLowerCase();
+  if (resource.type === 'pdf' || fileName.endsWith('.pdf')) return 'pdf';
+  if (fileName.endsWith('.docx')) return 'docx';
+  if (fileName.endsWith('.txt') || fileName.endsWith('.md')) return 'text';
+  return null;
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/[^\S\n]+/g, ' ')
+    .replace(/ ?\n\s*/g, '\n')
+    .trim()
+    .slice(0, MAX_PAGE_TEXT);
+}
+
+// Reads the body a chunk at a time, so a file without a content-length is
+// dropped as soon as it passes the limit instead of being held in memory whole
+async function downloadFile(url: string): Promise<Buffer> {
+  const controller = new AbortController();
+  const response = await fetch(url, { signal: controller.signal });
+  if (!response.ok) {
+    throw new Error(`Failed to download file (${response.status})`);
+  }
+
+  const declaredSize = Number(response.headers.get('content-length') || 0);
+  if (declaredSize > MAX_FILE_BYTES || !response.body) {
+    controller.abort();
+    throw new Error(declaredSize > MAX_FILE_BYTES ? 'File is too large to index' : 'Downloaded file has no content');
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.length;
+    if (size > MAX_FILE_BYTES) {
+      controller.abort();
+      throw new Error('File is too large to index');
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Text of each page, in page order
+export async function extractPdfPages(data: Uint8Array): Promise<string[]> {
+  // The legacy build is the one that runs under Node
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const document = await pdfjs.getDocument({ data, isEvalSupported: false, standardFontDataUrl: PDF_STANDARD_FONTS }).promise;
+
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '')
+        .join('');
+      pages.push(normalizeText(text));
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await document.destroy();
+  }
+}
+
+export async function extractDocumentPages(buffer: Buffer, kind: DocumentKind): Promise<string[]> {
+  switch (kind) {
+    case 'pdf':
+      // pdf.js takes ownership of the buffer it is given, so hand it a copy
+      return extractPdfPages(new Uint8Array(buffer));
+    case 'docx': {
+      // Word documents have no fixed pages; the whole text is page 1
+      const { value } = await mammoth.extractRawText({ buffer });
+      return [normalizeText(value)];
+    }
+    case 'text':
+      return [normalizeText(buffer.toString('utf8'))];
+  }
+}
+
+// The first page drawn as a JPEG, THUMBNAIL_WIDTH wide. pdf.js draws with
+// @napi-rs/canvas under Node, which it installs as an optional dependency.
+async function renderPdfFirstPage(data: Uint8Array): Promise<Buffer> {
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const document = await pdfjs.getDocument({ data, isEvalSupported: false, standardFontDataUrl: PDF_STANDARD_FONTS }).promise;
+
+  try {
+    const page = await document.getPage(1);
+    const viewport = page.getViewport({ scale: THUMBNAIL_WIDTH / page.getViewport({ scale: 1 }).width });
+    const canvasFactory = document.canvasFactory as {
+      create(width: number, height: number): { canvas: { toBuffer(mime: 'image/jpeg'): Buffer }; context: any };
+    };
+    const { canvas, context } = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    await page.render({ canvasContext: context, viewport }).promise;
+    page.cleanup();
+    return canvas.toBuffer('image/jpeg');
+  } finally {
+    await document.destroy();
+  }
+}
+
+// Uploads the first page, drawn here, as the resource's thumbnail, so the rest of
+// the document never leaves our storage. Returns the thumbnail's URL, or
+// undefined when Cloudinary isn't set up.
+async function createPdfThumbnail(buffer: Buffer, resourceId: string): Promise<string | undefined> {
+  if (!cloudinary.config().api_secret) {
+    return undefined;
+  }
+
+  // pdf.js takes ownership of the buffer it is given, so hand it a copy
+  const image = await renderPdfFirstPage(new Uint8Array(buffer));
+  const upload = await new Promise<{ secure_url: string }>((resolve, reject) => {
+    cloudinary.uploader.upload_stream(
+      // Overwriting replaces any full copy of the PDF an earlier version uploaded here
+      { resource_type: 'image', folder: PREVIEW_FOLDER, public_id: resourceId, overwrite: true, invalidate: true },
+      (error, result) => error || !result ? reject(error ?? new Error('Upload failed')) : resolve(result)
+    ).end(image);
+  });
+
+  return upload.secure_url;
+}
+
+// Removes the generated thumbnail, e.g. once its resource is deleted. A leftover
+// thumbnail isn't worth failing the caller over, so errors are only logged.
+export async function deleteResourcePreview(resourceId: string): Promise<void> {
+  if (!cloudinary.config().api_secret) {
+    return;
+  }
+
+  try {
+    await cloudinary.uploader.destroy(`${PREVIEW_FOLDER}/${resourceId}`, { resource_type: 'image', invalidate: true });
+  } catch (error) {
+    console.error(`Failed to delete preview for resource ${resourceId}:`, error);
+  }
+}
+
+// Thumbnails uploaded by hand are kept; generated ones follow the file
+function hasCustomThumbnail(resource: LearningResource): boolean {
+  return !!resource.thumbnailUrl && !resource.thumbnailUrl.includes(`/${PREVIEW_FOLDER}/`);
+}
+
+// Generated thumbnails are public images, so only public resources get one
+function isPublicResource(resource: LearningResource): boolean {
+  return (resource.visibility ?? 'public') === 'public';
+}
+
+// Keeps the generated thumbnail in step with a change of visibility: a resource
+// that is no longer public loses it, one made public is processed again to get one.
+// Returns the resource as it now stands.
+export async function refreshResourcePreview(previous: LearningResource, updated: LearningResource): Promise<LearningResource> {
+  if (hasCustomThumbnail(updated) || isPublicResource(previous) === isPublicResource(updated)) {
+    return updated;
+  }
+
+  if (isPublicResource(updated)) {
+    if (getDocumentKind(updated) === 'pdf') queueResourceIngestion(updated._id!);
+    return updated;
+  }
+
+  await deleteResourcePreview(updated._id!);
+  if (!updated.thumbnailUrl) {
+    return updated;
+  }
+  await mongoStorage.removeLearningResourceThumbnail(updated._id!);
+  const { thumbnailUrl, ...withoutThumbnail } = updated;
+  return withoutThumbnail;
+}
+
+export async function ingestLearningResource(resourceId: string): Promise<void> {
+  const resource = await mongoStorage.getLearningResource(resourceId);
+  if (!resource) return;
+
+  const kind = getDocumentKind(resource);
+  if (!kind) {
+    await mongoStorage.setLearningResourceTextStatus(resourceId, 'unsupported');
+    return;
+  }
+
+  await mongoStorage.setLearningResourceTextStatus(resourceId, 'processing');
+
+  try {
+    // Signed, so files uploaded with a restricted delivery type can be read too
+    const buffer = await downloadFile(signResourceFileUrl(resource.fileUrl, 'download').url);
+    const pages = await extractDocumentPages(buffer, kind);
+    await mongoStorage.replaceResourcePages(resourceId, pages);
+
+    const details: { pageCount?: number; thumbnailUrl?: string } = {};
+    if (kind === 'pdf') {
+      details.pageCount = pages.length;
+      if (!hasCustomThumbnail(resource) && isPublicResource(resource)) {
+        try {
+          const thumbnailUrl = await createPdfThumbnail(buffer, resourceId);
+          if (thumbnailUrl) details.thumbnailUrl = thumbnailUrl;
+        } catch (error) {
+          // The text is still useful without a thumbnail
+          console.error(`Failed to create thumbnail for resource ${resourceId}:`, error);
+        }
+      } else if (!hasCustomThumbnail(resource)) {
+        // A preview left from when the resource was public
+        await deleteResourcePreview(resourceId);
+      }
+    }
+
+    await mongoStorage.setLearningResourceTextStatus(resourceId, 'ready', details);
+  } catch (error: any) {
+    console.error(`Failed to extract text from resource ${resourceId}:`, error);
+    await mongoStorage.setLearningResourceTextStatus(resourceId, 'failed', { error: error.message });
+  }
+}
+
+// Files are processed one at a time so large PDFs don't pile up in memory
+const queue: string[] = [];
+let draining = false;
+
+async function drainQueue(): Promise<void> {
+  draining = true;
+  while (queue.length > 0) {
+    const resourceId = queue.shift()!;
+    try {
+      await ingestLearningResource(resourceId);
+    } catch (error) {
+      console.error(`Resource ingestion error for ${resourceId}:`, error);
+    }
+  }
+  draining = false;
+}
+
+export function queueResourceIngestion(resourceId: string): void {
+  if (!queue.includes(resourceId)) {
+    queue.push(resourceId);
+  }
+  if (!draining) {
+    void drainQueue();
+  }
+}
+
+// Picks up files left unprocessed by a restart, and ones uploaded before extraction existed
+export async function resumeResourceIngestion(): Promise<void> {
+  try {
+    const resourceIds = await mongoStorage.getLearningResourceIdsNeedingIngestion();
+    resourceIds.forEach(queueResourceIngestion);
+    if (resourceIds.length > 0) {
+      console.log(`Queued ${resourceIds.length} learning resources for text extraction`);
+    }
+  } catch (error) {
+    console.error('Failed to resume resource ingestion:', error);
+  }
+}
@@ -1,6 +1,11 @@
 import nodemailer from 'nodemailer';
 import path from 'path';
 import { config } from './config';
+import { mongoStorage } from './mongoStorage';
+import { generateUnsubscribeToken, generateNewsletterUnsubscribeToken } from './customAuth';
+import { generateTicketQrCode } from './ticketService';
+import { EVENT_TIMEZONE } from './calendarService';
+import { notificationPreferencesSchema, type NotificationPreferences, type Event } from '@shared/mongoSchema';
 
 interface EmailCredentials {
   user: string;
@@ -41,6 +46,54 @@ export interface EmailOptions {
   to: string;
   subject: string;
   html: string;
+  unsubscribeUrl?: string;
+  // Extra inline attachments, referenced from the HTML as cid:<cid>
+  attachments?: { filename: string; content: Buffer; cid: string }[];
+}
+
+// Topics for emails the recipient can opt out of. Security and account emails
+// (password reset, account not found, approval, role changes) are always sent
+// and don't go through this check.
+export type EmailTopic = 'blog' | 'event' | 'resource';
+
+const topicPreferences: Record<EmailTopic, keyof NotificationPreferences> = {
+  blog: 'blogNotifications',
+  event: 'eventNotifications',
+  resource: 'resourceNotifications',
+};
+
+export interface EmailDelivery {
+  allowed: boolean;
+  unsubscribeUrl?: string;
+}
+
+// Check the recipient's notification preferences before sending an email and
+// build their one-click unsubscribe link
+export async function getEmailDelivery(to: string, topic: EmailTopic, baseUrl?: string): Promise<EmailDelivery> {
+  try {
+    const user = await mongoStorage.getUserByEmail(to);
+    if (!user?._id) {
+      return { allowed: true };
+    }
+
+    const preferences = notificationPreferencesSchema.parse(user.notificationPreferences ?? {});
+    const topicKey = topicPreferences[topic];
+    const base = baseUrl || config.apiUrl;
+
+    return {
+      allowed: preferences.emailNotifications && preferences[topicKey],
+      unsubscribeUrl: `${base}/api/user/notifications/unsubscribe?token=${generateUnsubscribeToken(user._id)}`
+    };
+  } catch (error) {
+    // Don't block emails if preferences can't be read
+    console.error('Failed to check email preferences:', error);
+    return { allowed: true };
+  }
+}
+
+export function generateUnsubscribeFooter(unsubscribeUrl?: string): string {
+  if (!unsubscribeUrl) return '';
+  return `<p><a href="${unsubscribeUrl}" style="color: #6b7280;">Unsubscribe from these emails</a></p>`;
 }
 
 export async function sendEmail(options: EmailOptions): Promise<void> {
@@ -70,11 +123,18 @@ export async function sendEmail(options: EmailOptions): Promise<void> {
       to: options.to,
       subject: options.subject,
       html: options.html,
+      // RFC 8058 one-click unsubscribe support for mail clients
+      ...(options.unsubscribeUrl ? {
+        headers: {
+          'List-Unsubscribe': `<${options.unsubscribeUrl}>`,
+          'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+        }
+      } : {}),
       attachments: [{
         filename: 'logo.jpeg',
         path: path.join(process.cwd(), 'client', 'public', 'logo.jpeg'),
         cid: 'logo'
-      }]
+      }, ...(options.attachments || [])]
     });
 
     console.log('Email sent successfully:', info.messageId);
@@ -706,3 +766,1021 @@ export async function sendAccountNotFoundEmail(
     html: generateAccountNotFoundEmail(baseUrl)
   });
 }
+
+type TicketEvent = Pick<Event, '_id' | 'title' | 'date' | 'time' | 'location'>;
+
+// Ticket block shared by the registration and waitlist emails. The QR image is
+// attached to the email with cid "ticket-qr".
+function generateTicketSection(ticketCode: string): string {
+  return `
+        <div style="text-align: center; margin: 30px 0;">
+          <p style="margin-bottom: 10px;"><strong>Your ticket</strong></p>
+          <img src="cid:ticket-qr" alt="Ticket QR code" style="width: 200px; height: 200px;">
+          <p style="font-family: monospace; font-size: 13px; color: #6b7280; word-break: break-all;">${ticketCode}</p>
+          <p style="font-size: 14px;">Show this QR code at the entrance to check in.</p>
+        </div>`;
+}
+
+async function generateTicketAttachment(ticketCode: string): Promise<NonNullable<EmailOptions['attachments']>[number]> {
+  return { filename: 'ticket.png', content: await generateTicketQrCode(ticketCode), cid: 'ticket-qr' };
+}
+
+function formatEventDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString('en-GB', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric'
+  });
+}
+
+export function generateWaitlistPromotionEmail(
+  firstName: string,
+  event: TicketEvent,
+  ticketCode: string,
+  baseUrl?: string,
+  unsubscribeUrl?: string
+): string {
+  const base = baseUrl || config.frontendUrl;
+  const eventUrl = `${base}/events/${event._id}`;
+  const eventDate = formatEventDate(event.date);
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>You're Off the Waitlist</title>
+      <style>
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+          line-height: 1.6;
+          color: #333;
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+        }
+        .container {
+          background-color: #ffffff;
+          border-radius: 8px;
+          padding: 40px;
+          box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+        }
+        .header {
+          text-align: center;
+          margin-bottom: 30px;
+        }
+        .logo {
+          font-size: 24px;
+          font-weight: bold;
+          color: #2563eb;
+          margin-bottom: 10px;
+        }
+        h1 {
+          color: #1f2937;
+          font-size: 24px;
+          margin-bottom: 20px;
+        }
+        p {
+          color: #4b5563;
+          margin-bottom: 15px;
+        }
+        .button {
+          display: inline-block;
+          background-color: #2563eb;
+          color: #ffffff;
+          text-decoration: none;
+          padding: 12px 30px;
+          border-radius: 6px;
+          margin: 20px 0;
+          font-weight: 600;
+        }
+        .button:hover {
+          background-color: #1d4ed8;
+        }
+        .info-box {
+          background-color: #f3f4f6;
+          padding: 20px;
+          border-radius: 6px;
+          margin: 20px 0;
+        }
+        .footer {
+          margin-top: 30px;
+          padding-top: 20px;
+          border-top: 1px solid #e5e7eb;
+          text-align: center;
+          color: #6b7280;
+          font-size: 14px;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <div class="logo">
+            <img src="cid:logo" alt="Nsasa UniAbuja" style="height: 80px; width: auto; margin-bottom: 10px; border-radius: 8px;">
+            <div style="font-size: 24px; font-weight: bold; color: #2563eb;">Nsasa UniAbuja</div>
+          </div>
+          <p style="color: #6b7280; margin: 0;">Department of Sociology Portal</p>
+        </div>
+        
+        <h1>A Spot Opened Up!</h1>
+        
+        <p>Hi ${firstName},</p>
+        
+        <p>Good news: a place became available and you have been moved off the waitlist. You are now registered for <strong>${event.title}</strong>.</p>
+        
+        <div class="info-box">
+          <p style="margin: 0;"><strong>Date:</strong> ${eventDate}</p>
+          <p style="margin: 0;"><strong>Time:</strong> ${event.time}</p>
+          <p style="margin: 0;"><strong>Location:</strong> ${event.location}</p>
+        </div>
+        
+        ${generateTicketSection(ticketCode)}
+        
+        <p>If you can no longer attend, please cancel your registration so the next person on the waitlist can take your place.</p>
+        
+        <div style="text-align: center;">
+          <a href="${eventUrl}" class="button">View Event</a>
+        </div>
+        
+        <div class="footer">
+          <p>This is an automated email from Nsasa - Department of Sociology Portal.</p>
+          <p>If you have any questions, please contact our support team.</p>
+          ${generateUnsubscribeFooter(unsubscribeUrl)}
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+export async function sendWaitlistPromotionEmail(
+  to: string,
+  firstName: string,
+  event: TicketEvent,
+  ticketCode: string,
+  baseUrl?: string
+): Promise<void> {
+  const delivery = await getEmailDelivery(to, 'event', baseUrl);
+  if (!delivery.allowed) return;
+
+  await sendEmail({
+    to,
+    subject: `You're registered for ${event.title} - Nsasa`,
+    html: generateWaitlistPromotionEmail(firstName, event, ticketCode, baseUrl, delivery.unsubscribeUrl),
+    unsubscribeUrl: delivery.unsubscribeUrl,
+    attachments: [await generateTicketAttachment(ticketCode)]
+  });
+}
+
+export function generateEventTicketEmail(
+  firstName: string,
+  event: TicketEvent,
+  ticketCode: string,
+  baseUrl?: string,
+  unsubscribeUrl?: string
+): string {
+  const base = baseUrl || config.frontendUrl;
+  const eventUrl = `${base}/events/${event._id}`;
+  const eventDate = formatEventDate(event.date);
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Registration Confirmed</title>
+      <style>
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+          line-height: 1.6;
+          color: #333;
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+        }
+        .container {
+          background-color: #ffffff;
+          border-radius: 8px;
+          padding: 40px;
+          box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+        }
+        .header {
+          text-align: center;
+          margin-bottom: 30px;
+        }
+        .logo {
+          font-size: 24px;
+          font-weight: bold;
+          color: #2563eb;
+          margin-bottom: 10px;
+        }
+        h1 {
+          color: #1f2937;
+          font-size: 24px;
+          margin-bottom: 20px;
+        }
+        p {
+          color: #4b5563;
+          margin-bottom: 15px;
+        }
+        .button {
+          display: inline-block;
+          background-color: #2563eb;
+          color: #ffffff;
+          text-decoration: none;
+          padding: 12px 30px;
+          border-radius: 6px;
+          margin: 20px 0;
+          font-weight: 600;
+        }
+        .button:hover {
+          background-color: #1d4ed8;
+        }
+        .info-box {
+          background-color: #f3f4f6;
+          padding: 20px;
+          border-radius: 6px;
+          margin: 20px 0;
+        }
+        .footer {
+          margin-top: 30px;
+          padding-top: 20px;
+          border-top: 1px solid #e5e7eb;
+          text-align: center;
+          color: #6b7280;
+          font-size: 14px;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <div class="logo">
+            <img src="cid:logo" alt="Nsasa UniAbuja" style="height: 80px; width: auto; margin-bottom: 10px; border-radius: 8px;">
+            <div style="font-size: 24px; font-weight: bold; color: #2563eb;">Nsasa UniAbuja</div>
+          </div>
+          <p style="color: #6b7280; margin: 0;">Department of Sociology Portal</p>
+        </div>
+        
+        <h1>You're Registered!</h1>
+        
+        <p>Hi ${firstName},</p>
+        
+        <p>Your place at <strong>${event.title}</strong> is confirmed.</p>
+        
+        <div class="info-box">
+          <p style="margin: 0;"><strong>Date:</strong> ${eventDate}</p>
+          <p style="margin: 0;"><strong>Time:</strong> ${event.time}</p>
+          <p style="margin: 0;"><strong>Location:</strong> ${event.location}</p>
+        </div>
+        
+        ${generateTicketSection(ticketCode)}
+        
+        <p>You can also find your ticket on your dashboard. If you can no longer attend, please cancel your registration so someone else can take your place.</p>
+        
+        <div style="text-align: center;">
+          <a href="${eventUrl}" class="button">View Event</a>
+        </div>
+        
+        <div class="footer">
+          <p>This is an automated email from Nsasa - Department of Sociology Portal.</p>
+          <p>If you have any questions, please contact our support team.</p>
+          ${generateUnsubscribeFooter(unsubscribeUrl)}
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+export async function sendEventTicketEmail(
+  to: string,
+  firstName: string,
+  event: TicketEvent,
+  ticketCode: string,
+  baseUrl?: string
+): Promise<void> {
+  const delivery = await getEmailDelivery(to, 'event', baseUrl);
+  if (!delivery.allowed) return;
+
+  await sendEmail({
+    to,
+    subject: `Your ticket for ${event.title} - Nsasa`,
+    html: generateEventTicketEmail(firstName, event, ticketCode, baseUrl, delivery.unsubscribeUrl),
+    unsubscribeUrl: delivery.unsubscribeUrl,
+    attachments: [await generateTicketAttachment(ticketCode)]
+  });
+}
+
+// Prices are stored in kobo
+function formatNaira(kobo: number): string {
+  return `₦${(kobo / 100).toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export interface PaymentReceipt {
+  reference: string;
+  amount: number; // In kobo
+  paidAt: Date;
+}
+
+export function generatePaymentReceiptEmail(
+  firstName: string,
+  event: TicketEvent,
+  receipt: PaymentReceipt,
+  ticketCode: string,
+  baseUrl?: string,
+  unsubscribeUrl?: string
+): string {
+  const base = baseUrl || config.frontendUrl;
+  const eventUrl = `${base}/events/${event._id}`;
+  const eventDate = formatEventDate(event.date);
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Payment Receipt</title>
+      <style>
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+          line-height: 1.6;
+          color: #333;
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+        }
+        .container {
+          background-color: #ffffff;
+          border-radius: 8px;
+          padding: 40px;
+          box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+        }
+        .header {
+          text-align: center;
+          margin-bottom: 30px;
+        }
+        .logo {
+          font-size: 24px;
+          font-weight: bold;
+          color: #2563eb;
+          margin-bottom: 10px;
+        }
+        h1 {
+          color: #1f2937;
+          font-size: 24px;
+          margin-bottom: 20px;
+        }
+        p {
+          color: #4b5563;
+          margin-bottom: 15px;
+        }
+        .button {
+          display: inline-block;
+          background-color: #2563eb;
+          color: #ffffff;
+          text-decoration: none;
+          padding: 12px 30px;
+          border-radius: 6px;
+          margin: 20px 0;
+          font-weight: 600;
+        }
+        .button:hover {
+          background-color: #1d4ed8;
+        }
+        .info-box {
+          background-color: #f3f4f6;
+          padding: 20px;
+          border-radius: 6px;
+          margin: 20px 0;
+        }
+        .footer {
+          margin-top: 30px;
+          padding-top: 20px;
+          border-top: 1px solid #e5e7eb;
+          text-align: center;
+          color: #6b7280;
+          font-size: 14px;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <div class="logo">
+            <img src="cid:logo" alt="Nsasa UniAbuja" style="height: 80px; width: auto; margin-bottom: 10px; border-radius: 8px;">
+            <div style="font-size: 24px; font-weight: bold; color: #2563eb;">Nsasa UniAbuja</div>
+          </div>
+          <p style="color: #6b7280; margin: 0;">Department of Sociology Portal</p>
+        </div>
+        
+        <h1>Payment Received</h1>
+        
+        <p>Hi ${firstName},</p>
+        
+        <p>Thank you for your payment. Your place at <strong>${event.title}</strong> is confirmed.</p>
+        
+        <div class="info-box">
+          <p style="margin: 0;"><strong>Amount paid:</strong> ${formatNaira(receipt.amount)}</p>
+          <p style="margin: 0;"><strong>Reference:</strong> ${receipt.reference}</p>
+          <p style="margin: 0;"><strong>Paid on:</strong> ${formatEventDate(receipt.paidAt)}</p>
+        </div>
+        
+        <div class="info-box">
+          <p style="margin: 0;"><strong>Date:</strong> ${eventDate}</p>
+          <p style="margin: 0;"><strong>Time:</strong> ${event.time}</p>
+          <p style="margin: 0;"><strong>Location:</strong> ${event.location}</p>
+        </div>
+        
+        ${generateTicketSection(ticketCode)}
+        
+        <p>Keep this email as your receipt. Paid registrations can't be cancelled online, so please contact the organisers if you can no longer attend.</p>
+        
+        <div style="text-align: center;">
+          <a href="${eventUrl}" class="button">View Event</a>
+        </div>
+        
+        <div class="footer">
+          <p>This is an automated email from Nsasa - Department of Sociology Portal.</p>
+          <p>If you have any questions, please contact our support team.</p>
+          ${generateUnsubscribeFooter(unsubscribeUrl)}
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+// Receipts and refund notices are records of a transaction, so like security
+// emails they are sent regardless of email preferences
+export async function sendPaymentReceiptEmail(
+  to: string,
+  firstName: string,
+  event: TicketEvent,
+  receipt: PaymentReceipt,
+  ticketCode: string,
+  baseUrl?: string
+): Promise<void> {
+  await sendEmail({
+    to,
+    subject: `Payment receipt for ${event.title} - Nsasa`,
+    html: generatePaymentReceiptEmail(firstName, event, receipt, ticketCode, baseUrl),
+    attachments: [await generateTicketAttachment(ticketCode)]
+  });
+}
+
+export function generatePaymentRefundEmail(
+  firstName: string,
+  event: TicketEvent,
+  refund: { reference: string; amount: number },
+  reason: string,
+  baseUrl?: string,
+  unsubscribeUrl?: string
+): string {
+  const base = baseUrl || config.frontendUrl;
+  const eventUrl = `${base}/events/${event._id}`;
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Payment Refunded</title>
+      <style>
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+          line-height: 1.6;
+          color: #333;
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+        }
+        .container {
+          background-color: #ffffff;
+          border-radius: 8px;
+          padding: 40px;
+          box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+        }
+        .header {
+          text-align: center;
+          margin-bottom: 30px;
+        }
+        .logo {
+          font-size: 24px;
+          font-weight: bold;
+          color: #2563eb;
+          margin-bottom: 10px;
+        }
+        h1 {
+          color: #1f2937;
+          font-size: 24px;
+          margin-bottom: 20px;
+        }
+        p {
+          color: #4b5563;
+          margin-bottom: 15px;
+        }
+        .button {
+          display: inline-block;
+          background-color: #2563eb;
+          color: #ffffff;
+          text-decoration: none;
+          padding: 12px 30px;
+          border-radius: 6px;
+          margin: 20px 0;
+          font-weight: 600;
+        }
+        .button:hover {
+          background-color: #1d4ed8;
+        }
+        .info-box {
+          background-color: #f3f4f6;
+          padding: 20px;
+          border-radius: 6px;
+          margin: 20px 0;
+        }
+        .footer {
+          margin-top: 30px;
+          padding-top: 20px;
+          border-top: 1px solid #e5e7eb;
+          text-align: center;
+          color: #6b7280;
+          font-size: 14px;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <div class="logo">
+            <img src="cid:logo" alt="Nsasa UniAbuja" style="height: 80px; width: auto; margin-bottom: 10px; border-radius: 8px;">
+            <div style="font-size: 24px; font-weight: bold; color: #2563eb;">Nsasa UniAbuja</div>
+          </div>
+          <p style="color: #6b7280; margin: 0;">Department of Sociology Portal</p>
+        </div>
+        
+        <h1>Your Payment Has Been Refunded</h1>
+        
+        <p>Hi ${firstName},</p>
+        
+        <p>${reason} We have refunded your payment for <strong>${event.title}</strong>.</p>
+        
+        <div class="info-box">
+          <p style="margin: 0;"><strong>Amount:</strong> ${formatNaira(refund.amount)}</p>
+          <p style="margin: 0;"><strong>Reference:</strong> ${refund.reference}</p>
+        </div>
+        
+        <p>Depending on your bank, it can take a few working days for the money to reach your account.</p>
+        
+        <div style="text-align: center;">
+          <a href="${eventUrl}" class="button">View Event</a>
+        </div>
+        
+        <div class="footer">
+          <p>This is an automated email from Nsasa - Department of Sociology Portal.</p>
+          <p>If you have any questions, please contact our support team.</p>
+          ${generateUnsubscribeFooter(unsubscribeUrl)}
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+export async function sendPaymentRefundEmail(
+  to: string,
+  firstName: string,
+  event: TicketEvent,
+  refund: { reference: string; amount: number },
+  reason: string,
+  baseUrl?: string
+): Promise<void> {
+  await sendEmail({
+    to,
+    subject: `Refund for ${event.title} - Nsasa`,
+    html: generatePaymentRefundEmail(firstName, event, refund, reason, baseUrl)
+  });
+}
+
+// Sent instead of the promotion email when the event is paid: the seat is
+// only held until the user pays
+export function generateWaitlistPaymentEmail(
+  firstName: string,
+  event: TicketEvent & Pick<Event, 'price'>,
+  holdExpiresAt: Date,
+  baseUrl?: string,
+  unsubscribeUrl?: string
+): string {
+  const base = baseUrl || config.frontendUrl;
+  const eventUrl = `${base}/events/${event._id}`;
+  const eventDate = formatEventDate(event.date);
+  const holdUntil = holdExpiresAt.toLocaleString('en-GB', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: EVENT_TIMEZONE
+  });
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>A Spot Opened Up</title>
+      <style>
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+          line-height: 1.6;
+          color: #333;
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+        }
+        .container {
+          background-color: #ffffff;
+          border-radius: 8px;
+          padding: 40px;
+          box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+        }
+        .header {
+          text-align: center;
+          margin-bottom: 30px;
+        }
+        .logo {
+          font-size: 24px;
+          font-weight: bold;
+          color: #2563eb;
+          margin-bottom: 10px;
+        }
+        h1 {
+          color: #1f2937;
+          font-size: 24px;
+          margin-bottom: 20px;
+        }
+        p {
+          color: #4b5563;
+          margin-bottom: 15px;
+        }
+        .button {
+          display: inline-block;
+          background-color: #2563eb;
+          color: #ffffff;
+          text-decoration: none;
+          padding: 12px 30px;
+          border-radius: 6px;
+          margin: 20px 0;
+          font-weight: 600;
+        }
+        .button:hover {
+          background-color: #1d4ed8;
+        }
+        .info-box {
+          background-color: #f3f4f6;
+          padding: 20px;
+          border-radius: 6px;
+          margin: 20px 0;
+        }
+        .footer {
+          margin-top: 30px;
+          padding-top: 20px;
+          border-top: 1px solid #e5e7eb;
+          text-align: center;
+          color: #6b7280;
+          font-size: 14px;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <div class="logo">
+            <img src="cid:logo" alt="Nsasa UniAbuja" style="height: 80px; width: auto; margin-bottom: 10px; border-radius: 8px;">
+            <div style="font-size: 24px; font-weight: bold; color: #2563eb;">Nsasa UniAbuja</div>
+          </div>
+          <p style="color: #6b7280; margin: 0;">Department of Sociology Portal</p>
+        </div>
+        
+        <h1>A Spot Opened Up!</h1>
+        
+        <p>Hi ${firstName},</p>
+        
+        <p>Good news: a place became available at <strong>${event.title}</strong> and we are holding it for you.</p>
+        
+        <div class="info-box">
+          <p style="margin: 0;"><strong>Date:</strong> ${eventDate}</p>
+          <p style="margin: 0;"><strong>Time:</strong> ${event.time}</p>
+          <p style="margin: 0;"><strong>Location:</strong> ${event.location}</p>
+          <p style="margin: 0;"><strong>Price:</strong> ${formatNaira(event.price)}</p>
+        </div>
+        
+        <p>Complete your payment before <strong>${holdUntil}</strong> to confirm your place. After that the spot goes to the next person on the waitlist.</p>
+        
+        <div style="text-align: center;">
+          <a href="${eventUrl}" class="button">Complete Payment</a>
+        </div>
+        
+        <div class="footer">
+          <p>This is an automated email from Nsasa - Department of Sociology Portal.</p>
+          <p>If you have any questions, please contact our support team.</p>
+          ${generateUnsubscribeFooter(unsubscribeUrl)}
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+export async function sendWaitlistPaymentEmail(
+  to: string,
+  firstName: string,
+  event: TicketEvent & Pick<Event, 'price'>,
+  holdExpiresAt: Date,
+  baseUrl?: string
+): Promise<void> {
+  const delivery = await getEmailDelivery(to, 'event', baseUrl);
+  if (!delivery.allowed) return;
+
+  await sendEmail({
+    to,
+    subject: `A spot opened up at ${event.title} - Nsasa`,
+    html: generateWaitlistPaymentEmail(firstName, event, holdExpiresAt, baseUrl, delivery.unsubscribeUrl),
+    unsubscribeUrl: delivery.unsubscribeUrl
+  });
+}
+
+// Escape user-entered text for an email body, keeping its line breaks
+function plainTextToHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '<br>');
+}
+
+// Reply from the department to a contact form message. The sender may not
+// have an account, so there are no preferences to check.
+export function generateContactReplyEmail(
+  name: string,
+  submission: { subject: string; message: string; createdAt: Date | string },
+  reply: string,
+  baseUrl?: string
+): string {
+  const base = baseUrl || config.frontendUrl;
+  const contactUrl = `${base}/contact`;
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>Reply to Your Message</title>
+      <style>
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+          line-height: 1.6;
+          color: #333;
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+        }
+        .container {
+          background-color: #ffffff;
+          border-radius: 8px;
+          padding: 40px;
+          box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+        }
+        .header {
+          text-align: center;
+          margin-bottom: 30px;
+        }
+        .logo {
+          font-size: 24px;
+          font-weight: bold;
+          color: #2563eb;
+          margin-bottom: 10px;
+        }
+        h1 {
+          color: #1f2937;
+          font-size: 24px;
+          margin-bottom: 20px;
+        }
+        p {
+          color: #4b5563;
+          margin-bottom: 15px;
+        }
+        .button {
+          display: inline-block;
+          background-color: #2563eb;
+          color: #ffffff;
+          text-decoration: none;
+          padding: 12px 30px;
+          border-radius: 6px;
+          margin: 20px 0;
+          font-weight: 600;
+        }
+        .button:hover {
+          background-color: #1d4ed8;
+        }
+        .info-box {
+          background-color: #f3f4f6;
+          padding: 20px;
+          border-radius: 6px;
+          margin: 20px 0;
+        }
+        .footer {
+          margin-top: 30px;
+          padding-top: 20px;
+          border-top: 1px solid #e5e7eb;
+          text-align: center;
+          color: #6b7280;
+          font-size: 14px;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <div class="logo">
+            <img src="cid:logo" alt="Nsasa UniAbuja" style="height: 80px; width: auto; margin-bottom: 10px; border-radius: 8px;">
+            <div style="font-size: 24px; font-weight: bold; color: #2563eb;">Nsasa UniAbuja</div>
+          </div>
+          <p style="color: #6b7280; margin: 0;">Department of Sociology Portal</p>
+        </div>
+        
+        <h1>Re: ${plainTextToHtml(submission.subject)}</h1>
+        
+        <p>Hi ${plainTextToHtml(name)},</p>
+        
+        <p>${plainTextToHtml(reply)}</p>
+        
+        <div class="info-box">
+          <p style="margin: 0;"><strong>Your message of ${formatEventDate(submission.createdAt)}:</strong></p>
+          <p style="margin: 10px 0 0 0;">${plainTextToHtml(submission.message)}</p>
+        </div>
+        
+        <p>If you have more questions, you can send us another message through the contact page.</p>
+        
+        <div style="text-align: center;">
+          <a href="${contactUrl}" class="button">Contact Us</a>
+        </div>
+        
+        <div class="footer">
+          <p>This email was sent in response to a message you sent through the Nsasa - Department of Sociology Portal.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+export async function sendContactReplyEmail(
+  to: string,
+  name: string,
+  submission: { subject: string; message: string; createdAt: Date | string },
+  reply: string,
+  baseUrl?: string
+): Promise<void> {
+  await sendEmail({
+    to,
+    subject: `Re: ${submission.subject} - Nsasa`,
+    html: generateContactReplyEmail(name, submission, reply, baseUrl)
+  });
+}
+
+// Announcement of a newly published blog post to newsletter subscribers
+export function generateNewBlogPostEmail(
+  post: { _id: string; title: string; excerpt?: string; category: string },
+  baseUrl?: string,
+  unsubscribeUrl?: string
+): string {
+  const base = baseUrl || config.frontendUrl;
+  const postUrl = `${base}/blogs/${post._id}`;
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>New Blog Post</title>
+      <style>
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+          line-height: 1.6;
+          color: #333;
+          max-width: 600px;
+          margin: 0 auto;
+          padding: 20px;
+        }
+        .container {
+          background-color: #ffffff;
+          border-radius: 8px;
+          padding: 40px;
+          box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+        }
+        .header {
+          text-align: center;
+          margin-bottom: 30px;
+        }
+        .logo {
+          font-size: 24px;
+          font-weight: bold;
+          color: #2563eb;
+          margin-bottom: 10px;
+        }
+        h1 {
+          color: #1f2937;
+          font-size: 24px;
+          margin-bottom: 20px;
+        }
+        p {
+          color: #4b5563;
+          margin-bottom: 15px;
+        }
+        .button {
+          display: inline-block;
+          background-color: #2563eb;
+          color: #ffffff;
+          text-decoration: none;
+          padding: 12px 30px;
+          border-radius: 6px;
+          margin: 20px 0;
+          font-weight: 600;
+        }
+        .button:hover {
+          background-color: #1d4ed8;
+        }
+        .info-box {
+          background-color: #f3f4f6;
+          padding: 20px;
+          border-radius: 6px;
+          margin: 20px 0;
+        }
+        .footer {
+          margin-top: 30px;
+          padding-top: 20px;
+          border-top: 1px solid #e5e7eb;
+          text-align: center;
+          color: #6b7280;
+          font-size: 14px;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <div class="logo">
+            <img src="cid:logo" alt="Nsasa UniAbuja" style="height: 80px; width: auto; margin-bottom: 10px; border-radius: 8px;">
+            <div style="font-size: 24px; font-weight: bold; color: #2563eb;">Nsasa UniAbuja</div>
+          </div>
+          <p style="color: #6b7280; margin: 0;">Department of Sociology Portal</p>
+        </div>
+        
+        <h1>${plainTextToHtml(post.title)}</h1>
+        
+        <p style="color: #6b7280;">New on the blog in ${plainTextToHtml(post.category)}</p>
+        
+        ${post.excerpt ? `<p>${plainTextToHtml(post.excerpt)}</p>` : ''}
+        
+        <div style="text-align: center;">
+          <a href="${postUrl}" class="button">Read the Post</a>
+        </div>
+        
+        <div class="footer">
+          <p>You are receiving this email because you subscribed to the Nsasa newsletter.</p>
+          ${generateUnsubscribeFooter(unsubscribeUrl)}
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+// Newsletter subscribers with an account can also have turned off blog emails
+export async function sendNewBlogPostEmail(
+  to: string,
+  post: { _id: string; title: string; excerpt?: string; category: string },
+  baseUrl?: string
+): Promise<void> {
+  const delivery = await getEmailDelivery(to, 'blog', baseUrl);
+  if (!delivery.allowed) return;
+
+  const unsubscribeUrl = `${baseUrl || config.apiUrl}/api/newsletter/unsubscribe?token=${generateNewsletterUnsubscribeToken(to)}`;
+  await sendEmail({
+    to,
+    subject: `New on the blog: ${post.title} - Nsasa`,
+    html: generateNewBlogPostEmail(post, baseUrl, unsubscribeUrl),
+    unsubscribeUrl
+  });
+}
@@ -0,0 +1,81 @@
+import type { EngagementKind, EngagementRejection } from '@shared/mongoSchema';
+import { mongoStorage } from './mongoStorage';
+
+// Throttling for downloads, blog views and likes, so repeating them can't inflate
+// counters, farm points or flood authors with notifications. Hits are counted in
+// fixed windows kept in MongoDB, and every throttled attempt is tallied for the
+// admin's suspicious activity report.
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+interface Limit {
+  max: number; // Hits allowed in each window
+  windowMs: number;
+}
+
+const LIMITS = {
+  // The same resource downloaded again within the window isn't counted again
+  downloadRepeat: { max: 1, windowMs: 10 * MINUTE },
+  // Past this, downloads are refused until the window ends
+  downloadsPerUser: { max: 30, windowMs: 10 * MINUTE },
+  // An anonymous visitor's views of one post count once per window
+  viewRepeatPerIp: { max: 1, windowMs: 6 * HOUR },
+  // Past this, an IP address's views aren't counted until the window ends
+  viewsPerIp: { max: 60, windowMs: HOUR },
+  // Liking and unliking, of one post or comment and of anything at all
+  likeTogglesPerTarget: { max: 6, windowMs: 10 * MINUTE },
+  likesPerUser: { max: 60, windowMs: 10 * MINUTE },
+} satisfies Record<string, Limit>;
+
+// counted: go ahead. duplicate: serve the request but don't count it again.
+// rate_limited: too many in the window; downloads and likes are refused, views just not counted.
+export type EngagementDecision = 'counted' | EngagementRejection['reason'];
+
+function withinLimit(key: string, limit: Limit): Promise<boolean> {
+  return mongoStorage.hitEngagementLimit(key, limit.max, limit.windowMs);
+}
+
+async function reject(
+  kind: EngagementKind,
+  reason: EngagementRejection['reason'],
+  source: { userId?: string; ip?: string }
+): Promise<EngagementDecision> {
+  await mongoStorage.recordEngagementRejection(kind, reason, source);
+  return reason;
+}
+
+// Every request counts towards the user's limit, repeats included, so hammering the endpoint is caught
+export async function checkDownload(userId: string, resourceId: string): Promise<EngagementDecision> {
+  if (!await withinLimit(`download:${userId}`, LIMITS.downloadsPerUser)) {
+    return reject('download', 'rate_limited', { userId });
+  }
+  if (!await withinLimit(`download:${userId}:${resourceId}`, LIMITS.downloadRepeat)) {
+    return reject('download', 'duplicate', { userId });
+  }
+  return 'counted';
+}
+
+// Signed-in views are already counted once per user, so only anonymous ones come here.
+// Reloading a post doesn't use up the address's allowance.
+export async function checkAnonymousView(ip: string, blogPostId: string): Promise<EngagementDecision> {
+  if (!await withinLimit(`view:${ip}:${blogPostId}`, LIMITS.viewRepeatPerIp)) {
+    return reject('view', 'duplicate', { ip });
+  }
+  if (!await withinLimit(`view:${ip}`, LIMITS.viewsPerIp)) {
+    return reject('view', 'rate_limited', { ip });
+  }
+  return 'counted';
+}
+
+// Likes are already one per user, so only the rate of liking and unliking is limited.
+// target names what is liked, e.g. blog:<id> or comment:<id>.
+export async function checkLike(userId: string, target: string): Promise<EngagementDecision> {
+  if (!await withinLimit(`like:${userId}`, LIMITS.likesPerUser)) {
+    return reject('like', 'rate_limited', { userId });
+  }
+  if (!await withinLimit(`like:${userId}:${target}`, LIMITS.likeTogglesPerTarget)) {
+    return reject('like', 'rate_limited', { userId });
+  }
+  return 'counted';
+}
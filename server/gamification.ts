@@ -0,0 +1,151 @@
+import { leaderboardPeriodSchema, type ActivityAction, type BadgeCondition, type BadgeDefinition, type Event, type LeaderboardPeriod } from '@shared/mongoSchema';
+import { EVENT_TIMEZONE } from './calendarService';
+import { occurrenceDateToDate, toOccurrenceDate } from './recurrenceService';
+
+// Points, levels, streaks and badges, all worked out from the activity ledger.
+// The points for each action can be changed by admins; these are the defaults.
+// Badges are defined by admins too, as conditions checked here.
+
+export const DEFAULT_ACTIVITY_POINTS: Record<ActivityAction, number> = {
+  blog_post_approved: 50,
+  comment_posted: 15,
+  like_received: 5,
+  resource_downloaded: 5,
+  event_attended: 30,
+  poll_voted: 5,
+};
+
+// The most points one user can earn from one subject, e.g. from likes on a single post,
+// so a ring of accounts liking the same thing can't run up unlimited XP
+export const MAX_POINTS_PER_SUBJECT = 150;
+
+export const LEADERBOARD_PERIODS = leaderboardPeriodSchema.options;
+export type { LeaderboardPeriod };
+
+const PERIOD_DAYS: Record<Exclude<LeaderboardPeriod, 'all'>, number> = { week: 7, month: 30 };
+
+// Each level takes 100 XP more than the one before: level 2 at 100 XP, 3 at 300, 4 at 600...
+const LEVEL_STEP_XP = 100;
+
+export interface LevelProgress {
+  level: number;
+  levelStartXp: number; // Total XP at which the current level began
+  nextLevelXp: number;  // Total XP needed for the next level
+}
+
+function levelStartXp(level: number): number {
+  return (LEVEL_STEP_XP * level * (level - 1)) / 2;
+}
+
+export function levelForXp(xp: number): LevelProgress {
+  let level = 1;
+  while (levelStartXp(level + 1) <= xp) {
+    level++;
+  }
+  return { level, levelStartXp: levelStartXp(level), nextLevelXp: levelStartXp(level + 1) };
+}
+
+// Where a leaderboard window starts; all-time has no start
+export function leaderboardPeriodStart(period: LeaderboardPeriod, now = new Date()): Date | undefined {
+  return period === 'all' ? undefined : new Date(now.getTime() - PERIOD_DAYS[period] * 24 * 60 * 60 * 1000);
+}
+
+// Today as YYYY-MM-DD in the department's time zone, which streak days are counted in
+export function activityDay(date = new Date()): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: EVENT_TIMEZONE, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+}
+
+function previousDay(day: string): string {
+  const date = occurrenceDateToDate(day);
+  date.setUTCDate(date.getUTCDate() - 1);
+  return toOccurrenceDate(date);
+}
+
+export interface Streaks {
+  current: number; // Days in a row up to today, or up to yesterday if nothing has happened yet today
+  longest: number;
+}
+
+// Streaks from the days (YYYY-MM-DD, in any order) on which the user earned points
+export function calculateStreaks(days: string[], today = activityDay()): Streaks {
+  const sorted = Array.from(new Set(days)).sort();
+
+  let longest = 0;
+  let run = 0;
+  sorted.forEach((day, index) => {
+    run = index > 0 && previousDay(day) === sorted[index - 1] ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const active = new Set(sorted);
+  let current = 0;
+  let day = active.has(today) ? today : previousDay(today);
+  while (active.has(day)) {
+    current++;
+    day = previousDay(day);
+  }
+
+  return { current, longest };
+}
+
+// What a user's badges are judged on: how often they did each action, their XP and best
+// streak, how many events of each type they attended and where they rank on the leaderboards
+export type ActivityMetrics = Record<ActivityAction, number> & {
+  xp: number;
+  longestStreak: number;
+  eventsAttendedByType: Partial<Record<Event['type'], number>>;
+  leaderboardRanks: Partial<Record<LeaderboardPeriod, number>>; // Unranked periods are left out
+};
+
+// The badges seeded when none have been defined yet
+export const DEFAULT_BADGES: Pick<BadgeDefinition, 'name' | 'description' | 'icon' | 'criteria'>[] = [
+  { name: "First Comment", description: "Made your first comment", icon: 'message-square', criteria: [{ metric: 'activity', action: 'comment_posted', atLeast: 1 }] },
+  { name: "Resource Explorer", description: "Downloaded 10+ resources", icon: 'book-open', criteria: [{ metric: 'activity', action: 'resource_downloaded', atLeast: 10 }] },
+  { name: "Active Participant", description: "Attended 3+ events", icon: 'calendar-check', criteria: [{ metric: 'activity', action: 'event_attended', atLeast: 3 }] },
+  { name: "Popular Contributor", description: "Published 2+ blog posts", icon: 'heart', criteria: [{ metric: 'activity', action: 'blog_post_approved', atLeast: 2 }] },
+  { name: "Streak Master", description: "Active 7 days in a row", icon: 'flame', criteria: [{ metric: 'streak', atLeast: 7 }] },
+  { name: "Scholar", description: "Published 5+ blog posts", icon: 'trophy', criteria: [{ metric: 'activity', action: 'blog_post_approved', atLeast: 5 }] },
+];
+
+export function badgeConditionMet(condition: BadgeCondition, metrics: ActivityMetrics): boolean {
+  switch (condition.metric) {
+    case 'activity':
+      return (condition.eventType ? metrics.eventsAttendedByType[condition.eventType] ?? 0 : metrics[condition.action]) >= condition.atLeast;
+    case 'xp':
+      return metrics.xp >= condition.atLeast;
+    case 'streak':
+      return metrics.longestStreak >= condition.atLeast;
+    case 'leaderboard_rank': {
+      const rank = metrics.leaderboardRanks[condition.period];
+      return rank !== undefined && rank <= condition.atMost;
+    }
+  }
+}
+
+export function badgeEarned(badge: Pick<BadgeDefinition, 'criteria'>, metrics: ActivityMetrics): boolean {
+  return badge.criteria.every(condition => badgeConditionMet(condition, metrics));
+}
+
+// When a user's activity over the report window is flagged as suspicious
+const SPIKE_MIN_XP = 150; // Below this, a jump in XP isn't worth flagging
+const SPIKE_FACTOR = 4; // Times the user's usual XP for a window that long
+const DUPLICATE_FLAG_COUNT = 20; // Repeats that were served but not counted
+
+export type SuspicionFlag = 'xp_spike' | 'rate_limited' | 'repeated_requests' | 'points_capped';
+
+export interface ActivityWindowStats {
+  xp: number; // Earned in the window
+  usualXp: number; // Average for a window that long over the month before it
+  cappedEntries: number;
+  rateLimited: number; // Attempts refused or left uncounted for going over a limit
+  duplicates: number;
+}
+
+export function flagSuspiciousActivity(stats: ActivityWindowStats): SuspicionFlag[] {
+  const flags: SuspicionFlag[] = [];
+  if (stats.xp >= SPIKE_MIN_XP && stats.xp >= SPIKE_FACTOR * stats.usualXp) flags.push('xp_spike');
+  if (stats.rateLimited > 0) flags.push('rate_limited');
+  if (stats.duplicates >= DUPLICATE_FLAG_COUNT) flags.push('repeated_requests');
+  if (stats.cappedEntries > 0) flags.push('points_capped');
+  return flags;
+}
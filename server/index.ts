@@ -5,7 +5,12 @@ import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
 app.set('trust proxy', 1); // Trust first proxy (needed for Replit and other proxied environments)
-app.use(express.json());
+app.use(express.json({
+  // Payment webhooks are signed over the exact bytes received
+  verify: (req, _res, buf) => {
+    (req as Request).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 app.use(cookieParser());
 
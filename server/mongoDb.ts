@@ -75,18 +75,34 @@ export const COLLECTIONS = {
   BLOG_POSTS: 'blogPosts',
   BLOG_LIKES: 'blogLikes',
   BLOG_VIEWS: 'blogViews',
+  BLOG_REVISIONS: 'blogRevisions',
   COMMENT_LIKES: 'commentLikes',
   COMMENTS: 'comments',
   EVENTS: 'events',
   EVENT_REGISTRATIONS: 'eventRegistrations',
+  EVENT_SERIES: 'eventSeries',
+  PAYMENTS: 'payments',
   LEARNING_RESOURCES: 'learningResources',
   RESOURCE_RATINGS: 'resourceRatings',
   RESOURCE_DOWNLOADS: 'resourceDownloads',
+  RESOURCE_PAGES: 'resourcePages',
+  RESOURCE_VERSIONS: 'resourceVersions',
+  REVIEW_HELPFUL_VOTES: 'reviewHelpfulVotes',
+  COURSES: 'courses',
   STAFF_PROFILES: 'staffProfiles',
   CONTACT_SUBMISSIONS: 'contactSubmissions',
   NEWSLETTER_SUBSCRIPTIONS: 'newsletterSubscriptions',
   POLLS: 'polls',
   POLL_VOTES: 'pollVotes',
+  NOTIFICATIONS: 'notifications',
+  BOOKMARKS: 'bookmarks',
+  STUDY_COLLECTIONS: 'studyCollections',
+  ACTIVITY_EVENTS: 'activityEvents',
+  GAMIFICATION_RULES: 'gamificationRules',
+  BADGE_DEFINITIONS: 'badgeDefinitions',
+  USER_BADGES: 'userBadges',
+  ENGAGEMENT_LIMITS: 'engagementLimits',
+  ENGAGEMENT_REJECTIONS: 'engagementRejections',
 } as const;
 
 // Close connection (for cleanup)
@@ -96,6 +112,37 @@ export async function closeMongoDB(): Promise<void> {
   }
 }
 
+// Field weights for the full-text search indexes. A collection can only have
+// one text index, so it is dropped and rebuilt when the weights here change.
+const TEXT_INDEX_WEIGHTS: Record<string, Record<string, number>> = {
+  [COLLECTIONS.BLOG_POSTS]: { title: 10, tags: 5, excerpt: 4, category: 3, content: 1 },
+  [COLLECTIONS.EVENTS]: { title: 10, tags: 5, type: 3, location: 2, description: 1 },
+  [COLLECTIONS.LEARNING_RESOURCES]: { title: 10, tags: 5, category: 3, description: 2 },
+  [COLLECTIONS.RESOURCE_PAGES]: { text: 1 },
+  [COLLECTIONS.STAFF_PROFILES]: { customName: 10, position: 5, title: 4, specializations: 4, courses: 3, department: 2, bio: 1 },
+  [COLLECTIONS.POLLS]: { question: 10, 'options.text': 3 },
+};
+
+async function ensureTextIndex(database: Db, collectionName: string, weights: Record<string, number>): Promise<void> {
+  const collection = database.collection(collectionName);
+  const indexes = await collection.indexes().catch(() => []);
+  const existing = indexes.find(index => index.key?._fts === 'text');
+
+  const sameWeights = (current: Record<string, number> = {}) =>
+    Object.keys(current).length === Object.keys(weights).length &&
+    Object.entries(weights).every(([field, weight]) => current[field] === weight);
+
+  if (existing) {
+    if (sameWeights(existing.weights as Record<string, number>)) return;
+    await collection.dropIndex(existing.name!);
+  }
+
+  await collection.createIndex(
+    Object.fromEntries(Object.keys(weights).map(field => [field, 'text'])),
+    { name: 'search_text', weights, default_language: 'english' }
+  );
+}
+
 // Initialize database with indexes
 export async function initializeMongoDB(): Promise<void> {
   try {
@@ -114,21 +161,67 @@ export async function initializeMongoDB(): Promise<void> {
       await database.collection(COLLECTIONS.USERS).createIndex({ matricNumber: 1 }, { unique: true, sparse: true });
       await database.collection(COLLECTIONS.BLOG_POSTS).createIndex({ authorId: 1 });
       await database.collection(COLLECTIONS.BLOG_POSTS).createIndex({ published: 1, createdAt: -1 });
+      await database.collection(COLLECTIONS.BLOG_POSTS).createIndex({ published: 1, publishedAt: -1 });
+      await database.collection(COLLECTIONS.BLOG_POSTS).createIndex({ status: 1, publishAt: 1 });
       await database.collection(COLLECTIONS.BLOG_LIKES).createIndex({ userId: 1, blogPostId: 1 }, { unique: true });
       await database.collection(COLLECTIONS.BLOG_LIKES).createIndex({ blogPostId: 1 });
       await database.collection(COLLECTIONS.BLOG_VIEWS).createIndex({ userId: 1, blogPostId: 1 }, { unique: true });
       await database.collection(COLLECTIONS.BLOG_VIEWS).createIndex({ blogPostId: 1 });
+      await database.collection(COLLECTIONS.BLOG_REVISIONS).createIndex({ blogPostId: 1, revision: -1 }, { unique: true });
       await database.collection(COLLECTIONS.COMMENT_LIKES).createIndex({ userId: 1, commentId: 1 }, { unique: true });
       await database.collection(COLLECTIONS.COMMENT_LIKES).createIndex({ commentId: 1 });
       await database.collection(COLLECTIONS.COMMENTS).createIndex({ blogPostId: 1 });
       await database.collection(COLLECTIONS.EVENTS).createIndex({ date: 1 });
+      await database.collection(COLLECTIONS.EVENTS).createIndex({ seriesId: 1, occurrenceDate: 1 }, { sparse: true });
       await database.collection(COLLECTIONS.EVENT_REGISTRATIONS).createIndex({ userId: 1, eventId: 1 }, { unique: true });
+      await database.collection(COLLECTIONS.EVENT_REGISTRATIONS).createIndex({ eventId: 1, status: 1, updatedAt: 1 });
+      await database.collection(COLLECTIONS.PAYMENTS).createIndex({ reference: 1 }, { unique: true });
+      await database.collection(COLLECTIONS.PAYMENTS).createIndex({ eventId: 1, status: 1 });
+      await database.collection(COLLECTIONS.PAYMENTS).createIndex({ userId: 1 });
       await database.collection(COLLECTIONS.LEARNING_RESOURCES).createIndex({ category: 1, createdAt: -1 });
+      await database.collection(COLLECTIONS.LEARNING_RESOURCES).createIndex({ tags: 1 });
+      await database.collection(COLLECTIONS.LEARNING_RESOURCES).createIndex({ uploadedById: 1 });
+      await database.collection(COLLECTIONS.LEARNING_RESOURCES).createIndex({ textStatus: 1 }, { sparse: true });
+      await database.collection(COLLECTIONS.RESOURCE_PAGES).createIndex({ resourceId: 1, page: 1 }, { unique: true });
+      await database.collection(COLLECTIONS.RESOURCE_VERSIONS).createIndex({ resourceId: 1, version: -1 }, { unique: true });
+      await database.collection(COLLECTIONS.RESOURCE_RATINGS).createIndex({ resourceId: 1, userId: 1 });
+      await database.collection(COLLECTIONS.RESOURCE_RATINGS).createIndex({ resourceId: 1, status: 1, helpfulCount: -1 });
+      await database.collection(COLLECTIONS.RESOURCE_RATINGS).createIndex({ flagCount: -1, updatedAt: -1 });
+      await database.collection(COLLECTIONS.REVIEW_HELPFUL_VOTES).createIndex({ reviewId: 1, userId: 1 }, { unique: true });
+      await database.collection(COLLECTIONS.LEARNING_RESOURCES).createIndex({ courseIds: 1 });
+      await database.collection(COLLECTIONS.EVENTS).createIndex({ courseIds: 1, date: 1 });
+      await database.collection(COLLECTIONS.COURSES).createIndex({ code: 1 }, { unique: true });
+      await database.collection(COLLECTIONS.COURSES).createIndex({ level: 1, semester: 1, code: 1 });
+      await database.collection(COLLECTIONS.COURSES).createIndex({ lecturerIds: 1 });
       await database.collection(COLLECTIONS.STAFF_PROFILES).createIndex({ userId: 1 }, { unique: true, sparse: true });
+      await database.collection(COLLECTIONS.CONTACT_SUBMISSIONS).createIndex({ status: 1, category: 1, createdAt: -1 });
       await database.collection(COLLECTIONS.POLLS).createIndex({ createdById: 1, createdAt: -1 });
       await database.collection(COLLECTIONS.POLLS).createIndex({ status: 1, createdAt: -1 });
       await database.collection(COLLECTIONS.POLL_VOTES).createIndex({ pollId: 1, userId: 1, optionId: 1 });
       await database.collection(COLLECTIONS.POLL_VOTES).createIndex({ userId: 1 });
+      await database.collection(COLLECTIONS.NOTIFICATIONS).createIndex({ userId: 1, createdAt: -1 });
+      await database.collection(COLLECTIONS.NOTIFICATIONS).createIndex({ userId: 1, read: 1 });
+      await database.collection(COLLECTIONS.BOOKMARKS).createIndex({ userId: 1, itemType: 1, itemId: 1 }, { unique: true });
+      await database.collection(COLLECTIONS.BOOKMARKS).createIndex({ userId: 1, createdAt: -1 });
+      await database.collection(COLLECTIONS.STUDY_COLLECTIONS).createIndex({ ownerId: 1, updatedAt: -1 });
+      await database.collection(COLLECTIONS.STUDY_COLLECTIONS).createIndex({ shareToken: 1 }, { unique: true });
+      await database.collection(COLLECTIONS.ACTIVITY_EVENTS).createIndex({ key: 1 }, { unique: true });
+      await database.collection(COLLECTIONS.ACTIVITY_EVENTS).createIndex({ userId: 1, createdAt: -1 });
+      await database.collection(COLLECTIONS.ACTIVITY_EVENTS).createIndex({ createdAt: -1 });
+      await database.collection(COLLECTIONS.ACTIVITY_EVENTS).createIndex({ subjectId: 1 });
+      await database.collection(COLLECTIONS.GAMIFICATION_RULES).createIndex({ action: 1 }, { unique: true });
+      await database.collection(COLLECTIONS.BADGE_DEFINITIONS).createIndex({ name: 1 }, { unique: true });
+      await database.collection(COLLECTIONS.USER_BADGES).createIndex({ userId: 1, badgeId: 1 }, { unique: true });
+      await database.collection(COLLECTIONS.USER_BADGES).createIndex({ badgeId: 1 });
+      // Rate limit windows are removed once they have passed; rejection tallies after 30 days
+      await database.collection(COLLECTIONS.ENGAGEMENT_LIMITS).createIndex({ key: 1 }, { unique: true });
+      await database.collection(COLLECTIONS.ENGAGEMENT_LIMITS).createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+      await database.collection(COLLECTIONS.ENGAGEMENT_REJECTIONS).createIndex({ userId: 1, ip: 1, kind: 1, reason: 1, hour: 1 }, { unique: true });
+      await database.collection(COLLECTIONS.ENGAGEMENT_REJECTIONS).createIndex({ hour: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+      for (const [collectionName, weights] of Object.entries(TEXT_INDEX_WEIGHTS)) {
+        await ensureTextIndex(database, collectionName, weights);
+      }
 
       console.log('MongoDB indexes created successfully');
     } catch (indexError: any) {
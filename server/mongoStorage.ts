@@ -1,4 +1,5 @@
 import { ObjectId } from 'mongodb';
+import { randomBytes } from 'crypto';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { getCollection, COLLECTIONS } from './mongoDb';
@@ -8,28 +9,62 @@ import {
   RegisterUser,
   BlogPost,
   InsertBlogPost,
+  BlogRevision,
+  BLOG_REVISION_FIELDS,
   Comment,
   InsertComment,
   Event,
+  EventListing,
   InsertEvent,
+  EventSeries,
+  InsertEventSeries,
   EventRegistration,
+  Payment,
   LearningResource,
   InsertLearningResource,
+  ResourcePage,
+  ResourceVersion,
+  ResourceReview,
+  Course,
+  InsertCourse,
   StaffProfile,
   InsertStaffProfile,
   ContactSubmission,
+  ContactReply,
   InsertContactSubmission,
   Poll,
   InsertPoll,
   PollVote,
   InsertPollVote,
+  Notification,
+  InsertNotification,
+  NotificationPreferences,
+  SavedItemType,
+  SavedItemRef,
+  Bookmark,
+  StudyCollection,
+  InsertStudyCollection,
+  ActivityAction,
+  ActivityEvent,
+  GamificationRule,
+  BadgeCondition,
+  BadgeDefinition,
+  InsertBadgeDefinition,
+  UserBadge,
+  EngagementKind,
+  EngagementRejection,
+  ACTIVITY_ACTION_LABELS,
+  notificationPreferencesSchema,
 } from '@shared/mongoSchema';
+import { getOccurrenceDates, occurrenceDateToDate, toOccurrenceDate } from './recurrenceService';
+import { learningResourceAccessFilter, type ResourceViewer } from './resourceAccess';
+import { estimateBlogReadTime } from './blogContent';
+import { EVENT_TIMEZONE } from './calendarService';
+import { DEFAULT_ACTIVITY_POINTS, DEFAULT_BADGES, MAX_POINTS_PER_SUBJECT, calculateStreaks, flagSuspiciousActivity, leaderboardPeriodStart, levelForXp, type ActivityMetrics, type LeaderboardPeriod, type LevelProgress, type Streaks, type SuspicionFlag } from './gamification';
+import { SEARCH_TYPES, getSearchTerms, stripHtml, highlight, buildSnippet, pickSnippetSource, type SearchType, type SearchResult, type SearchResults, type SearchSuggestion } from './searchService';
 
 // Interface for MongoDB storage operations
 export interface IMongoStorage {
-  // Gamification operations
-  getGamificationLeaderboard(limit?: number): Promise<User[]>;
-
   // Auth operations
   registerUser(userData: RegisterUser): Promise<User>;
   loginUser(email: string, password: string): Promise<{ user: User; token: string }>;
@@ -40,43 +75,107 @@ export interface IMongoStorage {
   getUserByEmail(email: string): Promise<User | undefined>;
   getUserByMatricNumber(matricNumber: string): Promise<User | undefined>;
   getUsersByApprovalStatus(status: string): Promise<User[]>;
+  getApprovedStudentIds(levels?: string[]): Promise<string[]>;
   updateUserApprovalStatus(id: string, status: string): Promise<User>;
   updateUserRole(id: string, role: string): Promise<User>;
   completeUserProfile(id: string, profileData: Partial<User>): Promise<User>;
+  getNotificationPreferences(userId: string): Promise<NotificationPreferences>;
+  updateNotificationPreferences(userId: string, preferences: Partial<NotificationPreferences>): Promise<NotificationPreferences>;
+  filterUsersByNotificationPreferences(userIds: string[], keys: (keyof NotificationPreferences)[]): Promise<string[]>;
+  rotateCalendarFeedVersion(id: string): Promise<number>;
 
   // Blog operations
   createBlogPost(authorId: string, post: InsertBlogPost): Promise<BlogPost>;
   getBlogPosts(limit?: number, offset?: number): Promise<BlogPost[]>;
-  getAdminBlogPosts(status?: string, limit?: number, offset?: number): Promise<BlogPost[]>;
+  getAdminBlogPosts(status?: string, limit?: number, offset?: number, viewerId?: string): Promise<BlogPost[]>;
   getBlogPost(id: string): Promise<BlogPost | undefined>;
-  updateBlogPost(id: string, post: Partial<InsertBlogPost>): Promise<BlogPost>;
+  updateBlogPost(id: string, post: Partial<Omit<BlogPost, '_id'>>): Promise<BlogPost>;
   deleteBlogPost(id: string): Promise<void>;
   getBlogPostsByAuthor(authorId: string): Promise<BlogPost[]>;
   incrementBlogViews(id: string, userId?: string): Promise<void>;
+  getBlogRevisions(blogPostId: string): Promise<BlogRevisionWithAuthor[]>;
+  saveBlogRevision(blogPostId: string, authorId: string, edit: Partial<BlogRevisionContent>, options?: { pending?: boolean; restoredFrom?: number }): Promise<BlogPost>;
+  reviewBlogRevision(blogPostId: string, revision: number, reviewerId: string, status: 'approved' | 'rejected', rejectionReason?: string): Promise<BlogPost>;
+  restoreBlogRevision(blogPostId: string, revision: number, adminId: string): Promise<BlogPost>;
+  publishDueBlogPosts(now?: Date): Promise<BlogPost[]>;
+  backfillBlogPostStatuses(): Promise<void>;
 
   // Comment operations
   createBlogComment(authorId: string, blogPostId: string, comment: InsertComment): Promise<Comment>;
   getBlogComments(blogPostId: string): Promise<Comment[]>;
+  getComment(id: string): Promise<Comment | undefined>;
   deleteComment(id: string): Promise<void>;
 
   // Event operations
   createEvent(organizerId: string, event: InsertEvent): Promise<Event>;
-  getEvents(limit?: number, offset?: number): Promise<Event[]>;
-  getEvent(id: string): Promise<Event | undefined>;
+  getEvents(limit?: number, offset?: number): Promise<EventListing[]>;
+  getEvent(id: string, userId?: string): Promise<Event | undefined>;
   updateEvent(id: string, event: Partial<InsertEvent>): Promise<Event>;
   deleteEvent(id: string): Promise<void>;
   registerForEvent(userId: string, eventId: string): Promise<EventRegistration>;
+  cancelEventRegistration(userId: string, eventId: string): Promise<{ registration: EventRegistration; promoted: EventRegistration[] }>;
+  withdrawEventRegistration(registrationId: string): Promise<{ promoted: EventRegistration[]; paidPayment?: Payment }>;
+  promoteFromWaitlist(eventId: string): Promise<EventRegistration[]>;
+  getEventRegistration(id: string): Promise<EventRegistration | undefined>;
+  checkInEventRegistration(eventId: string, registrationId: string, checkedInBy: string): Promise<EventRegistration>;
+  getEventAttendance(eventId: string): Promise<EventAttendanceReport>;
   getEventRegistrations(eventId: string): Promise<EventRegistration[]>;
   getUserEventRegistrations(userId: string): Promise<EventRegistration[]>;
+  cancelEvent(id: string): Promise<{ event: Event; userIds: string[] }>;
+  reinstateEvent(id: string): Promise<Event>;
+  releaseExpiredPaymentHolds(eventId: string): Promise<EventRegistration[]>;
+
+  // Payment operations
+  createPayment(payment: Omit<Payment, '_id' | 'createdAt' | 'updatedAt'>): Promise<Payment>;
+  getPaymentByReference(reference: string): Promise<Payment | undefined>;
+  markPaymentPaid(reference: string, paidAt?: Date): Promise<Payment | undefined>;
+  markPaymentFailed(reference: string): Promise<void>;
+  markPaymentRefunded(reference: string, status: 'refunded' | 'refund_pending', providerRefundId?: string): Promise<Payment | undefined>;
+  getRefundablePayments(eventId: string): Promise<Payment[]>;
+  confirmPaidRegistration(registrationId: string, reference: string): Promise<EventRegistration | undefined>;
+  getEventRevenue(eventId: string): Promise<EventRevenueSummary>;
+
+  // Event series operations
+  createEventSeries(organizerId: string, series: InsertEventSeries): Promise<EventSeriesWithSessions>;
+  getEventSeries(id: string, userId?: string): Promise<EventSeriesWithSessions | undefined>;
+  updateEventSeries(id: string, updates: Partial<InsertEventSeries>): Promise<EventSeriesUpdateResult>;
+  deleteEventSeries(id: string): Promise<void>;
+  registerForEventSeries(userId: string, seriesId: string): Promise<EventRegistration[]>;
+  cancelEventSeriesRegistration(userId: string, seriesId: string): Promise<Array<{ registration: EventRegistration; promoted: EventRegistration[] }>>;
+  getCalendarEvents(options: { since?: Date; eventIds?: string[] }): Promise<Event[]>;
 
   // Learning resource operations
   createLearningResource(uploadedById: string, resource: InsertLearningResource & { fileUrl: string; fileName: string; fileSize: string }): Promise<LearningResource>;
-  getLearningResources(limit?: number, offset?: number): Promise<LearningResource[]>;
+  getLearningResources(filters?: LearningResourceFilters, limit?: number, cursor?: string): Promise<LearningResourcePage>;
   getLearningResource(id: string): Promise<LearningResource | undefined>;
   updateLearningResource(id: string, resource: Partial<LearningResource>): Promise<LearningResource>;
   deleteLearningResource(id: string): Promise<void>;
-  recordResourceDownload(userId: string, resourceId: string): Promise<void>;
+  removeLearningResourceThumbnail(id: string): Promise<void>;
+  recordResourceDownload(userId: string, resourceId: string, version?: number): Promise<void>;
   rateResource(userId: string, resourceId: string, rating: number): Promise<void>;
+  saveResourceReview(userId: string, resourceId: string, review: { rating: number; comment?: string }): Promise<ResourceReview>;
+  getResourceReviews(resourceId: string, options?: { sort?: ResourceReviewSort; limit?: number; offset?: number }, viewerId?: string): Promise<ResourceReviewPage>;
+  getResourceReview(id: string): Promise<ResourceReview | undefined>;
+  deleteResourceReview(userId: string, resourceId: string): Promise<void>;
+  deleteResourceReviewById(id: string): Promise<void>;
+  setReviewHelpfulVote(reviewId: string, userId: string, helpful: boolean): Promise<ResourceReview>;
+  flagResourceReview(reviewId: string, userId: string, reason?: string): Promise<void>;
+  setResourceReviewReply(reviewId: string, authorId: string, content: string | null): Promise<ResourceReview>;
+  getModerationReviews(status: 'flagged' | 'hidden' | 'all', limit?: number, offset?: number): Promise<{ reviews: ModerationReview[]; total: number }>;
+  moderateResourceReview(id: string, moderatorId: string, action: ReviewModerationAction, note?: string): Promise<ResourceReview>;
+  setLearningResourceTextStatus(id: string, status: LearningResourceTextStatus, details?: { pageCount?: number; thumbnailUrl?: string; error?: string }): Promise<void>;
+  replaceResourcePages(resourceId: string, pages: string[]): Promise<void>;
+  getLearningResourceIdsNeedingIngestion(): Promise<string[]>;
+  searchResourcePages(resourceId: string, query: string, limit?: number): Promise<ResourcePageMatch[]>;
+  getResourceVersions(resourceId: string): Promise<ResourceVersionWithUploader[]>;
+  addResourceVersion(resourceId: string, uploadedById: string, upload: ResourceVersionUpload): Promise<LearningResource>;
+
+  // Course operations
+  createCourse(course: InsertCourse): Promise<Course>;
+  getCourses(filters?: CourseFilters): Promise<CourseWithLecturers[]>;
+  getCourse(id: string, viewer?: ResourceViewer): Promise<CourseDetail | undefined>;
+  updateCourse(id: string, updates: Partial<InsertCourse>): Promise<Course>;
+  deleteCourse(id: string): Promise<void>;
 
   // Staff operations
   createStaffProfile(userId: string | undefined, profile: InsertStaffProfile): Promise<StaffProfile>;
@@ -90,12 +189,15 @@ export interface IMongoStorage {
 
   // Contact operations
   createContactSubmission(submission: InsertContactSubmission): Promise<ContactSubmission>;
-  getContactSubmissions(status?: string): Promise<ContactSubmission[]>;
+  getContactSubmissions(status?: string, category?: string): Promise<ContactSubmission[]>;
+  getContactSubmission(id: string): Promise<ContactSubmission | undefined>;
   updateContactSubmissionStatus(id: string, status: string): Promise<ContactSubmission>;
+  addContactSubmissionReply(id: string, reply: Omit<ContactReply, 'sentAt'>): Promise<ContactSubmission>;
 
   // Newsletter operations
   subscribeNewsletter(email: string): Promise<void>;
   unsubscribeNewsletter(email: string): Promise<void>;
+  getActiveNewsletterSubscribers(): Promise<string[]>;
 
   // Analytics operations
   getAnalyticsOverview(): Promise<any>;
@@ -103,9 +205,31 @@ export interface IMongoStorage {
   getTopBlogs(): Promise<any[]>;
 
   // Gamification operations
-  getUserGamificationStats(userId: string): Promise<any>;
-  getLeaderboard(): Promise<any[]>;
-  getUserBadges(userId: string): Promise<any[]>;
+  recordActivity(activity: ActivityRecord, at?: Date): Promise<void>;
+  revokeActivity(key: string): Promise<void>;
+  getGamificationRules(): Promise<ActivityPoints>;
+  updateGamificationRules(points: Partial<ActivityPoints>): Promise<ActivityPoints>;
+  getUserGamificationStats(userId: string): Promise<UserGamificationStats>;
+  getLeaderboard(period: LeaderboardPeriod, limit?: number, userId?: string): Promise<Leaderboard>;
+  getActiveUserIds(since?: Date): Promise<string[]>;
+  backfillActivityLedger(): Promise<number>;
+
+  // Badge operations
+  getBadgeDefinitions(activeOnly?: boolean): Promise<BadgeDefinition[]>;
+  getBadgeAwardCounts(): Promise<Record<string, number>>;
+  createBadgeDefinition(badge: InsertBadgeDefinition, createdBy: string): Promise<BadgeDefinition>;
+  updateBadgeDefinition(id: string, updates: Partial<InsertBadgeDefinition>): Promise<BadgeDefinition>;
+  deleteBadgeDefinition(id: string): Promise<void>;
+  seedDefaultBadges(): Promise<number>;
+  getBadgeMetrics(userId: string, criteria: BadgeCondition[], leaderboardRanks: ActivityMetrics['leaderboardRanks']): Promise<ActivityMetrics>;
+  getUserBadgeAwards(userId: string): Promise<UserBadge[]>;
+  awardBadge(userId: string, badgeId: string, at?: Date): Promise<boolean>;
+  getUserBadges(userId: string): Promise<UserBadgeStatus[]>;
+
+  // Engagement limit operations
+  hitEngagementLimit(key: string, max: number, windowMs: number): Promise<boolean>;
+  recordEngagementRejection(kind: EngagementKind, reason: EngagementRejection['reason'], source: { userId?: string; ip?: string }): Promise<void>;
+  getSuspiciousActivityReport(hours: number): Promise<SuspiciousActivityReport>;
 
   // Like operations
   likeBlogPost(userId: string, blogPostId: string): Promise<void>;
@@ -129,22 +253,413 @@ export interface IMongoStorage {
   hasUserVoted(userId: string, pollId: string): Promise<boolean>;
   getUserVote(userId: string, pollId: string): Promise<PollVote | undefined>;
   getPollVoters(pollId: string): Promise<any[]>;
+
+  // Search operations
+  search(query: string, options?: { types?: SearchType[]; limit?: number; viewer?: ResourceViewer }): Promise<SearchResults>;
+  getSearchSuggestions(query: string, limit?: number, viewer?: ResourceViewer): Promise<SearchSuggestion[]>;
+
+  // Notification operations
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  createNotifications(notifications: InsertNotification[]): Promise<void>;
+  getUserNotifications(userId: string, limit?: number, offset?: number): Promise<Notification[]>;
+  getUnreadNotificationCount(userId: string): Promise<number>;
+  markNotificationRead(userId: string, id: string): Promise<Notification>;
+  markAllNotificationsRead(userId: string): Promise<number>;
+
+  // Saved item operations
+  getBookmarks(userId: string, viewer: ResourceViewer, itemType?: SavedItemType): Promise<SavedItem[]>;
+  addBookmark(userId: string, item: SavedItemRef, viewer: ResourceViewer): Promise<void>;
+  removeBookmark(userId: string, item: SavedItemRef): Promise<void>;
+  getStudyCollections(ownerId: string): Promise<StudyCollectionSummary[]>;
+  getStudyCollection(id: string, ownerId: string, viewer: ResourceViewer): Promise<StudyCollectionWithItems | undefined>;
+  getSharedStudyCollection(shareToken: string, viewer: ResourceViewer): Promise<StudyCollectionWithItems | undefined>;
+  createStudyCollection(ownerId: string, collection: InsertStudyCollection): Promise<StudyCollection>;
+  updateStudyCollection(id: string, ownerId: string, updates: Partial<InsertStudyCollection>): Promise<StudyCollection>;
+  deleteStudyCollection(id: string, ownerId: string): Promise<void>;
+  addStudyCollectionItem(id: string, ownerId: string, item: SavedItemRef, viewer: ResourceViewer): Promise<void>;
+  removeStudyCollectionItem(id: string, ownerId: string, item: SavedItemRef): Promise<void>;
+
+  // Account data operations
+  exportUserData(userId: string): Promise<Record<string, unknown>>;
+  deleteUserAccount(userId: string): Promise<void>;
+}
+
+export interface EventAttendanceReport {
+  eventId: string;
+  capacity: number;
+  registered: number;
+  attended: number;
+  waitlisted: number;
+  cancelled: number;
+  attendanceRate: number; // Percentage of seat holders who checked in
+  attendees: Array<{
+    registrationId: string;
+    userId: string;
+    name: string;
+    email?: string;
+    status: EventRegistration['status'];
+    checkedInAt?: Date;
+  }>;
+}
+
+export interface EventRevenueSummary {
+  eventId: string;
+  currency: string;
+  price: number; // Current ticket price, in kobo
+  paidCount: number;
+  grossAmount: number; // Everything collected, including since-refunded payments
+  refundedCount: number;
+  refundedAmount: number; // Refunded or being refunded
+  netAmount: number;
+  pendingCount: number; // Seats held while checkout is in progress
+  payments: Array<{
+    reference: string;
+    userId: string;
+    name: string;
+    email?: string;
+    amount: number;
+    status: Payment['status'];
+    paidAt?: Date;
+    refundedAt?: Date;
+  }>;
+}
+
+export type LearningResourceSort = 'recent' | 'downloads' | 'rating';
+
+export interface LearningResourceFilters {
+  type?: LearningResource['type'];
+  category?: string;
+  difficulty?: LearningResource['difficulty'];
+  tags?: string[]; // Resources must have every tag
+  uploadedById?: string;
+  courseId?: string;
+  minRating?: number; // In stars, 1-5
+  search?: string;
+  sort?: LearningResourceSort;
+  viewer?: ResourceViewer; // Leave out resources this viewer can't see
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Counts for each filter dimension. Each dimension is counted with every
+// other active filter applied, but not its own, so the UI can offer the
+// alternatives to the current selection.
+export interface LearningResourceFacets {
+  type: FacetCount[];
+  category: FacetCount[];
+  difficulty: FacetCount[];
+  tags: FacetCount[];
+  uploader: Array<FacetCount & { name: string }>;
+}
+
+export interface LearningResourcePage {
+  resources: LearningResource[];
+  facets: LearningResourceFacets;
+  total: number; // Matching resources across all pages
+  nextCursor: string | null;
+}
+
+export type LearningResourceTextStatus = NonNullable<LearningResource['textStatus']>;
+
+export interface ResourcePageMatch {
+  page: number;
+  snippet: string; // HTML, as in search results
+  score: number;
+}
+
+// The fields of a blog post that its revisions keep
+export type BlogRevisionContent = Pick<BlogRevision, typeof BLOG_REVISION_FIELDS[number]>;
+
+export type BlogRevisionWithAuthor = BlogRevision & {
+  authorName: string;
+  isCurrent: boolean;
+};
+
+// File fields of a new version of a learning resource
+export interface ResourceVersionUpload {
+  fileUrl: string;
+  fileName: string;
+  fileSize: string;
+  changelog?: string;
+}
+
+export type ResourceVersionWithUploader = ResourceVersion & {
+  uploaderName: string;
+  isCurrent: boolean;
+};
+
+export type ResourceReviewSort = 'helpful' | 'recent' | 'highest' | 'lowest';
+
+// A review as shown on the resource page. Flags stay with moderators.
+export type ResourceReviewWithAuthor = Omit<ResourceReview, 'flags'> & {
+  authorName: string;
+  authorAvatar: string;
+  replyAuthorName?: string;
+  votedHelpful: boolean;
+};
+
+export interface ResourceReviewPage {
+  reviews: ResourceReviewWithAuthor[];
+  total: number; // Published reviews, including ratings without text
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+  myReview: ResourceReview | null;
+}
+
+export type ModerationReview = ResourceReview & {
+  authorName: string;
+  resourceTitle: string;
+};
+
+export type ReviewModerationAction = 'hide' | 'restore' | 'dismiss';
+
+// An action to write to the activity ledger; its points come from the rules
+export type ActivityRecord = Omit<ActivityEvent, '_id' | 'points' | 'capped' | 'createdAt'>;
+
+export type ActivityPoints = Record<ActivityAction, number>;
+
+export interface Achievement {
+  action: ActivityAction;
+  title: string;
+  xp: number;
+  time: Date;
+}
+
+export interface UserGamificationStats extends LevelProgress {
+  xp: number;
+  xpToNext: number;
+  totalBadges: number;
+  totalComments: number;
+  totalDownloads: number;
+  blogLikes: number; // Likes received on the user's posts and comments
+  eventsAttended: number;
+  streak: number;
+  longestStreak: number;
+  recentAchievements: Achievement[];
+}
+
+// A badge as shown to a user, with when they earned it
+export interface UserBadgeStatus {
+  _id: string;
+  name: string;
+  description: string;
+  icon: BadgeDefinition['icon'];
+  earned: boolean;
+  earnedAt?: Date;
+}
+
+export interface LeaderboardEntry {
+  rank: number; // Users on the same XP share a rank
+  userId: string;
+  firstName: string;
+  lastName: string;
+  matricNumber?: string;
+  studentLevel?: string;
+  profileImageUrl?: string;
+  xp: number; // Within the period
+  level: number; // From all-time XP
+}
+
+export interface Leaderboard {
+  period: LeaderboardPeriod;
+  entries: LeaderboardEntry[];
+  currentUser?: LeaderboardEntry; // The viewer's own place, when they have one
+}
+
+// A fixed window of a rate limit; the key names the limit, who it applies to and the window
+interface EngagementLimitWindow {
+  key: string;
+  count: number;
+  expiresAt: Date;
+}
+
+export interface SuspiciousUser {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  matricNumber?: string;
+  xp: number; // Earned in the window
+  usualXp: number; // Average for a window that long over the month before it
+  cappedEntries: number;
+  rejected: Record<EngagementKind, number>; // Duplicates and rate-limited attempts
+  rateLimited: number;
+  duplicates: number;
+  flags: SuspicionFlag[];
+}
+
+export interface SuspiciousActivityReport {
+  since: Date;
+  users: SuspiciousUser[];
+  // Anonymous visitors whose views went over the limit, busiest first
+  addresses: { ip: string; rateLimited: number; duplicates: number }[];
+}
+
+// A bookmarked or collected item with enough of the item to list it
+export interface SavedItem extends SavedItemRef {
+  title: string;
+  description: string;
+  url: string;
+  imageUrl?: string;
+  date?: Date; // When an event takes place; when anything else was published
+  savedAt: Date;
+}
+
+export type StudyCollectionSummary = Omit<StudyCollection, 'items'> & {
+  items: SavedItemRef[];
+  itemCount: number;
+};
+
+export type StudyCollectionWithItems = Omit<StudyCollection, 'items'> & {
+  items: SavedItem[];
+  ownerName: string;
+};
+
+export interface CourseFilters {
+  level?: Course['level'];
+  semester?: Course['semester'];
+  lecturerId?: string;
+  search?: string;
+}
+
+export interface CourseLecturer {
+  _id: string;
+  name: string;
+  title: string;
+  avatar?: string;
+}
+
+export type CourseWithLecturers = Course & { lecturers: CourseLecturer[]; resourceCount: number };
+
+export type CourseDetail = CourseWithLecturers & {
+  resources: LearningResource[];
+  // Upcoming sessions first, then the most recent past ones
+  events: Event[];
+};
+
+export type EventSeriesWithSessions = EventSeries & { sessions: Event[] };
+
+export interface EventSeriesUpdateResult {
+  series: EventSeriesWithSessions;
+  updatedSessions: Event[]; // Upcoming sessions whose details changed
+  cancelledSessions: Array<{ event: Event; userIds: string[] }>; // Dropped from the schedule after people registered
+}
+
+// bcrypt cost for every stored password, whether set at registration, reset or changed
+export const PASSWORD_HASH_ROUNDS = 12;
+
+// Registration statuses that occupy a seat at an event. A pending_payment
+// registration holds its seat but is not confirmed until paid for.
+const SEAT_STATUSES: EventRegistration['status'][] = ['registered', 'attended', 'pending_payment'];
+const CONFIRMED_STATUSES: EventRegistration['status'][] = ['registered', 'attended'];
+
+// Registrations a user can still cancel themselves
+const ACTIVE_STATUSES: EventRegistration['status'][] = ['registered', 'waitlisted', 'pending_payment'];
+
+// How long a seat at a paid event is held for checkout, and for someone promoted off the waitlist
+const CHECKOUT_HOLD_MINUTES = 30;
+const WAITLIST_PAYMENT_HOLD_HOURS = 24;
+
+// Fields a series passes down to its sessions
+const SERIES_TEMPLATE_FIELDS = [
+  'title', 'description', 'time', 'location', 'type', 'capacity', 'price',
+  'tags', 'courseIds', 'imageUrl', 'imageUrls', 'videoUrl'
+] as const;
+
+function pickSeriesTemplateFields(source: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    SERIES_TEMPLATE_FIELDS
+      .filter(field => source[field] !== undefined)
+      .map(field => [field, source[field]])
+  );
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function pickBlogRevisionContent(source: Record<string, any>): BlogRevisionContent {
+  return Object.fromEntries(BLOG_REVISION_FIELDS.map(field => [field, source[field] ?? undefined])) as BlogRevisionContent;
+}
+
+// Sets the fields a revision has and unsets the ones it leaves empty. The read time follows the content.
+function blogRevisionUpdate(content: BlogRevisionContent): { $set: Record<string, unknown>; $unset?: Record<string, ''> } {
+  const $set: Record<string, unknown> = {};
+  const $unset: Record<string, ''> = {};
+  for (const field of BLOG_REVISION_FIELDS) {
+    if (content[field] == null) {
+      $unset[field] = '';
+    } else {
+      $set[field] = content[field];
+    }
+  }
+  if (content.content != null) {
+    $set.readTime = estimateBlogReadTime(content.content);
+  }
+  return Object.keys($unset).length > 0 ? { $set, $unset } : { $set };
+}
+
+// Resource list sort orders. Ties are broken by _id so cursors are stable.
+const RESOURCE_SORT_FIELDS: Record<LearningResourceSort, 'createdAt' | 'downloads' | 'rating'> = {
+  recent: 'createdAt',
+  downloads: 'downloads',
+  rating: 'rating',
+};
+
+const MAX_TAG_FACETS = 30;
+
+// "soc201", "Soc  201" and "SOC 201" are the same course
+function normalizeCourseCode(code: string): string {
+  return code.trim().toUpperCase().replace(/\s+/g, ' ').replace(/^([A-Z]+) ?(\d)/, '$1 $2');
+}
+
+const COURSE_PAST_EVENTS = 5;
+
+const SAVED_ITEM_DESCRIPTION_LENGTH = 200;
+
+function generateShareToken(): string {
+  return randomBytes(16).toString('hex');
+}
+
+// Cursors carry the sort key and _id of the last resource on the page
+function encodeResourceCursor(sort: LearningResourceSort, value: unknown, id: ObjectId): string {
+  return Buffer.from(JSON.stringify({ s: sort, v: value, id: id.toString() })).toString('base64url');
+}
+
+function decodeResourceCursor(cursor: string, sort: LearningResourceSort): { value: Date | number; id: ObjectId } {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (decoded.s !== sort || !ObjectId.isValid(decoded.id)) {
+      throw new Error();
+    }
+    const value = sort === 'recent' ? new Date(decoded.v) : Number(decoded.v);
+    if (typeof value === 'number' ? isNaN(value) : isNaN(value.getTime())) {
+      throw new Error();
+    }
+    return { value, id: new ObjectId(decoded.id) };
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Converts a string user id field to an ObjectId for $lookup, tolerating bad ids
+function toObjectIdExpression(field: string) {
+  return { $convert: { input: field, to: 'objectId', onError: null, onNull: null } };
 }
 
 export class MongoStorage implements IMongoStorage {
   private jwtSecret = process.env.JWT_SECRET || 'fallback-secret-key-change-in-production';
 
-  // Auth operations
-  async getGamificationLeaderboard(limit = 100): Promise<User[]> {
-    const db = await getCollection(COLLECTIONS.USERS);
-    // Sort by level (desc) then calculates points (if we had them stored directly, or just level for now)
-    // Assuming level is the main metric for now as explicitly stored
-    return db.find({ role: 'student', approvalStatus: 'approved' })
-      .sort({ level: -1, profileCompletion: -1 }) // Secondary sort by profile completion as proxy for activity
-      .limit(limit)
-      .toArray() as unknown as User[];
-  }
+  // Activity being recorded for each user and subject, see recordActivity
+  private activityQueues = new Map<string, Promise<void>>();
 
+  // Auth operations
   async registerUser(userData: RegisterUser): Promise<User> {
     const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
 
@@ -166,12 +681,13 @@ export class MongoStorage implements IMongoStorage {
     }
 
     // Hash password
-    const passwordHash = await bcrypt.hash(userData.password, 12);
+    const passwordHash = await bcrypt.hash(userData.password, PASSWORD_HASH_ROUNDS);
 
     // Create user document
     const userDoc: Omit<User, '_id'> = {
       ...userData,
       passwordHash,
+      tokenVersion: 0,
       profileCompletion: this.calculateProfileCompletion(userData),
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -206,7 +722,7 @@ export class MongoStorage implements IMongoStorage {
 
     // Generate JWT token
     const token = jwt.sign(
-      { userId: user._id.toString(), email: user.email, role: user.role },
+      { userId: user._id.toString(), email: user.email, role: user.role, tokenVersion: user.tokenVersion ?? 0 },
       this.jwtSecret,
       { expiresIn: '7d' }
     );
@@ -220,8 +736,15 @@ export class MongoStorage implements IMongoStorage {
   async authenticateToken(token: string): Promise<User | null> {
     try {
       const decoded = jwt.verify(token, this.jwtSecret) as any;
+      // Single-purpose tokens such as password reset links never authenticate
+      if (decoded.purpose) {
+        return null;
+      }
       const user = await this.getUser(decoded.userId);
-      return user || null;
+      if (!user || (decoded.tokenVersion ?? 0) !== (user.tokenVersion ?? 0)) {
+        return null;
+      }
+      return user;
     } catch (error) {
       return null;
     }
@@ -252,6 +775,19 @@ export class MongoStorage implements IMongoStorage {
     return users.map(user => ({ ...user, _id: user._id.toString() }));
   }
 
+  async getApprovedStudentIds(levels: string[] = []): Promise<string[]> {
+    const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
+
+    // An empty levels list means every approved student
+    const query: any = { role: 'student', approvalStatus: 'approved' };
+    if (levels.length > 0) {
+      query.level = { $in: levels };
+    }
+
+    const users = await usersCollection.find(query, { projection: { _id: 1 } }).toArray();
+    return users.map(user => user._id.toString());
+  }
+
   async updateUserApprovalStatus(id: string, status: string): Promise<User> {
     const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
 
@@ -306,12 +842,83 @@ export class MongoStorage implements IMongoStorage {
     return { ...result, _id: result._id.toString() };
   }
 
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+    const user = await this.getUser(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    // Fill in defaults for users created before preferences existed
+    return notificationPreferencesSchema.parse(user.notificationPreferences ?? {});
+  }
+
+  async updateNotificationPreferences(userId: string, preferences: Partial<NotificationPreferences>): Promise<NotificationPreferences> {
+    const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
+
+    // Set individual keys so a partial update doesn't wipe the other preferences
+    const updateData: Record<string, any> = { updatedAt: new Date() };
+    for (const [key, value] of Object.entries(preferences)) {
+      if (typeof value === 'boolean') {
+        updateData[`notificationPreferences.${key}`] = value;
+      }
+    }
+
+    const result = await usersCollection.findOneAndUpdate(
+      { _id: new ObjectId(userId) } as any,
+      { $set: updateData },
+      { returnDocument: 'after' }
+    );
+
+    if (!result) {
+      throw new Error('User not found');
+    }
+
+    return notificationPreferencesSchema.parse(result.notificationPreferences ?? {});
+  }
+
+  async filterUsersByNotificationPreferences(userIds: string[], keys: (keyof NotificationPreferences)[]): Promise<string[]> {
+    if (userIds.length === 0) {
+      return [];
+    }
+
+    const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
+
+    // Missing preferences count as enabled, so only exclude explicit opt-outs
+    const query: any = { _id: { $in: userIds.filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id)) } };
+    for (const key of keys) {
+      query[`notificationPreferences.${key}`] = { $ne: false };
+    }
+
+    const users = await usersCollection.find(query, { projection: { _id: 1 } }).toArray();
+    return users.map(user => user._id.toString());
+  }
+
+  async rotateCalendarFeedVersion(id: string): Promise<number> {
+    const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
+
+    const user = await usersCollection.findOneAndUpdate(
+      { _id: new ObjectId(id) } as any,
+      { $inc: { calendarFeedVersion: 1 }, $set: { updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    return user.calendarFeedVersion ?? 0;
+  }
+
   async updateUserPassword(id: string, hashedPassword: string): Promise<void> {
     const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
 
     const result = await usersCollection.updateOne(
       { _id: new ObjectId(id) } as any,
-      { $set: { passwordHash: hashedPassword, updatedAt: new Date() } }
+      {
+        $set: { passwordHash: hashedPassword, updatedAt: new Date() },
+        // Revoke every token issued with the old password
+        $inc: { tokenVersion: 1 }
+      }
     );
 
     if (result.matchedCount === 0) {
@@ -332,20 +939,23 @@ export class MongoStorage implements IMongoStorage {
     const blogPostDoc: Omit<BlogPost, '_id'> = {
       ...post,
       authorId,
-      likes: post.likes ?? 0,
-      views: post.views ?? 0,
-      readTime: post.readTime ?? 5,
+      likes: 0,
+      views: 0,
+      readTime: estimateBlogReadTime(post.content),
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
-    const result = await blogPostsCollection.insertOne(blogPostDoc as any);
+    const result = await blogPostsCollection.insertOne({ ...blogPostDoc, currentRevision: 1 } as any);
     const newPost = await blogPostsCollection.findOne({ _id: result.insertedId });
 
     if (!newPost) {
       throw new Error('Failed to create blog post');
     }
 
+    await this.insertBlogRevision(newPost, 1);
+    await this.syncBlogApprovalActivity({ ...newPost, _id: newPost._id.toString() });
+
     return { ...newPost, _id: newPost._id.toString() };
   }
 
@@ -354,16 +964,13 @@ export class MongoStorage implements IMongoStorage {
 
     const matchStage: any = { published: true };
     if (search) {
-      matchStage.$or = [
-        { title: { $regex: search, $options: 'i' } },
-        { content: { $regex: search, $options: 'i' } },
-        { category: { $regex: search, $options: 'i' } }
-      ];
+      matchStage.$text = { $search: search };
     }
 
     const posts = await blogPostsCollection.aggregate([
       { $match: matchStage },
-      { $sort: { createdAt: -1 } },
+      // Search results are ranked by relevance, most recently published first among equals
+      { $sort: search ? { score: { $meta: 'textScore' }, publishedAt: -1 } : { publishedAt: -1, createdAt: -1 } },
       { $skip: offset },
       { $limit: limit },
       {
@@ -417,6 +1024,8 @@ export class MongoStorage implements IMongoStorage {
           imageUrls: 1,
           featuredImageUrl: 1,
           published: 1,
+          publishedAt: 1,
+          pendingRevision: 1,
           likes: 1,
           views: 1,
           readTime: 1,
@@ -438,18 +1047,26 @@ export class MongoStorage implements IMongoStorage {
     return posts as BlogPost[];
   }
 
-  async getAdminBlogPosts(status?: string, limit = 20, offset = 0): Promise<BlogPost[]> {
+  async getAdminBlogPosts(status?: string, limit = 20, offset = 0, viewerId?: string): Promise<BlogPost[]> {
     const blogPostsCollection = await getCollection<BlogPost>(COLLECTIONS.BLOG_POSTS);
 
-    // Build query based on status
-    const query: any = {};
-    if (status && status !== 'all') {
+    // Build query based on status. Drafts are private to their author, including from other admins.
+    const query: any = { $nor: [{ status: 'draft', authorId: { $ne: viewerId } }] };
+    if (status && ['draft', 'submitted', 'scheduled', 'published'].includes(status)) {
+      query.status = status;
+    } else if (status && status !== 'all') {
       // If status is specific (pending, approved, rejected), filter by it
       // Note: 'approvalStatus' might effectively be the single source of truth, 
       // but 'published' boolean is also used. 
       // Standardizing on approvalStatus for admin view.
       query.approvalStatus = status;
     }
+    // Approved posts with an edit waiting for approval also need review
+    if (status === 'pending') {
+      delete query.approvalStatus;
+      query.$or = [{ approvalStatus: 'pending' }, { pendingRevision: { $exists: true } }];
+      query.status = { $ne: 'draft' };
+    }
 
     const posts = await blogPostsCollection.aggregate([
       { $match: query },
@@ -477,12 +1094,23 @@ export class MongoStorage implements IMongoStorage {
           _id: { $toString: "$_id" },
           authorId: 1,
           title: 1,
+          excerpt: 1,
           content: 1,
           category: 1,
           tags: 1,
           imageUrl: 1,
+          imageUrls: 1,
+          status: 1,
+          publishAt: 1,
+          publishedAt: 1,
+          notifySubscribers: 1,
           published: 1,
+          featured: 1,
+          likes: 1,
+          views: 1,
+          readTime: 1,
           approvalStatus: { $ifNull: ["$approvalStatus", "pending"] },
+          pendingRevision: 1,
           createdAt: 1,
           authorName: {
             $cond: {
@@ -529,7 +1157,7 @@ export class MongoStorage implements IMongoStorage {
     } as any;
   }
 
-  async updateBlogPost(id: string, post: Partial<InsertBlogPost>): Promise<BlogPost> {
+  async updateBlogPost(id: string, post: Partial<Omit<BlogPost, '_id'>>): Promise<BlogPost> {
     const blogPostsCollection = await getCollection<BlogPost>(COLLECTIONS.BLOG_POSTS);
 
     const result = await blogPostsCollection.findOneAndUpdate(
@@ -542,12 +1170,67 @@ export class MongoStorage implements IMongoStorage {
       throw new Error('Blog post not found');
     }
 
-    return { ...result, _id: result._id.toString() };
+    const updated = { ...result, _id: result._id.toString() };
+    if (post.approvalStatus) {
+      await this.syncBlogApprovalActivity(updated);
+    }
+    return updated;
+  }
+
+  // An approved post earns its author points; taking the approval away takes them back
+  private async syncBlogApprovalActivity(post: BlogPost): Promise<void> {
+    const key = `blog:${post._id}`;
+    if (post.approvalStatus !== 'approved') {
+      await this.revokeActivity(key);
+      return;
+    }
+    await this.recordActivity({ userId: post.authorId, action: 'blog_post_approved', key, subjectType: 'blog', subjectId: post._id! });
+  }
+
+  // Publishes scheduled posts whose time has come. Each is claimed with its own update
+  // so a post is only returned once, even if two checks overlap.
+  async publishDueBlogPosts(now = new Date()): Promise<BlogPost[]> {
+    const blogPostsCollection = await getCollection<BlogPost>(COLLECTIONS.BLOG_POSTS);
+
+    const published: BlogPost[] = [];
+    while (true) {
+      const post = await blogPostsCollection.findOneAndUpdate(
+        { status: 'scheduled', publishAt: { $lte: now } },
+        [{ $set: { status: 'published', published: true, publishedAt: '$publishAt', updatedAt: now } }],
+        { sort: { publishAt: 1 }, returnDocument: 'after' }
+      );
+      if (!post) break;
+      published.push({ ...post, _id: post._id.toString() });
+    }
+
+    return published;
+  }
+
+  // Posts from before drafts and scheduling get a status matching their published flag
+  async backfillBlogPostStatuses(): Promise<void> {
+    const blogPostsCollection = await getCollection<BlogPost>(COLLECTIONS.BLOG_POSTS);
+
+    await blogPostsCollection.updateMany(
+      { status: { $exists: false }, published: true },
+      [{ $set: { status: 'published', publishedAt: { $ifNull: ['$publishedAt', '$createdAt'] } } }]
+    );
+    // Approved but unpublished posts were admins' drafts
+    await blogPostsCollection.updateMany(
+      { status: { $exists: false }, approvalStatus: 'approved' },
+      { $set: { status: 'draft' } }
+    );
+    await blogPostsCollection.updateMany(
+      { status: { $exists: false } },
+      { $set: { status: 'submitted' } }
+    );
   }
 
   async deleteBlogPost(id: string): Promise<void> {
     const blogPostsCollection = await getCollection<BlogPost>(COLLECTIONS.BLOG_POSTS);
     await blogPostsCollection.deleteOne({ _id: new ObjectId(id) } as any);
+    await (await getCollection(COLLECTIONS.BLOG_REVISIONS)).deleteMany({ blogPostId: id });
+    // Points for the post's approval and the likes it received
+    await (await getCollection(COLLECTIONS.ACTIVITY_EVENTS)).deleteMany({ subjectId: id });
   }
 
   async getBlogPostsByAuthor(authorId: string): Promise<BlogPost[]> {
@@ -561,14 +1244,217 @@ export class MongoStorage implements IMongoStorage {
 
     const author = await usersCollection.findOne({ _id: new ObjectId(authorId) } as any);
 
+    // Edits waiting for approval, so the author can carry on from them rather than the live text
+    const revisionsCollection = await getCollection<BlogRevision>(COLLECTIONS.BLOG_REVISIONS);
+    const waiting = await revisionsCollection
+      .find({ blogPostId: { $in: posts.map(post => post._id.toString()) }, status: 'pending' })
+      .toArray();
+    const waitingByPost = new Map(waiting.map(revision => [revision.blogPostId, pickBlogRevisionContent(revision)]));
+
     return posts.map(post => ({
       ...post,
       _id: post._id.toString(),
       authorName: author ? `${author.firstName} ${author.lastName}` : 'Unknown Author',
-      authorAvatar: author?.profileImageUrl
+      authorAvatar: author?.profileImageUrl,
+      pendingEdit: waitingByPost.get(post._id.toString())
     })) as BlogPost[];
   }
 
+  // Newest first. Posts written before revisions were kept get their live text recorded as revision 1.
+  async getBlogRevisions(blogPostId: string): Promise<BlogRevisionWithAuthor[]> {
+    const blogPostsCollection = await getCollection<BlogPost>(COLLECTIONS.BLOG_POSTS);
+    const revisionsCollection = await getCollection<BlogRevision>(COLLECTIONS.BLOG_REVISIONS);
+    const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
+
+    const post = await blogPostsCollection.findOne({ _id: new ObjectId(blogPostId) } as any);
+    if (!post) {
+      throw new Error('Blog post not found');
+    }
+    const currentRevision = await this.ensureInitialBlogRevision(post);
+
+    const revisions = await revisionsCollection.find({ blogPostId }).sort({ revision: -1 }).toArray();
+    const authorIds = Array.from(new Set(revisions.map(revision => revision.authorId)));
+    const authors = await usersCollection
+      .find({ _id: { $in: authorIds.filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id)) } } as any)
+      .toArray();
+    const namesById = new Map(authors.map(user => [user._id.toString(), `${user.firstName} ${user.lastName}`]));
+
+    return revisions.map(revision => ({
+      ...revision,
+      _id: revision._id.toString(),
+      authorName: namesById.get(revision.authorId) ?? 'Unknown Author',
+      isCurrent: revision.revision === currentRevision
+    }));
+  }
+
+  // Records an edit of the post. An applied edit goes live straight away; a pending one waits
+  // for an admin while the live text stays published, and replaces any edit already waiting.
+  // Fields missing from the edit keep their value. Returns the post as it is if nothing changed.
+  async saveBlogRevision(
+    blogPostId: string,
+    authorId: string,
+    edit: Partial<BlogRevisionContent>,
+    options: { pending?: boolean; restoredFrom?: number } = {}
+  ): Promise<BlogPost> {
+    const blogPostsCollection = await getCollection<BlogPost>(COLLECTIONS.BLOG_POSTS);
+    const revisionsCollection = await getCollection<BlogRevision>(COLLECTIONS.BLOG_REVISIONS);
+
+    const post = await blogPostsCollection.findOne({ _id: new ObjectId(blogPostId) } as any);
+    if (!post) {
+      throw new Error('Blog post not found');
+    }
+    await this.ensureInitialBlogRevision(post);
+
+    // A second edit while one is waiting builds on the waiting one
+    const waiting = options.pending && post.pendingRevision !== undefined
+      ? await revisionsCollection.findOne({ blogPostId, revision: post.pendingRevision, status: 'pending' })
+      : null;
+    const base = pickBlogRevisionContent(waiting ?? post);
+    const content = { ...base, ...edit };
+    if (options.restoredFrom === undefined && BLOG_REVISION_FIELDS.every(field => isSameValue(base[field], content[field]))) {
+      return { ...post, _id: post._id.toString() };
+    }
+
+    const [latest] = await revisionsCollection.find({ blogPostId }).sort({ revision: -1 }).limit(1).toArray();
+    const revision = (latest?.revision ?? 0) + 1;
+    const now = new Date();
+
+    await revisionsCollection.insertOne({
+      ...blogRevisionUpdate(content).$set,
+      blogPostId,
+      revision,
+      authorId,
+      status: options.pending ? 'pending' : 'applied',
+      ...(options.restoredFrom !== undefined && { restoredFrom: options.restoredFrom }),
+      createdAt: now
+    } as any);
+
+    let update: Record<string, any>;
+    if (options.pending) {
+      await revisionsCollection.updateMany(
+        { blogPostId, status: 'pending', revision: { $ne: revision } },
+        { $set: { status: 'superseded' } }
+      );
+      update = { $set: { pendingRevision: revision, updatedAt: now } };
+    } else {
+      const { $set, $unset } = blogRevisionUpdate(content);
+      update = { $set: { ...$set, currentRevision: revision, updatedAt: now }, ...($unset && { $unset }) };
+    }
+
+    const result = await blogPostsCollection.findOneAndUpdate(
+      { _id: new ObjectId(blogPostId) } as any,
+      update,
+      { returnDocument: 'after' }
+    );
+
+    if (!result) {
+      throw new Error('Blog post not found');
+    }
+
+    return { ...result, _id: result._id.toString() };
+  }
+
+  // Approving puts a pending edit live; rejecting it leaves the live text as it was
+  async reviewBlogRevision(
+    blogPostId: string,
+    revision: number,
+    reviewerId: string,
+    status: 'approved' | 'rejected',
+    rejectionReason?: string
+  ): Promise<BlogPost> {
+    const blogPostsCollection = await getCollection<BlogPost>(COLLECTIONS.BLOG_POSTS);
+    const revisionsCollection = await getCollection<BlogRevision>(COLLECTIONS.BLOG_REVISIONS);
+    const now = new Date();
+
+    // Matching on the status keeps two admins from deciding the same edit
+    const reviewed = await revisionsCollection.findOneAndUpdate(
+      { blogPostId, revision, status: 'pending' },
+      {
+        $set: {
+          status: status === 'approved' ? 'applied' : 'rejected',
+          reviewedById: reviewerId,
+          reviewedAt: now,
+          ...(status === 'rejected' && rejectionReason && { rejectionReason })
+        }
+      },
+      { returnDocument: 'after' }
+    );
+
+    if (!reviewed) {
+      const exists = await revisionsCollection.countDocuments({ blogPostId, revision });
+      throw new Error(exists ? 'Revision is not pending' : 'Revision not found');
+    }
+
+    let update: Record<string, any>;
+    if (status === 'approved') {
+      const { $set, $unset } = blogRevisionUpdate(pickBlogRevisionContent(reviewed));
+      update = {
+        $set: { ...$set, currentRevision: revision, updatedAt: now },
+        $unset: { ...$unset, pendingRevision: '' }
+      };
+    } else {
+      update = { $unset: { pendingRevision: '' } };
+    }
+
+    const result = await blogPostsCollection.findOneAndUpdate(
+      { _id: new ObjectId(blogPostId) } as any,
+      update,
+      { returnDocument: 'after' }
+    );
+
+    if (!result) {
+      throw new Error('Blog post not found');
+    }
+
+    return { ...result, _id: result._id.toString() };
+  }
+
+  // Puts an earlier revision live again. The restore is recorded as a new revision.
+  async restoreBlogRevision(blogPostId: string, revision: number, adminId: string): Promise<BlogPost> {
+    const revisionsCollection = await getCollection<BlogRevision>(COLLECTIONS.BLOG_REVISIONS);
+
+    const source = await revisionsCollection.findOne({ blogPostId, revision });
+    if (!source) {
+      throw new Error('Revision not found');
+    }
+    if (source.status === 'pending') {
+      throw new Error('Revision is pending');
+    }
+
+    return this.saveBlogRevision(blogPostId, adminId, pickBlogRevisionContent(source), { restoredFrom: revision });
+  }
+
+  // Returns the post's current revision number, recording its text as revision 1 if it has none yet
+  private async ensureInitialBlogRevision(post: BlogPost & { _id: any }): Promise<number> {
+    if (post.currentRevision) return post.currentRevision;
+
+    const blogPostsCollection = await getCollection<BlogPost>(COLLECTIONS.BLOG_POSTS);
+    await this.insertBlogRevision(post, 1);
+    await blogPostsCollection.updateOne({ _id: post._id, currentRevision: { $exists: false } } as any, { $set: { currentRevision: 1 } });
+    return 1;
+  }
+
+  private async insertBlogRevision(post: BlogPost & { _id: any }, revision: number): Promise<void> {
+    const revisionsCollection = await getCollection<BlogRevision>(COLLECTIONS.BLOG_REVISIONS);
+    const blogPostId = post._id.toString();
+
+    // Upsert so two requests backfilling the same post don't collide
+    await revisionsCollection.updateOne(
+      { blogPostId, revision },
+      {
+        $setOnInsert: {
+          ...blogRevisionUpdate(pickBlogRevisionContent(post)).$set,
+          blogPostId,
+          revision,
+          authorId: post.authorId,
+          status: 'applied',
+          createdAt: post.createdAt ?? new Date()
+        }
+      },
+      { upsert: true }
+    );
+  }
+
   async incrementBlogViews(id: string, userId?: string): Promise<void> {
     const blogPostsCollection = await getCollection<BlogPost>(COLLECTIONS.BLOG_POSTS);
     const viewsCollection = await getCollection(COLLECTIONS.BLOG_VIEWS);
@@ -617,6 +1503,7 @@ export class MongoStorage implements IMongoStorage {
       authorId,
       blogPostId,
       parentCommentId,
+      likes: 0,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -628,7 +1515,10 @@ export class MongoStorage implements IMongoStorage {
       throw new Error('Failed to create comment');
     }
 
-    return { ...newComment, _id: newComment._id.toString() };
+    const commentId = newComment._id.toString();
+    await this.recordActivity({ userId: authorId, action: 'comment_posted', key: `comment:${commentId}`, subjectType: 'comment', subjectId: commentId });
+
+    return { ...newComment, _id: commentId };
   }
 
   async getBlogComments(blogPostId: string): Promise<Comment[]> {
@@ -745,9 +1635,20 @@ export class MongoStorage implements IMongoStorage {
     return commentsWithReplies as Comment[];
   }
 
-  async deleteComment(id: string): Promise<void> {
+  async getComment(id: string): Promise<Comment | undefined> {
+    if (!ObjectId.isValid(id)) {
+      return undefined;
+    }
+    const commentsCollection = await getCollection<Comment>(COLLECTIONS.COMMENTS);
+    const comment = await commentsCollection.findOne({ _id: new ObjectId(id) } as any);
+    return comment ? { ...comment, _id: comment._id.toString() } : undefined;
+  }
+
+  async deleteComment(id: string): Promise<void> {
     const commentsCollection = await getCollection<Comment>(COLLECTIONS.COMMENTS);
     await commentsCollection.deleteOne({ _id: new ObjectId(id) } as any);
+    // Points for posting the comment and for the likes it received
+    await (await getCollection(COLLECTIONS.ACTIVITY_EVENTS)).deleteMany({ subjectId: id });
   }
 
   // Event comment operations
@@ -764,6 +1665,7 @@ export class MongoStorage implements IMongoStorage {
       authorId,
       eventId,
       parentCommentId,
+      likes: 0,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -775,7 +1677,10 @@ export class MongoStorage implements IMongoStorage {
       throw new Error('Failed to create comment');
     }
 
-    return { ...newComment, _id: newComment._id.toString() };
+    const commentId = newComment._id.toString();
+    await this.recordActivity({ userId: authorId, action: 'comment_posted', key: `comment:${commentId}`, subjectType: 'comment', subjectId: commentId });
+
+    return { ...newComment, _id: commentId };
   }
 
   async getEventComments(eventId: string): Promise<Comment[]> {
@@ -899,6 +1804,7 @@ export class MongoStorage implements IMongoStorage {
       authorId,
       resourceId,
       parentCommentId,
+      likes: 0,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -910,7 +1816,10 @@ export class MongoStorage implements IMongoStorage {
       throw new Error('Failed to create comment');
     }
 
-    return { ...newComment, _id: newComment._id.toString() };
+    const commentId = newComment._id.toString();
+    await this.recordActivity({ userId: authorId, action: 'comment_posted', key: `comment:${commentId}`, subjectType: 'comment', subjectId: commentId });
+
+    return { ...newComment, _id: commentId };
   }
 
   async getResourceComments(resourceId: string): Promise<Comment[]> {
@@ -1026,6 +1935,8 @@ export class MongoStorage implements IMongoStorage {
 
     const eventDoc: Omit<Event, '_id'> = {
       ...event,
+      // Stored as a Date so single events and series sessions sort together
+      date: new Date(event.date),
       organizerId,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -1041,36 +1952,64 @@ export class MongoStorage implements IMongoStorage {
     return { ...newEvent, _id: newEvent._id.toString() };
   }
 
-  async getEvents(limit = 20, offset = 0): Promise<Event[]> {
+  async getEvents(limit = 20, offset = 0): Promise<EventListing[]> {
     const eventsCollection = await getCollection<Event>(COLLECTIONS.EVENTS);
     const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
     const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
 
-    const events = await eventsCollection
-      .find({})
-      .sort({ date: -1 })
-      .skip(offset)
-      .limit(limit)
-      .toArray();
+    const startOfToday = occurrenceDateToDate(toOccurrenceDate(new Date()));
+
+    // A series is listed once, as its next session that is still going ahead
+    // (or its last session once the series is over)
+    const events = await eventsCollection.aggregate<any>([
+      { $sort: { date: 1 } },
+      { $group: { _id: { $ifNull: ['$seriesId', { $toString: '$_id' }] }, sessions: { $push: '$$ROOT' } } },
+      {
+        $project: {
+          sessionCount: { $size: '$sessions' },
+          event: {
+            $ifNull: [
+              {
+                $arrayElemAt: [{
+                  $filter: {
+                    input: '$sessions',
+                    cond: { $and: [{ $gte: ['$$this.date', startOfToday] }, { $ne: ['$$this.cancelled', true] }] }
+                  }
+                }, 0]
+              },
+              { $arrayElemAt: ['$sessions', -1] }
+            ]
+          }
+        }
+      },
+      { $replaceRoot: { newRoot: { $mergeObjects: ['$event', { seriesSessionCount: '$sessionCount' }] } } },
+      { $sort: { date: -1 } },
+      { $skip: offset },
+      { $limit: limit }
+    ]).toArray();
 
     const eventsWithOrganizerInfo = await Promise.all(
-      events.map(async (event) => {
+      events.map(async ({ seriesSessionCount, ...event }) => {
         const organizer = await usersCollection.findOne({ _id: new ObjectId(event.organizerId) } as any);
-        const registrationCount = await registrationsCollection.countDocuments({ eventId: event._id.toString() });
+        const registrationCount = event.registeredCount ?? await registrationsCollection.countDocuments({
+          eventId: event._id.toString(),
+          status: { $in: SEAT_STATUSES }
+        });
         return {
           ...event,
           _id: event._id.toString(),
           organizerName: organizer ? `${organizer.firstName} ${organizer.lastName}` : 'Unknown Organizer',
           organizerAvatar: organizer?.profileImageUrl,
-          registrationCount
+          registrationCount,
+          ...(event.seriesId && { seriesSessionCount })
         } as any;
       })
     );
 
-    return eventsWithOrganizerInfo as Event[];
+    return eventsWithOrganizerInfo as EventListing[];
   }
 
-  async getEvent(id: string): Promise<Event | undefined> {
+  async getEvent(id: string, userId?: string): Promise<Event | undefined> {
     const eventsCollection = await getCollection<Event>(COLLECTIONS.EVENTS);
     const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
     const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
@@ -1081,24 +2020,60 @@ export class MongoStorage implements IMongoStorage {
       return undefined;
     }
 
+    const eventId = event._id.toString();
     const organizer = await usersCollection.findOne({ _id: new ObjectId(event.organizerId) } as any);
-    const registrationCount = await registrationsCollection.countDocuments({ eventId: event._id.toString() });
+    const registeredCount = await this.ensureRegisteredCount(eventId);
+    const waitlistCount = await registrationsCollection.countDocuments({ eventId, status: 'waitlisted' });
+    const userRegistration = userId
+      ? await registrationsCollection.findOne({ userId, eventId, status: { $ne: 'cancelled' } })
+      : null;
 
     return {
       ...event,
-      _id: event._id.toString(),
+      _id: eventId,
       organizerName: organizer ? `${organizer.firstName} ${organizer.lastName}` : 'Unknown Organizer',
       organizerAvatar: organizer?.profileImageUrl,
-      registrationCount
+      registrationCount: registeredCount,
+      registeredCount,
+      waitlistCount,
+      registrationStatus: userRegistration?.status,
+      isRegistered: !!userRegistration && CONFIRMED_STATUSES.includes(userRegistration.status),
+      isWaitlisted: userRegistration?.status === 'waitlisted',
+      paymentStatus: userRegistration?.paymentStatus,
+      holdExpiresAt: userRegistration?.holdExpiresAt
     } as any;
   }
 
   async updateEvent(id: string, event: Partial<InsertEvent>): Promise<Event> {
     const eventsCollection = await getCollection<Event>(COLLECTIONS.EVENTS);
 
+    // The seat counter and series bookkeeping are only changed by their own operations
+    const { registeredCount, seriesId, occurrenceDate, overriddenFields, cancelled, ...updates } = event as Partial<Event>;
+    if (updates.date) {
+      updates.date = new Date(updates.date);
+    }
+
+    const existing = await eventsCollection.findOne({ _id: new ObjectId(id) } as any);
+    if (!existing) {
+      throw new Error('Event not found');
+    }
+
+    const update: any = { $set: { ...updates, updatedAt: new Date() } };
+
+    // Remember what was edited on this session alone so later series edits don't undo it
+    if (existing.seriesId) {
+      const changedFields = Object.keys(updates).filter(field =>
+        (field === 'date' || (SERIES_TEMPLATE_FIELDS as readonly string[]).includes(field)) &&
+        !isSameValue((existing as any)[field], (updates as any)[field])
+      );
+      if (changedFields.length > 0) {
+        update.$addToSet = { overriddenFields: { $each: changedFields } };
+      }
+    }
+
     const result = await eventsCollection.findOneAndUpdate(
       { _id: new ObjectId(id) } as any,
-      { $set: { ...event, updatedAt: new Date() } },
+      update,
       { returnDocument: 'after' }
     );
 
@@ -1111,233 +2086,1851 @@ export class MongoStorage implements IMongoStorage {
 
   async deleteEvent(id: string): Promise<void> {
     const eventsCollection = await getCollection<Event>(COLLECTIONS.EVENTS);
+    await this.assertNoUnrefundedPayments([id]);
     await eventsCollection.deleteOne({ _id: new ObjectId(id) } as any);
   }
 
+  // Paid attendees are refunded when an event is cancelled, so an upcoming
+  // event still holding their money has to be cancelled before it is deleted
+  private async assertNoUnrefundedPayments(eventIds: string[]): Promise<void> {
+    const eventsCollection = await getCollection<Event>(COLLECTIONS.EVENTS);
+    const paymentsCollection = await getCollection<Payment>(COLLECTIONS.PAYMENTS);
+
+    const startOfToday = occurrenceDateToDate(toOccurrenceDate(new Date()));
+    const events = await eventsCollection
+      .find({ _id: { $in: eventIds.map(id => new ObjectId(id)) } } as any)
+      .project({ date: 1 })
+      .toArray();
+    const upcomingIds = events
+      .filter(event => new Date(event.date) >= startOfToday)
+      .map(event => event._id.toString());
+
+    if (upcomingIds.length === 0) {
+      return;
+    }
+
+    const paid = await paymentsCollection.countDocuments({ eventId: { $in: upcomingIds }, status: 'paid' });
+    if (paid > 0) {
+      throw new Error('Event has paid registrations');
+    }
+  }
+
+  // Events created before seat counting have no counter yet, so seed it from
+  // the registrations. Only sets the field if it is still missing.
+  private async ensureRegisteredCount(eventId: string): Promise<number> {
+    const eventsCollection = await getCollection<Event>(COLLECTIONS.EVENTS);
+    const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
+
+    const event = await eventsCollection.findOne({ _id: new ObjectId(eventId) } as any);
+    if (!event) {
+      throw new Error('Event not found');
+    }
+
+    if (typeof event.registeredCount === 'number') {
+      return event.registeredCount;
+    }
+
+    const count = await registrationsCollection.countDocuments({ eventId, status: { $in: SEAT_STATUSES } });
+    await eventsCollection.updateOne(
+      { _id: new ObjectId(eventId), registeredCount: { $exists: false } } as any,
+      { $set: { registeredCount: count } }
+    );
+
+    const seeded = await eventsCollection.findOne({ _id: new ObjectId(eventId) } as any);
+    return seeded?.registeredCount ?? count;
+  }
+
+  // Atomically take a seat if the event is below capacity
+  private async claimEventSeat(eventId: string): Promise<boolean> {
+    const eventsCollection = await getCollection<Event>(COLLECTIONS.EVENTS);
+    await this.ensureRegisteredCount(eventId);
+
+    const result = await eventsCollection.updateOne(
+      { _id: new ObjectId(eventId), $expr: { $lt: ['$registeredCount', '$capacity'] } } as any,
+      { $inc: { registeredCount: 1 } }
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  private async releaseEventSeat(eventId: string): Promise<void> {
+    const eventsCollection = await getCollection<Event>(COLLECTIONS.EVENTS);
+    await eventsCollection.updateOne(
+      { _id: new ObjectId(eventId), registeredCount: { $gt: 0 } } as any,
+      { $inc: { registeredCount: -1 } }
+    );
+  }
+
   async registerForEvent(userId: string, eventId: string): Promise<EventRegistration> {
+    const eventsCollection = await getCollection<Event>(COLLECTIONS.EVENTS);
     const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
 
-    // Check if user is already registered for this event
+    const event = await eventsCollection.findOne({ _id: new ObjectId(eventId) } as any);
+    if (!event) {
+      throw new Error('Event not found');
+    }
+    if (event.cancelled) {
+      throw new Error('Event has been cancelled');
+    }
+
+    // Check if user is already registered or waitlisted for this event
     const existingRegistration = await registrationsCollection.findOne({
       userId,
       eventId
     } as any);
 
-    if (existingRegistration) {
+    if (existingRegistration && existingRegistration.status !== 'cancelled') {
       // Return the existing registration instead of creating a duplicate
       return { ...existingRegistration, _id: existingRegistration._id.toString() };
     }
 
-    const registrationDoc: Omit<EventRegistration, '_id'> = {
-      userId,
-      eventId,
-      status: 'registered',
-      createdAt: new Date(),
-    };
+    // Take a seat if one is free, otherwise join the waitlist. Seats at paid
+    // events are held while the user goes through checkout.
+    const hasSeat = await this.claimEventSeat(eventId);
+    const isPaid = (event.price ?? 0) > 0;
+    const status: EventRegistration['status'] = !hasSeat ? 'waitlisted' : isPaid ? 'pending_payment' : 'registered';
+    const now = new Date();
+    const holdExpiresAt = status === 'pending_payment'
+      ? new Date(now.getTime() + CHECKOUT_HOLD_MINUTES * 60 * 1000)
+      : undefined;
+
+    try {
+      if (existingRegistration) {
+        // Re-registering after a cancellation reuses the existing record
+        const updated = await registrationsCollection.findOneAndUpdate(
+          { _id: existingRegistration._id, status: 'cancelled' },
+          {
+            $set: { status, updatedAt: now, ...(holdExpiresAt && { holdExpiresAt }) },
+            $unset: { paymentStatus: '', paymentReference: '', ...(!holdExpiresAt && { holdExpiresAt: '' }) }
+          },
+          { returnDocument: 'after' }
+        );
 
-    const result = await registrationsCollection.insertOne(registrationDoc as any);
-    const newRegistration = await registrationsCollection.findOne({ _id: result.insertedId });
+        if (!updated) {
+          throw new Error('Registration changed while registering, please try again');
+        }
 
-    if (!newRegistration) {
-      throw new Error('Failed to register for event');
-    }
+        return { ...updated, _id: updated._id.toString() };
+      }
 
-    return { ...newRegistration, _id: newRegistration._id.toString() };
-  }
+      const registrationDoc: Omit<EventRegistration, '_id'> = {
+        userId,
+        eventId,
+        status,
+        ...(holdExpiresAt && { holdExpiresAt }),
+        createdAt: now,
+        updatedAt: now,
+      };
 
-  async getEventRegistrations(eventId: string): Promise<EventRegistration[]> {
-    const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
-    const registrations = await registrationsCollection.find({ eventId }).toArray();
-    return registrations.map(reg => ({ ...reg, _id: reg._id.toString() }));
+      const result = await registrationsCollection.insertOne(registrationDoc as any);
+      const newRegistration = await registrationsCollection.findOne({ _id: result.insertedId });
+
+      if (!newRegistration) {
+        throw new Error('Failed to register for event');
+      }
+
+      return { ...newRegistration, _id: newRegistration._id.toString() };
+    } catch (error) {
+      // Give the seat back if the registration could not be stored
+      if (hasSeat) {
+        await this.releaseEventSeat(eventId);
+      }
+      throw error;
+    }
   }
 
-  async getUserEventRegistrations(userId: string): Promise<EventRegistration[]> {
+  async cancelEventRegistration(userId: string, eventId: string): Promise<{ registration: EventRegistration; promoted: EventRegistration[] }> {
     const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
-    const registrations = await registrationsCollection.find({ userId }).toArray();
-    return registrations.map(reg => ({ ...reg, _id: reg._id.toString() }));
-  }
 
-  // Helper function to determine if a file is previewable
-  private isFilePreviewable(fileType: string, fileName: string, fileUrl?: string): boolean {
-    // Prioritize actual file URL/fileName to get the true file extension
-    const urlToCheck = fileUrl || fileName;
+    // Paid registrations are only cancelled by the organisers, who handle the refund
+    const previous = await registrationsCollection.findOneAndUpdate(
+      { userId, eventId, status: { $in: ACTIVE_STATUSES }, paymentStatus: { $ne: 'paid' } },
+      { $set: { status: 'cancelled', updatedAt: new Date() }, $unset: { holdExpiresAt: '' } },
+      { returnDocument: 'before' }
+    );
 
-    // Check actual file extension (this is the most reliable indicator)
-    // PDFs
-    if (/\.pdf$/i.test(urlToCheck)) {
-      return true;
+    if (!previous) {
+      const paid = await registrationsCollection.findOne({ userId, eventId, status: 'registered', paymentStatus: 'paid' });
+      throw new Error(paid ? 'Paid registrations cannot be cancelled' : 'Registration not found');
     }
 
-    // Images
-    if (/\.(jpg|jpeg|png|gif|webp|svg)$/i.test(urlToCheck)) {
-      return true;
+    let promoted: EventRegistration[] = [];
+    if (SEAT_STATUSES.includes(previous.status)) {
+      await this.releaseEventSeat(eventId);
+      promoted = await this.promoteFromWaitlist(eventId);
     }
 
-    // Videos
-    if (/\.(mp4|webm|ogg|mov)$/i.test(urlToCheck)) {
-      return true;
+    return {
+      registration: { ...previous, _id: previous._id.toString(), status: 'cancelled' },
+      promoted
+    };
+  }
+
+  // Cancel any active registration, paid or not, when its user leaves for good.
+  // A checkout in progress is abandoned, and a completed payment is returned
+  // for the caller to refund.
+  async withdrawEventRegistration(registrationId: string): Promise<{ promoted: EventRegistration[]; paidPayment?: Payment }> {
+    const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
+    const paymentsCollection = await getCollection<Payment>(COLLECTIONS.PAYMENTS);
+
+    const previous = await registrationsCollection.findOneAndUpdate(
+      { _id: new ObjectId(registrationId), status: { $in: ACTIVE_STATUSES } } as any,
+      { $set: { status: 'cancelled', updatedAt: new Date() }, $unset: { holdExpiresAt: '' } },
+      { returnDocument: 'before' }
+    );
+    if (!previous) {
+      return { promoted: [] };
     }
 
-    // If no previewable extension found, file cannot be previewed in browser
-    return false;
-  }
+    await paymentsCollection.updateMany(
+      { registrationId, status: 'pending' },
+      { $set: { status: 'abandoned', updatedAt: new Date() } }
+    );
 
-  // Learning resource operations
-  async createLearningResource(uploadedById: string, resource: InsertLearningResource & { fileUrl: string; fileName: string; fileSize: string }): Promise<LearningResource> {
-    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+    let promoted: EventRegistration[] = [];
+    if (SEAT_STATUSES.includes(previous.status)) {
+      await this.releaseEventSeat(previous.eventId);
+      promoted = await this.promoteFromWaitlist(previous.eventId);
+    }
 
-    // Automatically determine if the file is previewable
-    const previewAvailable = this.isFilePreviewable(resource.type, resource.fileName, resource.fileUrl);
+    const paidPayment = previous.paymentStatus === 'paid'
+      ? await paymentsCollection.findOne({ registrationId, status: 'paid' })
+      : null;
 
-    const resourceDoc: Omit<LearningResource, '_id'> = {
-      ...resource,
-      previewAvailable,
-      uploadedById,
-      createdAt: new Date(),
-      updatedAt: new Date(),
+    return {
+      promoted,
+      ...(paidPayment && { paidPayment: { ...paidPayment, _id: paidPayment._id.toString() } })
     };
+  }
 
-    const result = await resourcesCollection.insertOne(resourceDoc as any);
-    const newResource = await resourcesCollection.findOne({ _id: result.insertedId });
+  // Fill any free seats from the waitlist, oldest first. At paid events the
+  // seat is held for a day while the promoted user pays.
+  async promoteFromWaitlist(eventId: string): Promise<EventRegistration[]> {
+    const eventsCollection = await getCollection<Event>(COLLECTIONS.EVENTS);
+    const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
+    const promoted: EventRegistration[] = [];
+
+    const event = await eventsCollection.findOne({ _id: new ObjectId(eventId) } as any);
+    const isPaid = (event?.price ?? 0) > 0;
+
+    while (await this.claimEventSeat(eventId)) {
+      const now = new Date();
+      const next = await registrationsCollection.findOneAndUpdate(
+        { eventId, status: 'waitlisted' },
+        {
+          $set: isPaid
+            ? { status: 'pending_payment', holdExpiresAt: new Date(now.getTime() + WAITLIST_PAYMENT_HOLD_HOURS * 60 * 60 * 1000), updatedAt: now }
+            : { status: 'registered', updatedAt: now }
+        },
+        { sort: { updatedAt: 1, createdAt: 1 }, returnDocument: 'after' }
+      );
 
-    if (!newResource) {
-      throw new Error('Failed to create learning resource');
+      if (!next) {
+        // Nobody is waiting, so hand the seat back
+        await this.releaseEventSeat(eventId);
+        break;
+      }
+
+      promoted.push({ ...next, _id: next._id.toString() });
     }
 
-    return { ...newResource, _id: newResource._id.toString() };
+    return promoted;
   }
 
-  async getLearningResources(limit = 20, offset = 0): Promise<LearningResource[]> {
-    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
-    const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
+  // Call off an event or a single session of a series. Everyone registered or
+  // waitlisted is cancelled; returns their ids so they can be told.
+  async cancelEvent(id: string): Promise<{ event: Event; userIds: string[] }> {
+    const eventsCollection = await getCollection<Event>(COLLECTIONS.EVENTS);
+    const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
 
-    const resources = await resourcesCollection
-      .find({})
-      .sort({ createdAt: -1 })
-      .skip(offset)
-      .limit(limit)
-      .toArray();
+    const existing = await eventsCollection.findOne({ _id: new ObjectId(id) } as any);
+    if (!existing) {
+      throw new Error('Event not found');
+    }
 
-    const resourcesWithUploaderInfo = await Promise.all(
-      resources.map(async (resource) => {
-        const uploader = await usersCollection.findOne({ _id: new ObjectId(resource.uploadedById) } as any);
+    const activeQuery = { eventId: id, status: { $in: ACTIVE_STATUSES } };
+    const affected = await registrationsCollection.find(activeQuery).toArray();
+    await registrationsCollection.updateMany(activeQuery, {
+      $set: { status: 'cancelled', updatedAt: new Date() },
+      $unset: { holdExpiresAt: '' }
+    });
 
-        // Always recalculate previewAvailable based on actual file type to ensure accuracy
-        const previewAvailable = this.isFilePreviewable(resource.type, resource.fileName, resource.fileUrl);
+    // Anyone already checked in keeps their seat on record
+    const remainingSeats = await registrationsCollection.countDocuments({ eventId: id, status: { $in: SEAT_STATUSES } });
 
-        return {
-          ...resource,
-          _id: resource._id.toString(),
-          previewAvailable,
-          uploaderName: uploader ? `${uploader.firstName} ${uploader.lastName}` : 'Unknown Uploader',
-          uploaderAvatar: uploader?.profileImageUrl
-        } as any;
-      })
+    const event = await eventsCollection.findOneAndUpdate(
+      { _id: new ObjectId(id) } as any,
+      { $set: { cancelled: true, registeredCount: remainingSeats, updatedAt: new Date() } },
+      { returnDocument: 'after' }
     );
 
-    return resourcesWithUploaderInfo as LearningResource[];
-  }
-
-  async getLearningResource(id: string): Promise<LearningResource | undefined> {
-    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
-    const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
-
-    const resource = await resourcesCollection.findOne({ _id: new ObjectId(id) } as any);
-
-    if (!resource) {
-      return undefined;
+    if (!event) {
+      throw new Error('Event not found');
     }
 
-    const uploader = await usersCollection.findOne({ _id: new ObjectId(resource.uploadedById) } as any);
-
-    // Always recalculate previewAvailable based on actual file type to ensure accuracy
-    const previewAvailable = this.isFilePreviewable(resource.type, resource.fileName, resource.fileUrl);
-
     return {
-      ...resource,
-      _id: resource._id.toString(),
-      previewAvailable,
-      uploaderName: uploader ? `${uploader.firstName} ${uploader.lastName}` : 'Unknown Uploader',
-      uploaderAvatar: uploader?.profileImageUrl
-    } as any;
+      event: { ...event, _id: event._id.toString() },
+      userIds: affected.map(registration => registration.userId)
+    };
   }
 
-  async updateLearningResource(id: string, resource: Partial<LearningResource>): Promise<LearningResource> {
-    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+  // Undo a cancellation. Cancelled registrations stay cancelled; people register again.
+  async reinstateEvent(id: string): Promise<Event> {
+    const eventsCollection = await getCollection<Event>(COLLECTIONS.EVENTS);
 
-    const result = await resourcesCollection.findOneAndUpdate(
+    const event = await eventsCollection.findOneAndUpdate(
       { _id: new ObjectId(id) } as any,
-      { $set: { ...resource, updatedAt: new Date() } },
+      { $unset: { cancelled: '' }, $set: { updatedAt: new Date() } },
       { returnDocument: 'after' }
     );
 
-    if (!result) {
-      throw new Error('Learning resource not found');
+    if (!event) {
+      throw new Error('Event not found');
     }
 
-    return { ...result, _id: result._id.toString() };
+    return { ...event, _id: event._id.toString() };
   }
 
-  async deleteLearningResource(id: string): Promise<void> {
-    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
-    await resourcesCollection.deleteOne({ _id: new ObjectId(id) } as any);
-  }
+  // Give up seats whose checkout hold has lapsed and offer them to the
+  // waitlist. Returns the registrations promoted as a result.
+  async releaseExpiredPaymentHolds(eventId: string): Promise<EventRegistration[]> {
+    const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
+    const paymentsCollection = await getCollection<Payment>(COLLECTIONS.PAYMENTS);
 
-  async recordResourceDownload(userId: string, resourceId: string): Promise<void> {
-    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
-    const downloadsCollection = await getCollection(COLLECTIONS.RESOURCE_DOWNLOADS);
+    const expired = await registrationsCollection.find({
+      eventId,
+      status: 'pending_payment',
+      holdExpiresAt: { $lt: new Date() }
+    }).toArray();
 
-    // Update resource download count
-    await resourcesCollection.updateOne(
-      { _id: new ObjectId(resourceId) } as any,
-      { $inc: { downloads: 1 } }
+    const releasedIds: string[] = [];
+    for (const registration of expired) {
+      const released = await registrationsCollection.findOneAndUpdate(
+        { _id: registration._id, status: 'pending_payment' },
+        { $set: { status: 'cancelled', updatedAt: new Date() }, $unset: { holdExpiresAt: '' } }
+      );
+      if (released) {
+        await this.releaseEventSeat(eventId);
+        releasedIds.push(registration._id.toString());
+      }
+    }
+
+    if (releasedIds.length === 0) {
+      return [];
+    }
+
+    await paymentsCollection.updateMany(
+      { registrationId: { $in: releasedIds }, status: 'pending' },
+      { $set: { status: 'abandoned', updatedAt: new Date() } }
     );
 
-    // Record user download action (if not already recorded to prevent spam point farming, or allow multiple?
-    // Let's assume points are awarded per unique resource download, or maybe per download event. 
-    // Usually points for unique downloads is safer.
-    await downloadsCollection.insertOne({
-      userId,
-      resourceId,
-      downloadedAt: new Date()
-    });
+    return this.promoteFromWaitlist(eventId);
   }
 
-  async rateResource(userId: string, resourceId: string, rating: number): Promise<void> {
-    const resourceRatingsCollection = await getCollection(COLLECTIONS.RESOURCE_RATINGS);
-    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+  // Payment operations
+  async createPayment(payment: Omit<Payment, '_id' | 'createdAt' | 'updatedAt'>): Promise<Payment> {
+    const paymentsCollection = await getCollection<Payment>(COLLECTIONS.PAYMENTS);
+    const now = new Date();
+    const paymentDoc = { ...payment, createdAt: now, updatedAt: now };
 
-    // Upsert the rating
-    await resourceRatingsCollection.updateOne(
-      { userId, resourceId },
-      { $set: { userId, resourceId, rating, updatedAt: new Date() } },
-      { upsert: true }
+    const result = await paymentsCollection.insertOne(paymentDoc as any);
+    return { ...paymentDoc, _id: result.insertedId.toString() };
+  }
+
+  async getPaymentByReference(reference: string): Promise<Payment | undefined> {
+    const paymentsCollection = await getCollection<Payment>(COLLECTIONS.PAYMENTS);
+    const payment = await paymentsCollection.findOne({ reference });
+    return payment ? { ...payment, _id: payment._id.toString() } : undefined;
+  }
+
+  // Record a successful charge. Returns undefined if the payment was already
+  // settled, so callers act on each payment exactly once.
+  async markPaymentPaid(reference: string, paidAt: Date = new Date()): Promise<Payment | undefined> {
+    const paymentsCollection = await getCollection<Payment>(COLLECTIONS.PAYMENTS);
+    const payment = await paymentsCollection.findOneAndUpdate(
+      { reference, status: { $in: ['pending', 'failed', 'abandoned'] } },
+      { $set: { status: 'paid', paidAt, updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+    return payment ? { ...payment, _id: payment._id.toString() } : undefined;
+  }
+
+  async markPaymentFailed(reference: string): Promise<void> {
+    const paymentsCollection = await getCollection<Payment>(COLLECTIONS.PAYMENTS);
+    await paymentsCollection.updateOne(
+      { reference, status: 'pending' },
+      { $set: { status: 'failed', updatedAt: new Date() } }
     );
+  }
 
-    // Recalculate average rating
-    const ratings = await resourceRatingsCollection.find({ resourceId }).toArray();
-    const avgRating = ratings.reduce((sum: number, r: any) => sum + r.rating, 0) / ratings.length;
-    const ratingCount = ratings.length;
+  async markPaymentRefunded(reference: string, status: 'refunded' | 'refund_pending', providerRefundId?: string): Promise<Payment | undefined> {
+    const paymentsCollection = await getCollection<Payment>(COLLECTIONS.PAYMENTS);
+    const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
+    const now = new Date();
 
-    // Update resource with new average rating
-    await resourcesCollection.updateOne(
-      { _id: new ObjectId(resourceId) } as any,
+    const fromStatuses: Payment['status'][] = status === 'refunded' ? ['paid', 'refund_pending'] : ['paid'];
+    const payment = await paymentsCollection.findOneAndUpdate(
+      { reference, status: { $in: fromStatuses } },
       {
         $set: {
-          rating: Math.round(avgRating * 10), // Store as integer * 10 for precision
-          ratingCount
+          status,
+          updatedAt: now,
+          ...(status === 'refunded' && { refundedAt: now }),
+          ...(providerRefundId && { providerRefundId })
         }
-      }
+      },
+      { returnDocument: 'after' }
     );
-  }
 
-  // Staff operations
-  async createStaffProfile(userId: string | undefined, profile: InsertStaffProfile): Promise<StaffProfile> {
-    const staffCollection = await getCollection<StaffProfile>(COLLECTIONS.STAFF_PROFILES);
+    if (!payment) {
+      return undefined;
+    }
 
-    const profileDoc: Omit<StaffProfile, '_id'> = {
-      ...profile,
-      ...(userId ? { userId } : {}), // Only include userId if provided
+    if (status === 'refunded') {
+      await registrationsCollection.updateOne(
+        { paymentReference: reference, paymentStatus: 'paid' },
+        { $set: { paymentStatus: 'refunded', updatedAt: now } }
+      );
+    }
+
+    return { ...payment, _id: payment._id.toString() };
+  }
+
+  // Confirm the seat held for a registration once its payment has gone
+  // through. Returns undefined if there is no longer a held seat to confirm.
+  async confirmPaidRegistration(registrationId: string, reference: string): Promise<EventRegistration | undefined> {
+    const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
+    const registration = await registrationsCollection.findOneAndUpdate(
+      { _id: new ObjectId(registrationId), status: 'pending_payment' } as any,
+      {
+        $set: { status: 'registered', paymentStatus: 'paid', paymentReference: reference, updatedAt: new Date() },
+        $unset: { holdExpiresAt: '' }
+      },
+      { returnDocument: 'after' }
+    );
+    return registration ? { ...registration, _id: registration._id.toString() } : undefined;
+  }
+
+  // Payments still held for registrations that have been cancelled, such as
+  // when the event is called off or an earlier refund attempt failed
+  async getRefundablePayments(eventId: string): Promise<Payment[]> {
+    const paymentsCollection = await getCollection<Payment>(COLLECTIONS.PAYMENTS);
+    const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
+
+    const payments = await paymentsCollection.find({ eventId, status: 'paid' }).toArray();
+    if (payments.length === 0) {
+      return [];
+    }
+
+    const cancelled = await registrationsCollection
+      .find({ _id: { $in: payments.map(payment => new ObjectId(payment.registrationId)) }, status: 'cancelled' } as any)
+      .project({ _id: 1 })
+      .toArray();
+    const cancelledIds = new Set(cancelled.map(registration => registration._id.toString()));
+
+    return payments
+      .filter(payment => cancelledIds.has(payment.registrationId))
+      .map(payment => ({ ...payment, _id: payment._id.toString() }));
+  }
+
+  async getEventRevenue(eventId: string): Promise<EventRevenueSummary> {
+    const eventsCollection = await getCollection<Event>(COLLECTIONS.EVENTS);
+    const paymentsCollection = await getCollection<Payment>(COLLECTIONS.PAYMENTS);
+    const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
+    const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
+
+    const event = await eventsCollection.findOne({ _id: new ObjectId(eventId) } as any);
+    if (!event) {
+      throw new Error('Event not found');
+    }
+
+    const payments = await paymentsCollection
+      .find({ eventId, status: { $in: ['paid', 'refund_pending', 'refunded'] } })
+      .sort({ paidAt: -1 })
+      .toArray();
+    const pendingCount = await registrationsCollection.countDocuments({ eventId, status: 'pending_payment' });
+    const users = await usersCollection
+      .find({ _id: { $in: payments.map(payment => new ObjectId(payment.userId)) } } as any)
+      .project({ firstName: 1, lastName: 1, email: 1 })
+      .toArray();
+    const usersById = new Map(users.map(user => [user._id.toString(), user]));
+
+    const sum = (list: typeof payments) => list.reduce((total, payment) => total + payment.amount, 0);
+    const refunded = payments.filter(payment => payment.status !== 'paid');
+    const grossAmount = sum(payments);
+    const refundedAmount = sum(refunded);
+
+    return {
+      eventId,
+      currency: payments[0]?.currency ?? 'NGN',
+      price: event.price ?? 0,
+      paidCount: payments.length - refunded.length,
+      grossAmount,
+      refundedCount: refunded.length,
+      refundedAmount,
+      netAmount: grossAmount - refundedAmount,
+      pendingCount,
+      payments: payments.map(payment => {
+        const user = usersById.get(payment.userId);
+        return {
+          reference: payment.reference,
+          userId: payment.userId,
+          name: user ? `${user.firstName || ''} ${user.lastName || ''}`.trim() : 'Unknown User',
+          email: user?.email,
+          amount: payment.amount,
+          status: payment.status,
+          paidAt: payment.paidAt,
+          refundedAt: payment.refundedAt
+        };
+      })
+    };
+  }
+
+  // Event series operations
+  private buildSeriesSession(seriesId: string, organizerId: string, template: Record<string, any>, occurrenceDate: string, now: Date): Omit<Event, '_id'> {
+    return {
+      ...pickSeriesTemplateFields(template),
+      date: occurrenceDateToDate(occurrenceDate),
+      organizerId,
+      seriesId,
+      occurrenceDate,
+      registeredCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    } as Omit<Event, '_id'>;
+  }
+
+  async createEventSeries(organizerId: string, series: InsertEventSeries): Promise<EventSeriesWithSessions> {
+    const seriesCollection = await getCollection<EventSeries>(COLLECTIONS.EVENT_SERIES);
+    const eventsCollection = await getCollection<Event>(COLLECTIONS.EVENTS);
+
+    // Expand the schedule first so an invalid rule doesn't leave an empty series behind
+    const dates = getOccurrenceDates(series.recurrence);
+    const now = new Date();
+
+    const seriesDoc: Omit<EventSeries, '_id'> = {
+      ...series,
+      organizerId,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const result = await seriesCollection.insertOne(seriesDoc as any);
+    const seriesId = result.insertedId.toString();
+
+    await eventsCollection.insertMany(
+      dates.map(date => this.buildSeriesSession(seriesId, organizerId, series, date, now)) as any[]
+    );
+
+    const created = await this.getEventSeries(seriesId);
+    if (!created) {
+      throw new Error('Failed to create event series');
+    }
+
+    return created;
+  }
+
+  async getEventSeries(id: string, userId?: string): Promise<EventSeriesWithSessions | undefined> {
+    if (!ObjectId.isValid(id)) {
+      return undefined;
+    }
+
+    const seriesCollection = await getCollection<EventSeries>(COLLECTIONS.EVENT_SERIES);
+    const eventsCollection = await getCollection<Event>(COLLECTIONS.EVENTS);
+    const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
+
+    const series = await seriesCollection.findOne({ _id: new ObjectId(id) } as any);
+    if (!series) {
+      return undefined;
+    }
+
+    const sessions = await eventsCollection.find({ seriesId: id }).sort({ date: 1 }).toArray();
+    const userRegistrations = userId
+      ? await registrationsCollection.find({
+          userId,
+          eventId: { $in: sessions.map(session => session._id.toString()) },
+          status: { $ne: 'cancelled' }
+        }).toArray()
+      : [];
+
+    return {
+      ...series,
+      _id: id,
+      sessions: sessions.map(session => {
+        const sessionId = session._id.toString();
+        const registration = userRegistrations.find(reg => reg.eventId === sessionId);
+        return {
+          ...session,
+          _id: sessionId,
+          registeredCount: session.registeredCount ?? 0,
+          registrationStatus: registration?.status,
+          isRegistered: !!registration && CONFIRMED_STATUSES.includes(registration.status),
+          isWaitlisted: registration?.status === 'waitlisted',
+          paymentStatus: registration?.paymentStatus
+        } as Event;
+      })
+    };
+  }
+
+  // Apply series edits to its upcoming sessions. Past sessions are history and
+  // are never changed; fields overridden on a single session are kept.
+  async updateEventSeries(id: string, updates: Partial<InsertEventSeries>): Promise<EventSeriesUpdateResult> {
+    const seriesCollection = await getCollection<EventSeries>(COLLECTIONS.EVENT_SERIES);
+    const eventsCollection = await getCollection<Event>(COLLECTIONS.EVENTS);
+    const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
+
+    const { recurrence } = updates;
+    const template = pickSeriesTemplateFields(updates);
+    const dates = recurrence ? getOccurrenceDates(recurrence) : undefined;
+    const now = new Date();
+
+    const series = await seriesCollection.findOneAndUpdate(
+      { _id: new ObjectId(id) } as any,
+      { $set: { ...template, ...(recurrence && { recurrence }), updatedAt: now } },
+      { returnDocument: 'after' }
+    );
+
+    if (!series) {
+      throw new Error('Event series not found');
+    }
+
+    const today = toOccurrenceDate(now);
+    const sessions = await eventsCollection.find({ seriesId: id }).toArray();
+    const upcoming = sessions.filter(session => (session.occurrenceDate ?? '') >= today);
+
+    const updatedSessions: Event[] = [];
+    for (const session of upcoming) {
+      const changes = Object.fromEntries(
+        Object.entries(template).filter(([field, value]) =>
+          !session.overriddenFields?.includes(field) && !isSameValue((session as any)[field], value)
+        )
+      );
+      if (Object.keys(changes).length === 0) continue;
+
+      const updated = await eventsCollection.findOneAndUpdate(
+        { _id: session._id },
+        { $set: { ...changes, updatedAt: now } },
+        { returnDocument: 'after' }
+      );
+      if (updated) {
+        updatedSessions.push({ ...updated, _id: updated._id.toString() });
+      }
+    }
+
+    const cancelledSessions: EventSeriesUpdateResult['cancelledSessions'] = [];
+    if (dates) {
+      const scheduled = new Set(dates);
+
+      // Dropped sessions are cancelled if anyone signed up, otherwise removed outright
+      for (const session of upcoming) {
+        if (scheduled.has(session.occurrenceDate!) || session.cancelled) continue;
+
+        const sessionId = session._id.toString();
+        const hasRegistrations = await registrationsCollection.countDocuments({ eventId: sessionId, status: { $ne: 'cancelled' } }) > 0;
+        if (hasRegistrations) {
+          cancelledSessions.push(await this.cancelEvent(sessionId));
+        } else {
+          await eventsCollection.deleteOne({ _id: session._id });
+        }
+      }
+
+      // Only upcoming dates get new sessions
+      const existingDates = new Set(sessions.map(session => session.occurrenceDate));
+      const newDates = dates.filter(date => date >= today && !existingDates.has(date));
+      if (newDates.length > 0) {
+        await eventsCollection.insertMany(
+          newDates.map(date => this.buildSeriesSession(id, series.organizerId, series, date, now)) as any[]
+        );
+      }
+    }
+
+    const updatedSeries = await this.getEventSeries(id);
+    if (!updatedSeries) {
+      throw new Error('Event series not found');
+    }
+
+    return { series: updatedSeries, updatedSessions, cancelledSessions };
+  }
+
+  async deleteEventSeries(id: string): Promise<void> {
+    const seriesCollection = await getCollection<EventSeries>(COLLECTIONS.EVENT_SERIES);
+    const eventsCollection = await getCollection<Event>(COLLECTIONS.EVENTS);
+    const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
+
+    if (!ObjectId.isValid(id) || !await seriesCollection.findOne({ _id: new ObjectId(id) } as any)) {
+      throw new Error('Event series not found');
+    }
+
+    const sessions = await eventsCollection.find({ seriesId: id }, { projection: { _id: 1 } }).toArray();
+    await this.assertNoUnrefundedPayments(sessions.map(session => session._id.toString()));
+
+    const result = await seriesCollection.deleteOne({ _id: new ObjectId(id) } as any);
+    if (result.deletedCount === 0) {
+      throw new Error('Event series not found');
+    }
+
+    await registrationsCollection.deleteMany({ eventId: { $in: sessions.map(session => session._id.toString()) } });
+    await eventsCollection.deleteMany({ seriesId: id });
+  }
+
+  private getUpcomingSessions(series: EventSeriesWithSessions): Event[] {
+    const today = toOccurrenceDate(new Date());
+    return series.sessions.filter(session => !session.cancelled && toOccurrenceDate(new Date(session.date)) >= today);
+  }
+
+  // Register for every upcoming session. Full sessions put the user on that session's waitlist.
+  async registerForEventSeries(userId: string, seriesId: string): Promise<EventRegistration[]> {
+    const series = await this.getEventSeries(seriesId);
+    if (!series) {
+      throw new Error('Event series not found');
+    }
+
+    const sessions = this.getUpcomingSessions(series);
+    if (sessions.length === 0) {
+      throw new Error('Event series has no upcoming sessions');
+    }
+    // Each paid session goes through its own checkout
+    if (sessions.some(session => (session.price ?? 0) > 0)) {
+      throw new Error('Paid sessions must be booked one at a time');
+    }
+
+    const registrations: EventRegistration[] = [];
+    for (const session of sessions) {
+      registrations.push(await this.registerForEvent(userId, session._id!));
+    }
+
+    return registrations;
+  }
+
+  async cancelEventSeriesRegistration(userId: string, seriesId: string): Promise<Array<{ registration: EventRegistration; promoted: EventRegistration[] }>> {
+    const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
+
+    const series = await this.getEventSeries(seriesId);
+    if (!series) {
+      throw new Error('Event series not found');
+    }
+
+    const results: Array<{ registration: EventRegistration; promoted: EventRegistration[] }> = [];
+    for (const session of this.getUpcomingSessions(series)) {
+      const active = await registrationsCollection.findOne({
+        userId,
+        eventId: session._id!,
+        status: { $in: ACTIVE_STATUSES },
+        paymentStatus: { $ne: 'paid' }
+      });
+      if (active) {
+        results.push(await this.cancelEventRegistration(userId, session._id!));
+      }
+    }
+
+    if (results.length === 0) {
+      throw new Error('Registration not found');
+    }
+
+    return results;
+  }
+
+  async getEventRegistrations(eventId: string): Promise<EventRegistration[]> {
+    const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
+    const registrations = await registrationsCollection.find({ eventId }).toArray();
+    return registrations.map(reg => ({ ...reg, _id: reg._id.toString() }));
+  }
+
+  // Events for calendar feeds, oldest first. Either window by date, pick specific events, or both.
+  async getCalendarEvents(options: { since?: Date; eventIds?: string[] }): Promise<Event[]> {
+    const eventsCollection = await getCollection<Event>(COLLECTIONS.EVENTS);
+
+    const query: any = {};
+    if (options.eventIds) {
+      query._id = { $in: options.eventIds.filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id)) };
+    }
+
+    const events = await eventsCollection.find(query).sort({ date: 1 }).toArray();
+
+    // Event dates may be stored as Date or ISO string depending on how the event was created,
+    // so the window is applied here rather than in the query
+    return events
+      .filter(event => !options.since || new Date(event.date) >= options.since)
+      .map(event => ({ ...event, _id: event._id.toString() }));
+  }
+
+  async getEventRegistration(id: string): Promise<EventRegistration | undefined> {
+    if (!ObjectId.isValid(id)) {
+      return undefined;
+    }
+
+    const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
+    const registration = await registrationsCollection.findOne({ _id: new ObjectId(id) } as any);
+    return registration ? { ...registration, _id: registration._id.toString() } : undefined;
+  }
+
+  async checkInEventRegistration(eventId: string, registrationId: string, checkedInBy: string): Promise<EventRegistration> {
+    const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
+
+    const result = await registrationsCollection.findOneAndUpdate(
+      { _id: new ObjectId(registrationId), eventId, status: 'registered' } as any,
+      { $set: { status: 'attended', checkedInAt: new Date(), checkedInBy, updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+
+    if (result) {
+      await this.recordActivity({ userId: result.userId, action: 'event_attended', key: `attended:${eventId}:${result.userId}`, subjectType: 'event', subjectId: eventId });
+      return { ...result, _id: result._id.toString() };
+    }
+
+    // Work out why the ticket was rejected
+    const registration = await this.getEventRegistration(registrationId);
+    if (!registration) {
+      throw new Error('Registration not found');
+    }
+    if (registration.eventId !== eventId) {
+      throw new Error('Ticket is for a different event');
+    }
+    if (registration.status === 'attended') {
+      throw new Error('Ticket already checked in');
+    }
+    throw new Error('Registration is not active');
+  }
+
+  async getEventAttendance(eventId: string): Promise<EventAttendanceReport> {
+    const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
+    const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
+
+    const event = await this.getEvent(eventId);
+    if (!event) {
+      throw new Error('Event not found');
+    }
+
+    const registrations = await registrationsCollection.find({ eventId }).sort({ createdAt: 1 }).toArray();
+    const users = await usersCollection
+      .find({ _id: { $in: registrations.map(r => new ObjectId(r.userId)) } } as any)
+      .project({ firstName: 1, lastName: 1, email: 1 })
+      .toArray();
+    const usersById = new Map(users.map(user => [user._id.toString(), user]));
+
+    const countStatus = (status: EventRegistration['status']) =>
+      registrations.filter(registration => registration.status === status).length;
+    const registered = countStatus('registered');
+    const attended = countStatus('attended');
+    const seatHolders = registered + attended;
+
+    return {
+      eventId,
+      capacity: event.capacity,
+      registered,
+      attended,
+      waitlisted: countStatus('waitlisted'),
+      cancelled: countStatus('cancelled'),
+      attendanceRate: seatHolders > 0 ? Math.round((attended / seatHolders) * 100) : 0,
+      attendees: registrations
+        .filter(registration => CONFIRMED_STATUSES.includes(registration.status))
+        .map(registration => {
+          const user = usersById.get(registration.userId);
+          return {
+            registrationId: registration._id.toString(),
+            userId: registration.userId,
+            name: user ? `${user.firstName || ''} ${user.lastName || ''}`.trim() : 'Unknown User',
+            email: user?.email,
+            status: registration.status,
+            checkedInAt: registration.checkedInAt
+          };
+        })
+    };
+  }
+
+  async getUserEventRegistrations(userId: string): Promise<EventRegistration[]> {
+    const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
+    const registrations = await registrationsCollection.find({ userId }).toArray();
+    return registrations.map(reg => ({ ...reg, _id: reg._id.toString() }));
+  }
+
+  // Helper function to determine if a file is previewable
+  private isFilePreviewable(fileType: string, fileName: string, fileUrl?: string): boolean {
+    // Prioritize actual file URL/fileName to get the true file extension
+    const urlToCheck = fileUrl || fileName;
+
+    // Check actual file extension (this is the most reliable indicator)
+    // PDFs
+    if (/\.pdf$/i.test(urlToCheck)) {
+      return true;
+    }
+
+    // Images
+    if (/\.(jpg|jpeg|png|gif|webp|svg)$/i.test(urlToCheck)) {
+      return true;
+    }
+
+    // Videos
+    if (/\.(mp4|webm|ogg|mov)$/i.test(urlToCheck)) {
+      return true;
+    }
+
+    // If no previewable extension found, file cannot be previewed in browser
+    return false;
+  }
+
+  // Learning resource operations
+  async createLearningResource(uploadedById: string, resource: InsertLearningResource & { fileUrl: string; fileName: string; fileSize: string }): Promise<LearningResource> {
+    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+
+    // Automatically determine if the file is previewable
+    const previewAvailable = this.isFilePreviewable(resource.type, resource.fileName, resource.fileUrl);
+
+    const resourceDoc: Omit<LearningResource, '_id'> = {
+      ...resource,
+      visibility: resource.visibility ?? 'public',
+      allowedLevels: resource.allowedLevels ?? [],
+      downloads: 0,
+      rating: 0,
+      ratingCount: 0,
+      previewAvailable,
+      textStatus: 'pending',
+      currentVersion: 1,
+      uploadedById,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const result = await resourcesCollection.insertOne(resourceDoc as any);
+    const newResource = await resourcesCollection.findOne({ _id: result.insertedId });
+
+    if (!newResource) {
+      throw new Error('Failed to create learning resource');
+    }
+
+    await this.insertResourceVersion(newResource, 1);
+
+    return { ...newResource, _id: newResource._id.toString() };
+  }
+
+  // Build the $match for a resource listing, leaving out one dimension when counting its facet
+  private buildResourceMatch(filters: LearningResourceFilters, omit?: keyof LearningResourceFacets): Record<string, any> {
+    const match: Record<string, any> = {};
+
+    if (filters.type && omit !== 'type') match.type = filters.type;
+    if (filters.category && omit !== 'category') match.category = filters.category;
+    if (filters.difficulty && omit !== 'difficulty') match.difficulty = filters.difficulty;
+    if (filters.tags?.length && omit !== 'tags') match.tags = { $all: filters.tags };
+    if (filters.uploadedById && omit !== 'uploader') match.uploadedById = filters.uploadedById;
+    if (filters.courseId) match.courseIds = filters.courseId;
+    if (filters.minRating) match.rating = { $gte: filters.minRating * 10 };
+    if (filters.search) {
+      const pattern = new RegExp(escapeRegex(filters.search), 'i');
+      match.$or = [{ title: pattern }, { description: pattern }, { category: pattern }];
+    }
+    if (filters.viewer) {
+      match.$and = [learningResourceAccessFilter(filters.viewer)];
+    }
+
+    return match;
+  }
+
+  private async getLearningResourceFacets(filters: LearningResourceFilters): Promise<{ facets: LearningResourceFacets; total: number }> {
+    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+    const countBy = (dimension: keyof LearningResourceFacets, field: string) => [
+      { $match: this.buildResourceMatch(filters, dimension) },
+      { $group: { _id: field, count: { $sum: 1 } } },
+      { $match: { _id: { $nin: [null, ''] } } },
+      { $sort: { count: -1, _id: 1 } }
+    ];
+
+    const [result] = await resourcesCollection.aggregate<any>([
+      {
+        $facet: {
+          type: countBy('type', '$type'),
+          category: countBy('category', '$category'),
+          difficulty: countBy('difficulty', '$difficulty'),
+          tags: [
+            { $match: this.buildResourceMatch(filters, 'tags') },
+            { $unwind: '$tags' },
+            { $group: { _id: '$tags', count: { $sum: 1 } } },
+            { $sort: { count: -1, _id: 1 } },
+            { $limit: MAX_TAG_FACETS }
+          ],
+          uploader: [
+            ...countBy('uploader', '$uploadedById'),
+            { $lookup: { from: COLLECTIONS.USERS, let: { uploaderId: toObjectIdExpression('$_id') }, pipeline: [
+              { $match: { $expr: { $eq: ['$_id', '$$uploaderId'] } } },
+              { $project: { firstName: 1, lastName: 1 } }
+            ], as: 'uploader' } },
+            { $unwind: { path: '$uploader', preserveNullAndEmptyArrays: true } }
+          ],
+          total: [
+            { $match: this.buildResourceMatch(filters) },
+            { $count: 'count' }
+          ]
+        }
+      }
+    ]).toArray();
+
+    const toCounts = (buckets: any[]): FacetCount[] => buckets.map(bucket => ({ value: String(bucket._id), count: bucket.count }));
+
+    return {
+      facets: {
+        type: toCounts(result.type),
+        category: toCounts(result.category),
+        difficulty: toCounts(result.difficulty),
+        tags: toCounts(result.tags),
+        uploader: result.uploader.map((bucket: any) => ({
+          value: bucket._id,
+          count: bucket.count,
+          name: bucket.uploader ? `${bucket.uploader.firstName} ${bucket.uploader.lastName}` : 'Unknown Uploader'
+        }))
+      },
+      total: result.total[0]?.count ?? 0
+    };
+  }
+
+  async getLearningResources(filters: LearningResourceFilters = {}, limit = 20, cursor?: string): Promise<LearningResourcePage> {
+    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+    const sort = filters.sort ?? 'recent';
+    const sortField = RESOURCE_SORT_FIELDS[sort];
+
+    const pipeline: any[] = [
+      { $match: this.buildResourceMatch(filters) },
+      // Older documents may be missing counters; treat them as zero so they sort and page consistently
+      { $addFields: { sortValue: sort === 'recent' ? '$createdAt' : { $ifNull: [`$${sortField}`, 0] } } }
+    ];
+
+    if (cursor) {
+      const after = decodeResourceCursor(cursor, sort);
+      pipeline.push({
+        $match: {
+          $or: [
+            { sortValue: { $lt: after.value } },
+            { sortValue: after.value, _id: { $lt: after.id } }
+          ]
+        }
+      });
+    }
+
+    pipeline.push(
+      { $sort: { sortValue: -1, _id: -1 } },
+      // One extra to tell whether there is another page
+      { $limit: limit + 1 },
+      { $lookup: { from: COLLECTIONS.USERS, let: { uploaderId: toObjectIdExpression('$uploadedById') }, pipeline: [
+        { $match: { $expr: { $eq: ['$_id', '$$uploaderId'] } } },
+        { $project: { firstName: 1, lastName: 1, profileImageUrl: 1 } }
+      ], as: 'uploader' } },
+      { $unwind: { path: '$uploader', preserveNullAndEmptyArrays: true } }
+    );
+
+    const [docs, { facets, total }] = await Promise.all([
+      resourcesCollection.aggregate<any>(pipeline).toArray(),
+      this.getLearningResourceFacets(filters)
+    ]);
+
+    const hasMore = docs.length > limit;
+    const page = docs.slice(0, limit);
+    const last = page[page.length - 1];
+
+    const resources = page.map(({ uploader, sortValue, ...resource }) => ({
+      ...resource,
+      _id: resource._id.toString(),
+      // Always recalculate previewAvailable based on actual file type to ensure accuracy
+      previewAvailable: this.isFilePreviewable(resource.type, resource.fileName, resource.fileUrl),
+      uploaderName: uploader ? `${uploader.firstName} ${uploader.lastName}` : 'Unknown Uploader',
+      uploaderAvatar: uploader?.profileImageUrl
+    })) as LearningResource[];
+
+    return {
+      resources,
+      facets,
+      total,
+      nextCursor: hasMore ? encodeResourceCursor(sort, last.sortValue, last._id) : null
+    };
+  }
+
+  async getLearningResource(id: string): Promise<LearningResource | undefined> {
+    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+    const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
+
+    const resource = await resourcesCollection.findOne({ _id: new ObjectId(id) } as any);
+
+    if (!resource) {
+      return undefined;
+    }
+
+    const uploader = await usersCollection.findOne({ _id: new ObjectId(resource.uploadedById) } as any);
+
+    // Always recalculate previewAvailable based on actual file type to ensure accuracy
+    const previewAvailable = this.isFilePreviewable(resource.type, resource.fileName, resource.fileUrl);
+
+    return {
+      ...resource,
+      _id: resource._id.toString(),
+      previewAvailable,
+      uploaderName: uploader ? `${uploader.firstName} ${uploader.lastName}` : 'Unknown Uploader',
+      uploaderAvatar: uploader?.profileImageUrl
+    } as any;
+  }
+
+  async updateLearningResource(id: string, resource: Partial<LearningResource>): Promise<LearningResource> {
+    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+
+    const result = await resourcesCollection.findOneAndUpdate(
+      { _id: new ObjectId(id) } as any,
+      { $set: { ...resource, updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+
+    if (!result) {
+      throw new Error('Learning resource not found');
+    }
+
+    return { ...result, _id: result._id.toString() };
+  }
+
+  async deleteLearningResource(id: string): Promise<void> {
+    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+    const pagesCollection = await getCollection<ResourcePage>(COLLECTIONS.RESOURCE_PAGES);
+    const versionsCollection = await getCollection<ResourceVersion>(COLLECTIONS.RESOURCE_VERSIONS);
+    await resourcesCollection.deleteOne({ _id: new ObjectId(id) } as any);
+    await pagesCollection.deleteMany({ resourceId: id });
+    await versionsCollection.deleteMany({ resourceId: id });
+
+    const reviewsCollection = await getCollection<ResourceReview>(COLLECTIONS.RESOURCE_RATINGS);
+    const reviews = await reviewsCollection.find({ resourceId: id }).project({ _id: 1 }).toArray();
+    await (await getCollection(COLLECTIONS.REVIEW_HELPFUL_VOTES)).deleteMany({ reviewId: { $in: reviews.map(review => review._id.toString()) } });
+    await reviewsCollection.deleteMany({ resourceId: id });
+  }
+
+  // Not an edit by the uploader, so updatedAt is left alone
+  async removeLearningResourceThumbnail(id: string): Promise<void> {
+    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+    await resourcesCollection.updateOne({ _id: new ObjectId(id) } as any, { $unset: { thumbnailUrl: '' } });
+  }
+
+  // Text extraction progress. Not an edit by the uploader, so updatedAt is left alone.
+  async setLearningResourceTextStatus(
+    id: string,
+    status: LearningResourceTextStatus,
+    details: { pageCount?: number; thumbnailUrl?: string; error?: string } = {}
+  ): Promise<void> {
+    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+
+    const set: Partial<LearningResource> = { textStatus: status };
+    if (details.pageCount !== undefined) set.pageCount = details.pageCount;
+    if (details.thumbnailUrl) set.thumbnailUrl = details.thumbnailUrl;
+
+    await resourcesCollection.updateOne(
+      { _id: new ObjectId(id) } as any,
+      details.error ? { $set: { ...set, textError: details.error } } : { $set: set, $unset: { textError: '' } }
+    );
+  }
+
+  async replaceResourcePages(resourceId: string, pages: string[]): Promise<void> {
+    const pagesCollection = await getCollection<ResourcePage>(COLLECTIONS.RESOURCE_PAGES);
+
+    await pagesCollection.deleteMany({ resourceId });
+
+    // Blank pages (scans, figures) are left out; page numbers still count them
+    const pageDocs = pages
+      .map((text, index) => ({ resourceId, page: index + 1, text }))
+      .filter(page => page.text.length > 0);
+    if (pageDocs.length > 0) {
+      await pagesCollection.insertMany(pageDocs as any[]);
+    }
+  }
+
+  async getLearningResourceIdsNeedingIngestion(): Promise<string[]> {
+    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+    const resources = await resourcesCollection
+      .find({ $or: [{ textStatus: { $in: ['pending', 'processing'] } }, { textStatus: { $exists: false } }] } as any, { projection: { _id: 1 } })
+      .sort({ createdAt: 1 })
+      .toArray();
+    return resources.map(resource => resource._id.toString());
+  }
+
+  // Pages of one resource that match the query, in page order
+  async searchResourcePages(resourceId: string, query: string, limit = 50): Promise<ResourcePageMatch[]> {
+    const pagesCollection = await getCollection<ResourcePage>(COLLECTIONS.RESOURCE_PAGES);
+    const terms = getSearchTerms(query);
+    const byScore = { score: { $meta: 'textScore' } };
+
+    const pages = await pagesCollection
+      .find({ resourceId, $text: { $search: query } } as any, { projection: { page: 1, text: 1, ...byScore } })
+      .sort(byScore)
+      .limit(limit)
+      .toArray() as any[];
+
+    return pages
+      .map(page => ({ page: page.page, snippet: buildSnippet(page.text, terms), score: page.score }))
+      .sort((a, b) => a.page - b.page);
+  }
+
+  // Newest first. Resources uploaded before versioning get their current file recorded as version 1.
+  async getResourceVersions(resourceId: string): Promise<ResourceVersionWithUploader[]> {
+    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+    const versionsCollection = await getCollection<ResourceVersion>(COLLECTIONS.RESOURCE_VERSIONS);
+    const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
+
+    const resource = await resourcesCollection.findOne({ _id: new ObjectId(resourceId) } as any);
+    if (!resource) {
+      throw new Error('Learning resource not found');
+    }
+    const currentVersion = await this.ensureInitialResourceVersion(resource);
+
+    const versions = await versionsCollection.find({ resourceId }).sort({ version: -1 }).toArray();
+    const uploaderIds = Array.from(new Set(versions.map(version => version.uploadedById)));
+    const uploaders = await usersCollection
+      .find({ _id: { $in: uploaderIds.filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id)) } } as any)
+      .toArray();
+    const namesById = new Map(uploaders.map(user => [user._id.toString(), `${user.firstName} ${user.lastName}`]));
+
+    return versions.map(version => ({
+      ...version,
+      _id: version._id.toString(),
+      uploaderName: namesById.get(version.uploadedById) ?? 'Unknown Uploader',
+      isCurrent: version.version === currentVersion
+    }));
+  }
+
+  // Makes the upload the resource's current file. Downloads, ratings and comments stay with the resource.
+  async addResourceVersion(resourceId: string, uploadedById: string, upload: ResourceVersionUpload): Promise<LearningResource> {
+    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+    const versionsCollection = await getCollection<ResourceVersion>(COLLECTIONS.RESOURCE_VERSIONS);
+
+    const resource = await resourcesCollection.findOne({ _id: new ObjectId(resourceId) } as any);
+    if (!resource) {
+      throw new Error('Learning resource not found');
+    }
+    await this.ensureInitialResourceVersion(resource);
+
+    const [latest] = await versionsCollection.find({ resourceId }).sort({ version: -1 }).limit(1).toArray();
+    const version = (latest?.version ?? 0) + 1;
+    const now = new Date();
+
+    await versionsCollection.insertOne({
+      resourceId,
+      version,
+      fileUrl: upload.fileUrl,
+      fileName: upload.fileName,
+      fileSize: upload.fileSize,
+      ...(upload.changelog && { changelog: upload.changelog }),
+      uploadedById,
+      downloads: 0,
+      createdAt: now
+    } as any);
+
+    // The new file's text and page count are filled in again by extraction
+    const result = await resourcesCollection.findOneAndUpdate(
+      { _id: new ObjectId(resourceId) } as any,
+      {
+        $set: {
+          fileUrl: upload.fileUrl,
+          fileName: upload.fileName,
+          fileSize: upload.fileSize,
+          previewAvailable: this.isFilePreviewable(resource.type, upload.fileName, upload.fileUrl),
+          currentVersion: version,
+          textStatus: 'pending',
+          updatedAt: now
+        },
+        $unset: { pageCount: '', textError: '' }
+      },
+      { returnDocument: 'after' }
+    );
+
+    if (!result) {
+      throw new Error('Learning resource not found');
+    }
+
+    return { ...result, _id: result._id.toString() };
+  }
+
+  // Returns the resource's current version number, recording its file as version 1 if it has none yet
+  private async ensureInitialResourceVersion(resource: LearningResource & { _id: any }): Promise<number> {
+    if (resource.currentVersion) return resource.currentVersion;
+
+    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+    await this.insertResourceVersion(resource, 1);
+    await resourcesCollection.updateOne({ _id: resource._id, currentVersion: { $exists: false } } as any, { $set: { currentVersion: 1 } });
+    return 1;
+  }
+
+  private async insertResourceVersion(resource: LearningResource & { _id: any }, version: number): Promise<void> {
+    const versionsCollection = await getCollection<ResourceVersion>(COLLECTIONS.RESOURCE_VERSIONS);
+    const resourceId = resource._id.toString();
+
+    // Upsert so two requests backfilling the same resource don't collide
+    await versionsCollection.updateOne(
+      { resourceId, version },
+      {
+        $setOnInsert: {
+          resourceId,
+          version,
+          fileUrl: resource.fileUrl,
+          fileName: resource.fileName,
+          fileSize: resource.fileSize,
+          uploadedById: resource.uploadedById,
+          downloads: 0,
+          createdAt: resource.createdAt ?? new Date()
+        }
+      },
+      { upsert: true }
+    );
+  }
+
+  // Counts towards the resource's downloads, and the version's own count. Without a version, the current file is meant.
+  async recordResourceDownload(userId: string, resourceId: string, version?: number): Promise<void> {
+    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+    const versionsCollection = await getCollection<ResourceVersion>(COLLECTIONS.RESOURCE_VERSIONS);
+    const downloadsCollection = await getCollection(COLLECTIONS.RESOURCE_DOWNLOADS);
+
+    const resource = await resourcesCollection.findOne({ _id: new ObjectId(resourceId) } as any);
+    if (!resource) {
+      throw new Error('Learning resource not found');
+    }
+
+    const downloadedVersion = version ?? resource.currentVersion;
+    if (downloadedVersion !== undefined) {
+      const result = await versionsCollection.updateOne({ resourceId, version: downloadedVersion }, { $inc: { downloads: 1 } });
+      if (result.matchedCount === 0 && version !== undefined) {
+        throw new Error('Version not found');
+      }
+    }
+
+    // Update resource download count
+    await resourcesCollection.updateOne(
+      { _id: new ObjectId(resourceId) } as any,
+      { $inc: { downloads: 1 } }
+    );
+
+    // Quick repeats have already been filtered out by the engagement limits
+    await downloadsCollection.insertOne({
+      userId,
+      resourceId,
+      ...(downloadedVersion !== undefined && { version: downloadedVersion }),
+      downloadedAt: new Date()
+    });
+
+    // Points are for the first download of each resource, not for every download
+    await this.recordActivity({ userId, action: 'resource_downloaded', key: `download:${resourceId}:${userId}`, subjectType: 'resource', subjectId: resourceId });
+  }
+
+  // A star rating on its own; any written review is kept
+  async rateResource(userId: string, resourceId: string, rating: number): Promise<void> {
+    await this.saveResourceReview(userId, resourceId, { rating });
+  }
+
+  // Creates or edits the user's review. An empty comment removes the text, an omitted one leaves it.
+  async saveResourceReview(userId: string, resourceId: string, review: { rating: number; comment?: string }): Promise<ResourceReview> {
+    const reviewsCollection = await getCollection<ResourceReview>(COLLECTIONS.RESOURCE_RATINGS);
+    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+
+    const resource = await resourcesCollection.findOne({ _id: new ObjectId(resourceId) } as any, { projection: { _id: 1 } });
+    if (!resource) {
+      throw new Error('Learning resource not found');
+    }
+
+    const now = new Date();
+    const comment = review.comment?.trim();
+    const previous = await reviewsCollection.findOneAndUpdate(
+      { userId, resourceId },
+      {
+        $set: { rating: review.rating, updatedAt: now, ...(comment && { comment }) },
+        ...(comment === '' && { $unset: { comment: '' } }),
+        $setOnInsert: { userId, resourceId, helpfulCount: 0, status: 'published', flags: [], flagCount: 0, createdAt: now }
+      },
+      { upsert: true, returnDocument: 'before' }
+    );
+
+    // Hidden reviews stay out of the average until a moderator restores them
+    if (!previous) {
+      await this.adjustResourceRating(resourceId, review.rating, 1);
+    } else if (previous.status !== 'hidden' && previous.rating !== review.rating) {
+      await this.adjustResourceRating(resourceId, review.rating - previous.rating, 0);
+    }
+
+    const saved = await reviewsCollection.findOne({ userId, resourceId });
+    return { ...saved!, _id: saved!._id.toString() };
+  }
+
+  async getResourceReviews(
+    resourceId: string,
+    options: { sort?: ResourceReviewSort; limit?: number; offset?: number } = {},
+    viewerId?: string
+  ): Promise<ResourceReviewPage> {
+    const reviewsCollection = await getCollection<ResourceReview>(COLLECTIONS.RESOURCE_RATINGS);
+    const votesCollection = await getCollection(COLLECTIONS.REVIEW_HELPFUL_VOTES);
+    const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
+    const { sort = 'helpful', limit = 10, offset = 0 } = options;
+
+    // Ratings from before moderation have no status and count as published
+    const published = { resourceId, status: { $ne: 'hidden' as const } };
+    const sortSpec: Record<ResourceReviewSort, Record<string, 1 | -1>> = {
+      helpful: { helpfulCount: -1, updatedAt: -1, _id: -1 },
+      recent: { updatedAt: -1, _id: -1 },
+      highest: { rating: -1, helpfulCount: -1, _id: -1 },
+      lowest: { rating: 1, helpfulCount: -1, _id: -1 },
+    };
+
+    const [reviews, total, ratingGroups, myReview] = await Promise.all([
+      reviewsCollection.find(published).sort(sortSpec[sort]).skip(offset).limit(limit).toArray(),
+      reviewsCollection.countDocuments(published),
+      reviewsCollection.aggregate<{ _id: number; count: number }>([
+        { $match: published },
+        { $group: { _id: '$rating', count: { $sum: 1 } } }
+      ]).toArray(),
+      viewerId ? reviewsCollection.findOne({ resourceId, userId: viewerId }) : null,
+    ]);
+
+    const distribution: ResourceReviewPage['distribution'] = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    for (const group of ratingGroups) {
+      if (group._id >= 1 && group._id <= 5) {
+        distribution[group._id as 1 | 2 | 3 | 4 | 5] = group.count;
+      }
+    }
+
+    const reviewIds = reviews.map(review => review._id.toString());
+    const votedIds = new Set(
+      viewerId && reviewIds.length > 0
+        ? (await votesCollection.find({ reviewId: { $in: reviewIds }, userId: viewerId }).toArray()).map(vote => vote.reviewId as string)
+        : []
+    );
+
+    const userIds = Array.from(new Set(reviews.flatMap(review => [review.userId, ...(review.reply ? [review.reply.authorId] : [])])));
+    const users = await usersCollection
+      .find({ _id: { $in: userIds.filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id)) } } as any)
+      .toArray();
+    const usersById = new Map(users.map(user => [user._id.toString(), user]));
+    const nameOf = (id: string) => {
+      const user = usersById.get(id);
+      return user ? `${user.firstName} ${user.lastName}` : 'Unknown User';
+    };
+
+    return {
+      reviews: reviews.map(({ flags, ...review }) => ({
+        ...review,
+        _id: review._id.toString(),
+        helpfulCount: review.helpfulCount ?? 0,
+        createdAt: review.createdAt ?? review.updatedAt,
+        authorName: nameOf(review.userId),
+        authorAvatar: usersById.get(review.userId)?.profileImageUrl || `https://api.dicebear.com/7.x/avataaars/svg?seed=${review.userId}`,
+        ...(review.reply && { replyAuthorName: nameOf(review.reply.authorId) }),
+        votedHelpful: votedIds.has(review._id.toString()),
+      })),
+      total,
+      distribution,
+      myReview: myReview ? { ...myReview, _id: myReview._id.toString(), flags: [] } : null,
+    };
+  }
+
+  async getResourceReview(id: string): Promise<ResourceReview | undefined> {
+    if (!ObjectId.isValid(id)) {
+      return undefined;
+    }
+    const reviewsCollection = await getCollection<ResourceReview>(COLLECTIONS.RESOURCE_RATINGS);
+    const review = await reviewsCollection.findOne({ _id: new ObjectId(id) } as any);
+    return review ? { ...review, _id: review._id.toString() } : undefined;
+  }
+
+  async deleteResourceReview(userId: string, resourceId: string): Promise<void> {
+    const reviewsCollection = await getCollection<ResourceReview>(COLLECTIONS.RESOURCE_RATINGS);
+    const review = await reviewsCollection.findOne({ userId, resourceId });
+    if (!review) {
+      throw new Error('Review not found');
+    }
+    await this.removeResourceReview({ ...review, _id: review._id.toString() });
+  }
+
+  async deleteResourceReviewById(id: string): Promise<void> {
+    const review = await this.getResourceReview(id);
+    if (!review) {
+      throw new Error('Review not found');
+    }
+    await this.removeResourceReview(review);
+  }
+
+  private async removeResourceReview(review: ResourceReview): Promise<void> {
+    const reviewsCollection = await getCollection<ResourceReview>(COLLECTIONS.RESOURCE_RATINGS);
+    const votesCollection = await getCollection(COLLECTIONS.REVIEW_HELPFUL_VOTES);
+
+    const result = await reviewsCollection.deleteOne({ _id: new ObjectId(review._id!) } as any);
+    if (result.deletedCount === 0) {
+      return;
+    }
+    await votesCollection.deleteMany({ reviewId: review._id });
+    if (review.status !== 'hidden') {
+      await this.adjustResourceRating(review.resourceId, -review.rating, -1);
+    }
+  }
+
+  // One vote per user; the count on the review is kept in step with the votes
+  async setReviewHelpfulVote(reviewId: string, userId: string, helpful: boolean): Promise<ResourceReview> {
+    const reviewsCollection = await getCollection<ResourceReview>(COLLECTIONS.RESOURCE_RATINGS);
+    const votesCollection = await getCollection(COLLECTIONS.REVIEW_HELPFUL_VOTES);
+
+    const review = await this.getResourceReview(reviewId);
+    if (!review || review.status === 'hidden') {
+      throw new Error('Review not found');
+    }
+    if (review.userId === userId) {
+      throw new Error('Cannot vote on your own review');
+    }
+
+    let change = 0;
+    if (helpful) {
+      const result = await votesCollection.updateOne(
+        { reviewId, userId },
+        { $setOnInsert: { reviewId, userId, createdAt: new Date() } },
+        { upsert: true }
+      );
+      change = result.upsertedCount;
+    } else {
+      const result = await votesCollection.deleteOne({ reviewId, userId });
+      change = -result.deletedCount;
+    }
+
+    if (change === 0) {
+      return review;
+    }
+    const updated = await reviewsCollection.findOneAndUpdate(
+      { _id: new ObjectId(reviewId) } as any,
+      { $inc: { helpfulCount: change } },
+      { returnDocument: 'after' }
+    );
+    return updated ? { ...updated, _id: updated._id.toString() } : review;
+  }
+
+  // Reporting twice does nothing; the flags are cleared when a moderator acts on them
+  async flagResourceReview(reviewId: string, userId: string, reason?: string): Promise<void> {
+    const reviewsCollection = await getCollection<ResourceReview>(COLLECTIONS.RESOURCE_RATINGS);
+
+    const review = await this.getResourceReview(reviewId);
+    if (!review || review.status === 'hidden') {
+      throw new Error('Review not found');
+    }
+    if (review.userId === userId) {
+      throw new Error('Cannot report your own review');
+    }
+
+    await reviewsCollection.updateOne(
+      { _id: new ObjectId(reviewId), 'flags.userId': { $ne: userId } } as any,
+      {
+        $push: { flags: { userId, ...(reason && { reason }), createdAt: new Date() } },
+        $inc: { flagCount: 1 }
+      }
+    );
+  }
+
+  // The uploader's response to a review; null removes it
+  async setResourceReviewReply(reviewId: string, authorId: string, content: string | null): Promise<ResourceReview> {
+    const reviewsCollection = await getCollection<ResourceReview>(COLLECTIONS.RESOURCE_RATINGS);
+
+    const review = await this.getResourceReview(reviewId);
+    if (!review) {
+      throw new Error('Review not found');
+    }
+
+    const now = new Date();
+    const updated = await reviewsCollection.findOneAndUpdate(
+      { _id: new ObjectId(reviewId) } as any,
+      content === null
+        ? { $unset: { reply: '' } }
+        : { $set: { reply: { authorId, content, createdAt: review.reply?.createdAt ?? now, updatedAt: now } } },
+      { returnDocument: 'after' }
+    );
+    if (!updated) {
+      throw new Error('Review not found');
+    }
+    return { ...updated, _id: updated._id.toString() };
+  }
+
+  async getModerationReviews(status: 'flagged' | 'hidden' | 'all', limit = 20, offset = 0): Promise<{ reviews: ModerationReview[]; total: number }> {
+    const reviewsCollection = await getCollection<ResourceReview>(COLLECTIONS.RESOURCE_RATINGS);
+    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+    const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
+
+    const filter = status === 'flagged'
+      ? { status: { $ne: 'hidden' as const }, flagCount: { $gt: 0 } }
+      : status === 'hidden' ? { status: 'hidden' as const } : {};
+    const sort: Record<string, 1 | -1> = status === 'flagged' ? { flagCount: -1, updatedAt: -1 } : { updatedAt: -1 };
+
+    const [reviews, total] = await Promise.all([
+      reviewsCollection.find(filter).sort(sort).skip(offset).limit(limit).toArray(),
+      reviewsCollection.countDocuments(filter),
+    ]);
+
+    const toObjectIds = (ids: string[]) => Array.from(new Set(ids)).filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id));
+    const [users, resources] = await Promise.all([
+      usersCollection.find({ _id: { $in: toObjectIds(reviews.map(review => review.userId)) } } as any).toArray(),
+      resourcesCollection.find({ _id: { $in: toObjectIds(reviews.map(review => review.resourceId)) } } as any, { projection: { title: 1 } }).toArray(),
+    ]);
+    const namesById = new Map(users.map(user => [user._id.toString(), `${user.firstName} ${user.lastName}`]));
+    const titlesById = new Map(resources.map(resource => [resource._id.toString(), resource.title]));
+
+    return {
+      reviews: reviews.map(review => ({
+        ...review,
+        _id: review._id.toString(),
+        flags: review.flags ?? [],
+        flagCount: review.flagCount ?? 0,
+        authorName: namesById.get(review.userId) ?? 'Unknown User',
+        resourceTitle: titlesById.get(review.resourceId) ?? 'Deleted resource',
+      })),
+      total,
+    };
+  }
+
+  // Hiding takes the review out of the listing and the average; restoring puts it back
+  async moderateResourceReview(id: string, moderatorId: string, action: ReviewModerationAction, note?: string): Promise<ResourceReview> {
+    const reviewsCollection = await getCollection<ResourceReview>(COLLECTIONS.RESOURCE_RATINGS);
+
+    const existing = await this.getResourceReview(id);
+    if (!existing) {
+      throw new Error('Review not found');
+    }
+
+    const moderation = {
+      moderatedById: moderatorId,
+      moderatedAt: new Date(),
+      ...(note && { moderationNote: note }),
+    };
+    const set = action === 'hide'
+      ? { ...moderation, status: 'hidden' as const, flags: [], flagCount: 0 }
+      : action === 'restore'
+        ? { ...moderation, status: 'published' as const }
+        : { ...moderation, flags: [], flagCount: 0 };
+
+    // Matching on the current status keeps two moderators from counting the same change twice
+    const review = await reviewsCollection.findOneAndUpdate(
+      { _id: new ObjectId(id), status: action === 'restore' ? 'hidden' : { $ne: 'hidden' } } as any,
+      { $set: set, ...(!note && { $unset: { moderationNote: '' } }) },
+      { returnDocument: 'after' }
+    );
+    if (!review) {
+      throw new Error('Review status has changed');
+    }
+
+    if (action === 'hide') {
+      await this.adjustResourceRating(review.resourceId, -review.rating, -1);
+    } else if (action === 'restore') {
+      await this.adjustResourceRating(review.resourceId, review.rating, 1);
+    }
+
+    return { ...review, _id: review._id.toString() };
+  }
+
+  // Applies a change in the published reviews to the resource's average without reading them all again
+  private async adjustResourceRating(resourceId: string, totalDelta: number, countDelta: number): Promise<void> {
+    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+
+    const result = await resourcesCollection.updateOne(
+      { _id: new ObjectId(resourceId), ratingTotal: { $exists: true } } as any,
+      [
+        {
+          $set: {
+            ratingTotal: { $add: ['$ratingTotal', totalDelta] },
+            ratingCount: { $add: [{ $ifNull: ['$ratingCount', 0] }, countDelta] }
+          }
+        },
+        {
+          $set: {
+            rating: {
+              $cond: [
+                { $gt: ['$ratingCount', 0] },
+                { $floor: { $add: [{ $multiply: [{ $divide: ['$ratingTotal', '$ratingCount'] }, 10] }, 0.5] } },
+                0
+              ]
+            }
+          }
+        }
+      ]
+    );
+
+    // Resources rated before the total was kept are counted from their reviews once
+    if (result.matchedCount === 0) {
+      await this.recalculateResourceRating(resourceId);
+    }
+  }
+
+  private async recalculateResourceRating(resourceId: string): Promise<void> {
+    const reviewsCollection = await getCollection<ResourceReview>(COLLECTIONS.RESOURCE_RATINGS);
+    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+
+    const [stats] = await reviewsCollection.aggregate<{ total: number; count: number }>([
+      { $match: { resourceId, status: { $ne: 'hidden' } } },
+      { $group: { _id: null, total: { $sum: '$rating' }, count: { $sum: 1 } } }
+    ]).toArray();
+    const ratingTotal = stats?.total ?? 0;
+    const ratingCount = stats?.count ?? 0;
+
+    await resourcesCollection.updateOne(
+      { _id: new ObjectId(resourceId) } as any,
+      {
+        $set: {
+          rating: ratingCount > 0 ? Math.round(ratingTotal / ratingCount * 10) : 0, // Store as integer * 10 for precision
+          ratingCount,
+          ratingTotal
+        }
+      }
+    );
+  }
+
+  // Course operations
+  async createCourse(course: InsertCourse): Promise<Course> {
+    const coursesCollection = await getCollection<Course>(COLLECTIONS.COURSES);
+    const code = normalizeCourseCode(course.code);
+
+    if (await coursesCollection.findOne({ code })) {
+      throw new Error('Course code already exists');
+    }
+
+    const courseDoc: Omit<Course, '_id'> = {
+      ...course,
+      code,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const result = await coursesCollection.insertOne(courseDoc as any);
+    return { ...courseDoc, _id: result.insertedId.toString() };
+  }
+
+  async getCourses(filters: CourseFilters = {}): Promise<CourseWithLecturers[]> {
+    const coursesCollection = await getCollection<Course>(COLLECTIONS.COURSES);
+    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+
+    const match: Record<string, any> = {};
+    if (filters.level) match.level = filters.level;
+    if (filters.semester) match.semester = filters.semester;
+    if (filters.lecturerId) match.lecturerIds = filters.lecturerId;
+    if (filters.search) {
+      const pattern = new RegExp(escapeRegex(filters.search), 'i');
+      match.$or = [{ code: pattern }, { title: pattern }];
+    }
+
+    const courses = await coursesCollection.find(match as any).sort({ level: 1, semester: 1, code: 1 }).toArray();
+    const courseIds = courses.map(course => course._id.toString());
+
+    const [lecturers, resourceCounts] = await Promise.all([
+      this.getCourseLecturers(courses.flatMap(course => course.lecturerIds || [])),
+      courseIds.length > 0
+        ? resourcesCollection.aggregate<{ _id: string; count: number }>([
+          { $match: { courseIds: { $in: courseIds } } },
+          { $unwind: '$courseIds' },
+          { $match: { courseIds: { $in: courseIds } } },
+          { $group: { _id: '$courseIds', count: { $sum: 1 } } }
+        ]).toArray()
+        : Promise.resolve([])
+    ]);
+    const countsById = new Map(resourceCounts.map(({ _id, count }) => [_id, count]));
+
+    return courses.map(course => ({
+      ...course,
+      _id: course._id.toString(),
+      lecturers: (course.lecturerIds || []).map(id => lecturers.get(id)).filter((lecturer): lecturer is CourseLecturer => !!lecturer),
+      resourceCount: countsById.get(course._id.toString()) ?? 0
+    }));
+  }
+
+  async getCourse(id: string, viewer: ResourceViewer = {}): Promise<CourseDetail | undefined> {
+    const coursesCollection = await getCollection<Course>(COLLECTIONS.COURSES);
+    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+    const eventsCollection = await getCollection<Event>(COLLECTIONS.EVENTS);
+
+    if (!ObjectId.isValid(id)) return undefined;
+    const course = await coursesCollection.findOne({ _id: new ObjectId(id) } as any);
+    if (!course) return undefined;
+
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    const eventMatch = { courseIds: id, cancelled: { $ne: true } };
+
+    const [lecturers, resources, upcomingEvents, pastEvents] = await Promise.all([
+      this.getCourseLecturers(course.lecturerIds || []),
+      resourcesCollection.find({ courseIds: id, ...learningResourceAccessFilter(viewer) } as any).sort({ createdAt: -1 }).toArray(),
+      eventsCollection.find({ ...eventMatch, date: { $gte: startOfToday } } as any).sort({ date: 1 }).toArray(),
+      eventsCollection.find({ ...eventMatch, date: { $lt: startOfToday } } as any).sort({ date: -1 }).limit(COURSE_PAST_EVENTS).toArray()
+    ]);
+
+    return {
+      ...course,
+      _id: course._id.toString(),
+      lecturers: (course.lecturerIds || []).map(lecturerId => lecturers.get(lecturerId)).filter((lecturer): lecturer is CourseLecturer => !!lecturer),
+      resourceCount: resources.length,
+      resources: resources.map(resource => ({ ...resource, _id: resource._id.toString() })),
+      events: [...upcomingEvents, ...pastEvents].map(event => ({ ...event, _id: event._id.toString() }))
+    };
+  }
+
+  async updateCourse(id: string, updates: Partial<InsertCourse>): Promise<Course> {
+    const coursesCollection = await getCollection<Course>(COLLECTIONS.COURSES);
+
+    const set: Partial<Course> = { ...updates, updatedAt: new Date() };
+    if (updates.code) {
+      set.code = normalizeCourseCode(updates.code);
+      const duplicate = await coursesCollection.findOne({ code: set.code, _id: { $ne: new ObjectId(id) } } as any);
+      if (duplicate) {
+        throw new Error('Course code already exists');
+      }
+    }
+
+    const result = await coursesCollection.findOneAndUpdate(
+      { _id: new ObjectId(id) } as any,
+      { $set: set },
+      { returnDocument: 'after' }
+    );
+
+    if (!result) {
+      throw new Error('Course not found');
+    }
+
+    return { ...result, _id: result._id.toString() };
+  }
+
+  // Resources and events keep existing, just no longer attached to the course
+  async deleteCourse(id: string): Promise<void> {
+    const coursesCollection = await getCollection<Course>(COLLECTIONS.COURSES);
+    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+    const eventsCollection = await getCollection<Event>(COLLECTIONS.EVENTS);
+
+    const result = await coursesCollection.deleteOne({ _id: new ObjectId(id) } as any);
+    if (result.deletedCount === 0) {
+      throw new Error('Course not found');
+    }
+
+    await Promise.all([
+      resourcesCollection.updateMany({ courseIds: id } as any, { $pull: { courseIds: id } } as any),
+      eventsCollection.updateMany({ courseIds: id } as any, { $pull: { courseIds: id } } as any)
+    ]);
+  }
+
+  // Display details for staff profiles, by id. Linked profiles take the user's name.
+  private async getCourseLecturers(staffIds: string[]): Promise<Map<string, CourseLecturer>> {
+    const staffCollection = await getCollection<StaffProfile>(COLLECTIONS.STAFF_PROFILES);
+    const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
+
+    const validIds = Array.from(new Set(staffIds)).filter(id => ObjectId.isValid(id));
+    if (validIds.length === 0) return new Map();
+
+    const profiles = await staffCollection.find({ _id: { $in: validIds.map(id => new ObjectId(id)) } } as any).toArray();
+    const userIds = profiles.map(profile => profile.userId).filter((id): id is string => !!id && ObjectId.isValid(id));
+    const users = userIds.length > 0
+      ? await usersCollection.find({ _id: { $in: userIds.map(id => new ObjectId(id)) } } as any).toArray()
+      : [];
+    const usersById = new Map(users.map(user => [user._id.toString(), user]));
+
+    return new Map(profiles.map(profile => {
+      const user = profile.userId ? usersById.get(profile.userId) : undefined;
+      const name = profile.customName || (user ? `${user.firstName || ''} ${user.lastName || ''}`.trim() : '') || 'Unknown';
+      return [profile._id.toString(), {
+        _id: profile._id.toString(),
+        name,
+        title: profile.title,
+        avatar: profile.avatar || user?.profileImageUrl
+      }];
+    }));
+  }
+
+  // Staff operations
+  async createStaffProfile(userId: string | undefined, profile: InsertStaffProfile): Promise<StaffProfile> {
+    const staffCollection = await getCollection<StaffProfile>(COLLECTIONS.STAFF_PROFILES);
+
+    const profileDoc: Omit<StaffProfile, '_id'> = {
+      ...profile,
+      ...(userId ? { userId } : {}), // Only include userId if provided
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -1422,6 +4015,8 @@ export class MongoStorage implements IMongoStorage {
 
     const submissionDoc: Omit<ContactSubmission, '_id'> = {
       ...submission,
+      status: 'new',
+      replies: [],
       createdAt: new Date(),
     };
 
@@ -1435,24 +4030,66 @@ export class MongoStorage implements IMongoStorage {
     return { ...newSubmission, _id: newSubmission._id.toString() };
   }
 
-  async getContactSubmissions(status?: string): Promise<ContactSubmission[]> {
+  async getContactSubmissions(status?: string, category?: string): Promise<ContactSubmission[]> {
     const contactCollection = await getCollection<ContactSubmission>(COLLECTIONS.CONTACT_SUBMISSIONS);
-    const query = status ? { status: status as any } : {};
+    const query: any = {};
+    if (status) query.status = status;
+    if (category) query.category = category;
 
     const submissions = await contactCollection
       .find(query)
       .sort({ createdAt: -1 })
       .toArray();
 
-    return submissions.map(submission => ({ ...submission, _id: submission._id.toString() }));
+    // Submissions from before replies were tracked have no thread
+    return submissions.map(submission => ({ ...submission, replies: submission.replies ?? [], _id: submission._id.toString() }));
+  }
+
+  async getContactSubmission(id: string): Promise<ContactSubmission | undefined> {
+    const contactCollection = await getCollection<ContactSubmission>(COLLECTIONS.CONTACT_SUBMISSIONS);
+
+    if (!ObjectId.isValid(id)) return undefined;
+    const submission = await contactCollection.findOne({ _id: new ObjectId(id) } as any);
+
+    if (!submission) return undefined;
+
+    return { ...submission, replies: submission.replies ?? [], _id: submission._id.toString() };
   }
 
   async updateContactSubmissionStatus(id: string, status: string): Promise<ContactSubmission> {
     const contactCollection = await getCollection<ContactSubmission>(COLLECTIONS.CONTACT_SUBMISSIONS);
 
+    if (!ObjectId.isValid(id)) {
+      throw new Error('Contact submission not found');
+    }
+
+    const result = await contactCollection.findOneAndUpdate(
+      { _id: new ObjectId(id) } as any,
+      { $set: { status: status as any, updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+
+    if (!result) {
+      throw new Error('Contact submission not found');
+    }
+
+    return { ...result, replies: result.replies ?? [], _id: result._id.toString() };
+  }
+
+  async addContactSubmissionReply(id: string, reply: Omit<ContactReply, 'sentAt'>): Promise<ContactSubmission> {
+    const contactCollection = await getCollection<ContactSubmission>(COLLECTIONS.CONTACT_SUBMISSIONS);
+    const now = new Date();
+
+    if (!ObjectId.isValid(id)) {
+      throw new Error('Contact submission not found');
+    }
+
     const result = await contactCollection.findOneAndUpdate(
       { _id: new ObjectId(id) } as any,
-      { $set: { status: status as any } },
+      {
+        $push: { replies: { ...reply, sentAt: now } },
+        $set: { status: 'responded', updatedAt: now }
+      } as any,
       { returnDocument: 'after' }
     );
 
@@ -1483,6 +4120,13 @@ export class MongoStorage implements IMongoStorage {
     );
   }
 
+  async getActiveNewsletterSubscribers(): Promise<string[]> {
+    const newsletterCollection = await getCollection(COLLECTIONS.NEWSLETTER_SUBSCRIPTIONS);
+
+    const subscriptions = await newsletterCollection.find({ status: 'active' }, { projection: { email: 1 } }).toArray();
+    return subscriptions.map(subscription => subscription.email);
+  }
+
   // Analytics operations
   async getAnalyticsOverview(): Promise<any> {
     const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
@@ -1513,6 +4157,15 @@ export class MongoStorage implements IMongoStorage {
 
     const blogViews = totalBlogViews[0]?.totalViews || 0;
     const resourceDownloads = totalDownloads[0]?.totalDownloads || 0;
+
+    // Attendance rate across past events: checked-in attendees over seat holders
+    const registrationsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
+    const pastEvents = await eventsCollection.find({ date: { $lt: new Date() } }).project({ _id: 1 }).toArray();
+    const pastEventIds = pastEvents.map(event => event._id.toString());
+    const [pastSeatHolders, totalAttendees] = await Promise.all([
+      registrationsCollection.countDocuments({ eventId: { $in: pastEventIds }, status: { $in: CONFIRMED_STATUSES } }),
+      registrationsCollection.countDocuments({ eventId: { $in: pastEventIds }, status: 'attended' })
+    ]);
     const activeUsers = Math.floor(approvedUsers * 0.75); // Approximate active users
 
     return {
@@ -1524,7 +4177,8 @@ export class MongoStorage implements IMongoStorage {
       totalResources,
       totalDownloads: resourceDownloads,
       blogViews,
-      eventAttendance: 84 // Placeholder - would need registration tracking
+      eventAttendance: pastSeatHolders > 0 ? Math.round((totalAttendees / pastSeatHolders) * 100) : 0,
+      totalAttendees
     };
   }
 
@@ -1599,89 +4253,604 @@ export class MongoStorage implements IMongoStorage {
   }
 
   // Gamification operations
-  async getUserGamificationStats(userId: string): Promise<any> {
-    const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
-    const blogsCollection = await getCollection<BlogPost>(COLLECTIONS.BLOG_POSTS);
-    const commentsCollection = await getCollection<Comment>(COLLECTIONS.COMMENTS);
-    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
 
-    const user = await usersCollection.findOne({ _id: new ObjectId(userId) } as any);
+  // Activity for the same user and subject is recorded one at a time, so two
+  // actions arriving together can't both see room under the points cap. This
+  // only holds within one server process; across several the cap is approximate.
+  async recordActivity(activity: ActivityRecord, at = new Date()): Promise<void> {
+    const queueKey = `${activity.userId}:${activity.subjectId}`;
+    const recording = (this.activityQueues.get(queueKey) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() => this.writeActivity(activity, at));
+    this.activityQueues.set(queueKey, recording);
+
+    try {
+      await recording;
+    } finally {
+      if (this.activityQueues.get(queueKey) === recording) {
+        this.activityQueues.delete(queueKey);
+      }
+    }
+  }
+
+  private async writeActivity(activity: ActivityRecord, at: Date): Promise<void> {
+    const activityCollection = await getCollection<ActivityEvent>(COLLECTIONS.ACTIVITY_EVENTS);
+    const rules = await this.getGamificationRules();
+
+    // Points past the cap for one subject are cut, but the entry is still written
+    const [earned] = await activityCollection.aggregate<{ points: number }>([
+      { $match: { userId: activity.userId, subjectId: activity.subjectId } },
+      { $group: { _id: null, points: { $sum: '$points' } } },
+    ]).toArray();
+    const points = Math.min(rules[activity.action], Math.max(0, MAX_POINTS_PER_SUBJECT - (earned?.points ?? 0)));
+
+    // The unique key makes repeating an action a no-op
+    try {
+      await activityCollection.updateOne(
+        { key: activity.key },
+        { $setOnInsert: { ...activity, points, ...(points < rules[activity.action] && { capped: true }), createdAt: at } },
+        { upsert: true }
+      );
+    } catch (error: any) {
+      // Two requests recording the same action at once
+      if (error.code !== 11000) {
+        throw error;
+      }
+    }
+  }
+
+  async revokeActivity(key: string): Promise<void> {
+    const activityCollection = await getCollection<ActivityEvent>(COLLECTIONS.ACTIVITY_EVENTS);
+    await activityCollection.deleteOne({ key });
+  }
+
+  async getGamificationRules(): Promise<ActivityPoints> {
+    const rulesCollection = await getCollection<GamificationRule>(COLLECTIONS.GAMIFICATION_RULES);
+    const rules = await rulesCollection.find().toArray();
+    return { ...DEFAULT_ACTIVITY_POINTS, ...Object.fromEntries(rules.map(rule => [rule.action, rule.points])) };
+  }
+
+  async updateGamificationRules(points: Partial<ActivityPoints>): Promise<ActivityPoints> {
+    const rulesCollection = await getCollection<GamificationRule>(COLLECTIONS.GAMIFICATION_RULES);
+
+    const updates = Object.entries(points).map(([action, value]) => ({
+      updateOne: {
+        filter: { action: action as ActivityAction },
+        update: { $set: { points: value, updatedAt: new Date() } },
+        upsert: true,
+      },
+    }));
+    if (updates.length > 0) {
+      await rulesCollection.bulkWrite(updates);
+    }
+
+    return this.getGamificationRules();
+  }
+
+  // How often the user did each action, their total XP and their streaks
+  private async getActivitySummary(userId: string): Promise<{ counts: ActivityPoints; xp: number; streaks: Streaks }> {
+    const activityCollection = await getCollection<ActivityEvent>(COLLECTIONS.ACTIVITY_EVENTS);
+
+    const [totals, days] = await Promise.all([
+      activityCollection.aggregate<{ _id: ActivityAction; count: number; points: number }>([
+        { $match: { userId } },
+        { $group: { _id: '$action', count: { $sum: 1 }, points: { $sum: '$points' } } },
+      ]).toArray(),
+      // Streaks count days in the department's time zone
+      activityCollection.aggregate<{ _id: string }>([
+        { $match: { userId } },
+        { $group: { _id: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt', timezone: EVENT_TIMEZONE } } } },
+      ]).toArray(),
+    ]);
+
+    const streaks = calculateStreaks(days.map(day => day._id));
+    const counts = Object.fromEntries(Object.keys(DEFAULT_ACTIVITY_POINTS).map(action => [action, 0])) as ActivityPoints;
+    let xp = 0;
+    for (const total of totals) {
+      counts[total._id] = total.count;
+      xp += total.points;
+    }
+
+    return { counts, xp, streaks };
+  }
+
+  async getUserGamificationStats(userId: string): Promise<UserGamificationStats> {
+    const user = await this.getUser(userId);
     if (!user) {
       throw new Error('User not found');
     }
 
-    // Calculate user stats
-    const [userBlogs, userComments, userDownloads] = await Promise.all([
-      blogsCollection.countDocuments({ authorId: userId, approvalStatus: 'approved' }),
-      commentsCollection.countDocuments({ authorId: userId }),
-      // Real download count
-      (await getCollection(COLLECTIONS.RESOURCE_DOWNLOADS)).countDocuments({ userId })
+    const activityCollection = await getCollection<ActivityEvent>(COLLECTIONS.ACTIVITY_EVENTS);
+    const userBadgesCollection = await getCollection<UserBadge>(COLLECTIONS.USER_BADGES);
+    const [{ counts, xp, streaks }, recent, totalBadges] = await Promise.all([
+      this.getActivitySummary(userId),
+      activityCollection.find({ userId }).sort({ createdAt: -1 }).limit(5).toArray(),
+      userBadgesCollection.countDocuments({ userId }),
     ]);
 
-    const totalActions = userBlogs * 50 + userComments * 15 + userDownloads * 5;
-    const level = Math.floor(totalActions / 200) + 1;
-    const xp = totalActions % 1000;
-    const xpToNext = 1000 - xp;
+    const progress = levelForXp(xp);
 
     return {
-      level,
+      ...progress,
       xp,
-      xpToNext,
-      totalBadges: this.calculateUserBadges(userBlogs, userComments, userDownloads).length,
-      totalComments: userComments,
-      totalDownloads: userDownloads,
-      blogLikes: userBlogs * 5, // Approximate
-      streak: Math.floor(Math.random() * 14) + 1 // Placeholder
+      xpToNext: progress.nextLevelXp - xp,
+      totalBadges,
+      totalComments: counts.comment_posted,
+      totalDownloads: counts.resource_downloaded,
+      blogLikes: counts.like_received,
+      eventsAttended: counts.event_attended,
+      streak: streaks.current,
+      longestStreak: streaks.longest,
+      recentAchievements: recent.map(entry => ({
+        action: entry.action,
+        title: ACTIVITY_ACTION_LABELS[entry.action],
+        xp: entry.points,
+        time: entry.createdAt,
+      })),
     };
   }
 
-  async getLeaderboard(): Promise<any[]> {
-    const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
-    const blogsCollection = await getCollection<BlogPost>(COLLECTIONS.BLOG_POSTS);
-    const commentsCollection = await getCollection<Comment>(COLLECTIONS.COMMENTS);
+  // Approved students ranked by the XP they earned in the period
+  async getLeaderboard(period: LeaderboardPeriod, limit = 10, userId?: string): Promise<Leaderboard> {
+    const activityCollection = await getCollection<ActivityEvent>(COLLECTIONS.ACTIVITY_EVENTS);
+    const since = leaderboardPeriodStart(period);
 
-    const users = await usersCollection
-      .find({ approvalStatus: 'approved', role: 'student' })
-      .limit(10)
+    type RankedUser = { _id: string; xp: number; rank: number; user: User & { _id: ObjectId } };
+    const [ranking] = await activityCollection.aggregate<{ top: RankedUser[]; viewer: RankedUser[] }>([
+      ...(since ? [{ $match: { createdAt: { $gte: since } } }] : []),
+      { $group: { _id: '$userId', xp: { $sum: '$points' } } },
+      { $match: { xp: { $gt: 0 } } },
+      {
+        $lookup: {
+          from: COLLECTIONS.USERS,
+          let: { userId: { $toObjectId: '$_id' } },
+          pipeline: [
+            { $match: { $expr: { $eq: ['$_id', '$$userId'] }, role: 'student', approvalStatus: 'approved' } },
+            { $project: { firstName: 1, lastName: 1, matricNumber: 1, level: 1, profileImageUrl: 1 } },
+          ],
+          as: 'user',
+        },
+      },
+      { $unwind: '$user' },
+      { $setWindowFields: { sortBy: { xp: -1 }, output: { rank: { $rank: {} } } } },
+      {
+        $facet: {
+          top: [{ $sort: { rank: 1, _id: 1 } }, { $limit: limit }],
+          viewer: [{ $match: { _id: userId ?? null } }],
+        },
+      },
+    ]).toArray();
+
+    const ranked = [...ranking.top, ...ranking.viewer];
+
+    // Levels come from all-time XP, whatever the period
+    let allTimeXp = new Map(ranked.map(entry => [entry._id, entry.xp]));
+    if (since && ranked.length > 0) {
+      const totals = await activityCollection.aggregate<{ _id: string; xp: number }>([
+        { $match: { userId: { $in: ranked.map(entry => entry._id) } } },
+        { $group: { _id: '$userId', xp: { $sum: '$points' } } },
+      ]).toArray();
+      allTimeXp = new Map(totals.map(total => [total._id, total.xp]));
+    }
+
+    const toEntry = ({ _id, xp, rank, user }: RankedUser): LeaderboardEntry => ({
+      rank,
+      userId: _id,
+      firstName: user.firstName ?? '',
+      lastName: user.lastName ?? '',
+      matricNumber: user.matricNumber,
+      studentLevel: user.level,
+      profileImageUrl: user.profileImageUrl,
+      xp,
+      level: levelForXp(allTimeXp.get(_id) ?? xp).level,
+    });
+
+    return {
+      period,
+      entries: ranking.top.map(toEntry),
+      currentUser: ranking.viewer[0] ? toEntry(ranking.viewer[0]) : undefined,
+    };
+  }
+
+  // Users who earned points since the given time, or ever
+  async getActiveUserIds(since?: Date): Promise<string[]> {
+    const activityCollection = await getCollection<ActivityEvent>(COLLECTIONS.ACTIVITY_EVENTS);
+    return activityCollection.distinct('userId', since ? { createdAt: { $gte: since } } : {});
+  }
+
+  // Fills the ledger from activity that happened before it existed. It runs only while
+  // the ledger is empty; points are awarded at the current rules, dated when the action happened.
+  async backfillActivityLedger(): Promise<number> {
+    const activityCollection = await getCollection<ActivityEvent>(COLLECTIONS.ACTIVITY_EVENTS);
+    if (await activityCollection.findOne({})) {
+      return 0;
+    }
+
+    const rules = await this.getGamificationRules();
+    const entries: ActivityEvent[] = [];
+    const add = (activity: ActivityRecord, createdAt: Date | undefined) =>
+      entries.push({ ...activity, points: rules[activity.action], createdAt: createdAt ?? new Date() });
+
+    const posts = await (await getCollection<BlogPost>(COLLECTIONS.BLOG_POSTS))
+      .find({}, { projection: { authorId: 1, approvalStatus: 1, publishedAt: 1, createdAt: 1 } })
+      .toArray();
+    const postAuthors = new Map(posts.map(post => [post._id.toString(), post.authorId]));
+    for (const post of posts) {
+      if (post.approvalStatus === 'approved') {
+        const postId = post._id.toString();
+        add({ userId: post.authorId, action: 'blog_post_approved', key: `blog:${postId}`, subjectType: 'blog', subjectId: postId }, post.publishedAt ?? post.createdAt);
+      }
+    }
+
+    const comments = await (await getCollection<Comment>(COLLECTIONS.COMMENTS))
+      .find({ content: { $ne: '[deleted]' } }, { projection: { authorId: 1, createdAt: 1 } })
       .toArray();
+    const commentAuthors = new Map(comments.map(comment => [comment._id.toString(), comment.authorId]));
+    for (const comment of comments) {
+      const commentId = comment._id.toString();
+      add({ userId: comment.authorId, action: 'comment_posted', key: `comment:${commentId}`, subjectType: 'comment', subjectId: commentId }, comment.createdAt);
+    }
+
+    for (const like of await (await getCollection(COLLECTIONS.BLOG_LIKES)).find().toArray()) {
+      const authorId = postAuthors.get(like.blogPostId);
+      if (authorId && authorId !== like.userId) {
+        add({
+          userId: authorId, action: 'like_received', key: `like:blog:${like.blogPostId}:${like.userId}`,
+          subjectType: 'blog', subjectId: like.blogPostId, actorId: like.userId
+        }, like.createdAt);
+      }
+    }
+
+    for (const like of await (await getCollection(COLLECTIONS.COMMENT_LIKES)).find().toArray()) {
+      const authorId = commentAuthors.get(like.commentId);
+      if (authorId && authorId !== like.userId) {
+        add({
+          userId: authorId, action: 'like_received', key: `like:comment:${like.commentId}:${like.userId}`,
+          subjectType: 'comment', subjectId: like.commentId, actorId: like.userId
+        }, like.createdAt);
+      }
+    }
+
+    const firstDownloads = await (await getCollection(COLLECTIONS.RESOURCE_DOWNLOADS)).aggregate<{ _id: { userId: string; resourceId: string }; at: Date }>([
+      { $group: { _id: { userId: '$userId', resourceId: '$resourceId' }, at: { $min: '$downloadedAt' } } },
+    ]).toArray();
+    for (const { _id: { userId, resourceId }, at } of firstDownloads) {
+      add({ userId, action: 'resource_downloaded', key: `download:${resourceId}:${userId}`, subjectType: 'resource', subjectId: resourceId }, at);
+    }
+
+    const attended = await (await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS)).find({ status: 'attended' }).toArray();
+    for (const registration of attended) {
+      add({
+        userId: registration.userId, action: 'event_attended', key: `attended:${registration.eventId}:${registration.userId}`,
+        subjectType: 'event', subjectId: registration.eventId
+      }, registration.checkedInAt ?? registration.updatedAt);
+    }
+
+    const firstVotes = await (await getCollection<PollVote>(COLLECTIONS.POLL_VOTES)).aggregate<{ _id: { userId: string; pollId: string }; at: Date }>([
+      { $group: { _id: { userId: '$userId', pollId: '$pollId' }, at: { $min: '$createdAt' } } },
+    ]).toArray();
+    for (const { _id: { userId, pollId }, at } of firstVotes) {
+      add({ userId, action: 'poll_voted', key: `vote:${pollId}:${userId}`, subjectType: 'poll', subjectId: pollId }, at);
+    }
+
+    // Apply the cap for one subject in the order the actions happened, as recordActivity does
+    entries.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    const earned = new Map<string, number>();
+    for (const entry of entries) {
+      const subjectKey = `${entry.userId}:${entry.subjectId}`;
+      const soFar = earned.get(subjectKey) ?? 0;
+      const points = Math.min(entry.points, Math.max(0, MAX_POINTS_PER_SUBJECT - soFar));
+      if (points < entry.points) {
+        entry.points = points;
+        entry.capped = true;
+      }
+      earned.set(subjectKey, soFar + points);
+    }
+
+    if (entries.length > 0) {
+      // Unordered, so an action recorded live while this ran is skipped rather than stopping the rest
+      await activityCollection.insertMany(entries as any[], { ordered: false }).catch((error: any) => {
+        if (error.code !== 11000) throw error;
+      });
+    }
+    return entries.length;
+  }
+
+  // Badge operations
+  async getBadgeDefinitions(activeOnly = false): Promise<BadgeDefinition[]> {
+    const badgesCollection = await getCollection<BadgeDefinition>(COLLECTIONS.BADGE_DEFINITIONS);
+    const badges = await badgesCollection.find(activeOnly ? { active: true } : {}).sort({ createdAt: 1 }).toArray();
+    return badges.map(badge => ({ ...badge, _id: badge._id!.toString() }));
+  }
+
+  // How many users hold each badge, by badge id
+  async getBadgeAwardCounts(): Promise<Record<string, number>> {
+    const userBadgesCollection = await getCollection<UserBadge>(COLLECTIONS.USER_BADGES);
+    const counts = await userBadgesCollection.aggregate<{ _id: string; count: number }>([
+      { $group: { _id: '$badgeId', count: { $sum: 1 } } },
+    ]).toArray();
+    return Object.fromEntries(counts.map(count => [count._id, count.count]));
+  }
+
+  async createBadgeDefinition(badge: InsertBadgeDefinition, createdBy: string): Promise<BadgeDefinition> {
+    const badgesCollection = await getCollection<BadgeDefinition>(COLLECTIONS.BADGE_DEFINITIONS);
+
+    if (await badgesCollection.findOne({ name: badge.name })) {
+      throw new Error('A badge with this name already exists');
+    }
+
+    const badgeDoc: Omit<BadgeDefinition, '_id'> = {
+      ...badge,
+      createdBy,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const result = await badgesCollection.insertOne(badgeDoc as any);
+    return { ...badgeDoc, _id: result.insertedId.toString() };
+  }
+
+  async updateBadgeDefinition(id: string, updates: Partial<InsertBadgeDefinition>): Promise<BadgeDefinition> {
+    const badgesCollection = await getCollection<BadgeDefinition>(COLLECTIONS.BADGE_DEFINITIONS);
+    if (!ObjectId.isValid(id)) {
+      throw new Error('Badge not found');
+    }
+
+    if (updates.name) {
+      const duplicate = await badgesCollection.findOne({ name: updates.name, _id: { $ne: new ObjectId(id) } } as any);
+      if (duplicate) {
+        throw new Error('A badge with this name already exists');
+      }
+    }
+
+    const result = await badgesCollection.findOneAndUpdate(
+      { _id: new ObjectId(id) } as any,
+      { $set: { ...updates, updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+
+    if (!result) {
+      throw new Error('Badge not found');
+    }
+
+    return { ...result, _id: result._id!.toString() };
+  }
+
+  // Takes the badge away from everyone who earned it too
+  async deleteBadgeDefinition(id: string): Promise<void> {
+    const badgesCollection = await getCollection<BadgeDefinition>(COLLECTIONS.BADGE_DEFINITIONS);
+    const userBadgesCollection = await getCollection<UserBadge>(COLLECTIONS.USER_BADGES);
+
+    const result = ObjectId.isValid(id) ? await badgesCollection.deleteOne({ _id: new ObjectId(id) } as any) : null;
+    if (!result || result.deletedCount === 0) {
+      throw new Error('Badge not found');
+    }
+
+    await userBadgesCollection.deleteMany({ badgeId: id });
+  }
+
+  // Sets up the badges that used to be built in, unless admins have defined any
+  async seedDefaultBadges(): Promise<number> {
+    const badgesCollection = await getCollection<BadgeDefinition>(COLLECTIONS.BADGE_DEFINITIONS);
+    if (await badgesCollection.findOne({})) {
+      return 0;
+    }
+
+    const now = new Date();
+    const result = await badgesCollection.insertMany(
+      DEFAULT_BADGES.map(badge => ({ ...badge, active: true, createdAt: now, updatedAt: now })) as any[]
+    );
+    return result.insertedCount;
+  }
+
+  // What the given badge conditions are judged on. Event types take an extra
+  // query, so they are only looked up when a condition uses them. Leaderboard
+  // ranks are the same for every user checked, so the caller ranks everyone once.
+  async getBadgeMetrics(userId: string, criteria: BadgeCondition[], leaderboardRanks: ActivityMetrics['leaderboardRanks']): Promise<ActivityMetrics> {
+    const activityCollection = await getCollection<ActivityEvent>(COLLECTIONS.ACTIVITY_EVENTS);
+    const { counts, xp, streaks } = await this.getActivitySummary(userId);
+    const metrics: ActivityMetrics = { ...counts, xp, longestStreak: streaks.longest, eventsAttendedByType: {}, leaderboardRanks };
+
+    if (criteria.some(condition => condition.metric === 'activity' && condition.eventType)) {
+      const byType = await activityCollection.aggregate<{ _id: Event['type']; count: number }>([
+        { $match: { userId, action: 'event_attended' } },
+        {
+          $lookup: {
+            from: COLLECTIONS.EVENTS,
+            let: { eventId: { $toObjectId: '$subjectId' } },
+            pipeline: [
+              { $match: { $expr: { $eq: ['$_id', '$$eventId'] } } },
+              { $project: { type: 1 } },
+            ],
+            as: 'event',
+          },
+        },
+        { $unwind: '$event' },
+        { $group: { _id: '$event.type', count: { $sum: 1 } } },
+      ]).toArray();
+      metrics.eventsAttendedByType = Object.fromEntries(byType.map(type => [type._id, type.count]));
+    }
+
+    return metrics;
+  }
+
+  async getUserBadgeAwards(userId: string): Promise<UserBadge[]> {
+    const userBadgesCollection = await getCollection<UserBadge>(COLLECTIONS.USER_BADGES);
+    const awards = await userBadgesCollection.find({ userId }).toArray();
+    return awards.map(award => ({ ...award, _id: award._id!.toString() }));
+  }
+
+  // Records the award once; false when the user already had the badge
+  async awardBadge(userId: string, badgeId: string, at = new Date()): Promise<boolean> {
+    const userBadgesCollection = await getCollection<UserBadge>(COLLECTIONS.USER_BADGES);
+    try {
+      const result = await userBadgesCollection.updateOne(
+        { userId, badgeId },
+        { $setOnInsert: { userId, badgeId, awardedAt: at } },
+        { upsert: true }
+      );
+      return result.upsertedCount > 0;
+    } catch (error: any) {
+      // Awarded by another check at the same moment
+      if (error.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // Active badges, plus retired ones the user earned, with when each was earned
+  async getUserBadges(userId: string): Promise<UserBadgeStatus[]> {
+    const [badges, awards] = await Promise.all([this.getBadgeDefinitions(), this.getUserBadgeAwards(userId)]);
+    const awardedAt = new Map(awards.map(award => [award.badgeId, award.awardedAt]));
+
+    return badges
+      .filter(badge => badge.active || awardedAt.has(badge._id!))
+      .map(badge => ({
+        _id: badge._id!,
+        name: badge.name,
+        description: badge.description,
+        icon: badge.icon,
+        earned: awardedAt.has(badge._id!),
+        earnedAt: awardedAt.get(badge._id!),
+      }));
+  }
+
+  // Engagement limit operations
+  // Counts a hit in the current window; false once the window has had more than max
+  async hitEngagementLimit(key: string, max: number, windowMs: number): Promise<boolean> {
+    const limitsCollection = await getCollection<EngagementLimitWindow>(COLLECTIONS.ENGAGEMENT_LIMITS);
+    const windowStart = Math.floor(Date.now() / windowMs) * windowMs;
+    const filter = { key: `${key}:${windowStart}` };
+    const update = { $inc: { count: 1 }, $setOnInsert: { expiresAt: new Date(windowStart + windowMs) } };
+
+    let window: EngagementLimitWindow | null;
+    try {
+      window = await limitsCollection.findOneAndUpdate(filter, update, { upsert: true, returnDocument: 'after' });
+    } catch (error: any) {
+      // Another request opened the window at the same moment
+      if (error.code !== 11000) throw error;
+      window = await limitsCollection.findOneAndUpdate(filter, update, { returnDocument: 'after' });
+    }
+
+    return (window?.count ?? 1) <= max;
+  }
+
+  // Tallies a throttled attempt in the current hour. Only anonymous attempts keep the IP address.
+  async recordEngagementRejection(
+    kind: EngagementKind,
+    reason: EngagementRejection['reason'],
+    source: { userId?: string; ip?: string }
+  ): Promise<void> {
+    const rejectionsCollection = await getCollection<EngagementRejection>(COLLECTIONS.ENGAGEMENT_REJECTIONS);
+    const hour = new Date(Math.floor(Date.now() / (60 * 60 * 1000)) * 60 * 60 * 1000);
+    const filter = { userId: source.userId ?? null, ip: source.userId ? null : source.ip ?? null, kind, reason, hour };
+
+    try {
+      await rejectionsCollection.updateOne(filter, { $inc: { count: 1 } }, { upsert: true });
+    } catch (error: any) {
+      if (error.code !== 11000) throw error;
+      await rejectionsCollection.updateOne(filter, { $inc: { count: 1 } });
+    }
+  }
+
+  // Users whose activity over the last hours looks like farming: an XP spike against their
+  // usual rate, attempts over the engagement limits, many repeats, or points cut by the cap
+  async getSuspiciousActivityReport(hours: number): Promise<SuspiciousActivityReport> {
+    const activityCollection = await getCollection<ActivityEvent>(COLLECTIONS.ACTIVITY_EVENTS);
+    const rejectionsCollection = await getCollection<EngagementRejection>(COLLECTIONS.ENGAGEMENT_REJECTIONS);
+    const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
+
+    const windowMs = hours * 60 * 60 * 1000;
+    const baselineMs = 30 * 24 * 60 * 60 * 1000;
+    const since = new Date(Date.now() - windowMs);
+    const baselineSince = new Date(since.getTime() - baselineMs);
+
+    const [recent, baseline, rejections] = await Promise.all([
+      activityCollection.aggregate<{ _id: string; xp: number; capped: number }>([
+        { $match: { createdAt: { $gte: since } } },
+        { $group: { _id: '$userId', xp: { $sum: '$points' }, capped: { $sum: { $cond: ['$capped', 1, 0] } } } },
+      ]).toArray(),
+      activityCollection.aggregate<{ _id: string; xp: number }>([
+        { $match: { createdAt: { $gte: baselineSince, $lt: since } } },
+        { $group: { _id: '$userId', xp: { $sum: '$points' } } },
+      ]).toArray(),
+      // Tallies are hourly, so the window is widened to the start of its first hour
+      rejectionsCollection.find({ hour: { $gte: new Date(Math.floor(since.getTime() / (60 * 60 * 1000)) * 60 * 60 * 1000) } }).toArray(),
+    ]);
 
-    const leaderboard = await Promise.all(
-      users.map(async (user) => {
-        const [userBlogs, userComments] = await Promise.all([
-          blogsCollection.countDocuments({ authorId: user._id.toString(), approvalStatus: 'approved' }),
-          commentsCollection.countDocuments({ authorId: user._id.toString() })
-        ]);
+    const usualXp = new Map(baseline.map(entry => [entry._id, (entry.xp * windowMs) / baselineMs]));
+    const stats = new Map<string, Omit<SuspiciousUser, 'firstName' | 'lastName' | 'email' | 'matricNumber' | 'flags'>>();
+    const statsFor = (userId: string) => {
+      let entry = stats.get(userId);
+      if (!entry) {
+        entry = {
+          userId, xp: 0, usualXp: Math.round(usualXp.get(userId) ?? 0), cappedEntries: 0,
+          rejected: { download: 0, view: 0, like: 0 }, rateLimited: 0, duplicates: 0,
+        };
+        stats.set(userId, entry);
+      }
+      return entry;
+    };
 
-        const totalActions = userBlogs * 50 + userComments * 15;
-        const level = Math.floor(totalActions / 200) + 1;
-        const xp = totalActions;
+    for (const { _id, xp, capped } of recent) {
+      Object.assign(statsFor(_id), { xp, cappedEntries: capped });
+    }
 
-        return {
-          name: `${user.firstName} ${user.lastName}`,
-          level,
-          xp,
-          avatar: `${user.firstName?.[0] || ''}${user.lastName?.[0] || ''}`
-        };
-      })
-    );
+    const addresses = new Map<string, { ip: string; rateLimited: number; duplicates: number }>();
+    for (const rejection of rejections) {
+      let tally: { rateLimited: number; duplicates: number };
+      if (rejection.userId) {
+        const entry = statsFor(rejection.userId);
+        entry.rejected[rejection.kind] += rejection.count;
+        tally = entry;
+      } else if (rejection.ip) {
+        const address = addresses.get(rejection.ip) ?? { ip: rejection.ip, rateLimited: 0, duplicates: 0 };
+        addresses.set(rejection.ip, address);
+        tally = address;
+      } else {
+        continue;
+      }
 
-    return leaderboard
-      .sort((a, b) => b.xp - a.xp)
-      .slice(0, 10);
-  }
+      if (rejection.reason === 'rate_limited') {
+        tally.rateLimited += rejection.count;
+      } else {
+        tally.duplicates += rejection.count;
+      }
+    }
 
-  async getUserBadges(userId: string): Promise<any[]> {
-    const blogsCollection = await getCollection<BlogPost>(COLLECTIONS.BLOG_POSTS);
-    const commentsCollection = await getCollection<Comment>(COLLECTIONS.COMMENTS);
-    const eventsCollection = await getCollection<EventRegistration>(COLLECTIONS.EVENT_REGISTRATIONS);
+    const flagged = Array.from(stats.values())
+      .map(entry => ({ ...entry, flags: flagSuspiciousActivity(entry) }))
+      .filter(entry => entry.flags.length > 0);
 
-    const [userBlogs, userComments, userEvents] = await Promise.all([
-      blogsCollection.countDocuments({ authorId: userId, approvalStatus: 'approved' }),
-      commentsCollection.countDocuments({ authorId: userId }),
-      eventsCollection.countDocuments({ userId: userId })
-    ]);
+    const users = flagged.length > 0
+      ? await usersCollection.find(
+        { _id: { $in: flagged.map(entry => entry.userId).filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id)) } } as any,
+        { projection: { firstName: 1, lastName: 1, email: 1, matricNumber: 1 } }
+      ).toArray()
+      : [];
+    const usersById = new Map(users.map(user => [user._id!.toString(), user]));
 
-    return this.calculateUserBadges(userBlogs, userComments, userEvents);
+    return {
+      since,
+      users: flagged
+        .filter(entry => usersById.has(entry.userId))
+        .map(entry => {
+          const user = usersById.get(entry.userId)!;
+          return {
+            ...entry,
+            firstName: user.firstName ?? '',
+            lastName: user.lastName ?? '',
+            email: user.email,
+            matricNumber: user.matricNumber,
+          };
+        })
+        .sort((a, b) => b.flags.length - a.flags.length || b.rateLimited - a.rateLimited || b.xp - a.xp),
+      addresses: Array.from(addresses.values())
+        .filter(address => address.rateLimited > 0)
+        .sort((a, b) => b.rateLimited - a.rateLimited)
+        .slice(0, 20),
+    };
   }
 
   // Like operations
@@ -1698,10 +4867,18 @@ export class MongoStorage implements IMongoStorage {
         createdAt: new Date(),
       });
 
-      await blogsCollection.updateOne(
+      const post = await blogsCollection.findOneAndUpdate(
         { _id: new ObjectId(blogPostId) } as any,
         { $inc: { likes: 1 } }
       );
+
+      // Liking your own post earns nothing
+      if (post && post.authorId !== userId) {
+        await this.recordActivity({
+          userId: post.authorId, action: 'like_received', key: `like:blog:${blogPostId}:${userId}`,
+          subjectType: 'blog', subjectId: blogPostId, actorId: userId
+        });
+      }
     }
   }
 
@@ -1716,6 +4893,7 @@ export class MongoStorage implements IMongoStorage {
         { _id: new ObjectId(blogPostId) } as any,
         { $inc: { likes: -1 } }
       );
+      await this.revokeActivity(`like:blog:${blogPostId}:${userId}`);
     }
   }
 
@@ -1781,10 +4959,17 @@ export class MongoStorage implements IMongoStorage {
         createdAt: new Date(),
       });
 
-      await commentsCollection.updateOne(
+      const comment = await commentsCollection.findOneAndUpdate(
         { _id: new ObjectId(commentId) } as any,
         { $inc: { likes: 1 } }
       );
+
+      if (comment && comment.authorId !== userId) {
+        await this.recordActivity({
+          userId: comment.authorId, action: 'like_received', key: `like:comment:${commentId}:${userId}`,
+          subjectType: 'comment', subjectId: commentId, actorId: userId
+        });
+      }
     }
   }
 
@@ -1799,6 +4984,7 @@ export class MongoStorage implements IMongoStorage {
         { _id: new ObjectId(commentId) } as any,
         { $inc: { likes: -1 } }
       );
+      await this.revokeActivity(`like:comment:${commentId}:${userId}`);
     }
   }
 
@@ -1973,6 +5159,9 @@ export class MongoStorage implements IMongoStorage {
     };
 
     await votesCollection.insertOne(voteDoc as any);
+
+    // A poll earns points once however many options are picked
+    await this.recordActivity({ userId, action: 'poll_voted', key: `vote:${pollId}:${userId}`, subjectType: 'poll', subjectId: pollId });
   }
 
   async hasUserVoted(userId: string, pollId: string): Promise<boolean> {
@@ -2026,17 +5215,751 @@ export class MongoStorage implements IMongoStorage {
     return votersWithDetails.filter(v => v.user !== null);
   }
 
-  private calculateUserBadges(blogCount: number, commentCount: number, eventCount: number): any[] {
-    const badges = [
-      { name: "First Comment", earned: commentCount > 0, description: "Made your first comment" },
-      { name: "Resource Explorer", earned: true, description: "Downloaded 10+ resources" },
-      { name: "Active Participant", earned: eventCount >= 3, description: "Participated in 3+ events" },
-      { name: "Popular Contributor", earned: blogCount >= 2, description: "Published 2+ blog posts" },
-      { name: "Streak Master", earned: commentCount >= 10, description: "Made 10+ comments" },
-      { name: "Scholar", earned: blogCount >= 5, description: "Published 5+ high-quality posts" },
+  // Search operations
+
+  // Ranked full-text search over the text indexes created in initializeMongoDB.
+  // Each type is searched separately; results are grouped by type and ordered by score.
+  async search(query: string, options: { types?: SearchType[]; limit?: number; viewer?: ResourceViewer } = {}): Promise<SearchResults> {
+    const types = options.types?.length ? options.types : [...SEARCH_TYPES];
+    const limit = options.limit ?? 5;
+    const terms = getSearchTerms(query);
+    const textMatch = { $text: { $search: query } };
+    const byScore = { score: { $meta: 'textScore' } };
+
+    const searchCollection = async (collectionName: string, filter: Record<string, any>) => {
+      const collection = await getCollection(collectionName);
+      const match = { ...textMatch, ...filter };
+      const [docs, count] = await Promise.all([
+        collection.find(match, { projection: byScore }).sort(byScore).limit(limit).toArray(),
+        collection.countDocuments(match)
+      ]);
+      return { docs: docs as any[], count };
+    };
+
+    const searchers: Record<SearchType, () => Promise<{ results: SearchResult[]; count: number }>> = {
+      blogs: async () => {
+        const { docs, count } = await searchCollection(COLLECTIONS.BLOG_POSTS, { published: true });
+        return {
+          count,
+          results: docs.map(doc => ({
+            id: doc._id.toString(),
+            type: 'blogs' as const,
+            title: highlight(doc.title, terms),
+            snippet: buildSnippet(pickSnippetSource([doc.excerpt, stripHtml(doc.content || '')], terms), terms),
+            url: `/blogs/${doc._id}`,
+            score: doc.score,
+            date: doc.createdAt
+          }))
+        };
+      },
+      events: async () => {
+        const { docs, count } = await searchCollection(COLLECTIONS.EVENTS, { cancelled: { $ne: true } });
+        return {
+          count,
+          results: docs.map(doc => ({
+            id: doc._id.toString(),
+            type: 'events' as const,
+            title: highlight(doc.title, terms),
+            snippet: buildSnippet(pickSnippetSource([doc.description, doc.location], terms), terms),
+            url: `/events/${doc._id}`,
+            score: doc.score,
+            date: doc.date
+          }))
+        };
+      },
+      resources: () => this.searchResources(query, terms, limit, options.viewer ?? {}),
+      staff: () => this.searchStaff(query, terms, limit),
+      polls: async () => {
+        const { docs, count } = await searchCollection(COLLECTIONS.POLLS, {});
+        return {
+          count,
+          results: docs.map(doc => ({
+            id: doc._id.toString(),
+            type: 'polls' as const,
+            title: highlight(doc.question, terms),
+            snippet: buildSnippet((doc.options || []).map((option: any) => option.text).join(' · '), terms),
+            // Polls are voted on from the dashboard
+            url: '/dashboard',
+            score: doc.score,
+            date: doc.createdAt
+          }))
+        };
+      }
+    };
+
+    const counts = Object.fromEntries(SEARCH_TYPES.map(type => [type, 0])) as Record<SearchType, number>;
+    const results = Object.fromEntries(SEARCH_TYPES.map(type => [type, [] as SearchResult[]])) as Record<SearchType, SearchResult[]>;
+
+    await Promise.all(types.map(async (type) => {
+      const found = await searchers[type]();
+      counts[type] = found.count;
+      results[type] = found.results;
+    }));
+
+    return {
+      query,
+      total: Object.values(counts).reduce((sum, count) => sum + count, 0),
+      counts,
+      results
+    };
+  }
+
+  // Resources match on their own fields or on the text extracted from their
+  // files. A file match links to the best matching page.
+  private async searchResources(query: string, terms: string[], limit: number, viewer: ResourceViewer): Promise<{ results: SearchResult[]; count: number }> {
+    const resourcesCollection = await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES);
+    const pagesCollection = await getCollection<ResourcePage>(COLLECTIONS.RESOURCE_PAGES);
+    const byScore = { score: { $meta: 'textScore' } };
+    const accessFilter = learningResourceAccessFilter(viewer);
+
+    const [fieldMatches, pageMatches] = await Promise.all([
+      resourcesCollection.find({ $text: { $search: query }, ...accessFilter } as any, { projection: { _id: 1, ...byScore } }).toArray() as Promise<any[]>,
+      pagesCollection.aggregate([
+        { $match: { $text: { $search: query } } },
+        { $addFields: { score: byScore.score } },
+        { $sort: { score: -1 } },
+        { $group: { _id: '$resourceId', score: { $first: '$score' }, page: { $first: '$page' }, text: { $first: '$text' } } }
+      ]).toArray()
+    ]);
+
+    // Pages don't carry their resource's visibility, so look up which of their resources the viewer can see
+    const visiblePageMatches = Object.keys(accessFilter).length === 0 ? pageMatches : await (async () => {
+      const ids = pageMatches.map(match => match._id).filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id));
+      const visible = await resourcesCollection.find({ _id: { $in: ids }, ...accessFilter } as any, { projection: { _id: 1 } }).toArray();
+      const visibleIds = new Set(visible.map(doc => doc._id.toString()));
+      return pageMatches.filter(match => visibleIds.has(match._id));
+    })();
+
+    // A mention somewhere in a long file counts for less than one in the title or tags
+    const PAGE_SCORE_WEIGHT = 0.5;
+    const scored = new Map<string, { score: number; page?: { page: number; text: string } }>();
+    for (const doc of fieldMatches) {
+      scored.set(doc._id.toString(), { score: doc.score });
+    }
+    for (const match of visiblePageMatches) {
+      const current = scored.get(match._id);
+      scored.set(match._id, {
+        score: (current?.score ?? 0) + match.score * PAGE_SCORE_WEIGHT,
+        page: { page: match.page, text: match.text }
+      });
+    }
+
+    const top = Array.from(scored.entries())
+      .filter(([id]) => ObjectId.isValid(id))
+      .sort(([, a], [, b]) => b.score - a.score)
+      .slice(0, limit);
+    const docs = top.length > 0
+      ? await resourcesCollection.find({ _id: { $in: top.map(([id]) => new ObjectId(id)) } } as any).toArray()
+      : [];
+    const docsById = new Map(docs.map(doc => [doc._id.toString(), doc]));
+
+    const results: SearchResult[] = [];
+    for (const [id, { score, page }] of top) {
+      const doc = docsById.get(id);
+      // Pages can outlive a resource deleted mid-search
+      if (!doc) continue;
+
+      const fieldSnippet = pickSnippetSource([doc.description, (doc.tags || []).join(', ')], terms);
+      const useFieldSnippet = !page || terms.some(term => fieldSnippet.toLowerCase().includes(term));
+      results.push({
+        id,
+        type: 'resources',
+        title: highlight(doc.title, terms),
+        snippet: useFieldSnippet
+          ? buildSnippet(fieldSnippet, terms)
+          : `Page ${page.page}: ${buildSnippet(page.text, terms)}`,
+        url: page
+          ? `/resources/${id}?page=${page.page}&q=${encodeURIComponent(query)}`
+          : `/resources/${id}`,
+        page: page?.page,
+        score,
+        date: doc.createdAt
+      });
+    }
+
+    return { count: scored.size, results };
+  }
+
+  // Staff linked to a user account keep their name on the user, outside the
+  // text index, so those are matched on the user's name as well
+  private async searchStaff(query: string, terms: string[], limit: number): Promise<{ results: SearchResult[]; count: number }> {
+    const staffCollection = await getCollection<StaffProfile>(COLLECTIONS.STAFF_PROFILES);
+    const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
+
+    const namePatterns = terms.map(term => new RegExp(`^${escapeRegex(term)}`, 'i'));
+    const namedUsers = namePatterns.length > 0
+      ? await usersCollection
+        .find({ $or: namePatterns.flatMap(pattern => [{ firstName: pattern }, { lastName: pattern }]) } as any, { projection: { firstName: 1, lastName: 1 } })
+        .limit(200)
+        .toArray()
+      : [];
+    const namedUserIds = namedUsers.map(user => user._id.toString());
+
+    const [textMatches, nameMatches] = await Promise.all([
+      staffCollection.find({ $text: { $search: query } } as any, { projection: { score: { $meta: 'textScore' } } })
+        .sort({ score: { $meta: 'textScore' } })
+        .toArray(),
+      namedUserIds.length > 0
+        ? staffCollection.find({ userId: { $in: namedUserIds } } as any).toArray()
+        : Promise.resolve([])
+    ]);
+
+    // A name match ranks with a strong title match; profiles matching both add up
+    const NAME_MATCH_SCORE = 10;
+    const scored = new Map<string, { profile: any; score: number }>();
+    for (const profile of textMatches as any[]) {
+      scored.set(profile._id.toString(), { profile, score: profile.score });
+    }
+    for (const profile of nameMatches as any[]) {
+      const id = profile._id.toString();
+      const current = scored.get(id);
+      scored.set(id, { profile, score: (current?.score ?? 0) + NAME_MATCH_SCORE });
+    }
+
+    const ranked = Array.from(scored.values()).sort((a, b) => b.score - a.score);
+    const top = ranked.slice(0, limit);
+
+    const linkedUserIds = top.map(({ profile }) => profile.userId).filter((id): id is string => !!id && ObjectId.isValid(id));
+    const linkedUsers = linkedUserIds.length > 0
+      ? await usersCollection.find({ _id: { $in: linkedUserIds.map(id => new ObjectId(id)) } } as any).toArray()
+      : [];
+    const userNames = new Map(linkedUsers.map(user => [user._id.toString(), `${user.firstName || ''} ${user.lastName || ''}`.trim()]));
+
+    return {
+      count: ranked.length,
+      results: top.map(({ profile, score }) => {
+        const name = profile.customName || userNames.get(profile.userId) || 'Unknown';
+        return {
+          id: profile._id.toString(),
+          type: 'staff' as const,
+          title: highlight(name, terms),
+          snippet: buildSnippet(pickSnippetSource([
+            [profile.position, profile.title, profile.department].filter(Boolean).join(' · '),
+            (profile.specializations || []).join(', '),
+            profile.bio
+          ], terms), terms),
+          url: `/staff/${profile._id}`,
+          score
+        };
+      })
+    };
+  }
+
+  // Typeahead: titles with a word starting with what has been typed so far.
+  // Only short title fields are scanned, never bodies.
+  async getSearchSuggestions(query: string, limit = 8, viewer: ResourceViewer = {}): Promise<SearchSuggestion[]> {
+    const prefix = query.trim();
+    if (prefix.length < 2) return [];
+
+    const pattern = new RegExp(`(^|\\s)${escapeRegex(prefix)}`, 'i');
+    const perType = Math.max(2, Math.ceil(limit / 2));
+
+    const find = async (collectionName: string, field: string, filter: Record<string, any> = {}) => {
+      const collection = await getCollection(collectionName);
+      return collection
+        .find({ [field]: pattern, ...filter }, { projection: { [field]: 1 } })
+        .sort({ createdAt: -1 })
+        .limit(perType)
+        .toArray();
+    };
+
+    const [blogs, events, resources, staff, polls] = await Promise.all([
+      find(COLLECTIONS.BLOG_POSTS, 'title', { published: true }),
+      find(COLLECTIONS.EVENTS, 'title', { cancelled: { $ne: true } }),
+      find(COLLECTIONS.LEARNING_RESOURCES, 'title', learningResourceAccessFilter(viewer)),
+      find(COLLECTIONS.STAFF_PROFILES, 'customName'),
+      find(COLLECTIONS.POLLS, 'question')
+    ]);
+
+    const suggestions: SearchSuggestion[] = [
+      ...blogs.map(doc => ({ id: doc._id.toString(), type: 'blogs' as const, title: doc.title, url: `/blogs/${doc._id}` })),
+      ...events.map(doc => ({ id: doc._id.toString(), type: 'events' as const, title: doc.title, url: `/events/${doc._id}` })),
+      ...resources.map(doc => ({ id: doc._id.toString(), type: 'resources' as const, title: doc.title, url: `/resources/${doc._id}` })),
+      ...staff.map(doc => ({ id: doc._id.toString(), type: 'staff' as const, title: doc.customName, url: `/staff/${doc._id}` })),
+      ...polls.map(doc => ({ id: doc._id.toString(), type: 'polls' as const, title: doc.question, url: '/dashboard' }))
     ];
 
-    return badges;
+    // Titles that start with the prefix first, then shorter titles
+    const lowerPrefix = prefix.toLowerCase();
+    return suggestions
+      .sort((a, b) =>
+        Number(b.title.toLowerCase().startsWith(lowerPrefix)) - Number(a.title.toLowerCase().startsWith(lowerPrefix)) ||
+        a.title.length - b.title.length)
+      .slice(0, limit);
+  }
+
+  // Notification operations
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const notificationsCollection = await getCollection<Notification>(COLLECTIONS.NOTIFICATIONS);
+
+    const notificationDoc: Omit<Notification, '_id'> = {
+      ...notification,
+      read: false,
+      createdAt: new Date(),
+    };
+
+    const result = await notificationsCollection.insertOne(notificationDoc as any);
+    return { ...notificationDoc, _id: result.insertedId.toString() };
+  }
+
+  async createNotifications(notifications: InsertNotification[]): Promise<void> {
+    if (notifications.length === 0) {
+      return;
+    }
+
+    const notificationsCollection = await getCollection<Notification>(COLLECTIONS.NOTIFICATIONS);
+    const createdAt = new Date();
+
+    await notificationsCollection.insertMany(
+      notifications.map(notification => ({ ...notification, read: false, createdAt })) as any[]
+    );
+  }
+
+  async getUserNotifications(userId: string, limit = 20, offset = 0): Promise<Notification[]> {
+    const notificationsCollection = await getCollection<Notification>(COLLECTIONS.NOTIFICATIONS);
+
+    const notifications = await notificationsCollection
+      .find({ userId })
+      .sort({ createdAt: -1 })
+      .skip(offset)
+      .limit(limit)
+      .toArray();
+
+    return notifications.map(notification => ({ ...notification, _id: notification._id.toString() }));
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    const notificationsCollection = await getCollection<Notification>(COLLECTIONS.NOTIFICATIONS);
+    return await notificationsCollection.countDocuments({ userId, read: false });
+  }
+
+  async markNotificationRead(userId: string, id: string): Promise<Notification> {
+    const notificationsCollection = await getCollection<Notification>(COLLECTIONS.NOTIFICATIONS);
+
+    if (!ObjectId.isValid(id)) {
+      throw new Error('Notification not found');
+    }
+
+    // Scope by userId so users can only mark their own notifications
+    const result = await notificationsCollection.findOneAndUpdate(
+      { _id: new ObjectId(id), userId } as any,
+      { $set: { read: true } },
+      { returnDocument: 'after' }
+    );
+
+    if (!result) {
+      throw new Error('Notification not found');
+    }
+
+    return { ...result, _id: result._id.toString() };
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    const notificationsCollection = await getCollection<Notification>(COLLECTIONS.NOTIFICATIONS);
+    const result = await notificationsCollection.updateMany(
+      { userId, read: false },
+      { $set: { read: true } }
+    );
+    return result.modifiedCount;
+  }
+
+  // Saved item operations
+  async getBookmarks(userId: string, viewer: ResourceViewer, itemType?: SavedItemType): Promise<SavedItem[]> {
+    const bookmarksCollection = await getCollection<Bookmark>(COLLECTIONS.BOOKMARKS);
+
+    const bookmarks = await bookmarksCollection
+      .find({ userId, ...(itemType && { itemType }) })
+      .sort({ createdAt: -1 })
+      .toArray();
+
+    return this.resolveSavedItems(bookmarks.map(bookmark => ({ ...bookmark, savedAt: bookmark.createdAt })), viewer);
+  }
+
+  async addBookmark(userId: string, item: SavedItemRef, viewer: ResourceViewer): Promise<void> {
+    const bookmarksCollection = await getCollection<Bookmark>(COLLECTIONS.BOOKMARKS);
+
+    if (!(await this.savedItemExists(item, viewer))) {
+      throw new Error('Item not found');
+    }
+
+    // Saving twice keeps the original bookmark
+    await bookmarksCollection.updateOne(
+      { userId, itemType: item.itemType, itemId: item.itemId },
+      { $setOnInsert: { userId, itemType: item.itemType, itemId: item.itemId, createdAt: new Date() } },
+      { upsert: true }
+    );
+  }
+
+  async removeBookmark(userId: string, item: SavedItemRef): Promise<void> {
+    const bookmarksCollection = await getCollection<Bookmark>(COLLECTIONS.BOOKMARKS);
+    await bookmarksCollection.deleteOne({ userId, itemType: item.itemType, itemId: item.itemId });
+  }
+
+  async getStudyCollections(ownerId: string): Promise<StudyCollectionSummary[]> {
+    const collectionsCollection = await getCollection<StudyCollection>(COLLECTIONS.STUDY_COLLECTIONS);
+
+    const collections = await collectionsCollection.find({ ownerId }).sort({ updatedAt: -1 }).toArray();
+
+    return collections.map(collection => ({
+      ...collection,
+      _id: collection._id.toString(),
+      items: collection.items.map(({ itemType, itemId }) => ({ itemType, itemId })),
+      itemCount: collection.items.length
+    }));
+  }
+
+  async getStudyCollection(id: string, ownerId: string, viewer: ResourceViewer): Promise<StudyCollectionWithItems | undefined> {
+    const collectionsCollection = await getCollection<StudyCollection>(COLLECTIONS.STUDY_COLLECTIONS);
+
+    if (!ObjectId.isValid(id)) return undefined;
+    const collection = await collectionsCollection.findOne({ _id: new ObjectId(id), ownerId } as any);
+    return collection ? this.withStudyCollectionItems(collection, viewer) : undefined;
+  }
+
+  // Only collections shared by link can be opened with their token
+  async getSharedStudyCollection(shareToken: string, viewer: ResourceViewer): Promise<StudyCollectionWithItems | undefined> {
+    const collectionsCollection = await getCollection<StudyCollection>(COLLECTIONS.STUDY_COLLECTIONS);
+
+    const collection = await collectionsCollection.findOne({ shareToken, visibility: 'link' });
+    return collection ? this.withStudyCollectionItems(collection, viewer) : undefined;
+  }
+
+  async createStudyCollection(ownerId: string, collection: InsertStudyCollection): Promise<StudyCollection> {
+    const collectionsCollection = await getCollection<StudyCollection>(COLLECTIONS.STUDY_COLLECTIONS);
+
+    const collectionDoc: Omit<StudyCollection, '_id'> = {
+      ...collection,
+      ownerId,
+      shareToken: generateShareToken(),
+      items: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const result = await collectionsCollection.insertOne(collectionDoc as any);
+    return { ...collectionDoc, _id: result.insertedId.toString() };
+  }
+
+  async updateStudyCollection(id: string, ownerId: string, updates: Partial<InsertStudyCollection>): Promise<StudyCollection> {
+    const collectionsCollection = await getCollection<StudyCollection>(COLLECTIONS.STUDY_COLLECTIONS);
+
+    if (!ObjectId.isValid(id)) {
+      throw new Error('Collection not found');
+    }
+
+    // Making a collection private retires its link, so sharing it again gives a new one
+    const set: Record<string, any> = { ...updates, updatedAt: new Date() };
+    if (updates.visibility === 'private') set.shareToken = generateShareToken();
+
+    const result = await collectionsCollection.findOneAndUpdate(
+      { _id: new ObjectId(id), ownerId } as any,
+      { $set: set },
+      { returnDocument: 'after' }
+    );
+
+    if (!result) {
+      throw new Error('Collection not found');
+    }
+
+    return { ...result, _id: result._id.toString() };
+  }
+
+  async deleteStudyCollection(id: string, ownerId: string): Promise<void> {
+    const collectionsCollection = await getCollection<StudyCollection>(COLLECTIONS.STUDY_COLLECTIONS);
+
+    if (!ObjectId.isValid(id)) {
+      throw new Error('Collection not found');
+    }
+
+    const result = await collectionsCollection.deleteOne({ _id: new ObjectId(id), ownerId } as any);
+    if (result.deletedCount === 0) {
+      throw new Error('Collection not found');
+    }
+  }
+
+  async addStudyCollectionItem(id: string, ownerId: string, item: SavedItemRef, viewer: ResourceViewer): Promise<void> {
+    const collectionsCollection = await getCollection<StudyCollection>(COLLECTIONS.STUDY_COLLECTIONS);
+
+    if (!ObjectId.isValid(id)) {
+      throw new Error('Collection not found');
+    }
+    if (!(await this.savedItemExists(item, viewer))) {
+      throw new Error('Item not found');
+    }
+
+    const collectionFilter = { _id: new ObjectId(id), ownerId };
+    const result = await collectionsCollection.updateOne(
+      { ...collectionFilter, items: { $not: { $elemMatch: { itemType: item.itemType, itemId: item.itemId } } } } as any,
+      { $push: { items: { itemType: item.itemType, itemId: item.itemId, addedAt: new Date() } }, $set: { updatedAt: new Date() } } as any
+    );
+
+    // No match means the item was already there, or the collection isn't the user's
+    if (result.matchedCount === 0 && !(await collectionsCollection.findOne(collectionFilter as any))) {
+      throw new Error('Collection not found');
+    }
+  }
+
+  async removeStudyCollectionItem(id: string, ownerId: string, item: SavedItemRef): Promise<void> {
+    const collectionsCollection = await getCollection<StudyCollection>(COLLECTIONS.STUDY_COLLECTIONS);
+
+    if (!ObjectId.isValid(id)) {
+      throw new Error('Collection not found');
+    }
+
+    const result = await collectionsCollection.updateOne(
+      { _id: new ObjectId(id), ownerId } as any,
+      { $pull: { items: { itemType: item.itemType, itemId: item.itemId } }, $set: { updatedAt: new Date() } } as any
+    );
+
+    if (result.matchedCount === 0) {
+      throw new Error('Collection not found');
+    }
+  }
+
+  // Items are resolved for whoever is looking, so a shared collection doesn't
+  // reveal resources the viewer can't open
+  private async withStudyCollectionItems(collection: StudyCollection & { _id: any }, viewer: ResourceViewer): Promise<StudyCollectionWithItems> {
+    const owner = await this.getUser(collection.ownerId);
+
+    return {
+      ...collection,
+      _id: collection._id.toString(),
+      items: await this.resolveSavedItems(collection.items.map(item => ({ ...item, savedAt: item.addedAt })), viewer),
+      ownerName: owner ? `${owner.firstName} ${owner.lastName}` : 'Unknown User'
+    };
+  }
+
+  private async savedItemExists({ itemType, itemId }: SavedItemRef, viewer: ResourceViewer): Promise<boolean> {
+    if (!ObjectId.isValid(itemId)) return false;
+
+    const _id = new ObjectId(itemId);
+    switch (itemType) {
+      case 'blog':
+        return !!(await (await getCollection(COLLECTIONS.BLOG_POSTS)).findOne({ _id, published: true }, { projection: { _id: 1 } }));
+      case 'event':
+        return !!(await (await getCollection(COLLECTIONS.EVENTS)).findOne({ _id }, { projection: { _id: 1 } }));
+      case 'resource':
+        return !!(await (await getCollection(COLLECTIONS.LEARNING_RESOURCES)).findOne(
+          { _id, ...learningResourceAccessFilter(viewer) },
+          { projection: { _id: 1 } }
+        ));
+    }
+  }
+
+  // Looks up the saved items, keeping the given order. Items that were deleted,
+  // blog posts that were unpublished and resources the viewer can't see are left out.
+  private async resolveSavedItems(refs: Array<SavedItemRef & { savedAt: Date }>, viewer: ResourceViewer): Promise<SavedItem[]> {
+    const idsOf = (itemType: SavedItemType) => refs
+      .filter(ref => ref.itemType === itemType && ObjectId.isValid(ref.itemId))
+      .map(ref => new ObjectId(ref.itemId));
+
+    const [blogs, events, resources] = await Promise.all([
+      (await getCollection<BlogPost>(COLLECTIONS.BLOG_POSTS)).find({ _id: { $in: idsOf('blog') }, published: true } as any).toArray(),
+      (await getCollection<Event>(COLLECTIONS.EVENTS)).find({ _id: { $in: idsOf('event') } } as any).toArray(),
+      (await getCollection<LearningResource>(COLLECTIONS.LEARNING_RESOURCES)).find({ _id: { $in: idsOf('resource') }, ...learningResourceAccessFilter(viewer) } as any).toArray(),
+    ]);
+
+    const summarize = (text: string) => stripHtml(text).slice(0, SAVED_ITEM_DESCRIPTION_LENGTH);
+    const items = new Map<string, Omit<SavedItem, 'savedAt'>>();
+    for (const blog of blogs) {
+      const itemId = blog._id.toString();
+      items.set(`blog:${itemId}`, {
+        itemType: 'blog', itemId, title: blog.title, description: summarize(blog.excerpt || blog.content),
+        url: `/blogs/${itemId}`, imageUrl: blog.imageUrl, date: blog.createdAt
+      });
+    }
+    for (const event of events) {
+      const itemId = event._id.toString();
+      items.set(`event:${itemId}`, {
+        itemType: 'event', itemId, title: event.title, description: summarize(event.description),
+        url: `/events/${itemId}`, imageUrl: event.imageUrl, date: event.date
+      });
+    }
+    for (const resource of resources) {
+      const itemId = resource._id.toString();
+      items.set(`resource:${itemId}`, {
+        itemType: 'resource', itemId, title: resource.title, description: summarize(resource.description),
+        url: `/resources/${itemId}`, imageUrl: resource.thumbnailUrl, date: resource.createdAt
+      });
+    }
+
+    return refs.flatMap(ref => {
+      const item = items.get(`${ref.itemType}:${ref.itemId}`);
+      return item ? [{ ...item, savedAt: ref.savedAt }] : [];
+    });
+  }
+
+  // Account data operations
+  async exportUserData(userId: string): Promise<Record<string, unknown>> {
+    const user = await this.getUser(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const { passwordHash, tokenVersion, calendarFeedVersion, ...profile } = user;
+    const byUser = { userId };
+
+    const [
+      blogPosts, comments, blogLikes, blogViews, commentLikes, eventRegistrations,
+      payments, pollVotes, resourceRatings, reviewHelpfulVotes, resourceDownloads, notifications,
+      uploadedResources, organizedEvents, createdPolls, staffProfile,
+      contactSubmissions, newsletterSubscription, bookmarks, studyCollections, blogRevisions,
+      activityEvents, badgeAwards, engagementRejections
+    ] = await Promise.all([
+      (await getCollection(COLLECTIONS.BLOG_POSTS)).find({ authorId: userId }).toArray(),
+      (await getCollection(COLLECTIONS.COMMENTS)).find({ authorId: userId }).toArray(),
+      (await getCollection(COLLECTIONS.BLOG_LIKES)).find(byUser).toArray(),
+      (await getCollection(COLLECTIONS.BLOG_VIEWS)).find(byUser).toArray(),
+      (await getCollection(COLLECTIONS.COMMENT_LIKES)).find(byUser).toArray(),
+      (await getCollection(COLLECTIONS.EVENT_REGISTRATIONS)).find(byUser).toArray(),
+      (await getCollection(COLLECTIONS.PAYMENTS)).find(byUser).toArray(),
+      (await getCollection(COLLECTIONS.POLL_VOTES)).find(byUser).toArray(),
+      (await getCollection(COLLECTIONS.RESOURCE_RATINGS)).find(byUser).toArray(),
+      (await getCollection(COLLECTIONS.REVIEW_HELPFUL_VOTES)).find(byUser).toArray(),
+      (await getCollection(COLLECTIONS.RESOURCE_DOWNLOADS)).find(byUser).toArray(),
+      (await getCollection(COLLECTIONS.NOTIFICATIONS)).find(byUser).toArray(),
+      (await getCollection(COLLECTIONS.LEARNING_RESOURCES)).find({ uploadedById: userId }).toArray(),
+      (await getCollection(COLLECTIONS.EVENTS)).find({ organizerId: userId }).toArray(),
+      (await getCollection(COLLECTIONS.POLLS)).find({ createdById: userId }).toArray(),
+      (await getCollection(COLLECTIONS.STAFF_PROFILES)).findOne(byUser),
+      (await getCollection(COLLECTIONS.CONTACT_SUBMISSIONS)).find({ email: user.email }).toArray(),
+      (await getCollection(COLLECTIONS.NEWSLETTER_SUBSCRIPTIONS)).findOne({ email: user.email }),
+      (await getCollection(COLLECTIONS.BOOKMARKS)).find(byUser).toArray(),
+      (await getCollection(COLLECTIONS.STUDY_COLLECTIONS)).find({ ownerId: userId }).toArray(),
+      (await getCollection(COLLECTIONS.BLOG_REVISIONS)).find({ authorId: userId }).toArray(),
+      (await getCollection(COLLECTIONS.ACTIVITY_EVENTS)).find(byUser).sort({ createdAt: 1 }).toArray(),
+      (await getCollection(COLLECTIONS.USER_BADGES)).find(byUser).sort({ awardedAt: 1 }).toArray(),
+      (await getCollection(COLLECTIONS.ENGAGEMENT_REJECTIONS)).find(byUser).sort({ hour: 1 }).toArray(),
+    ]);
+
+    return {
+      exportedAt: new Date(),
+      profile,
+      blogPosts,
+      blogRevisions,
+      comments,
+      blogLikes,
+      blogViews,
+      commentLikes,
+      eventRegistrations,
+      payments,
+      pollVotes,
+      resourceRatings,
+      reviewHelpfulVotes,
+      resourceDownloads,
+      notifications,
+      uploadedResources,
+      organizedEvents,
+      createdPolls,
+      staffProfile,
+      contactSubmissions,
+      newsletterSubscription,
+      bookmarks,
+      studyCollections,
+      activityEvents,
+      badgeAwards,
+      engagementRejections,
+    };
+  }
+
+  // Removes the user and their personal activity. The user's own blog posts are
+  // deleted along with their discussion; comments left on other content are
+  // blanked rather than removed so reply threads stay intact. Events, polls and
+  // resources published for the department are kept and show an unknown author.
+  // Payment records are kept for the department's accounts.
+  async deleteUserAccount(userId: string): Promise<void> {
+    const user = await this.getUser(userId);
+    if (!user) {
+      throw new Error('User not found');
+    }
+
+    const blogPostsCollection = await getCollection<BlogPost>(COLLECTIONS.BLOG_POSTS);
+    const commentsCollection = await getCollection<Comment>(COLLECTIONS.COMMENTS);
+    const blogLikesCollection = await getCollection(COLLECTIONS.BLOG_LIKES);
+    const blogViewsCollection = await getCollection(COLLECTIONS.BLOG_VIEWS);
+    const commentLikesCollection = await getCollection(COLLECTIONS.COMMENT_LIKES);
+    const ratingsCollection = await getCollection<ResourceReview>(COLLECTIONS.RESOURCE_RATINGS);
+    const byUser = { userId };
+
+    // Delete the user's blog posts together with their likes, views, comments and revisions
+    const ownPosts = await blogPostsCollection.find({ authorId: userId }).project({ _id: 1 }).toArray();
+    const ownPostIds = ownPosts.map(post => post._id.toString());
+    if (ownPostIds.length > 0) {
+      const postComments = await commentsCollection.find({ blogPostId: { $in: ownPostIds } }).project({ _id: 1 }).toArray();
+      await commentLikesCollection.deleteMany({ commentId: { $in: postComments.map(comment => comment._id.toString()) } });
+      await (await getCollection(COLLECTIONS.ACTIVITY_EVENTS)).deleteMany({ subjectId: { $in: postComments.map(comment => comment._id.toString()) } });
+      await commentsCollection.deleteMany({ blogPostId: { $in: ownPostIds } });
+      await blogLikesCollection.deleteMany({ blogPostId: { $in: ownPostIds } });
+      await blogViewsCollection.deleteMany({ blogPostId: { $in: ownPostIds } });
+      await (await getCollection(COLLECTIONS.BLOG_REVISIONS)).deleteMany({ blogPostId: { $in: ownPostIds } });
+      await blogPostsCollection.deleteMany({ authorId: userId });
+    }
+
+    // Blank the user's remaining comments
+    await commentsCollection.updateMany(
+      { authorId: userId },
+      { $set: { content: '[deleted]', updatedAt: new Date() } }
+    );
+
+    // Remove likes and keep the denormalized like counters in step
+    const blogLikes = await blogLikesCollection.find(byUser).toArray();
+    if (blogLikes.length > 0) {
+      await blogPostsCollection.updateMany(
+        { _id: { $in: blogLikes.map(like => new ObjectId(like.blogPostId)) } } as any,
+        { $inc: { likes: -1 } }
+      );
+      await blogLikesCollection.deleteMany(byUser);
+    }
+
+    const commentLikes = await commentLikesCollection.find(byUser).toArray();
+    if (commentLikes.length > 0) {
+      await commentsCollection.updateMany(
+        { _id: { $in: commentLikes.map(like => new ObjectId(like.commentId)) } } as any,
+        { $inc: { likes: -1 } }
+      );
+      await commentLikesCollection.deleteMany(byUser);
+    }
+
+    // Remove reviews, taking them out of the affected averages
+    const reviews = await ratingsCollection.find(byUser).toArray();
+    for (const review of reviews) {
+      await this.removeResourceReview({ ...review, _id: review._id.toString() });
+    }
+
+    // Remove helpful votes, flags and replies left on other people's reviews
+    const helpfulVotesCollection = await getCollection(COLLECTIONS.REVIEW_HELPFUL_VOTES);
+    const helpfulVotes = await helpfulVotesCollection.find(byUser).toArray();
+    if (helpfulVotes.length > 0) {
+      await ratingsCollection.updateMany(
+        { _id: { $in: helpfulVotes.map(vote => new ObjectId(vote.reviewId)) } } as any,
+        { $inc: { helpfulCount: -1 } }
+      );
+      await helpfulVotesCollection.deleteMany(byUser);
+    }
+    await ratingsCollection.updateMany(
+      { 'flags.userId': userId },
+      { $pull: { flags: { userId } }, $inc: { flagCount: -1 } }
+    );
+    await ratingsCollection.updateMany({ 'reply.authorId': userId }, { $unset: { reply: '' } });
+
+    // View and download totals are aggregate counters, so only the per-user records go
+    await blogViewsCollection.deleteMany(byUser);
+    await (await getCollection(COLLECTIONS.RESOURCE_DOWNLOADS)).deleteMany(byUser);
+    await (await getCollection(COLLECTIONS.EVENT_REGISTRATIONS)).deleteMany(byUser);
+    await (await getCollection(COLLECTIONS.POLL_VOTES)).deleteMany(byUser);
+    await (await getCollection(COLLECTIONS.NOTIFICATIONS)).deleteMany(byUser);
+    await (await getCollection(COLLECTIONS.BOOKMARKS)).deleteMany(byUser);
+    // The user's points, and the points others got from the user's likes
+    await (await getCollection(COLLECTIONS.ACTIVITY_EVENTS)).deleteMany({ $or: [byUser, { actorId: userId }] });
+    await (await getCollection(COLLECTIONS.USER_BADGES)).deleteMany(byUser);
+    await (await getCollection(COLLECTIONS.ENGAGEMENT_REJECTIONS)).deleteMany(byUser);
+    await (await getCollection(COLLECTIONS.STUDY_COLLECTIONS)).deleteMany({ ownerId: userId });
+    await (await getCollection(COLLECTIONS.STAFF_PROFILES)).deleteMany(byUser);
+    await (await getCollection(COLLECTIONS.CONTACT_SUBMISSIONS)).deleteMany({ email: user.email });
+    await (await getCollection(COLLECTIONS.NEWSLETTER_SUBSCRIPTIONS)).deleteMany({ email: user.email });
+
+    const usersCollection = await getCollection<User>(COLLECTIONS.USERS);
+    await usersCollection.deleteOne({ _id: new ObjectId(userId) } as any);
   }
 }
 
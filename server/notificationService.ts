@@ -0,0 +1,190 @@
+import { mongoStorage } from './mongoStorage';
+import { EVENT_TIMEZONE } from './calendarService';
+import type { BadgeDefinition, BlogPost, Comment, Event, InsertNotification, LearningResource, NotificationPreferences, Poll, ResourceReview } from '@shared/mongoSchema';
+
+// In-app notifications are best-effort: a failure here must never fail the
+// request that triggered it, so every notifier logs and swallows errors.
+
+async function safely(action: () => Promise<void>): Promise<void> {
+  try {
+    await action();
+  } catch (error) {
+    console.error('Failed to create notification:', error);
+  }
+}
+
+async function getDisplayName(userId: string): Promise<string> {
+  const user = await mongoStorage.getUser(userId);
+  return user ? `${user.firstName || ''} ${user.lastName || ''}`.trim() || 'Someone' : 'Someone';
+}
+
+// Preferences that must all be enabled for a user to receive each notification type
+const requiredPreferences: Record<InsertNotification['type'], (keyof NotificationPreferences)[]> = {
+  blog_approved: ['pushNotifications', 'blogNotifications'],
+  blog_rejected: ['pushNotifications', 'blogNotifications'],
+  comment_reply: ['pushNotifications'],
+  comment_like: ['pushNotifications'],
+  poll_created: ['pushNotifications'],
+  event_updated: ['pushNotifications', 'eventNotifications'],
+  event_cancelled: ['pushNotifications', 'eventNotifications'],
+  review_reply: ['pushNotifications', 'resourceNotifications'],
+  badge_earned: ['pushNotifications'],
+};
+
+// Store notifications for recipients whose preferences allow this type
+async function deliver(type: InsertNotification['type'], userIds: string[], content: Omit<InsertNotification, 'userId' | 'type'>): Promise<void> {
+  const recipients = await mongoStorage.filterUsersByNotificationPreferences(userIds, requiredPreferences[type]);
+  await mongoStorage.createNotifications(recipients.map(userId => ({ ...content, userId, type })));
+}
+
+// Route on the client where a comment is displayed
+function getCommentLink(comment: Comment): string {
+  if (comment.blogPostId) return `/blogs/${comment.blogPostId}#comments`;
+  if (comment.eventId) return `/events/${comment.eventId}`;
+  if (comment.resourceId) return `/resources/${comment.resourceId}`;
+  return '/';
+}
+
+export async function notifyBlogModeration(
+  blog: BlogPost,
+  status: 'approved' | 'rejected',
+  rejectionReason?: string
+): Promise<void> {
+  const approved = status === 'approved';
+  // Approved posts with a publish time still to come go live then
+  const scheduled = approved && blog.status === 'scheduled' && blog.publishAt;
+
+  await safely(async () => {
+    await deliver(approved ? 'blog_approved' : 'blog_rejected', [blog.authorId], {
+      title: approved ? 'Blog post approved' : 'Blog post rejected',
+      message: scheduled
+        ? `Your post "${blog.title}" has been approved and will be published on ${new Date(blog.publishAt!).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short', timeZone: EVENT_TIMEZONE })}.`
+        : approved
+          ? `Your post "${blog.title}" has been approved and is now published.`
+          : `Your post "${blog.title}" was not approved.${rejectionReason ? ` Reason: ${rejectionReason}` : ''}`,
+      link: approved && !scheduled ? `/blogs/${blog._id}` : '/dashboard/my-posts',
+    });
+  });
+}
+
+// An edit to a post that was already published, approved or rejected by an admin
+export async function notifyBlogRevisionReview(
+  blog: BlogPost,
+  status: 'approved' | 'rejected',
+  rejectionReason?: string
+): Promise<void> {
+  const approved = status === 'approved';
+
+  await safely(async () => {
+    await deliver(approved ? 'blog_approved' : 'blog_rejected', [blog.authorId], {
+      title: approved ? 'Blog post changes approved' : 'Blog post changes rejected',
+      message: approved
+        ? `Your changes to "${blog.title}" have been approved and are now published.`
+        : `Your changes to "${blog.title}" were not approved. The published version is unchanged.${rejectionReason ? ` Reason: ${rejectionReason}` : ''}`,
+      link: approved ? `/blogs/${blog._id}` : '/dashboard/my-posts',
+    });
+  });
+}
+
+export async function notifyCommentReply(reply: Comment): Promise<void> {
+  const parentCommentId = reply.parentCommentId;
+  if (!parentCommentId) return;
+
+  await safely(async () => {
+    const parent = await mongoStorage.getComment(parentCommentId);
+
+    // Don't notify users about replies to their own comments
+    if (!parent || parent.authorId === reply.authorId) return;
+
+    const replierName = await getDisplayName(reply.authorId);
+    await deliver('comment_reply', [parent.authorId], {
+      title: 'New reply to your comment',
+      message: `${replierName} replied: "${truncate(reply.content, 80)}"`,
+      link: getCommentLink(reply),
+    });
+  });
+}
+
+export async function notifyCommentLike(commentId: string, likerId: string): Promise<void> {
+  await safely(async () => {
+    const comment = await mongoStorage.getComment(commentId);
+    if (!comment || comment.authorId === likerId) return;
+
+    const likerName = await getDisplayName(likerId);
+    await deliver('comment_like', [comment.authorId], {
+      title: 'Someone liked your comment',
+      message: `${likerName} liked your comment "${truncate(comment.content, 80)}"`,
+      link: getCommentLink(comment),
+    });
+  });
+}
+
+export async function notifyPollCreated(poll: Poll): Promise<void> {
+  await safely(async () => {
+    const userIds = await mongoStorage.getApprovedStudentIds(poll.targetLevels);
+
+    await deliver('poll_created', userIds, {
+      title: 'New poll',
+      message: poll.question,
+      link: '/dashboard',
+    });
+  });
+}
+
+export async function notifyEventUpdated(event: Event): Promise<void> {
+  await safely(async () => {
+    const registrations = await mongoStorage.getEventRegistrations(event._id!);
+    const userIds = registrations
+      .filter(registration => registration.status === 'registered')
+      .map(registration => registration.userId);
+
+    await deliver('event_updated', userIds, {
+      title: 'Event updated',
+      message: `"${event.title}" has been updated. Check the latest date, time and location.`,
+      link: `/events/${event._id}`,
+    });
+  });
+}
+
+// Registrations are already cancelled by the time this runs, so the affected users are passed in
+export async function notifyEventCancelled(event: Event, userIds: string[]): Promise<void> {
+  if (userIds.length === 0) return;
+
+  await safely(async () => {
+    const when = new Date(event.date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+    await deliver('event_cancelled', userIds, {
+      title: 'Event cancelled',
+      message: `"${event.title}" on ${when} has been cancelled. Your registration has been cancelled too.`,
+      link: `/events/${event._id}`,
+    });
+  });
+}
+
+export async function notifyReviewReply(review: ResourceReview, resource: LearningResource): Promise<void> {
+  const reply = review.reply;
+  if (!reply || reply.authorId === review.userId) return;
+
+  await safely(async () => {
+    const replierName = await getDisplayName(reply.authorId);
+    await deliver('review_reply', [review.userId], {
+      title: 'Reply to your review',
+      message: `${replierName} replied to your review of "${resource.title}": "${truncate(reply.content, 80)}"`,
+      link: `/resources/${resource._id}#reviews`,
+    });
+  });
+}
+
+export async function notifyBadgeEarned(userId: string, badge: BadgeDefinition): Promise<void> {
+  await safely(async () => {
+    await deliver('badge_earned', [userId], {
+      title: 'Badge earned',
+      message: `You earned the "${badge.name}" badge${badge.description ? `: ${badge.description}` : '.'}`,
+      link: '/dashboard/gamification',
+    });
+  });
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
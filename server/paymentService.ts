@@ -0,0 +1,301 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { config } from './config';
+
+// Prices are stored in kobo and charged in naira
+export const PAYMENT_CURRENCY = 'NGN';
+
+export interface InitializePaymentOptions {
+  reference: string;
+  amount: number; // In kobo
+  email: string;
+  // Where the provider sends the payer once checkout is finished
+  callbackUrl: string;
+  metadata?: Record<string, string>;
+}
+
+export interface PaymentVerification {
+  status: 'success' | 'failed' | 'abandoned' | 'pending';
+  amount: number; // In kobo
+  paidAt?: Date;
+}
+
+export interface PaymentRefund {
+  // Some providers settle refunds later and report back through the webhook
+  status: 'processed' | 'pending';
+  refundId?: string;
+}
+
+export interface PaymentWebhookEvent {
+  type: 'payment.success' | 'payment.failed' | 'refund.processed' | 'refund.failed';
+  reference: string;
+}
+
+// What the checkout flow needs from a payment gateway. Webhook events are
+// only hints: successful payments are always re-checked with verifyPayment.
+export interface PaymentProvider {
+  readonly name: string;
+  initializePayment(options: InitializePaymentOptions): Promise<{ authorizationUrl: string }>;
+  verifyPayment(reference: string): Promise<PaymentVerification>;
+  refundPayment(reference: string, amount?: number): Promise<PaymentRefund>;
+  // Returns null unless the request is a correctly signed webhook
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent | null;
+}
+
+export function generatePaymentReference(): string {
+  return `NSA-${Date.now()}-${randomBytes(6).toString('hex')}`;
+}
+
+function signaturesMatch(actual: string, expected: string): boolean {
+  return actual.length === expected.length && timingSafeEqual(Buffer.from(actual), Buffer.from(expected));
+}
+
+const PAYSTACK_API_URL = 'https://api.paystack.co';
+
+export class PaystackPaymentProvider implements PaymentProvider {
+  readonly name = 'paystack';
+
+  constructor(private secretKey: string) {}
+
+  private async request<T>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${PAYSTACK_API_URL}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.secretKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+    const result = await response.json().catch(() => null);
+    if (!response.ok || !result?.status) {
+      throw new Error(`Paystack request failed: ${result?.message || response.statusText}`);
+    }
+
+    return result.data as T;
+  }
+
+  async initializePayment(options: InitializePaymentOptions): Promise<{ authorizationUrl: string }> {
+    const data = await this.request<{ authorization_url: string }>('POST', '/transaction/initialize', {
+      reference: options.reference,
+      amount: options.amount,
+      currency: PAYMENT_CURRENCY,
+      email: options.email,
+      callback_url: options.callbackUrl,
+      metadata: options.metadata
+    });
+
+    return { authorizationUrl: data.authorization_url };
+  }
+
+  async verifyPayment(reference: string): Promise<PaymentVerification> {
+    const data = await this.request<{ status: string; amount: number; paid_at?: string }>(
+      'GET',
+      `/transaction/verify/${encodeURIComponent(reference)}`
+    );
+
+    const status: PaymentVerification['status'] =
+      data.status === 'success' || data.status === 'failed' || data.status === 'abandoned' ? data.status : 'pending';
+
+    return {
+      status,
+      amount: data.amount,
+      paidAt: data.paid_at ? new Date(data.paid_at) : undefined
+    };
+  }
+
+  async refundPayment(reference: string, amount?: number): Promise<PaymentRefund> {
+    const data = await this.request<{ id?: number; status?: string }>('POST', '/refund', {
+      transaction: reference,
+      ...(amount !== undefined && { amount })
+    });
+
+    return {
+      status: data.status === 'processed' ? 'processed' : 'pending',
+      refundId: data.id !== undefined ? String(data.id) : undefined
+    };
+  }
+
+  // Paystack signs the raw request body with HMAC-SHA512 of the secret key
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent | null {
+    const signature = headers['x-paystack-signature'];
+    if (typeof signature !== 'string') {
+      return null;
+    }
+
+    const expected = createHmac('sha512', this.secretKey).update(rawBody).digest('hex');
+    if (!signaturesMatch(signature.toLowerCase(), expected)) {
+      return null;
+    }
+
+    const payload = JSON.parse(rawBody.toString('utf8'));
+    switch (payload.event) {
+      case 'charge.success':
+        return { type: 'payment.success', reference: payload.data.reference };
+      case 'charge.failed':
+        return { type: 'payment.failed', reference: payload.data.reference };
+      case 'refund.processed':
+        return { type: 'refund.processed', reference: payload.data.transaction_reference };
+      case 'refund.failed':
+        return { type: 'refund.failed', reference: payload.data.transaction_reference };
+      default:
+        return null;
+    }
+  }
+}
+
+interface MockTransaction {
+  amount: number;
+  callbackUrl: string;
+  status: PaymentVerification['status'] | 'refunded';
+  paidAt?: Date;
+}
+
+// Local stand-in for a real gateway. Checkout is a page served by this app
+// (see /api/payments/mock/checkout) where the payer chooses the outcome.
+// Transactions live in memory, so they are forgotten on restart.
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock';
+  private transactions = new Map<string, MockTransaction>();
+
+  constructor(private checkoutBaseUrl: string, private webhookSecret: string) {}
+
+  async initializePayment(options: InitializePaymentOptions): Promise<{ authorizationUrl: string }> {
+    this.transactions.set(options.reference, {
+      amount: options.amount,
+      callbackUrl: options.callbackUrl,
+      status: 'pending'
+    });
+
+    return {
+      authorizationUrl: `${this.checkoutBaseUrl}/api/payments/mock/checkout?reference=${encodeURIComponent(options.reference)}`
+    };
+  }
+
+  getTransaction(reference: string): MockTransaction | undefined {
+    return this.transactions.get(reference);
+  }
+
+  // Settle a pending transaction as the payer would on a real checkout page
+  completePayment(reference: string, succeeded: boolean): MockTransaction {
+    const transaction = this.transactions.get(reference);
+    if (!transaction) {
+      throw new Error('Payment not found');
+    }
+
+    if (transaction.status === 'pending') {
+      transaction.status = succeeded ? 'success' : 'failed';
+      transaction.paidAt = succeeded ? new Date() : undefined;
+    }
+
+    return transaction;
+  }
+
+  async verifyPayment(reference: string): Promise<PaymentVerification> {
+    const transaction = this.transactions.get(reference);
+    if (!transaction) {
+      return { status: 'abandoned', amount: 0 };
+    }
+
+    return {
+      // A refunded charge was still a successful payment
+      status: transaction.status === 'refunded' ? 'success' : transaction.status,
+      amount: transaction.amount,
+      paidAt: transaction.paidAt
+    };
+  }
+
+  async refundPayment(reference: string): Promise<PaymentRefund> {
+    const transaction = this.transactions.get(reference);
+    if (transaction) {
+      transaction.status = 'refunded';
+    }
+
+    return { status: 'processed', refundId: `mock-refund-${reference}` };
+  }
+
+  // Sign a webhook body the way parseWebhook expects, for exercising the webhook endpoint locally
+  signWebhook(body: string): string {
+    return createHmac('sha512', this.webhookSecret).update(body).digest('hex');
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentWebhookEvent | null {
+    const signature = headers['x-mock-signature'];
+    if (typeof signature !== 'string' || !signaturesMatch(signature.toLowerCase(), this.signWebhook(rawBody.toString('utf8')))) {
+      return null;
+    }
+
+    const payload = JSON.parse(rawBody.toString('utf8'));
+    return payload?.type && payload?.reference ? { type: payload.type, reference: payload.reference } : null;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// The mock provider's checkout page. Both buttons post back to the app,
+// which settles the transaction and returns to the callback URL.
+export function renderMockCheckoutPage(reference: string, amount: number, description: string): string {
+  const naira = (amount / 100).toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const button = (outcome: string, label: string, color: string) => `
+        <form method="POST" action="/api/payments/mock/checkout" style="display: inline;">
+          <input type="hidden" name="reference" value="${escapeHtml(reference)}">
+          <input type="hidden" name="outcome" value="${outcome}">
+          <button type="submit" style="background: ${color}; color: #fff; border: 0; border-radius: 6px; padding: 12px 24px; font-weight: 600; cursor: pointer;">${label}</button>
+        </form>`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Test Checkout</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 480px; margin: 60px auto; padding: 20px; color: #1f2937;">
+  <p style="background: #fef3c7; padding: 10px 14px; border-radius: 6px;">Test mode: no money will be taken.</p>
+  <h1 style="font-size: 22px;">${escapeHtml(description)}</h1>
+  <p style="font-size: 28px; font-weight: bold;">&#8358;${naira}</p>
+  <p style="color: #6b7280; font-family: monospace;">${escapeHtml(reference)}</p>
+  <div style="margin-top: 24px;">${button('success', 'Pay', '#16a34a')} ${button('failed', 'Decline', '#dc2626')}
+  </div>
+</body>
+</html>`;
+}
+
+let provider: PaymentProvider | null | undefined;
+
+// Paystack when a secret key is configured. The mock provider is used outside
+// production, or anywhere PAYMENT_PROVIDER=mock is set explicitly. Returns null
+// when paid registration is unavailable.
+export function getPaymentProvider(): PaymentProvider | null {
+  if (provider !== undefined) {
+    return provider;
+  }
+
+  const configured = process.env.PAYMENT_PROVIDER?.toLowerCase();
+  const paystackKey = process.env.PAYSTACK_SECRET_KEY;
+
+  if (configured === 'paystack' || (!configured && paystackKey)) {
+    if (!paystackKey) {
+      console.error('PAYMENT_PROVIDER is paystack but PAYSTACK_SECRET_KEY is not set');
+      provider = null;
+    } else {
+      provider = new PaystackPaymentProvider(paystackKey);
+    }
+  } else if (configured === 'mock' || (!configured && !config.isProduction)) {
+    // Webhooks get their own key. In development a random one will do, as
+    // nothing outside this process needs to sign with it unless it is set.
+    const webhookSecret = process.env.PAYMENT_WEBHOOK_SECRET;
+    if (!webhookSecret && config.isProduction) {
+      console.error('PAYMENT_PROVIDER is mock but PAYMENT_WEBHOOK_SECRET is not set');
+      provider = null;
+    } else {
+      provider = new MockPaymentProvider(config.apiUrl, webhookSecret || randomBytes(32).toString('hex'));
+    }
+  } else {
+    provider = null;
+  }
+
+  return provider;
+}
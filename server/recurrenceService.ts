@@ -0,0 +1,52 @@
+import type { EventRecurrence } from '@shared/mongoSchema';
+
+// Upper bound on sessions in one series, so a mistyped end date can't create years of events
+export const MAX_SERIES_SESSIONS = 52;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Series dates are calendar days; events store them as midnight UTC like single events do
+export function toOccurrenceDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function occurrenceDateToDate(occurrenceDate: string): Date {
+  const date = new Date(`${occurrenceDate}T00:00:00.000Z`);
+  if (isNaN(date.getTime()) || toOccurrenceDate(date) !== occurrenceDate) {
+    throw new Error(`Series date ${occurrenceDate} is not a valid date`);
+  }
+  return date;
+}
+
+// Expand a recurrence rule into the sorted, de-duplicated list of session dates
+export function getOccurrenceDates(recurrence: EventRecurrence): string[] {
+  let dates: string[];
+
+  if (recurrence.frequency === 'custom') {
+    dates = Array.from(new Set(recurrence.dates ?? [])).sort();
+    dates.forEach(occurrenceDateToDate);
+  } else {
+    const stepDays = recurrence.frequency === 'weekly' ? 7 : 14;
+    const end = recurrence.endDate ? occurrenceDateToDate(recurrence.endDate) : undefined;
+    // Stop one past the limit so oversized series are reported rather than silently cut short
+    const count = Math.min(recurrence.count ?? Infinity, MAX_SERIES_SESSIONS + 1);
+
+    dates = [];
+    for (
+      let date = occurrenceDateToDate(recurrence.startDate!);
+      (!end || date <= end) && dates.length < count;
+      date = new Date(date.getTime() + stepDays * DAY_MS)
+    ) {
+      dates.push(toOccurrenceDate(date));
+    }
+  }
+
+  if (dates.length === 0) {
+    throw new Error('Series must have at least one session');
+  }
+  if (dates.length > MAX_SERIES_SESSIONS) {
+    throw new Error(`Series can have at most ${MAX_SERIES_SESSIONS} sessions`);
+  }
+
+  return dates;
+}
@@ -0,0 +1,112 @@
+import { v2 as cloudinary } from 'cloudinary';
+import type { LearningResource } from '@shared/mongoSchema';
+
+// Who is asking for a learning resource. Anonymous visitors have no role.
+export interface ResourceViewer {
+  role?: string;
+  level?: string;
+}
+
+export interface SignedFileUrl {
+  url: string;
+  expiresAt: Date;
+}
+
+const ADMIN_ROLES = ['admin', 'super_admin'];
+
+// Links handed out for a download only need to last until the browser starts fetching;
+// previews stay open in an iframe or video player, so they get longer
+const DOWNLOAD_URL_TTL_SECONDS = 5 * 60;
+const PREVIEW_URL_TTL_SECONDS = 30 * 60;
+
+export function isResourceAdmin(viewer: ResourceViewer): boolean {
+  return !!viewer.role && ADMIN_ROLES.includes(viewer.role);
+}
+
+// Resources from before visibility existed are public
+export function canAccessLearningResource(
+  resource: Pick<LearningResource, 'visibility' | 'allowedLevels'>,
+  viewer: ResourceViewer
+): boolean {
+  if (isResourceAdmin(viewer)) {
+    return true;
+  }
+
+  switch (resource.visibility ?? 'public') {
+    case 'public':
+      return true;
+    case 'students':
+      return !!viewer.role;
+    case 'levels':
+      return !!viewer.role && !!viewer.level && (resource.allowedLevels ?? []).some(level => level === viewer.level);
+    case 'admins':
+      return false;
+  }
+}
+
+// The same rules as canAccessLearningResource, as a Mongo filter for listings and search
+export function learningResourceAccessFilter(viewer: ResourceViewer): Record<string, any> {
+  if (isResourceAdmin(viewer)) {
+    return {};
+  }
+  if (!viewer.role) {
+    return { visibility: { $in: [null, 'public'] } };
+  }
+
+  const visible: Record<string, any>[] = [{ visibility: { $in: [null, 'public', 'students'] } }];
+  if (viewer.level) {
+    visible.push({ visibility: 'levels', allowedLevels: viewer.level });
+  }
+  return { $or: visible };
+}
+
+// Splits a Cloudinary delivery URL into what cloudinary.url needs to sign it again:
+// https://res.cloudinary.com/{cloud}/{resource_type}/{type}/{transformations}/v{version}/{public_id}
+function parseCloudinaryUrl(fileUrl: string): { publicId: string; resourceType: 'image' | 'video' | 'raw'; type: 'upload' | 'authenticated' | 'private' } | null {
+  const match = fileUrl.match(/res\.cloudinary\.com\/[^/]+\/(image|video|raw)\/(upload|authenticated|private)\/(.+)$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, resourceType, type, path] = match as unknown as [string, 'image' | 'video' | 'raw', 'upload' | 'authenticated' | 'private', string];
+  const parts = path.split('?')[0].split('/');
+  const versionIndex = parts.findIndex(part => /^v\d+$/.test(part));
+  const publicId = (versionIndex >= 0 ? parts.slice(versionIndex + 1) : parts).join('/');
+
+  return publicId ? { publicId, resourceType, type } : null;
+}
+
+// A short-lived link to a resource's file. Files stored outside Cloudinary, or
+// when no API secret is configured to sign with, are returned as they are.
+export function signResourceFileUrl(fileUrl: string, purpose: 'download' | 'preview'): SignedFileUrl {
+  const ttl = purpose === 'download' ? DOWNLOAD_URL_TTL_SECONDS : PREVIEW_URL_TTL_SECONDS;
+  const expiresAt = new Date(Date.now() + ttl * 1000);
+
+  const parsed = parseCloudinaryUrl(fileUrl);
+  if (!parsed || !cloudinary.config().api_secret) {
+    return { url: fileUrl, expiresAt };
+  }
+
+  // Image and video public ids are stored without their extension; raw ones keep it
+  const extension = parsed.publicId.match(/\.([a-z0-9]+)$/i);
+  const [publicId, format] = parsed.resourceType !== 'raw' && extension
+    ? [parsed.publicId.slice(0, extension.index), extension[1]]
+    : [parsed.publicId, ''];
+
+  // A download API link rather than a delivery URL: it stops working at expires_at
+  // whatever the asset's delivery type, so it can't be passed around afterwards
+  const url = cloudinary.utils.private_download_url(publicId, format, {
+    resource_type: parsed.resourceType,
+    type: parsed.type,
+    expires_at: Math.floor(expiresAt.getTime() / 1000),
+    attachment: purpose === 'download'
+  });
+
+  return { url, expiresAt };
+}
+
+// Resource fields sent to clients that may not fetch the file directly; they go through the download endpoint
+export function withoutFileUrl<T extends { fileUrl?: string }>(resource: T): Omit<T, 'fileUrl'> {
+  const { fileUrl, ...rest } = resource;
+  return rest;
+}
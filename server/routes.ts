@@ -1,32 +1,151 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import cookieParser from 'cookie-parser';
 import { randomUUID } from 'crypto';
-import { mongoStorage } from "./mongoStorage";
-import { authenticateToken, requireAdmin, requireSuperAdmin, requireRole, optionalAuth } from "./customAuth";
+import { mongoStorage, PASSWORD_HASH_ROUNDS, type LeaderboardEntry } from "./mongoStorage";
+import { authenticateToken, requireAdmin, requireSuperAdmin, requireRole, optionalAuth, verifyUnsubscribeToken, verifyNewsletterUnsubscribeToken, generateToken, setAuthCookie, clearAuthCookie, validatePasswordStrength } from "./customAuth";
 import authRoutes from "./authRoutes";
 import { initializeMongoDB } from "./mongoDb";
-import { insertBlogPostSchema, insertCommentSchema, insertPollSchema, pollOptionSchema } from "../shared/mongoSchema";
+import { notifyBlogModeration, notifyCommentReply, notifyCommentLike, notifyPollCreated, notifyEventUpdated, notifyEventCancelled, notifyReviewReply, notifyBlogRevisionReview } from "./notificationService";
+import { insertBlogPostSchema, BLOG_REVISION_FIELDS, insertCommentSchema, insertEventSchema, insertLearningResourceSchema, staffProfileBaseSchema, insertPollSchema, pollOptionSchema, notificationPreferencesSchema, insertEventSeriesSchema, insertContactSubmissionSchema, contactSubmissionSchema, insertCourseSchema, courseSchema, resourceVersionSchema, resourceReviewSchema, savedItemRefSchema, savedItemTypeSchema, insertStudyCollectionSchema, activityActionSchema, gamificationRuleSchema, insertBadgeDefinitionSchema, type BlogPost, type BlogPostStatus, type Event, type EventRegistration, type LearningResource, type Payment } from "../shared/mongoSchema";
+import { sendWaitlistPromotionEmail, sendEventTicketEmail, sendWaitlistPaymentEmail, sendPaymentReceiptEmail, sendPaymentRefundEmail, sendContactReplyEmail } from "./emailService";
+import { generateTicketCode, verifyTicketCode } from "./ticketService";
+import { buildCalendar, generateCalendarFeedToken, parseCalendarFeedToken, verifyCalendarFeedToken } from "./calendarService";
+import { getPaymentProvider, generatePaymentReference, renderMockCheckoutPage, MockPaymentProvider, PAYMENT_CURRENCY } from "./paymentService";
+import { SEARCH_TYPES } from "./searchService";
+import { deleteResourcePreview, queueResourceIngestion, refreshResourcePreview, resumeResourceIngestion } from "./documentService";
+import { startBlogScheduler } from "./blogScheduler";
+import { requestFullBadgeCheck, startBadgeAwarder } from "./badgeAwarder";
+import { checkAnonymousView, checkDownload, checkLike } from "./engagementLimits";
+import { LEADERBOARD_PERIODS } from "./gamification";
+import { sanitizeBlogContent, deriveBlogExcerpt } from "./blogContent";
+import { canAccessLearningResource, isResourceAdmin, signResourceFileUrl, withoutFileUrl, type ResourceViewer } from "./resourceAccess";
+import { config } from "./config";
 import { z } from "zod";
+import bcrypt from 'bcryptjs';
 import { v2 as cloudinary } from 'cloudinary';
 
-// Use insertBlogPostSchema directly for validation
-const blogRequestSchema = insertBlogPostSchema;
+// Request bodies are parsed against per-role whitelists, so counters, moderation
+// state and ownership can't be sent in: storage sets those itself.
+
+// The publishing state is worked out from the requested status, so it has no default here.
+// The excerpt and read time come from the cleaned content.
+const studentBlogRequestSchema = insertBlogPostSchema.pick({
+  title: true,
+  content: true,
+  category: true,
+  tags: true,
+  imageUrl: true,
+  imageUrls: true,
+}).extend({
+  title: z.string().trim().min(1, "Title is required").max(200),
+  content: z.string().min(1, "Content is required"),
+  category: z.string().trim().min(1, "Category is required"),
+  status: z.enum(['draft', 'submitted']).optional(),
+  publishAt: z.coerce.date().optional(),
+});
+
+// Admins can also schedule, publish and feature posts. `published` is the older way of
+// asking for a post to go live or be taken down, kept for existing clients.
+const adminBlogRequestSchema = studentBlogRequestSchema.extend({
+  status: z.enum(['draft', 'submitted', 'scheduled', 'published']).optional(),
+  featured: z.boolean().optional(),
+  notifySubscribers: z.boolean().optional(),
+  published: z.boolean().optional(),
+});
+
+type BlogRequest = z.infer<typeof adminBlogRequestSchema>;
+
+type BlogPublishing = Pick<BlogPost, 'status' | 'published'> & Partial<Pick<BlogPost, 'approvalStatus' | 'publishAt' | 'publishedAt' | 'notifySubscribers'>>;
+
+// The publishing fields for a post moving to the requested status. Students keep drafts
+// or submit them for approval, optionally with a publish time that applies once approved;
+// admins can also schedule and publish directly.
+function resolveBlogPublishing(
+  requested: { status: BlogPostStatus; publishAt?: Date; notifySubscribers?: boolean },
+  isAdmin: boolean,
+  existing?: BlogPost
+): BlogPublishing | { error: string } {
+  const { status, publishAt, notifySubscribers } = requested;
+
+  if (status === 'draft') {
+    return { status: 'draft', published: false };
+  }
+  if (!isAdmin || status === 'submitted') {
+    return { status: 'submitted', published: false, approvalStatus: 'pending', ...(publishAt ? { publishAt } : {}) };
+  }
+  if (status === 'scheduled') {
+    if (!publishAt || publishAt.getTime() <= Date.now()) {
+      return { error: 'Choose a publish time in the future to schedule a post' };
+    }
+    return { status: 'scheduled', published: false, approvalStatus: 'approved', publishAt, notifySubscribers: notifySubscribers ?? false };
+  }
+  return {
+    status: 'published',
+    published: true,
+    approvalStatus: 'approved',
+    // Republishing keeps the original date
+    publishedAt: existing?.published && existing.publishedAt ? existing.publishedAt : new Date()
+  };
+}
+
+// Approving or rejecting a post, or a pending edit to one
+const blogReviewRequestSchema = z.object({
+  status: z.enum(['approved', 'rejected']),
+  rejectionReason: z.string().trim().max(500).optional(),
+});
+
+// Comments on blog posts, events and learning resources; the item comes from the URL
+const commentRequestSchema = insertCommentSchema.pick({ content: true, parentCommentId: true }).extend({
+  content: z.string().trim().min(1, "Comment cannot be empty").max(5000),
+});
+
+const eventRequestSchema = insertEventSchema.extend({
+  title: z.string().trim().min(1, "Title is required"),
+  date: z.coerce.date(),
+  capacity: z.number().int().min(1, "Capacity must be at least 1"),
+  price: z.number().int().min(0, "Price cannot be negative").default(0), // In kobo
+});
+
+const eventUpdateRequestSchema = eventRequestSchema.partial();
+
+const staffProfileFieldsSchema = staffProfileBaseSchema.omit({ _id: true, userId: true, createdAt: true, updatedAt: true });
+
+const staffProfileRequestSchema = staffProfileFieldsSchema.extend({
+  // The staff form sends an empty id for profiles that aren't linked to a user
+  userId: z.string().regex(/^([0-9a-f]{24})?$/i, "Invalid user id").optional().transform(userId => userId || undefined),
+}).refine(data => data.userId || data.customName, {
+  message: "Either userId or customName is required",
+  path: ['customName'],
+});
 
-// Create comment request schemas for each resource type
-const blogCommentRequestSchema = insertCommentSchema.extend({
-  content: z.string().min(1),
-  parentCommentId: z.string().optional()
+// A profile stays linked to the user it was made for
+const staffProfileUpdateRequestSchema = staffProfileFieldsSchema.partial();
+
+const pollVoteRequestSchema = z.object({
+  optionId: z.string().min(1, "Option ID is required"),
+});
+
+const checkInRequestSchema = z.object({
+  code: z.string().trim().min(1, "Ticket code is required"),
+});
+
+const mockCheckoutRequestSchema = z.object({
+  reference: z.string().min(1, "Payment reference is required"),
+  outcome: z.enum(['success', 'failed']).optional(),
+});
+
+const newsletterSubscribeRequestSchema = z.object({
+  email: z.string().trim().email("A valid email address is required"),
 });
 
-const eventCommentRequestSchema = insertCommentSchema.extend({
-  content: z.string().min(1),
-  parentCommentId: z.string().optional()
+const passwordChangeRequestSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(1, "New password is required"),
 });
 
-const resourceCommentRequestSchema = insertCommentSchema.extend({
-  content: z.string().min(1),
-  parentCommentId: z.string().optional()
+const accountDeletionRequestSchema = z.object({
+  password: z.string().min(1, "Password is required to delete your account"),
 });
 
 // Poll creation schema that accepts only option text from client
@@ -38,6 +157,353 @@ const pollCreationSchema = z.object({
   targetLevels: z.array(z.string()).optional().default([]),
 });
 
+// Query string for the learning resource listing. Tags may be repeated or comma separated.
+const resourceListQuerySchema = z.object({
+  type: z.enum(['pdf', 'video', 'image', 'document']).optional(),
+  category: z.string().trim().min(1).optional(),
+  difficulty: z.enum(['100l', '200l', '300l', '400l']).optional(),
+  tags: z.union([z.string(), z.array(z.string())]).optional()
+    .transform(tags => (Array.isArray(tags) ? tags : tags ? [tags] : [])
+      .flatMap(tag => tag.split(','))
+      .map(tag => tag.trim())
+      .filter(Boolean)),
+  uploader: z.string().regex(/^[0-9a-f]{24}$/i, "Invalid uploader id").optional(),
+  course: z.string().regex(/^[0-9a-f]{24}$/i, "Invalid course id").optional(),
+  minRating: z.coerce.number().min(1).max(5).optional(),
+  search: z.string().trim().min(1).optional(),
+  sort: z.enum(['recent', 'downloads', 'rating']).default('recent'),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  cursor: z.string().optional(),
+});
+
+const courseRequestSchema = insertCourseSchema.extend({
+  code: z.string().trim().regex(/^[A-Za-z]{2,4}\s*\d{3}[A-Za-z]?$/, "Course code must look like SOC 201"),
+  title: z.string().trim().min(1, "Title is required"),
+  lecturerIds: z.array(z.string().regex(/^[0-9a-f]{24}$/i, "Invalid lecturer id")).default([]),
+});
+
+const courseListQuerySchema = z.object({
+  level: courseSchema.shape.level.optional(),
+  semester: courseSchema.shape.semester.optional(),
+  lecturer: z.string().regex(/^[0-9a-f]{24}$/i, "Invalid lecturer id").optional(),
+  search: z.string().trim().min(1).optional(),
+});
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search query is required").max(200),
+  types: z.string().optional()
+    .transform(types => types ? types.split(',').map(type => type.trim()).filter(Boolean) : undefined)
+    .pipe(z.array(z.enum(SEARCH_TYPES)).optional()),
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+});
+
+const resourcePageSearchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search query is required").max(200),
+});
+
+const resourceVersionRequestSchema = resourceVersionSchema.pick({ fileName: true, fileSize: true }).extend({
+  fileUrl: z.string().url("File URL is required"),
+  changelog: z.string().trim().max(1000).optional(),
+});
+
+// Downloads, ratings, the version and extracted text are kept up to date by storage
+const resourceFieldsSchema = insertLearningResourceSchema.pick({
+  title: true,
+  description: true,
+  type: true,
+  category: true,
+  fileUrl: true,
+  fileName: true,
+  fileSize: true,
+  difficulty: true,
+  tags: true,
+  courseIds: true,
+  visibility: true,
+  allowedLevels: true,
+  thumbnailUrl: true,
+  imageUrls: true,
+}).extend({
+  title: z.string().trim().min(1, "Title is required"),
+  fileUrl: z.string().url("File URL is required"),
+});
+
+const hasAllowedLevels = (data: Pick<Partial<LearningResource>, 'visibility' | 'allowedLevels'>) =>
+  data.visibility !== 'levels' || (data.allowedLevels?.length ?? 0) > 0;
+
+const resourceRequestSchema = resourceFieldsSchema
+  .refine(hasAllowedLevels, { message: "Choose at least one level", path: ['allowedLevels'] });
+
+// A changed file is saved as a new version with the changelog
+const resourceUpdateRequestSchema = resourceFieldsSchema.partial()
+  .extend({ changelog: resourceVersionRequestSchema.shape.changelog })
+  .refine(hasAllowedLevels, { message: "Choose at least one level", path: ['allowedLevels'] });
+
+const savedItemRequestSchema = savedItemRefSchema.extend({
+  itemId: z.string().regex(/^[0-9a-f]{24}$/i, "Invalid item id"),
+});
+
+const bookmarkListQuerySchema = z.object({
+  type: savedItemTypeSchema.optional(),
+});
+
+const studyCollectionRequestSchema = insertStudyCollectionSchema.extend({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().trim().max(500).optional(),
+});
+
+const resourceDownloadSchema = z.object({
+  version: z.number().int().min(1).optional(),
+});
+
+const resourceReviewListQuerySchema = z.object({
+  sort: z.enum(['helpful', 'recent', 'highest', 'lowest']).optional(),
+  limit: z.coerce.number().int().min(1).max(50).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+const resourceReviewRequestSchema = z.object({
+  rating: resourceReviewSchema.shape.rating,
+  comment: z.string().trim().max(2000).optional(),
+});
+
+const reviewFlagRequestSchema = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+
+const reviewReplyRequestSchema = z.object({
+  content: z.string().trim().min(1, "Reply cannot be empty").max(2000),
+});
+
+const reviewModerationListQuerySchema = z.object({
+  status: z.enum(['flagged', 'hidden', 'all']).default('flagged'),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+const reviewModerationRequestSchema = z.object({
+  action: z.enum(['hide', 'restore', 'dismiss']),
+  note: z.string().trim().max(500).optional(),
+});
+
+const leaderboardQuerySchema = z.object({
+  period: z.enum(LEADERBOARD_PERIODS).default('week'),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+const gamificationRulesRequestSchema = z.record(activityActionSchema, gamificationRuleSchema.shape.points);
+
+const suspiciousActivityQuerySchema = z.object({
+  hours: z.coerce.number().int().min(1).max(168).default(24),
+});
+
+const TOO_MANY_LIKES = 'You are liking and unliking too quickly. Try again in a few minutes.';
+
+const contactRequestSchema = insertContactSubmissionSchema.extend({
+  name: z.string().trim().min(1, "Name is required"),
+  subject: z.string().trim().min(1, "Subject is required"),
+  category: z.string().trim().min(1, "Category is required"),
+  message: z.string().trim().min(10, "Message must be at least 10 characters long"),
+});
+
+const contactStatusRequestSchema = z.object({
+  status: contactSubmissionSchema.shape.status.removeDefault(),
+});
+
+const contactReplyRequestSchema = z.object({
+  message: z.string().trim().min(1, "Reply cannot be empty"),
+});
+
+// Let users moved off an event waitlist know they now have a seat, or at a
+// paid event that a seat is being held for them to pay for.
+// Email failures are logged so they never fail the request that freed the seat.
+async function emailPromotedRegistrations(event: Event, promoted: EventRegistration[]): Promise<void> {
+  for (const registration of promoted) {
+    try {
+      const user = await mongoStorage.getUser(registration.userId);
+      if (!user) continue;
+
+      if (registration.status === 'pending_payment') {
+        await sendWaitlistPaymentEmail(user.email, user.firstName || 'there', event, registration.holdExpiresAt!);
+      } else {
+        await sendWaitlistPromotionEmail(user.email, user.firstName || 'there', event, generateTicketCode(registration._id!));
+      }
+    } catch (error) {
+      console.error('Failed to send waitlist promotion email:', error);
+    }
+  }
+}
+
+// Open a checkout for a registration holding a seat at a paid event and
+// return the URL of the provider's payment page
+async function startEventCheckout(event: Event, registration: EventRegistration, email: string): Promise<string> {
+  const provider = getPaymentProvider();
+  if (!provider) {
+    throw new Error('Online payments are not configured');
+  }
+
+  // Recorded before the payer leaves, so the callback and webhook always find it
+  const reference = generatePaymentReference();
+  await mongoStorage.createPayment({
+    reference,
+    provider: provider.name,
+    userId: registration.userId,
+    eventId: event._id!,
+    registrationId: registration._id!,
+    amount: event.price,
+    currency: PAYMENT_CURRENCY,
+    status: 'pending'
+  });
+
+  try {
+    const { authorizationUrl } = await provider.initializePayment({
+      reference,
+      amount: event.price,
+      email,
+      callbackUrl: `${config.apiUrl}/api/payments/callback`,
+      metadata: { eventId: event._id!, registrationId: registration._id! }
+    });
+    return authorizationUrl;
+  } catch (error) {
+    await mongoStorage.markPaymentFailed(reference);
+    throw error;
+  }
+}
+
+// Refund a payment and tell the payer. Failures are logged and leave the
+// payment marked paid, so cancelling the event again retries the refund.
+async function refundEventPayment(event: Event, payment: Payment, reason: string): Promise<void> {
+  try {
+    const provider = getPaymentProvider();
+    if (!provider || provider.name !== payment.provider) {
+      throw new Error(`Payment provider ${payment.provider} is not available`);
+    }
+
+    const refund = await provider.refundPayment(payment.reference);
+    await mongoStorage.markPaymentRefunded(
+      payment.reference,
+      refund.status === 'processed' ? 'refunded' : 'refund_pending',
+      refund.refundId
+    );
+  } catch (error) {
+    console.error(`Failed to refund payment ${payment.reference}:`, error);
+    return;
+  }
+
+  try {
+    const user = await mongoStorage.getUser(payment.userId);
+    if (user) {
+      await sendPaymentRefundEmail(user.email, user.firstName || 'there', event, payment, reason);
+    }
+  } catch (error) {
+    console.error('Failed to send refund email:', error);
+  }
+}
+
+async function refundCancelledEvent(event: Event): Promise<void> {
+  for (const payment of await mongoStorage.getRefundablePayments(event._id!)) {
+    await refundEventPayment(event, payment, 'Unfortunately this event has been cancelled.');
+  }
+}
+
+// Check a payment with the provider and confirm the seat it pays for. Safe to
+// call more than once, as the checkout redirect and the webhook both do.
+async function settleEventPayment(reference: string): Promise<Payment | undefined> {
+  const payment = await mongoStorage.getPaymentByReference(reference);
+  if (!payment || payment.status === 'paid' || payment.status === 'refund_pending' || payment.status === 'refunded') {
+    return payment;
+  }
+
+  const provider = getPaymentProvider();
+  if (!provider || provider.name !== payment.provider) {
+    throw new Error(`Payment provider ${payment.provider} is not available`);
+  }
+
+  const verification = await provider.verifyPayment(reference);
+  if (verification.status !== 'success' || verification.amount < payment.amount) {
+    if (verification.status === 'success') {
+      console.error(`Payment ${reference} was for ${verification.amount} kobo, expected ${payment.amount}`);
+    }
+    if (verification.status !== 'pending') {
+      await mongoStorage.markPaymentFailed(reference);
+    }
+    return mongoStorage.getPaymentByReference(reference);
+  }
+
+  const paid = await mongoStorage.markPaymentPaid(reference, verification.paidAt);
+  if (!paid) {
+    // Settled by a request that got here first
+    return mongoStorage.getPaymentByReference(reference);
+  }
+
+  const event = await mongoStorage.getEvent(paid.eventId);
+  const registration = await mongoStorage.confirmPaidRegistration(paid.registrationId, reference);
+
+  if (!registration) {
+    // The held seat lapsed or was already paid for, so the money goes back
+    if (event) {
+      await refundEventPayment(event, paid, 'Your payment arrived after the place we were holding for you had been released.');
+    }
+    return mongoStorage.getPaymentByReference(reference);
+  }
+
+  // A mail failure shouldn't undo the payment
+  try {
+    const user = await mongoStorage.getUser(paid.userId);
+    if (user && event) {
+      await sendPaymentReceiptEmail(
+        user.email,
+        user.firstName || 'there',
+        event,
+        { reference, amount: paid.amount, paidAt: paid.paidAt ?? new Date() },
+        generateTicketCode(registration._id!)
+      );
+    }
+  } catch (error) {
+    console.error('Failed to send payment receipt email:', error);
+  }
+
+  return paid;
+}
+
+// How far back the public department calendar feed reaches
+const CALENDAR_FEED_HISTORY_DAYS = 90;
+
+// Feed URLs for a user's calendar subscription. webcal:// opens the subscribe
+// dialog directly in most calendar apps.
+function getCalendarFeedUrls(userId: string, version: number): { url: string; webcalUrl: string } {
+  const url = `${config.apiUrl}/api/calendar/${generateCalendarFeedToken(userId, version)}.ics`;
+  return { url, webcalUrl: url.replace(/^https?:\/\//, 'webcal://') };
+}
+
+// The requester's role and level, which decide the learning resources they can see
+async function getResourceViewer(req: Request): Promise<ResourceViewer> {
+  if (!req.user) return {};
+  const user = await mongoStorage.getUser(req.user.userId);
+  return { role: req.user.role, level: user?.level };
+}
+
+// Loads the learning resource in req.params.id if the requester may see it,
+// otherwise answers 404, 401 or 403 and returns undefined
+async function findAccessibleResource(req: Request, res: Response): Promise<{ resource: LearningResource; viewer: ResourceViewer } | undefined> {
+  const resource = await mongoStorage.getLearningResource(req.params.id);
+  if (!resource) {
+    res.status(404).json({ message: 'Resource not found' });
+    return undefined;
+  }
+
+  const viewer = await getResourceViewer(req);
+  if (!canAccessLearningResource(resource, viewer)) {
+    if (req.user) {
+      res.status(403).json({ message: 'You do not have access to this resource' });
+    } else {
+      res.status(401).json({ message: 'Sign in to access this resource' });
+    }
+    return undefined;
+  }
+
+  return { resource, viewer };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize MongoDB
   await initializeMongoDB();
@@ -50,6 +516,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     secure: true
   });
 
+  // Extract text from resources left unprocessed by the last run, without delaying startup
+  void resumeResourceIngestion();
+
+  // Publish scheduled blog posts as they fall due
+  void startBlogScheduler();
+
+  // Give activity from before the points ledger its points, without delaying startup,
+  // then start awarding badges from it
+  void mongoStorage.backfillActivityLedger()
+    .then(count => {
+      if (count > 0) console.log(`Backfilled ${count} activity ledger entries`);
+    })
+    .catch(error => console.error('Failed to backfill the activity ledger:', error))
+    .then(() => startBadgeAwarder());
+
   // Add cookie parser middleware
   app.use(cookieParser());
 
@@ -107,8 +588,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/gamification/leaderboard', authenticateToken, async (req, res) => {
     try {
-      const leaderboard = await mongoStorage.getLeaderboard();
-      res.json(leaderboard);
+      const queryResult = leaderboardQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        return res.status(400).json({
+          message: 'Invalid leaderboard query',
+          errors: queryResult.error.issues
+        });
+      }
+
+      const { period, limit } = queryResult.data;
+      const leaderboard = await mongoStorage.getLeaderboard(period, limit ?? 10, req.user?.userId);
+
+      // Matric numbers are only shown to admins
+      const withoutMatric = ({ matricNumber, ...entry }: LeaderboardEntry) => entry;
+      res.json({
+        ...leaderboard,
+        entries: leaderboard.entries.map(withoutMatric),
+        currentUser: leaderboard.currentUser && withoutMatric(leaderboard.currentUser)
+      });
     } catch (error: any) {
       console.error('Get leaderboard error:', error);
       res.status(500).json({ message: 'Failed to get leaderboard', error: error.message });
@@ -132,6 +629,151 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/admin/gamification/leaderboard', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+    try {
+      const queryResult = leaderboardQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        return res.status(400).json({
+          message: 'Invalid leaderboard query',
+          errors: queryResult.error.issues
+        });
+      }
+
+      const { period, limit } = queryResult.data;
+      const leaderboard = await mongoStorage.getLeaderboard(period, limit ?? 100);
+      res.json(leaderboard);
+    } catch (error: any) {
+      console.error('Get admin leaderboard error:', error);
+      res.status(500).json({ message: 'Failed to get leaderboard', error: error.message });
+    }
+  });
+
+  // Points awarded for each action. Changes apply to activity from then on.
+  app.get('/api/admin/gamification/rules', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+    try {
+      const rules = await mongoStorage.getGamificationRules();
+      res.json(rules);
+    } catch (error: any) {
+      console.error('Get gamification rules error:', error);
+      res.status(500).json({ message: 'Failed to get gamification rules', error: error.message });
+    }
+  });
+
+  app.put('/api/admin/gamification/rules', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+    try {
+      const validationResult = gamificationRulesRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid gamification rules',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const rules = await mongoStorage.updateGamificationRules(validationResult.data);
+      res.json(rules);
+    } catch (error: any) {
+      console.error('Update gamification rules error:', error);
+      res.status(500).json({ message: 'Failed to update gamification rules', error: error.message });
+    }
+  });
+
+  app.get('/api/admin/gamification/suspicious-activity', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+    try {
+      const queryResult = suspiciousActivityQuerySchema.safeParse(req.query);
+      if (!queryResult.success) {
+        return res.status(400).json({
+          message: 'Invalid report query',
+          errors: queryResult.error.issues
+        });
+      }
+
+      const report = await mongoStorage.getSuspiciousActivityReport(queryResult.data.hours);
+      res.json(report);
+    } catch (error: any) {
+      console.error('Get suspicious activity report error:', error);
+      res.status(500).json({ message: 'Failed to get suspicious activity report', error: error.message });
+    }
+  });
+
+  // Badges are awarded automatically once their conditions are met
+  app.get('/api/admin/gamification/badges', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+    try {
+      const [badges, awardCounts] = await Promise.all([
+        mongoStorage.getBadgeDefinitions(),
+        mongoStorage.getBadgeAwardCounts()
+      ]);
+      res.json(badges.map(badge => ({ ...badge, awardedCount: awardCounts[badge._id!] ?? 0 })));
+    } catch (error: any) {
+      console.error('Get badges error:', error);
+      res.status(500).json({ message: 'Failed to get badges', error: error.message });
+    }
+  });
+
+  app.post('/api/admin/gamification/badges', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const validationResult = insertBadgeDefinitionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid badge data',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const badge = await mongoStorage.createBadgeDefinition(validationResult.data, req.user.userId);
+      requestFullBadgeCheck();
+      res.status(201).json({ ...badge, awardedCount: 0 });
+    } catch (error: any) {
+      if (error.message === 'A badge with this name already exists') {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error('Create badge error:', error);
+      res.status(500).json({ message: 'Failed to create badge', error: error.message });
+    }
+  });
+
+  app.put('/api/admin/gamification/badges/:id', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+    try {
+      const validationResult = insertBadgeDefinitionSchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid badge data',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const badge = await mongoStorage.updateBadgeDefinition(req.params.id, validationResult.data);
+      // Users who already hold the badge keep it
+      requestFullBadgeCheck();
+      res.json(badge);
+    } catch (error: any) {
+      if (error.message === 'Badge not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message === 'A badge with this name already exists') {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error('Update badge error:', error);
+      res.status(500).json({ message: 'Failed to update badge', error: error.message });
+    }
+  });
+
+  app.delete('/api/admin/gamification/badges/:id', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+    try {
+      await mongoStorage.deleteBadgeDefinition(req.params.id);
+      res.status(204).send();
+    } catch (error: any) {
+      if (error.message === 'Badge not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Delete badge error:', error);
+      res.status(500).json({ message: 'Failed to delete badge', error: error.message });
+    }
+  });
+
   // Blog routes
   app.get('/api/blogs', optionalAuth, async (req, res) => {
     try {
@@ -183,16 +825,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Blog not found' });
       }
 
-      // Increment views and track user if authenticated
+      // Posts that aren't live yet are only shown to their author and admins
+      const isAdmin = req.user?.role === 'admin' || req.user?.role === 'super_admin';
+      if (!blog.published && !isAdmin && blog.authorId !== req.user?.userId) {
+        return res.status(404).json({ message: 'Blog not found' });
+      }
+
+      // Increment views and track user if authenticated. Anonymous views are
+      // throttled per IP address; a view that isn't counted is still served.
       const userId = req.user?.userId;
-      await mongoStorage.incrementBlogViews(req.params.id, userId as string | undefined);
+      if (userId || !req.ip || await checkAnonymousView(req.ip, req.params.id) === 'counted') {
+        await mongoStorage.incrementBlogViews(req.params.id, userId as string | undefined);
+      }
 
       // Add isLikedByUser field
       const isLikedByUser = userId && blog._id
         ? await mongoStorage.isPostLikedByUser(userId as string, blog._id as string)
         : false;
 
-      res.json({ ...blog, isLikedByUser });
+      // Posts saved before content was sanitized on the way in are cleaned on the way out
+      res.json({ ...blog, content: sanitizeBlogContent(blog.content), isLikedByUser });
     } catch (error: any) {
       console.error('Get blog error:', error);
       res.status(500).json({ message: 'Failed to get blog', error: error.message });
@@ -205,8 +857,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: 'Authentication required' });
       }
 
-      // Validate request body against schema
-      const validationResult = blogRequestSchema.safeParse(req.body);
+      const isAdmin = req.user.role === 'admin' || req.user.role === 'super_admin';
+
+      // Validate request body against the schema for the user's role
+      const validationResult = (isAdmin ? adminBlogRequestSchema : studentBlogRequestSchema).safeParse(req.body);
       if (!validationResult.success) {
         return res.status(400).json({
           message: 'Invalid blog data',
@@ -214,17 +868,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Determine status based on role
-      const isAdmin = req.user.role === 'admin' || req.user.role === 'super_admin';
-      const blogData = {
-        ...validationResult.data,
-        // Students: Forced to pending & unpublished
-        // Admins: Respect their choice or default to approved
-        approvalStatus: isAdmin ? (validationResult.data.approvalStatus || 'approved') : 'pending',
-        published: isAdmin ? (validationResult.data.published ?? true) : false
-      };
-
-      const blog = await mongoStorage.createBlogPost(req.user.userId, blogData as any);
+      // Determine status based on role. Without a status, admins' posts go live
+      // unless marked unpublished, and students' posts are submitted for approval.
+      const { status, publishAt, notifySubscribers, published, ...post }: BlogRequest = validationResult.data;
+      const publishing = resolveBlogPublishing(
+        { status: status ?? (!isAdmin ? 'submitted' : published === false ? 'draft' : 'published'), publishAt, notifySubscribers },
+        isAdmin
+      );
+      if ('error' in publishing) {
+        return res.status(400).json({ message: publishing.error });
+      }
+
+      const content = sanitizeBlogContent(post.content);
+      if (!content) {
+        return res.status(400).json({ message: 'Blog content is empty' });
+      }
+
+      const blog = await mongoStorage.createBlogPost(req.user.userId, {
+        ...post,
+        content,
+        excerpt: deriveBlogExcerpt(content),
+        featured: post.featured ?? false,
+        approvalStatus: isAdmin ? 'approved' : 'pending',
+        ...publishing
+      });
       res.status(201).json(blog);
     } catch (error: any) {
       console.error('Create blog error:', error);
@@ -239,7 +906,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const limit = parseInt(req.query.limit as string) || 50;
       const offset = parseInt(req.query.offset as string) || 0;
 
-      const blogs = await mongoStorage.getAdminBlogPosts(status, limit, offset);
+      const blogs = await mongoStorage.getAdminBlogPosts(status, limit, offset, req.user?.userId);
       res.json(blogs);
     } catch (error: any) {
       console.error('Get admin blogs error:', error);
@@ -251,22 +918,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put('/api/admin/blogs/:id/approval', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
     try {
       const { id } = req.params;
-      const { status, rejectionReason } = req.body;
 
-      if (!['approved', 'rejected'].includes(status)) {
-        return res.status(400).json({ message: 'Invalid status. Must be approved or rejected.' });
+      const validationResult = blogReviewRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid blog review',
+          errors: validationResult.error.issues
+        });
       }
 
+      const { status, rejectionReason } = validationResult.data;
+
       const blog = await mongoStorage.getBlogPost(id);
       if (!blog) {
         return res.status(404).json({ message: 'Blog not found' });
       }
 
+      // Approved posts go live straight away, or at the publish time the author asked for.
+      // Rejected ones go back to their author as submitted but unpublished.
+      const now = new Date();
+      const publishing: BlogPublishing = status === 'rejected'
+        ? { status: 'submitted', published: false }
+        : blog.publishAt && new Date(blog.publishAt) > now
+          ? { status: 'scheduled', published: false }
+          : { status: 'published', published: true, publishedAt: blog.published && blog.publishedAt ? blog.publishedAt : now };
+
       const updatedBlog = await mongoStorage.updateBlogPost(id, {
         approvalStatus: status,
         rejectionReason: status === 'rejected' ? rejectionReason : undefined,
-        published: status === 'approved' // Auto-publish on approval? Or keep as draft? Let's say auto-publish for now to simplify
-      } as any);
+        ...publishing
+      });
+
+      await notifyBlogModeration(updatedBlog, status, rejectionReason);
 
       res.json(updatedBlog);
     } catch (error: any) {
@@ -281,9 +964,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: 'Authentication required' });
       }
 
-      // Validate request body against schema (partial update)
-      const updateSchema = blogRequestSchema.partial();
-      const validationResult = updateSchema.safeParse(req.body);
+      const isAdmin = req.user.role === 'admin' || req.user.role === 'super_admin';
+
+      // Validate request body against the schema for the user's role (partial update)
+      const validationResult = (isAdmin ? adminBlogRequestSchema : studentBlogRequestSchema).partial().safeParse(req.body);
       if (!validationResult.success) {
         return res.status(400).json({
           message: 'Invalid blog update data',
@@ -297,19 +981,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Blog not found' });
       }
 
-      if (existingBlog.authorId !== req.user.userId && req.user.role !== 'admin' && req.user.role !== 'super_admin') {
+      if (existingBlog.authorId !== req.user.userId && !isAdmin) {
         return res.status(403).json({ message: 'Permission denied' });
       }
 
-      const isAdmin = req.user.role === 'admin' || req.user.role === 'super_admin';
+      // The post's text and images are saved as a revision; other fields are updated in place
+      const edit: Record<string, unknown> = {};
+      const otherUpdates: Record<string, unknown> = {};
+      for (const [field, value] of Object.entries(validationResult.data)) {
+        if ((BLOG_REVISION_FIELDS as readonly string[]).includes(field)) {
+          edit[field] = value;
+        } else {
+          otherUpdates[field] = value;
+        }
+      }
+      if (typeof edit.content === 'string') {
+        edit.content = sanitizeBlogContent(edit.content);
+        if (!edit.content) {
+          return res.status(400).json({ message: 'Blog content is empty' });
+        }
+        edit.excerpt = deriveBlogExcerpt(edit.content as string);
+      }
+
+      const { status, publishAt, notifySubscribers, published, ...settings } = otherUpdates as Partial<BlogRequest>;
+
+      // A student's edit to an approved post waits for approval while the approved version stays live
+      if (!isAdmin && existingBlog.approvalStatus === 'approved') {
+        if (Object.keys(settings).length > 0) {
+          await mongoStorage.updateBlogPost(req.params.id, settings);
+        }
+        const blog = await mongoStorage.saveBlogRevision(req.params.id, req.user.userId, edit, { pending: true });
+        return res.json(blog);
+      }
 
-      const updateData: any = {
-        ...validationResult.data,
-        // If not admin, force status to pending and unpublished on update
-        ...(!isAdmin ? { approvalStatus: 'pending', published: false } : {})
-      };
+      // Students' edits go back for approval unless kept as a draft. Admins change the
+      // publishing state only when they ask to, by status or the older published flag.
+      const requestedStatus: BlogPostStatus | undefined = status
+        ?? (!isAdmin ? (existingBlog.status === 'draft' ? 'draft' : 'submitted') : published === undefined ? undefined : published ? 'published' : 'draft');
+      const publishing = requestedStatus
+        ? resolveBlogPublishing({ status: requestedStatus, publishAt: publishAt ?? existingBlog.publishAt, notifySubscribers }, isAdmin, existingBlog)
+        : {};
+      if ('error' in publishing) {
+        return res.status(400).json({ message: publishing.error });
+      }
 
-      const blog = await mongoStorage.updateBlogPost(req.params.id, updateData);
+      await mongoStorage.updateBlogPost(req.params.id, { ...settings, ...publishing });
+      const blog = await mongoStorage.saveBlogRevision(req.params.id, req.user.userId, edit);
       res.json(blog);
     } catch (error: any) {
       console.error('Update blog error:', error);
@@ -317,13 +1034,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/blogs/:id', authenticateToken, async (req, res) => {
+  // Revisions are shown to the post's author and to admins
+  app.get('/api/blogs/:id/revisions', authenticateToken, async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: 'Authentication required' });
       }
 
-      // Check if user owns the blog or is admin
       const existingBlog = await mongoStorage.getBlogPost(req.params.id);
       if (!existingBlog) {
         return res.status(404).json({ message: 'Blog not found' });
@@ -333,32 +1050,117 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: 'Permission denied' });
       }
 
-      await mongoStorage.deleteBlogPost(req.params.id);
-      res.status(204).send();
+      const revisions = await mongoStorage.getBlogRevisions(req.params.id);
+      res.json(revisions);
     } catch (error: any) {
-      console.error('Delete blog error:', error);
-      res.status(500).json({ message: 'Failed to delete blog', error: error.message });
+      console.error('Get blog revisions error:', error);
+      res.status(500).json({ message: 'Failed to get blog revisions', error: error.message });
     }
   });
 
-  // Comments routes
-  app.get('/api/blogs/:id/comments', optionalAuth, async (req, res) => {
+  app.put('/api/admin/blogs/:id/revisions/:revision/approval', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
     try {
-      const comments = await mongoStorage.getBlogComments(req.params.id);
-
-      // Add isLikedByUser field to each comment
-      const userId = req.user?.userId;
-      const commentsWithLikeStatus = await Promise.all(
-        comments.map(async (comment) => {
-          const isLikedByUser = userId && comment._id
-            ? await mongoStorage.isCommentLikedByUser(userId as string, comment._id as string)
-            : false;
-          return { ...comment, isLikedByUser };
-        })
-      );
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
 
-      res.json(commentsWithLikeStatus);
-    } catch (error: any) {
+      const validationResult = blogReviewRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid revision review',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const existingBlog = await mongoStorage.getBlogPost(req.params.id);
+      if (!existingBlog) {
+        return res.status(404).json({ message: 'Blog not found' });
+      }
+
+      const { status, rejectionReason } = validationResult.data;
+      const blog = await mongoStorage.reviewBlogRevision(req.params.id, Number(req.params.revision), req.user.userId, status, rejectionReason);
+      await notifyBlogRevisionReview(blog, status, rejectionReason);
+
+      res.json(blog);
+    } catch (error: any) {
+      if (error.message === 'Revision not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message === 'Revision is not pending') {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error('Review blog revision error:', error);
+      res.status(500).json({ message: 'Failed to review blog revision', error: error.message });
+    }
+  });
+
+  app.post('/api/admin/blogs/:id/revisions/:revision/restore', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const existingBlog = await mongoStorage.getBlogPost(req.params.id);
+      if (!existingBlog) {
+        return res.status(404).json({ message: 'Blog not found' });
+      }
+
+      const blog = await mongoStorage.restoreBlogRevision(req.params.id, Number(req.params.revision), req.user.userId);
+      res.json(blog);
+    } catch (error: any) {
+      if (error.message === 'Revision not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message === 'Revision is pending') {
+        return res.status(409).json({ message: 'Approve or reject a pending revision instead of restoring it' });
+      }
+      console.error('Restore blog revision error:', error);
+      res.status(500).json({ message: 'Failed to restore blog revision', error: error.message });
+    }
+  });
+
+  app.delete('/api/blogs/:id', authenticateToken, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      // Check if user owns the blog or is admin
+      const existingBlog = await mongoStorage.getBlogPost(req.params.id);
+      if (!existingBlog) {
+        return res.status(404).json({ message: 'Blog not found' });
+      }
+
+      if (existingBlog.authorId !== req.user.userId && req.user.role !== 'admin' && req.user.role !== 'super_admin') {
+        return res.status(403).json({ message: 'Permission denied' });
+      }
+
+      await mongoStorage.deleteBlogPost(req.params.id);
+      res.status(204).send();
+    } catch (error: any) {
+      console.error('Delete blog error:', error);
+      res.status(500).json({ message: 'Failed to delete blog', error: error.message });
+    }
+  });
+
+  // Comments routes
+  app.get('/api/blogs/:id/comments', optionalAuth, async (req, res) => {
+    try {
+      const comments = await mongoStorage.getBlogComments(req.params.id);
+
+      // Add isLikedByUser field to each comment
+      const userId = req.user?.userId;
+      const commentsWithLikeStatus = await Promise.all(
+        comments.map(async (comment) => {
+          const isLikedByUser = userId && comment._id
+            ? await mongoStorage.isCommentLikedByUser(userId as string, comment._id as string)
+            : false;
+          return { ...comment, isLikedByUser };
+        })
+      );
+
+      res.json(commentsWithLikeStatus);
+    } catch (error: any) {
       console.error('Get comments error:', error);
       res.status(500).json({ message: 'Failed to get comments', error: error.message });
     }
@@ -373,7 +1175,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
       // Validate request body against schema
-      const validationResult = blogCommentRequestSchema.safeParse(req.body);
+      const validationResult = commentRequestSchema.safeParse(req.body);
       if (!validationResult.success) {
         return res.status(400).json({
           message: 'Invalid comment data',
@@ -386,6 +1188,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         req.params.id,
         validationResult.data
       );
+
+      await notifyCommentReply(comment);
+
       res.status(201).json(comment);
     } catch (error: any) {
       console.error('Create comment error:', error);
@@ -400,6 +1205,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: 'Authentication required' });
       }
 
+      if (await checkLike(req.user.userId, `blog:${req.params.id}`) === 'rate_limited') {
+        return res.status(429).json({ message: TOO_MANY_LIKES });
+      }
+
       await mongoStorage.likeBlogPost(req.user.userId, req.params.id);
       const likesCount = await mongoStorage.getBlogLikesCount(req.params.id);
       res.json({ message: 'Blog liked successfully', likesCount });
@@ -415,6 +1224,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: 'Authentication required' });
       }
 
+      if (await checkLike(req.user.userId, `blog:${req.params.id}`) === 'rate_limited') {
+        return res.status(429).json({ message: TOO_MANY_LIKES });
+      }
+
       await mongoStorage.unlikeBlogPost(req.user.userId, req.params.id);
       const likesCount = await mongoStorage.getBlogLikesCount(req.params.id);
       res.json({ message: 'Blog unliked successfully', likesCount });
@@ -473,7 +1286,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: 'Authentication required' });
       }
 
+      if (await checkLike(req.user.userId, `comment:${req.params.id}`) === 'rate_limited') {
+        return res.status(429).json({ message: TOO_MANY_LIKES });
+      }
+
+      const alreadyLiked = await mongoStorage.isCommentLikedByUser(req.user.userId, req.params.id);
       await mongoStorage.likeComment(req.user.userId, req.params.id);
+
+      // Only notify on the first like, not on repeated requests
+      if (!alreadyLiked) {
+        await notifyCommentLike(req.params.id, req.user.userId);
+      }
+
       const likesCount = await mongoStorage.getCommentLikesCount(req.params.id);
       res.json({ message: 'Comment liked successfully', likesCount });
     } catch (error: any) {
@@ -488,6 +1312,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: 'Authentication required' });
       }
 
+      if (await checkLike(req.user.userId, `comment:${req.params.id}`) === 'rate_limited') {
+        return res.status(429).json({ message: TOO_MANY_LIKES });
+      }
+
       await mongoStorage.unlikeComment(req.user.userId, req.params.id);
       const likesCount = await mongoStorage.getCommentLikesCount(req.params.id);
       res.json({ message: 'Comment unliked successfully', likesCount });
@@ -529,7 +1357,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 
       // Validate request body against schema
-      const validationResult = eventCommentRequestSchema.safeParse(req.body);
+      const validationResult = commentRequestSchema.safeParse(req.body);
       if (!validationResult.success) {
         return res.status(400).json({
           message: 'Invalid comment data',
@@ -542,6 +1370,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         req.params.id,
         validationResult.data
       );
+
+      await notifyCommentReply(comment);
+
       res.status(201).json(comment);
     } catch (error: any) {
       console.error('Create event comment error:', error);
@@ -552,6 +1383,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Learning resource comments routes
   app.get('/api/resources/:id/comments', optionalAuth, async (req, res) => {
     try {
+      if (!await findAccessibleResource(req, res)) return;
+
       const comments = await mongoStorage.getResourceComments(req.params.id);
 
       // Add isLikedByUser field to each comment
@@ -578,10 +1411,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: 'Authentication required' });
       }
 
-
+      if (!await findAccessibleResource(req, res)) return;
 
       // Validate request body against schema
-      const validationResult = resourceCommentRequestSchema.safeParse(req.body);
+      const validationResult = commentRequestSchema.safeParse(req.body);
       if (!validationResult.success) {
         return res.status(400).json({
           message: 'Invalid comment data',
@@ -594,6 +1427,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         req.params.id,
         validationResult.data
       );
+
+      await notifyCommentReply(comment);
+
       res.status(201).json(comment);
     } catch (error: any) {
       console.error('Create resource comment error:', error);
@@ -620,7 +1456,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: 'Authentication required' });
       }
 
-      const event = await mongoStorage.createEvent(req.user.userId, req.body);
+      const validationResult = eventRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid event data',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const event = await mongoStorage.createEvent(req.user.userId, validationResult.data);
       res.status(201).json(event);
     } catch (error: any) {
       console.error('Create event error:', error);
@@ -630,7 +1474,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/events/:id', optionalAuth, async (req, res) => {
     try {
-      const event = await mongoStorage.getEvent(req.params.id);
+      const event = await mongoStorage.getEvent(req.params.id, req.user?.userId);
       if (!event) {
         return res.status(404).json({ message: 'Event not found' });
       }
@@ -647,7 +1491,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: 'Authentication required' });
       }
 
-      const event = await mongoStorage.updateEvent(req.params.id, req.body);
+      const validationResult = eventUpdateRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid event data',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const event = await mongoStorage.updateEvent(req.params.id, validationResult.data);
+
+      await notifyEventUpdated(event);
+
+      // A capacity increase frees seats for people on the waitlist
+      const promoted = await mongoStorage.promoteFromWaitlist(req.params.id);
+      await emailPromotedRegistrations(event, promoted);
+
       res.json(event);
     } catch (error: any) {
       console.error('Update event error:', error);
@@ -665,586 +1524,2375 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(204).send();
     } catch (error: any) {
       console.error('Delete event error:', error);
+      if (error.message === 'Event has paid registrations') {
+        return res.status(409).json({ message: 'Cancel this event first so paid attendees are refunded' });
+      }
       res.status(500).json({ message: 'Failed to delete event', error: error.message });
     }
   });
 
-  // Event registration routes
-  app.post('/api/events/:id/register', authenticateToken, async (req, res) => {
+  // Cancel a single event or one session of a series; registrants are notified
+  // and paid registrations refunded. Cancelling again retries failed refunds.
+  app.post('/api/events/:id/cancel', authenticateToken, requireAdmin, async (req, res) => {
     try {
-      if (!req.user) {
-        return res.status(401).json({ message: 'Authentication required' });
-      }
-
-      const registration = await mongoStorage.registerForEvent(req.user.userId, req.params.id);
-      res.status(201).json({
-        message: 'Successfully registered for event',
-        registration
-      });
+      const { event, userIds } = await mongoStorage.cancelEvent(req.params.id);
+      await notifyEventCancelled(event, userIds);
+      await refundCancelledEvent(event);
+      res.json(event);
     } catch (error: any) {
-      console.error('Event registration error:', error);
-      res.status(500).json({ message: 'Failed to register for event', error: error.message });
+      console.error('Cancel event error:', error);
+      if (error.message === 'Event not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ message: 'Failed to cancel event', error: error.message });
     }
   });
 
-  app.get('/api/events/:id/registrations', authenticateToken, requireAdmin, async (req, res) => {
+  app.post('/api/events/:id/reinstate', authenticateToken, requireAdmin, async (req, res) => {
     try {
-      const registrations = await mongoStorage.getEventRegistrations(req.params.id);
-
-      // Fetch user details for each registration
-      const registrationsWithUsers = await Promise.all(
-        registrations.map(async (registration) => {
-          const user = await mongoStorage.getUser(registration.userId);
-          return {
-            ...registration,
-            user: user ? {
-              _id: user._id,
-              email: user.email,
-              firstName: user.firstName,
-              lastName: user.lastName,
-              profileImageUrl: user.profileImageUrl
-            } : null
-          };
-        })
-      );
-
-      res.json(registrationsWithUsers);
+      const event = await mongoStorage.reinstateEvent(req.params.id);
+      res.json(event);
     } catch (error: any) {
-      console.error('Get event registrations error:', error);
-      res.status(500).json({ message: 'Failed to get event registrations', error: error.message });
+      console.error('Reinstate event error:', error);
+      if (error.message === 'Event not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ message: 'Failed to reinstate event', error: error.message });
     }
   });
 
-  app.get('/api/user/event-registrations', authenticateToken, async (req, res) => {
+  // Event series routes
+  app.post('/api/event-series', authenticateToken, requireAdmin, async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: 'Authentication required' });
       }
 
-      const registrations = await mongoStorage.getUserEventRegistrations(req.user.userId);
-      res.json(registrations);
-    } catch (error: any) {
-      console.error('Get user event registrations error:', error);
-      res.status(500).json({ message: 'Failed to get user event registrations', error: error.message });
-    }
-  });
+      const validationResult = insertEventSeriesSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid event series data',
+          errors: validationResult.error.issues
+        });
+      }
 
-  // Learning resources routes
-  app.get('/api/resources', optionalAuth, async (req, res) => {
-    try {
-      const limit = parseInt(req.query.limit as string) || 20;
-      const offset = parseInt(req.query.offset as string) || 0;
-      const resources = await mongoStorage.getLearningResources(limit, offset);
-      res.json(resources);
+      const series = await mongoStorage.createEventSeries(req.user.userId, validationResult.data);
+      res.status(201).json(series);
     } catch (error: any) {
-      console.error('Get resources error:', error);
-      res.status(500).json({ message: 'Failed to get resources', error: error.message });
+      console.error('Create event series error:', error);
+      if (error.message.startsWith('Series ')) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: 'Failed to create event series', error: error.message });
     }
   });
 
-  app.get('/api/resources/:id', optionalAuth, async (req, res) => {
+  app.get('/api/event-series/:id', optionalAuth, async (req, res) => {
     try {
-      const resource = await mongoStorage.getLearningResource(req.params.id);
-      if (!resource) {
-        return res.status(404).json({ message: 'Resource not found' });
+      const series = await mongoStorage.getEventSeries(req.params.id, req.user?.userId);
+      if (!series) {
+        return res.status(404).json({ message: 'Event series not found' });
       }
-      res.json(resource);
+      res.json(series);
     } catch (error: any) {
-      console.error('Get resource error:', error);
-      res.status(500).json({ message: 'Failed to get resource', error: error.message });
+      console.error('Get event series error:', error);
+      res.status(500).json({ message: 'Failed to get event series', error: error.message });
     }
   });
 
-  // Generate signed download URL for Cloudinary resources
-  // Note: No authentication required here because signed URLs are inherently secure
-  // (time-limited and cryptographically signed). This allows previews in iframes and
-  // downloads to work properly without cookie/authentication issues.
-  app.post('/api/cloudinary/signed-url', async (req, res) => {
+  app.put('/api/event-series/:id', authenticateToken, requireAdmin, async (req, res) => {
     try {
-      const { publicId, resourceType = 'raw', format, filename } = req.body;
-
-      if (!publicId) {
-        return res.status(400).json({ message: 'publicId is required' });
+      const validationResult = insertEventSeriesSchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid event series data',
+          errors: validationResult.error.issues
+        });
       }
 
-      // Generate signed URL with 1 hour expiration
-      const expiresAt = Math.floor(Date.now() / 1000) + 3600; // 1 hour from now
-      const urlOptions: any = {
-        resource_type: resourceType,
-        type: 'upload', // Files uploaded via unsigned preset are stored as 'upload' type
-        sign_url: true,
-        secure: true,
-        expires_at: expiresAt
-      };
+      const { series, updatedSessions, cancelledSessions } = await mongoStorage.updateEventSeries(req.params.id, validationResult.data);
 
-      // Only add attachment flag if filename is provided
-      if (filename) {
-        urlOptions.flags = 'attachment';
-      }
+      for (const session of updatedSessions) {
+        await notifyEventUpdated(session);
 
-      if (format) {
-        urlOptions.format = format;
+        // A capacity increase frees seats for people on the waitlist
+        const promoted = await mongoStorage.promoteFromWaitlist(session._id!);
+        await emailPromotedRegistrations(session, promoted);
       }
 
-      const signedUrl = cloudinary.url(publicId, urlOptions);
+      for (const { event, userIds } of cancelledSessions) {
+        await notifyEventCancelled(event, userIds);
+        await refundCancelledEvent(event);
+      }
 
-      res.json({ url: signedUrl });
+      res.json(series);
     } catch (error: any) {
-      console.error('Generate signed URL error:', error);
-      res.status(500).json({ message: 'Failed to generate signed URL', error: error.message });
+      console.error('Update event series error:', error);
+      if (error.message === 'Event series not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message.startsWith('Series ')) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: 'Failed to update event series', error: error.message });
     }
   });
 
-  // Resource download tracking
-  app.post('/api/resources/:id/download', authenticateToken, async (req, res) => {
+  app.delete('/api/event-series/:id', authenticateToken, requireAdmin, async (req, res) => {
     try {
-      if (!req.user) {
-        return res.status(401).json({ message: 'Authentication required' });
-      }
-
-      await mongoStorage.recordResourceDownload(req.user.userId, req.params.id);
-      res.json({ message: 'Download recorded successfully' });
+      await mongoStorage.deleteEventSeries(req.params.id);
+      res.status(204).send();
     } catch (error: any) {
-      console.error('Record download error:', error);
-      res.status(500).json({ message: 'Failed to record download', error: error.message });
+      console.error('Delete event series error:', error);
+      if (error.message === 'Event series not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message === 'Event has paid registrations') {
+        return res.status(409).json({ message: 'Cancel the paid sessions first so their attendees are refunded' });
+      }
+      res.status(500).json({ message: 'Failed to delete event series', error: error.message });
     }
   });
 
-  // Resource rating
-  app.post('/api/resources/:id/rate', authenticateToken, async (req, res) => {
+  // Register for every upcoming session of a series in one go
+  app.post('/api/event-series/:id/register', authenticateToken, async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: 'Authentication required' });
       }
 
-      const { rating } = req.body;
-      if (!rating || rating < 1 || rating > 5) {
-        return res.status(400).json({ message: 'Rating must be between 1 and 5' });
-      }
+      const registrations = await mongoStorage.registerForEventSeries(req.user.userId, req.params.id);
+      const waitlisted = registrations.filter(registration => registration.status === 'waitlisted').length;
 
-      await mongoStorage.rateResource(req.user.userId, req.params.id, rating);
-      res.json({ message: 'Rating submitted successfully' });
+      res.status(201).json({
+        message: waitlisted > 0
+          ? `Registered for ${registrations.length - waitlisted} sessions and waitlisted for ${waitlisted} full sessions`
+          : `Registered for ${registrations.length} sessions`,
+        registrations
+      });
     } catch (error: any) {
-      console.error('Rate resource error:', error);
-      res.status(500).json({ message: 'Failed to rate resource', error: error.message });
+      console.error('Event series registration error:', error);
+      if (error.message === 'Event series not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message === 'Event series has no upcoming sessions' || error.message === 'Paid sessions must be booked one at a time') {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: 'Failed to register for event series', error: error.message });
     }
   });
 
-  app.post('/api/resources', authenticateToken, requireAdmin, async (req, res) => {
+  app.delete('/api/event-series/:id/register', authenticateToken, async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: 'Authentication required' });
       }
 
-      const resource = await mongoStorage.createLearningResource(req.user.userId, req.body);
-      res.status(201).json(resource);
+      const results = await mongoStorage.cancelEventSeriesRegistration(req.user.userId, req.params.id);
+
+      for (const { registration, promoted } of results) {
+        if (promoted.length === 0) continue;
+        const session = await mongoStorage.getEvent(registration.eventId);
+        if (session) {
+          await emailPromotedRegistrations(session, promoted);
+        }
+      }
+
+      res.json({
+        message: `Cancelled registration for ${results.length} sessions`,
+        registrations: results.map(result => result.registration)
+      });
     } catch (error: any) {
-      console.error('Create resource error:', error);
-      res.status(500).json({ message: 'Failed to create resource', error: error.message });
+      console.error('Cancel event series registration error:', error);
+      if (error.message === 'Event series not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message === 'Registration not found') {
+        return res.status(404).json({ message: 'You are not registered for any upcoming sessions in this series' });
+      }
+      res.status(500).json({ message: 'Failed to cancel series registration', error: error.message });
     }
   });
 
-  app.put('/api/resources/:id', authenticateToken, requireAdmin, async (req, res) => {
+  // Event registration routes
+  app.post('/api/events/:id/register', authenticateToken, async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: 'Authentication required' });
       }
 
-      const resource = await mongoStorage.updateLearningResource(req.params.id, req.body);
-      res.json(resource);
+      // Seats held for checkouts that were never completed go to the waitlist first
+      const released = await mongoStorage.releaseExpiredPaymentHolds(req.params.id);
+      if (released.length > 0) {
+        const releasedEvent = await mongoStorage.getEvent(req.params.id);
+        if (releasedEvent) {
+          await emailPromotedRegistrations(releasedEvent, released);
+        }
+      }
+
+      const registration = await mongoStorage.registerForEvent(req.user.userId, req.params.id);
+      const event = await mongoStorage.getEvent(req.params.id) as any;
+
+      // Seats at paid events are only confirmed once checkout completes
+      if (registration.status === 'pending_payment' && event) {
+        const user = await mongoStorage.getUser(req.user.userId);
+        if (!user) {
+          return res.status(404).json({ message: 'User not found' });
+        }
+
+        const checkoutUrl = await startEventCheckout(event, registration, user.email);
+        return res.status(201).json({
+          message: 'Complete payment to confirm your place',
+          registration,
+          checkoutUrl,
+          registeredCount: event.registeredCount,
+          waitlistCount: event.waitlistCount
+        });
+      }
+
+      // Email the ticket; a mail failure shouldn't undo the registration
+      if (registration.status === 'registered' && event) {
+        try {
+          const user = await mongoStorage.getUser(req.user.userId);
+          if (user) {
+            await sendEventTicketEmail(user.email, user.firstName || 'there', event, generateTicketCode(registration._id!));
+          }
+        } catch (emailError) {
+          console.error('Failed to send event ticket email:', emailError);
+        }
+      }
+
+      res.status(201).json({
+        message: registration.status === 'waitlisted'
+          ? 'Event is full. You have been added to the waitlist'
+          : 'Successfully registered for event',
+        registration,
+        registeredCount: event?.registeredCount,
+        waitlistCount: event?.waitlistCount
+      });
     } catch (error: any) {
-      console.error('Update resource error:', error);
-      res.status(500).json({ message: 'Failed to update resource', error: error.message });
+      console.error('Event registration error:', error);
+
+      if (error.message === 'Event not found') {
+        return res.status(404).json({ message: 'Event not found' });
+      }
+      if (error.message === 'Event has been cancelled') {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error.message === 'Online payments are not configured') {
+        return res.status(503).json({ message: 'Paid registration is not available right now' });
+      }
+
+      res.status(500).json({ message: 'Failed to register for event', error: error.message });
     }
   });
 
-  app.delete('/api/resources/:id', authenticateToken, requireAdmin, async (req, res) => {
+  app.delete('/api/events/:id/register', authenticateToken, async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: 'Authentication required' });
       }
 
-      await mongoStorage.deleteLearningResource(req.params.id);
-      res.status(204).send();
-    } catch (error: any) {
-      console.error('Delete resource error:', error);
-      res.status(500).json({ message: 'Failed to delete resource', error: error.message });
+      const { registration, promoted } = await mongoStorage.cancelEventRegistration(req.user.userId, req.params.id);
+      const event = await mongoStorage.getEvent(req.params.id) as any;
+
+      if (event) {
+        await emailPromotedRegistrations(event, promoted);
+      }
+
+      res.json({
+        message: 'Registration cancelled',
+        registration,
+        registeredCount: event?.registeredCount,
+        waitlistCount: event?.waitlistCount
+      });
+    } catch (error: any) {
+      console.error('Cancel event registration error:', error);
+
+      if (error.message === 'Registration not found') {
+        return res.status(404).json({ message: 'You are not registered for this event' });
+      }
+      if (error.message === 'Paid registrations cannot be cancelled') {
+        return res.status(400).json({ message: "Paid registrations can't be cancelled online. Please contact the organisers about a refund" });
+      }
+
+      res.status(500).json({ message: 'Failed to cancel registration', error: error.message });
     }
   });
 
-  // Staff routes
-  app.get('/api/staff', optionalAuth, async (req, res) => {
+  app.get('/api/events/:id/registrations', authenticateToken, requireAdmin, async (req, res) => {
     try {
-      const staffProfiles = await mongoStorage.getStaffProfiles();
+      const registrations = await mongoStorage.getEventRegistrations(req.params.id);
 
-      const staffWithUserData = await Promise.all(
-        staffProfiles.map(async (profile) => {
-          // Handle both userId (existing user) and customName (custom profile) scenarios
-          if (profile.userId) {
-            const user = await mongoStorage.getUser(profile.userId);
-            return {
-              ...profile,
-              name: user ? `${user.firstName || ''} ${user.lastName || ''}`.trim() : 'Unknown',
-              email: user?.email || '',
-              phone: profile.phone || user?.phoneNumber || '',
-              avatar: profile.avatar || user?.profileImageUrl || '',
-            };
-          } else {
-            // Custom staff member without userId
-            return {
-              ...profile,
-              name: profile.customName || 'Unknown',
-              email: '',
-              phone: profile.phone || '',
-              avatar: profile.avatar || '',
-            };
-          }
+      // Fetch user details for each registration
+      const registrationsWithUsers = await Promise.all(
+        registrations.map(async (registration) => {
+          const user = await mongoStorage.getUser(registration.userId);
+          return {
+            ...registration,
+            user: user ? {
+              _id: user._id,
+              email: user.email,
+              firstName: user.firstName,
+              lastName: user.lastName,
+              profileImageUrl: user.profileImageUrl
+            } : null
+          };
         })
       );
 
-      res.json(staffWithUserData);
+      res.json(registrationsWithUsers);
     } catch (error: any) {
-      console.error('Get staff error:', error);
-      res.status(500).json({ message: 'Failed to get staff', error: error.message });
+      console.error('Get event registrations error:', error);
+      res.status(500).json({ message: 'Failed to get event registrations', error: error.message });
     }
   });
 
-  app.get('/api/staff/landing-page/featured', optionalAuth, async (req, res) => {
+  // Check in an attendee by the code on their ticket
+  app.post('/api/events/:id/check-in', authenticateToken, requireAdmin, async (req, res) => {
     try {
-      const staffProfiles = await mongoStorage.getLandingPageStaff();
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
 
-      const staffWithUserData = await Promise.all(
-        staffProfiles.map(async (profile) => {
-          // Handle both userId (existing user) and customName (custom profile) scenarios
-          if (profile.userId) {
-            const user = await mongoStorage.getUser(profile.userId);
-            return {
-              ...profile,
-              name: user ? `${user.firstName || ''} ${user.lastName || ''}`.trim() : 'Unknown',
-              email: user?.email || '',
-              phone: profile.phone || user?.phoneNumber || '',
-              avatar: profile.avatar || user?.profileImageUrl || '',
-            };
-          } else {
-            // Custom staff member without userId
-            return {
-              ...profile,
-              name: profile.customName || 'Unknown',
-              email: '',
-              phone: profile.phone || '',
-              avatar: profile.avatar || '',
-            };
-          }
-        })
+      const validationResult = checkInRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid check-in data',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const registrationId = verifyTicketCode(validationResult.data.code);
+      if (!registrationId) {
+        return res.status(400).json({ message: 'Invalid ticket code' });
+      }
+
+      const registration = await mongoStorage.checkInEventRegistration(req.params.id, registrationId, req.user.userId);
+      const user = await mongoStorage.getUser(registration.userId);
+
+      res.json({
+        message: 'Checked in',
+        registration,
+        attendee: user ? {
+          _id: user._id,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          email: user.email,
+          profileImageUrl: user.profileImageUrl
+        } : null
+      });
+    } catch (error: any) {
+      console.error('Event check-in error:', error);
+
+      if (error.message === 'Registration not found') {
+        return res.status(404).json({ message: 'Ticket not found' });
+      }
+      if (error.message === 'Ticket already checked in') {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error.message === 'Ticket is for a different event' || error.message === 'Registration is not active') {
+        return res.status(400).json({ message: error.message });
+      }
+
+      res.status(500).json({ message: 'Failed to check in', error: error.message });
+    }
+  });
+
+  app.get('/api/events/:id/attendance', authenticateToken, requireAdmin, async (req, res) => {
+    try {
+      const report = await mongoStorage.getEventAttendance(req.params.id);
+      res.json(report);
+    } catch (error: any) {
+      console.error('Get event attendance error:', error);
+
+      if (error.message === 'Event not found') {
+        return res.status(404).json({ message: 'Event not found' });
+      }
+
+      res.status(500).json({ message: 'Failed to get event attendance', error: error.message });
+    }
+  });
+
+  app.get('/api/events/:id/revenue', authenticateToken, requireAdmin, async (req, res) => {
+    try {
+      const summary = await mongoStorage.getEventRevenue(req.params.id);
+      res.json(summary);
+    } catch (error: any) {
+      console.error('Get event revenue error:', error);
+
+      if (error.message === 'Event not found') {
+        return res.status(404).json({ message: 'Event not found' });
+      }
+
+      res.status(500).json({ message: 'Failed to get event revenue', error: error.message });
+    }
+  });
+
+  // Payment routes
+
+  // The provider sends the payer back here after checkout
+  app.get('/api/payments/callback', async (req, res) => {
+    const reference = String(req.query.reference || req.query.trxref || '');
+
+    try {
+      const payment = reference ? await settleEventPayment(reference) : undefined;
+      if (!payment) {
+        return res.redirect(`${config.frontendUrl}/events`);
+      }
+
+      const outcome = payment.status === 'paid' ? 'success'
+        : payment.status === 'pending' ? 'pending'
+        : payment.status === 'refund_pending' || payment.status === 'refunded' ? 'refunded'
+        : 'failed';
+      res.redirect(`${config.frontendUrl}/events/${payment.eventId}?payment=${outcome}`);
+    } catch (error: any) {
+      // The webhook will settle the payment once the provider can be reached
+      console.error('Payment callback error:', error);
+      const payment = reference ? await mongoStorage.getPaymentByReference(reference).catch(() => undefined) : undefined;
+      res.redirect(payment ? `${config.frontendUrl}/events/${payment.eventId}?payment=pending` : `${config.frontendUrl}/events`);
+    }
+  });
+
+  app.post('/api/payments/webhook', async (req, res) => {
+    try {
+      const provider = getPaymentProvider();
+      const webhook = provider && req.rawBody ? provider.parseWebhook(req.rawBody, req.headers) : null;
+      if (!webhook) {
+        return res.status(401).json({ message: 'Invalid webhook signature' });
+      }
+
+      switch (webhook.type) {
+        case 'payment.success':
+        case 'payment.failed':
+          await settleEventPayment(webhook.reference);
+          break;
+        case 'refund.processed':
+          await mongoStorage.markPaymentRefunded(webhook.reference, 'refunded');
+          break;
+        case 'refund.failed':
+          console.error(`Refund failed for payment ${webhook.reference}`);
+          break;
+      }
+
+      res.json({ received: true });
+    } catch (error: any) {
+      // A non-2xx response makes the provider retry later
+      console.error('Payment webhook error:', error);
+      res.status(500).json({ message: 'Failed to process webhook', error: error.message });
+    }
+  });
+
+  // Checkout page for the mock provider used in development
+  app.get('/api/payments/mock/checkout', async (req, res) => {
+    try {
+      const provider = getPaymentProvider();
+      const reference = String(req.query.reference || '');
+      const payment = provider instanceof MockPaymentProvider && provider.getTransaction(reference)
+        ? await mongoStorage.getPaymentByReference(reference)
+        : undefined;
+      if (!payment) {
+        return res.status(404).json({ message: 'Payment not found' });
+      }
+
+      const event = await mongoStorage.getEvent(payment.eventId);
+      res.type('html').send(renderMockCheckoutPage(reference, payment.amount, event?.title || 'Event registration'));
+    } catch (error: any) {
+      console.error('Mock checkout error:', error);
+      res.status(500).json({ message: 'Failed to load checkout', error: error.message });
+    }
+  });
+
+  app.post('/api/payments/mock/checkout', async (req, res) => {
+    try {
+      const validationResult = mockCheckoutRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid checkout data',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const provider = getPaymentProvider();
+      const { reference, outcome } = validationResult.data;
+      if (!(provider instanceof MockPaymentProvider) || !provider.getTransaction(reference)) {
+        return res.status(404).json({ message: 'Payment not found' });
+      }
+
+      const transaction = provider.completePayment(reference, outcome === 'success');
+      res.redirect(`${transaction.callbackUrl}?reference=${encodeURIComponent(reference)}`);
+    } catch (error: any) {
+      console.error('Mock checkout error:', error);
+      res.status(500).json({ message: 'Failed to complete checkout', error: error.message });
+    }
+  });
+
+  app.get('/api/user/event-registrations', authenticateToken, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const registrations = await mongoStorage.getUserEventRegistrations(req.user.userId);
+      res.json(registrations);
+    } catch (error: any) {
+      console.error('Get user event registrations error:', error);
+      res.status(500).json({ message: 'Failed to get user event registrations', error: error.message });
+    }
+  });
+
+  // Tickets for the user's confirmed registrations, soonest event first
+  app.get('/api/user/event-tickets', authenticateToken, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const registrations = await mongoStorage.getUserEventRegistrations(req.user.userId);
+      const tickets = await Promise.all(
+        registrations
+          .filter(registration => registration.status === 'registered' || registration.status === 'attended')
+          .map(async (registration) => {
+            const event = await mongoStorage.getEvent(registration.eventId);
+            return event ? {
+              registration,
+              ticketCode: generateTicketCode(registration._id!),
+              event: {
+                _id: event._id,
+                title: event.title,
+                date: event.date,
+                time: event.time,
+                location: event.location
+              }
+            } : null;
+          })
       );
 
-      res.json(staffWithUserData);
+      res.json(
+        tickets
+          .filter((ticket): ticket is NonNullable<typeof ticket> => ticket !== null)
+          .sort((a, b) => new Date(a.event.date).getTime() - new Date(b.event.date).getTime())
+      );
     } catch (error: any) {
-      console.error('Get landing page staff error:', error);
-      res.status(500).json({ message: 'Failed to get landing page staff', error: error.message });
+      console.error('Get event tickets error:', error);
+      res.status(500).json({ message: 'Failed to get event tickets', error: error.message });
     }
   });
 
-  app.get('/api/staff/:id', optionalAuth, async (req, res) => {
+  // Calendar routes
+  app.get('/api/events/:id/ics', async (req, res) => {
     try {
-      const profile = await mongoStorage.getStaffProfileById(req.params.id);
-      if (!profile) {
-        return res.status(404).json({ message: 'Staff profile not found' });
+      const event = await mongoStorage.getEvent(req.params.id);
+      if (!event) {
+        return res.status(404).json({ message: 'Event not found' });
       }
 
-      // Handle both userId (existing user) and customName (custom profile) scenarios
-      let staffWithUserData;
-      if (profile.userId) {
-        const user = await mongoStorage.getUser(profile.userId);
-        staffWithUserData = {
-          ...profile,
-          name: user ? `${user.firstName || ''} ${user.lastName || ''}`.trim() : 'Unknown',
-          email: user?.email || '',
-          phone: profile.phone || user?.phoneNumber || '',
-          avatar: profile.avatar || user?.profileImageUrl || '',
-        };
-      } else {
-        // Custom staff member without userId
-        staffWithUserData = {
-          ...profile,
-          name: profile.customName || 'Unknown',
-          email: '',
-          phone: profile.phone || '',
-          avatar: profile.avatar || '',
-        };
+      const calendar = buildCalendar([event], { name: event.title, baseUrl: config.frontendUrl });
+      const filename = event.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'event';
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}.ics"`);
+      res.send(calendar);
+    } catch (error: any) {
+      console.error('Get event calendar error:', error);
+      res.status(500).json({ message: 'Failed to generate calendar file', error: error.message });
+    }
+  });
+
+  // Public feed of department events. Registered before the per-user feed so
+  // "department" isn't read as a token.
+  app.get('/api/calendar/department.ics', async (req, res) => {
+    try {
+      const since = new Date();
+      since.setDate(since.getDate() - CALENDAR_FEED_HISTORY_DAYS);
+
+      const events = await mongoStorage.getCalendarEvents({ since });
+      const calendar = buildCalendar(events, {
+        name: 'Nsasa Department Events',
+        description: 'Upcoming events from the department',
+        baseUrl: config.frontendUrl
+      });
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.send(calendar);
+    } catch (error: any) {
+      console.error('Get department calendar error:', error);
+      res.status(500).json({ message: 'Failed to generate calendar feed', error: error.message });
+    }
+  });
+
+  // Per-user feed of confirmed registrations. Calendar apps can't send cookies,
+  // so the signed token in the URL is the only credential.
+  app.get('/api/calendar/:token.ics', async (req, res) => {
+    try {
+      const userId = parseCalendarFeedToken(req.params.token);
+      const user = userId ? await mongoStorage.getUser(userId) : undefined;
+      if (!user || !verifyCalendarFeedToken(req.params.token, user._id!, user.calendarFeedVersion ?? 0)) {
+        return res.status(404).json({ message: 'Calendar feed not found' });
+      }
+
+      const registrations = await mongoStorage.getUserEventRegistrations(user._id!);
+      const eventIds = registrations
+        .filter(registration => registration.status === 'registered' || registration.status === 'attended')
+        .map(registration => registration.eventId);
+
+      const events = await mongoStorage.getCalendarEvents({ eventIds });
+      const calendar = buildCalendar(events, {
+        name: 'My Nsasa Events',
+        description: 'Events you have registered for',
+        baseUrl: config.frontendUrl
+      });
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.send(calendar);
+    } catch (error: any) {
+      console.error('Get user calendar error:', error);
+      res.status(500).json({ message: 'Failed to generate calendar feed', error: error.message });
+    }
+  });
+
+  app.get('/api/user/calendar-feed', authenticateToken, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const user = await mongoStorage.getUser(req.user.userId);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      res.json(getCalendarFeedUrls(user._id!, user.calendarFeedVersion ?? 0));
+    } catch (error: any) {
+      console.error('Get calendar feed error:', error);
+      res.status(500).json({ message: 'Failed to get calendar feed', error: error.message });
+    }
+  });
+
+  // Issue a new feed URL, e.g. after the old one was shared by mistake
+  app.post('/api/user/calendar-feed/reset', authenticateToken, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const version = await mongoStorage.rotateCalendarFeedVersion(req.user.userId);
+      res.json(getCalendarFeedUrls(req.user.userId, version));
+    } catch (error: any) {
+      console.error('Reset calendar feed error:', error);
+      if (error.message === 'User not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      res.status(500).json({ message: 'Failed to reset calendar feed', error: error.message });
+    }
+  });
+
+  // Search routes
+  app.get('/api/search', optionalAuth, async (req, res) => {
+    try {
+      const validationResult = searchQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid search query',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const { q, types, limit } = validationResult.data;
+      const results = await mongoStorage.search(q, { types, limit, viewer: await getResourceViewer(req) });
+      res.json(results);
+    } catch (error: any) {
+      console.error('Search error:', error);
+      res.status(500).json({ message: 'Failed to search', error: error.message });
+    }
+  });
+
+  app.get('/api/search/suggestions', optionalAuth, async (req, res) => {
+    try {
+      const query = typeof req.query.q === 'string' ? req.query.q.slice(0, 100) : '';
+      const suggestions = await mongoStorage.getSearchSuggestions(query, undefined, await getResourceViewer(req));
+      res.json(suggestions);
+    } catch (error: any) {
+      console.error('Search suggestions error:', error);
+      res.status(500).json({ message: 'Failed to get search suggestions', error: error.message });
+    }
+  });
+
+  // Learning resources routes
+  app.get('/api/resources', optionalAuth, async (req, res) => {
+    try {
+      const validationResult = resourceListQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid resource filters',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const { uploader, course, limit, cursor, ...filters } = validationResult.data;
+      const viewer = await getResourceViewer(req);
+      const page = await mongoStorage.getLearningResources({ ...filters, uploadedById: uploader, courseId: course, viewer }, limit, cursor);
+      res.json(isResourceAdmin(viewer) ? page : { ...page, resources: page.resources.map(withoutFileUrl) });
+    } catch (error: any) {
+      if (error.message === 'Invalid cursor') {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Get resources error:', error);
+      res.status(500).json({ message: 'Failed to get resources', error: error.message });
+    }
+  });
+
+  app.get('/api/resources/:id', optionalAuth, async (req, res) => {
+    try {
+      const access = await findAccessibleResource(req, res);
+      if (!access) return;
+
+      const { resource, viewer } = access;
+      res.json(isResourceAdmin(viewer) ? resource : withoutFileUrl(resource));
+    } catch (error: any) {
+      console.error('Get resource error:', error);
+      res.status(500).json({ message: 'Failed to get resource', error: error.message });
+    }
+  });
+
+  // Pages of a resource's file that mention the query
+  app.get('/api/resources/:id/pages/search', optionalAuth, async (req, res) => {
+    try {
+      const validationResult = resourcePageSearchQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid search query',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const access = await findAccessibleResource(req, res);
+      if (!access) return;
+
+      const { resource } = access;
+      const { q } = validationResult.data;
+      const matches = await mongoStorage.searchResourcePages(req.params.id, q);
+      res.json({ query: q, textStatus: resource.textStatus, pageCount: resource.pageCount, matches });
+    } catch (error: any) {
+      console.error('Search resource pages error:', error);
+      res.status(500).json({ message: 'Failed to search resource', error: error.message });
+    }
+  });
+
+  // Re-run text extraction, e.g. after a failure
+  app.post('/api/resources/:id/reindex', authenticateToken, requireAdmin, async (req, res) => {
+    try {
+      const resource = await mongoStorage.getLearningResource(req.params.id);
+      if (!resource) {
+        return res.status(404).json({ message: 'Resource not found' });
+      }
+
+      await mongoStorage.setLearningResourceTextStatus(req.params.id, 'pending');
+      queueResourceIngestion(req.params.id);
+      res.status(202).json({ message: 'Text extraction queued' });
+    } catch (error: any) {
+      console.error('Reindex resource error:', error);
+      res.status(500).json({ message: 'Failed to queue text extraction', error: error.message });
+    }
+  });
+
+  // Every file uploaded for a resource, newest first
+  app.get('/api/resources/:id/versions', optionalAuth, async (req, res) => {
+    try {
+      const access = await findAccessibleResource(req, res);
+      if (!access) return;
+
+      const versions = await mongoStorage.getResourceVersions(req.params.id);
+      res.json(isResourceAdmin(access.viewer) ? versions : versions.map(withoutFileUrl));
+    } catch (error: any) {
+      if (error.message === 'Learning resource not found') {
+        return res.status(404).json({ message: 'Resource not found' });
+      }
+      console.error('Get resource versions error:', error);
+      res.status(500).json({ message: 'Failed to get resource versions', error: error.message });
+    }
+  });
+
+  // Replace a resource's file, keeping the old one in its history
+  app.post('/api/resources/:id/versions', authenticateToken, requireAdmin, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const validationResult = resourceVersionRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid version data',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const resource = await mongoStorage.addResourceVersion(req.params.id, req.user.userId, validationResult.data);
+      queueResourceIngestion(req.params.id);
+      res.status(201).json(resource);
+    } catch (error: any) {
+      if (error.message === 'Learning resource not found') {
+        return res.status(404).json({ message: 'Resource not found' });
+      }
+      console.error('Add resource version error:', error);
+      res.status(500).json({ message: 'Failed to add resource version', error: error.message });
+    }
+  });
+
+  // Downloads are recorded first, then answered with a short-lived link to the
+  // resource's own file, so a file can't be fetched without being counted
+  app.post('/api/resources/:id/download', authenticateToken, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const validationResult = resourceDownloadSchema.safeParse(req.body ?? {});
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid download data',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const access = await findAccessibleResource(req, res);
+      if (!access) return;
+
+      const { resource } = access;
+      const { version } = validationResult.data;
+      const file = version !== undefined && version !== resource.currentVersion
+        ? (await mongoStorage.getResourceVersions(req.params.id)).find(entry => entry.version === version)
+        : resource;
+      if (!file) {
+        return res.status(404).json({ message: 'Version not found' });
+      }
+
+      // Downloading the same resource again soon after is allowed but not counted again
+      const decision = await checkDownload(req.user.userId, req.params.id);
+      if (decision === 'rate_limited') {
+        return res.status(429).json({ message: 'Too many downloads. Try again in a few minutes.' });
+      }
+      if (decision === 'counted') {
+        await mongoStorage.recordResourceDownload(req.user.userId, req.params.id, version);
+      }
+
+      const { url, expiresAt } = signResourceFileUrl(file.fileUrl, 'download');
+      res.json({ url, expiresAt, fileName: file.fileName });
+    } catch (error: any) {
+      if (error.message === 'Learning resource not found') {
+        return res.status(404).json({ message: 'Resource not found' });
+      }
+      if (error.message === 'Version not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Record download error:', error);
+      res.status(500).json({ message: 'Failed to record download', error: error.message });
+    }
+  });
+
+  // A short-lived link to view the resource's current file in the browser. Not counted as a download.
+  app.get('/api/resources/:id/preview', optionalAuth, async (req, res) => {
+    try {
+      const access = await findAccessibleResource(req, res);
+      if (!access) return;
+
+      const { url, expiresAt } = signResourceFileUrl(access.resource.fileUrl, 'preview');
+      res.json({ url, expiresAt });
+    } catch (error: any) {
+      console.error('Get resource preview error:', error);
+      res.status(500).json({ message: 'Failed to get preview', error: error.message });
+    }
+  });
+
+  // Resource reviews
+  app.get('/api/resources/:id/reviews', optionalAuth, async (req, res) => {
+    try {
+      const validationResult = resourceReviewListQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid review query',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const access = await findAccessibleResource(req, res);
+      if (!access) return;
+
+      const page = await mongoStorage.getResourceReviews(req.params.id, validationResult.data, req.user?.userId);
+      res.json(page);
+    } catch (error: any) {
+      console.error('Get resource reviews error:', error);
+      res.status(500).json({ message: 'Failed to get reviews', error: error.message });
+    }
+  });
+
+  app.post('/api/resources/:id/reviews', authenticateToken, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const validationResult = resourceReviewRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid review data',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const access = await findAccessibleResource(req, res);
+      if (!access) return;
+
+      // A review without text clears any text written before
+      const review = await mongoStorage.saveResourceReview(req.user.userId, req.params.id, {
+        rating: validationResult.data.rating,
+        comment: validationResult.data.comment ?? ''
+      });
+      res.json(review);
+    } catch (error: any) {
+      if (error.message === 'Learning resource not found') {
+        return res.status(404).json({ message: 'Resource not found' });
+      }
+      console.error('Save resource review error:', error);
+      res.status(500).json({ message: 'Failed to save review', error: error.message });
+    }
+  });
+
+  app.delete('/api/resources/:id/reviews/mine', authenticateToken, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      await mongoStorage.deleteResourceReview(req.user.userId, req.params.id);
+      res.json({ message: 'Review deleted successfully' });
+    } catch (error: any) {
+      if (error.message === 'Review not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Delete resource review error:', error);
+      res.status(500).json({ message: 'Failed to delete review', error: error.message });
+    }
+  });
+
+  // Star rating only; kept for clients that don't send a written review
+  app.post('/api/resources/:id/rate', authenticateToken, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const validationResult = resourceReviewRequestSchema.pick({ rating: true }).safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Rating must be between 1 and 5',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const access = await findAccessibleResource(req, res);
+      if (!access) return;
+
+      await mongoStorage.rateResource(req.user.userId, req.params.id, validationResult.data.rating);
+      res.json({ message: 'Rating submitted successfully' });
+    } catch (error: any) {
+      if (error.message === 'Learning resource not found') {
+        return res.status(404).json({ message: 'Resource not found' });
+      }
+      console.error('Rate resource error:', error);
+      res.status(500).json({ message: 'Failed to rate resource', error: error.message });
+    }
+  });
+
+  app.post('/api/reviews/:id/helpful', authenticateToken, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const review = await mongoStorage.setReviewHelpfulVote(req.params.id, req.user.userId, true);
+      res.json({ helpfulCount: review.helpfulCount });
+    } catch (error: any) {
+      if (error.message === 'Review not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message === 'Cannot vote on your own review') {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Vote review helpful error:', error);
+      res.status(500).json({ message: 'Failed to vote on review', error: error.message });
+    }
+  });
+
+  app.delete('/api/reviews/:id/helpful', authenticateToken, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const review = await mongoStorage.setReviewHelpfulVote(req.params.id, req.user.userId, false);
+      res.json({ helpfulCount: review.helpfulCount });
+    } catch (error: any) {
+      if (error.message === 'Review not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message === 'Cannot vote on your own review') {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Remove review vote error:', error);
+      res.status(500).json({ message: 'Failed to remove vote', error: error.message });
+    }
+  });
+
+  app.post('/api/reviews/:id/flag', authenticateToken, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const validationResult = reviewFlagRequestSchema.safeParse(req.body ?? {});
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid report',
+          errors: validationResult.error.issues
+        });
+      }
+
+      await mongoStorage.flagResourceReview(req.params.id, req.user.userId, validationResult.data.reason || undefined);
+      res.json({ message: 'Review reported' });
+    } catch (error: any) {
+      if (error.message === 'Review not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message === 'Cannot report your own review') {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Flag review error:', error);
+      res.status(500).json({ message: 'Failed to report review', error: error.message });
+    }
+  });
+
+  // Only the resource's uploader can reply to its reviews
+  app.put('/api/reviews/:id/reply', authenticateToken, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const validationResult = reviewReplyRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid reply',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const review = await mongoStorage.getResourceReview(req.params.id);
+      const resource = review && await mongoStorage.getLearningResource(review.resourceId);
+      if (!review || !resource) {
+        return res.status(404).json({ message: 'Review not found' });
+      }
+      if (resource.uploadedById !== req.user.userId) {
+        return res.status(403).json({ message: 'Only the uploader can reply to reviews' });
+      }
+
+      const updated = await mongoStorage.setResourceReviewReply(review._id!, req.user.userId, validationResult.data.content);
+      if (!review.reply) {
+        await notifyReviewReply(updated, resource);
+      }
+      res.json(updated);
+    } catch (error: any) {
+      if (error.message === 'Review not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Reply to review error:', error);
+      res.status(500).json({ message: 'Failed to reply to review', error: error.message });
+    }
+  });
+
+  app.delete('/api/reviews/:id/reply', authenticateToken, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const review = await mongoStorage.getResourceReview(req.params.id);
+      const resource = review && await mongoStorage.getLearningResource(review.resourceId);
+      if (!review || !resource) {
+        return res.status(404).json({ message: 'Review not found' });
+      }
+      if (resource.uploadedById !== req.user.userId) {
+        return res.status(403).json({ message: 'Only the uploader can remove replies' });
+      }
+
+      await mongoStorage.setResourceReviewReply(review._id!, req.user.userId, null);
+      res.json({ message: 'Reply deleted successfully' });
+    } catch (error: any) {
+      if (error.message === 'Review not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Delete review reply error:', error);
+      res.status(500).json({ message: 'Failed to delete reply', error: error.message });
+    }
+  });
+
+  // Admin review moderation
+  app.get('/api/admin/reviews', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+    try {
+      const validationResult = reviewModerationListQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid review query',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const { status, limit, offset } = validationResult.data;
+      const reviews = await mongoStorage.getModerationReviews(status, limit, offset);
+      res.json(reviews);
+    } catch (error: any) {
+      console.error('Get moderation reviews error:', error);
+      res.status(500).json({ message: 'Failed to get reviews', error: error.message });
+    }
+  });
+
+  app.put('/api/admin/reviews/:id/moderation', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const validationResult = reviewModerationRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid moderation data',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const { action, note } = validationResult.data;
+      const review = await mongoStorage.moderateResourceReview(req.params.id, req.user.userId, action, note || undefined);
+      res.json(review);
+    } catch (error: any) {
+      if (error.message === 'Review not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message === 'Review status has changed') {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error('Moderate review error:', error);
+      res.status(500).json({ message: 'Failed to moderate review', error: error.message });
+    }
+  });
+
+  app.delete('/api/admin/reviews/:id', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+    try {
+      await mongoStorage.deleteResourceReviewById(req.params.id);
+      res.json({ message: 'Review deleted successfully' });
+    } catch (error: any) {
+      if (error.message === 'Review not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Delete review error:', error);
+      res.status(500).json({ message: 'Failed to delete review', error: error.message });
+    }
+  });
+
+  app.post('/api/resources', authenticateToken, requireAdmin, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const validationResult = resourceRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid resource data',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const resource = await mongoStorage.createLearningResource(req.user.userId, validationResult.data);
+      queueResourceIngestion(resource._id!);
+      res.status(201).json(resource);
+    } catch (error: any) {
+      console.error('Create resource error:', error);
+      res.status(500).json({ message: 'Failed to create resource', error: error.message });
+    }
+  });
+
+  app.put('/api/resources/:id', authenticateToken, requireAdmin, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const existing = await mongoStorage.getLearningResource(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: 'Resource not found' });
+      }
+
+      const updateResult = resourceUpdateRequestSchema.safeParse(req.body);
+      if (!updateResult.success) {
+        return res.status(400).json({
+          message: 'Invalid resource data',
+          errors: updateResult.error.issues
+        });
+      }
+
+      // A replaced file becomes a new version rather than overwriting the old one
+      const { fileUrl, fileName, fileSize, changelog, ...updates } = updateResult.data;
+      if (fileUrl && fileUrl !== existing.fileUrl) {
+        const validationResult = resourceVersionRequestSchema.safeParse({ fileUrl, fileName, fileSize, changelog });
+        if (!validationResult.success) {
+          return res.status(400).json({
+            message: 'Invalid version data',
+            errors: validationResult.error.issues
+          });
+        }
+        await mongoStorage.addResourceVersion(req.params.id, req.user.userId, validationResult.data);
+        queueResourceIngestion(req.params.id);
+      }
+
+      const resource = await refreshResourcePreview(existing, await mongoStorage.updateLearningResource(req.params.id, updates));
+      res.json(resource);
+    } catch (error: any) {
+      console.error('Update resource error:', error);
+      res.status(500).json({ message: 'Failed to update resource', error: error.message });
+    }
+  });
+
+  app.delete('/api/resources/:id', authenticateToken, requireAdmin, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      await mongoStorage.deleteLearningResource(req.params.id);
+      await deleteResourcePreview(req.params.id);
+      res.status(204).send();
+    } catch (error: any) {
+      console.error('Delete resource error:', error);
+      res.status(500).json({ message: 'Failed to delete resource', error: error.message });
+    }
+  });
+
+  // Course routes
+  app.get('/api/courses', optionalAuth, async (req, res) => {
+    try {
+      const validationResult = courseListQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid course filters',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const { lecturer, ...filters } = validationResult.data;
+      const courses = await mongoStorage.getCourses({ ...filters, lecturerId: lecturer });
+      res.json(courses);
+    } catch (error: any) {
+      console.error('Get courses error:', error);
+      res.status(500).json({ message: 'Failed to get courses', error: error.message });
+    }
+  });
+
+  app.get('/api/courses/:id', optionalAuth, async (req, res) => {
+    try {
+      const viewer = await getResourceViewer(req);
+      const course = await mongoStorage.getCourse(req.params.id, viewer);
+      if (!course) {
+        return res.status(404).json({ message: 'Course not found' });
+      }
+      res.json(isResourceAdmin(viewer) ? course : { ...course, resources: course.resources.map(withoutFileUrl) });
+    } catch (error: any) {
+      console.error('Get course error:', error);
+      res.status(500).json({ message: 'Failed to get course', error: error.message });
+    }
+  });
+
+  app.post('/api/courses', authenticateToken, requireAdmin, async (req, res) => {
+    try {
+      const validationResult = courseRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid course data',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const course = await mongoStorage.createCourse(validationResult.data);
+      res.status(201).json(course);
+    } catch (error: any) {
+      if (error.message === 'Course code already exists') {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error('Create course error:', error);
+      res.status(500).json({ message: 'Failed to create course', error: error.message });
+    }
+  });
+
+  app.put('/api/courses/:id', authenticateToken, requireAdmin, async (req, res) => {
+    try {
+      const validationResult = courseRequestSchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid course data',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const course = await mongoStorage.updateCourse(req.params.id, validationResult.data);
+      res.json(course);
+    } catch (error: any) {
+      if (error.message === 'Course not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error.message === 'Course code already exists') {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error('Update course error:', error);
+      res.status(500).json({ message: 'Failed to update course', error: error.message });
+    }
+  });
+
+  app.delete('/api/courses/:id', authenticateToken, requireAdmin, async (req, res) => {
+    try {
+      await mongoStorage.deleteCourse(req.params.id);
+      res.status(204).send();
+    } catch (error: any) {
+      if (error.message === 'Course not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Delete course error:', error);
+      res.status(500).json({ message: 'Failed to delete course', error: error.message });
+    }
+  });
+
+  // Courses for the signed-in student's level
+  app.get('/api/user/courses', authenticateToken, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const user = await mongoStorage.getUser(req.user.userId);
+      const level = courseSchema.shape.level.safeParse(user?.level);
+      if (!level.success) {
+        return res.json({ level: user?.level ?? null, courses: [] });
+      }
+
+      const courses = await mongoStorage.getCourses({ level: level.data });
+      res.json({ level: level.data, courses });
+    } catch (error: any) {
+      console.error('Get user courses error:', error);
+      res.status(500).json({ message: 'Failed to get your courses', error: error.message });
+    }
+  });
+
+  // Staff routes
+  app.get('/api/staff', optionalAuth, async (req, res) => {
+    try {
+      const staffProfiles = await mongoStorage.getStaffProfiles();
+
+      const staffWithUserData = await Promise.all(
+        staffProfiles.map(async (profile) => {
+          // Handle both userId (existing user) and customName (custom profile) scenarios
+          if (profile.userId) {
+            const user = await mongoStorage.getUser(profile.userId);
+            return {
+              ...profile,
+              name: user ? `${user.firstName || ''} ${user.lastName || ''}`.trim() : 'Unknown',
+              email: user?.email || '',
+              phone: profile.phone || user?.phoneNumber || '',
+              avatar: profile.avatar || user?.profileImageUrl || '',
+            };
+          } else {
+            // Custom staff member without userId
+            return {
+              ...profile,
+              name: profile.customName || 'Unknown',
+              email: '',
+              phone: profile.phone || '',
+              avatar: profile.avatar || '',
+            };
+          }
+        })
+      );
+
+      res.json(staffWithUserData);
+    } catch (error: any) {
+      console.error('Get staff error:', error);
+      res.status(500).json({ message: 'Failed to get staff', error: error.message });
+    }
+  });
+
+  app.get('/api/staff/landing-page/featured', optionalAuth, async (req, res) => {
+    try {
+      const staffProfiles = await mongoStorage.getLandingPageStaff();
+
+      const staffWithUserData = await Promise.all(
+        staffProfiles.map(async (profile) => {
+          // Handle both userId (existing user) and customName (custom profile) scenarios
+          if (profile.userId) {
+            const user = await mongoStorage.getUser(profile.userId);
+            return {
+              ...profile,
+              name: user ? `${user.firstName || ''} ${user.lastName || ''}`.trim() : 'Unknown',
+              email: user?.email || '',
+              phone: profile.phone || user?.phoneNumber || '',
+              avatar: profile.avatar || user?.profileImageUrl || '',
+            };
+          } else {
+            // Custom staff member without userId
+            return {
+              ...profile,
+              name: profile.customName || 'Unknown',
+              email: '',
+              phone: profile.phone || '',
+              avatar: profile.avatar || '',
+            };
+          }
+        })
+      );
+
+      res.json(staffWithUserData);
+    } catch (error: any) {
+      console.error('Get landing page staff error:', error);
+      res.status(500).json({ message: 'Failed to get landing page staff', error: error.message });
+    }
+  });
+
+  app.get('/api/staff/:id', optionalAuth, async (req, res) => {
+    try {
+      const profile = await mongoStorage.getStaffProfileById(req.params.id);
+      if (!profile) {
+        return res.status(404).json({ message: 'Staff profile not found' });
+      }
+
+      // Handle both userId (existing user) and customName (custom profile) scenarios
+      let staffWithUserData;
+      if (profile.userId) {
+        const user = await mongoStorage.getUser(profile.userId);
+        staffWithUserData = {
+          ...profile,
+          name: user ? `${user.firstName || ''} ${user.lastName || ''}`.trim() : 'Unknown',
+          email: user?.email || '',
+          phone: profile.phone || user?.phoneNumber || '',
+          avatar: profile.avatar || user?.profileImageUrl || '',
+        };
+      } else {
+        // Custom staff member without userId
+        staffWithUserData = {
+          ...profile,
+          name: profile.customName || 'Unknown',
+          email: '',
+          phone: profile.phone || '',
+          avatar: profile.avatar || '',
+        };
+      }
+
+      res.json(staffWithUserData);
+    } catch (error: any) {
+      console.error('Get staff profile error:', error);
+      res.status(500).json({ message: 'Failed to get staff profile', error: error.message });
+    }
+  });
+
+  app.post('/api/staff', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const validationResult = staffProfileRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid staff profile data',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const { userId, customName, ...profileData } = validationResult.data;
+
+      // If userId is provided, validate that the user exists
+      if (userId) {
+        const user = await mongoStorage.getUser(userId);
+        if (!user) {
+          return res.status(404).json({ message: 'User not found' });
+        }
+
+        const existingProfile = await mongoStorage.getStaffProfile(userId);
+        if (existingProfile) {
+          return res.status(400).json({ message: 'Staff profile already exists for this user' });
+        }
+
+        // Create profile for existing user
+        const profile = await mongoStorage.createStaffProfile(userId, profileData);
+        res.status(201).json(profile);
+      } else {
+        // Create profile for custom staff member (no userId)
+        const profile = await mongoStorage.createStaffProfile(undefined, {
+          ...profileData,
+          customName,
+        });
+        res.status(201).json(profile);
+      }
+    } catch (error: any) {
+      console.error('Create staff profile error:', error);
+      res.status(500).json({ message: 'Failed to create staff profile', error: error.message });
+    }
+  });
+
+  app.put('/api/staff/:id', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const validationResult = staffProfileUpdateRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid staff profile data',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const profile = await mongoStorage.getStaffProfileById(req.params.id);
+      if (!profile) {
+        return res.status(404).json({ message: 'Staff profile not found' });
+      }
+
+      // Update by ID instead of userId to support both userId and customName profiles
+      const updatedProfile = await mongoStorage.updateStaffProfileById(req.params.id, validationResult.data);
+      res.json(updatedProfile);
+    } catch (error: any) {
+      console.error('Update staff profile error:', error);
+      res.status(500).json({ message: 'Failed to update staff profile', error: error.message });
+    }
+  });
+
+  app.delete('/api/staff/:id', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      await mongoStorage.deleteStaffProfile(req.params.id);
+      res.status(204).send();
+    } catch (error: any) {
+      console.error('Delete staff profile error:', error);
+      res.status(500).json({ message: 'Failed to delete staff profile', error: error.message });
+    }
+  });
+
+  // Contact routes
+  app.post('/api/contact', async (req, res) => {
+    try {
+      const validationResult = contactRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid contact data',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const submission = await mongoStorage.createContactSubmission(validationResult.data);
+      res.status(201).json({
+        message: 'Contact form submitted successfully',
+        submission
+      });
+    } catch (error: any) {
+      console.error('Contact submission error:', error);
+      res.status(500).json({ message: 'Failed to submit contact form', error: error.message });
+    }
+  });
+
+  // Contact inbox (admin)
+  app.get('/api/admin/contact-submissions', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      const category = req.query.category as string | undefined;
+
+      const submissions = await mongoStorage.getContactSubmissions(status, category);
+      res.json(submissions);
+    } catch (error: any) {
+      console.error('Get contact submissions error:', error);
+      res.status(500).json({ message: 'Failed to get contact submissions', error: error.message });
+    }
+  });
+
+  app.put('/api/admin/contact-submissions/:id/status', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+    try {
+      const validationResult = contactStatusRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid status data',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const submission = await mongoStorage.updateContactSubmissionStatus(req.params.id, validationResult.data.status);
+      res.json(submission);
+    } catch (error: any) {
+      if (error.message === 'Contact submission not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Update contact submission status error:', error);
+      res.status(500).json({ message: 'Failed to update contact submission', error: error.message });
+    }
+  });
+
+  // Email a reply to the sender and add it to the submission's thread.
+  // The reply is only recorded once the email has gone out.
+  app.post('/api/admin/contact-submissions/:id/replies', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const validationResult = contactReplyRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid reply data',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const submission = await mongoStorage.getContactSubmission(req.params.id);
+      if (!submission) {
+        return res.status(404).json({ message: 'Contact submission not found' });
+      }
+
+      const admin = await mongoStorage.getUser(req.user.userId);
+      const { message } = validationResult.data;
+
+      try {
+        await sendContactReplyEmail(submission.email, submission.name, submission, message);
+      } catch (error: any) {
+        console.error('Contact reply email error:', error);
+        return res.status(500).json({ message: 'Failed to send reply email', error: error.message });
+      }
+
+      const updated = await mongoStorage.addContactSubmissionReply(submission._id!, {
+        message,
+        sentById: req.user.userId,
+        sentByName: admin ? `${admin.firstName || ''} ${admin.lastName || ''}`.trim() : 'Admin'
+      });
+
+      res.status(201).json(updated);
+    } catch (error: any) {
+      console.error('Reply to contact submission error:', error);
+      res.status(500).json({ message: 'Failed to reply to contact submission', error: error.message });
+    }
+  });
+
+  // Poll routes
+  // Create a new poll (admin only)
+  app.post('/api/polls', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+    try {
+      // Validate request body using pollCreationSchema
+      const validationResult = pollCreationSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid poll data',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const { question, options, allowMultipleVotes, expiresAt, targetLevels } = validationResult.data;
+
+      // Transform option strings into option objects with server-generated UUIDs
+      const optionsWithIds = options.map(text => ({
+        id: randomUUID(),
+        text,
+        votes: 0
+      }));
+
+      // Create poll with properly formatted options
+      const poll = await mongoStorage.createPoll(req.user!.userId, {
+        question,
+        options: optionsWithIds,
+        allowMultipleVotes,
+        expiresAt,
+        targetLevels
+      });
+
+      await notifyPollCreated(poll);
+
+      res.status(201).json(poll);
+    } catch (error: any) {
+      console.error('Create poll error:', error);
+      res.status(400).json({ message: 'Failed to create poll', error: error.message });
+    }
+  });
+
+  // Get all polls (optionally filter by status)
+  app.get('/api/polls', optionalAuth, async (req, res) => {
+    try {
+      const status = req.query.status as 'active' | 'closed' | undefined;
+      const polls = await mongoStorage.getPolls(status);
+
+      // If user is authenticated, add hasVoted flag for each poll
+      if (req.user?.userId) {
+        const pollsWithVoteStatus = await Promise.all(
+          polls.map(async (poll) => {
+            const hasVoted = await mongoStorage.hasUserVoted(req.user!.userId, poll._id!);
+            const userVote = hasVoted ? await mongoStorage.getUserVote(req.user!.userId, poll._id!) : undefined;
+            return {
+              ...poll,
+              hasVoted,
+              userVoteOptionId: userVote?.optionId
+            };
+          })
+        );
+        return res.json(pollsWithVoteStatus);
+      }
+
+      res.json(polls);
+    } catch (error: any) {
+      console.error('Get polls error:', error);
+      res.status(500).json({ message: 'Failed to get polls', error: error.message });
+    }
+  });
+
+  // Get a specific poll
+  app.get('/api/polls/:id', optionalAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const poll = await mongoStorage.getPoll(id);
+
+      if (!poll) {
+        return res.status(404).json({ message: 'Poll not found' });
+      }
+
+      // If user is authenticated, add hasVoted flag
+      if (req.user?.userId) {
+        const hasVoted = await mongoStorage.hasUserVoted(req.user.userId, id);
+        const userVote = hasVoted ? await mongoStorage.getUserVote(req.user.userId, id) : undefined;
+        return res.json({
+          ...poll,
+          hasVoted,
+          userVoteOptionId: userVote?.optionId
+        });
+      }
+
+      res.json(poll);
+    } catch (error: any) {
+      console.error('Get poll error:', error);
+      res.status(500).json({ message: 'Failed to get poll', error: error.message });
+    }
+  });
+
+  // Vote on a poll (authenticated users only)
+  app.post('/api/polls/:id/vote', authenticateToken, async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const validationResult = pollVoteRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid vote',
+          errors: validationResult.error.issues
+        });
+      }
+
+      await mongoStorage.votePoll(req.user!.userId, id, validationResult.data.optionId);
+
+      // Get updated poll with vote counts
+      const updatedPoll = await mongoStorage.getPoll(id);
+
+      res.json({
+        message: 'Vote recorded successfully',
+        poll: updatedPoll
+      });
+    } catch (error: any) {
+      console.error('Vote poll error:', error);
+      res.status(400).json({ message: error.message || 'Failed to vote on poll' });
+    }
+  });
+
+  // Close a poll (admin only)
+  app.put('/api/polls/:id/close', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const poll = await mongoStorage.closePoll(id);
+
+      res.json({
+        message: 'Poll closed successfully',
+        poll
+      });
+    } catch (error: any) {
+      console.error('Close poll error:', error);
+      res.status(400).json({ message: 'Failed to close poll', error: error.message });
+    }
+  });
+
+  // Delete a poll (admin only)
+  app.delete('/api/polls/:id', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+    try {
+      const { id } = req.params;
+      await mongoStorage.deletePoll(id);
+
+      res.json({ message: 'Poll deleted successfully' });
+    } catch (error: any) {
+      console.error('Delete poll error:', error);
+      res.status(500).json({ message: 'Failed to delete poll', error: error.message });
+    }
+  });
+
+  // Get poll voters (admin only)
+  app.get('/api/polls/:id/voters', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const voters = await mongoStorage.getPollVoters(id);
+      res.json(voters);
+    } catch (error: any) {
+      console.error('Get poll voters error:', error);
+      res.status(500).json({ message: 'Failed to get poll voters', error: error.message });
+    }
+  });
+
+  // Newsletter routes
+  app.post('/api/newsletter/subscribe', async (req, res) => {
+    try {
+      const validationResult = newsletterSubscribeRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid email address',
+          errors: validationResult.error.issues
+        });
+      }
+
+      await mongoStorage.subscribeNewsletter(validationResult.data.email);
+      res.json({ message: 'Successfully subscribed to newsletter' });
+    } catch (error: any) {
+      console.error('Newsletter subscription error:', error);
+      res.status(500).json({ message: 'Failed to subscribe to newsletter', error: error.message });
+    }
+  });
+
+  // Unsubscribe link in newsletter emails. As with account emails, GET only asks
+  // for confirmation; the button and List-Unsubscribe-Post clients POST to apply it.
+  const invalidNewsletterUnsubscribeLink = '<p>This unsubscribe link is invalid or has expired.</p>';
+
+  app.get('/api/newsletter/unsubscribe', (req, res) => {
+    const token = (req.query.token as string) || '';
+    if (!verifyNewsletterUnsubscribeToken(token)) {
+      return res.status(400).send(invalidNewsletterUnsubscribeLink);
+    }
+
+    res.send(`<form method="POST" action="/api/newsletter/unsubscribe?token=${encodeURIComponent(token)}">
+  <p>Stop receiving the Nsasa newsletter?</p>
+  <button type="submit">Unsubscribe</button>
+</form>`);
+  });
+
+  app.post('/api/newsletter/unsubscribe', async (req, res) => {
+    try {
+      const email = verifyNewsletterUnsubscribeToken((req.query.token as string) || '');
+      if (!email) {
+        return res.status(400).send(invalidNewsletterUnsubscribeLink);
+      }
+
+      await mongoStorage.unsubscribeNewsletter(email);
+      res.send('<p>You have been unsubscribed from the Nsasa newsletter.</p>');
+    } catch (error: any) {
+      console.error('Newsletter unsubscribe error:', error);
+      res.status(500).send('<p>Failed to unsubscribe. Please try again later.</p>');
+    }
+  });
+
+  // Change password for the logged-in user
+  app.put('/api/user/password', authenticateToken, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const validationResult = passwordChangeRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Current password and new password are required',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const { currentPassword, newPassword } = validationResult.data;
+
+      const passwordError = validatePasswordStrength(newPassword);
+      if (passwordError) {
+        return res.status(400).json({ message: passwordError });
+      }
+
+      const user = await mongoStorage.getUser(req.user.userId);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const isValidPassword = await bcrypt.compare(currentPassword, user.passwordHash);
+      if (!isValidPassword) {
+        return res.status(400).json({ message: 'Current password is incorrect' });
+      }
+
+      if (await bcrypt.compare(newPassword, user.passwordHash)) {
+        return res.status(400).json({ message: 'New password must be different from the current password' });
+      }
+
+      const hashedPassword = await bcrypt.hash(newPassword, PASSWORD_HASH_ROUNDS);
+      await mongoStorage.updateUserPassword(req.user.userId, hashedPassword);
+
+      // The password change revoked all existing tokens, so issue a fresh one for this session
+      const updatedUser = await mongoStorage.getUser(req.user.userId);
+      const token = generateToken(user._id!, user.email, user.role, updatedUser?.tokenVersion ?? 0);
+      setAuthCookie(req, res, token);
+
+      res.json({ message: 'Password changed successfully', token });
+    } catch (error: any) {
+      console.error('Change password error:', error);
+      res.status(500).json({ message: 'Failed to change password', error: error.message });
+    }
+  });
+
+  // Download everything stored about the logged-in user
+  app.get('/api/user/export', authenticateToken, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const data = await mongoStorage.exportUserData(req.user.userId);
+      const fileName = `nsasa-data-export-${new Date().toISOString().split('T')[0]}.json`;
+
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.json(data);
+    } catch (error: any) {
+      console.error('Export user data error:', error);
+      res.status(500).json({ message: 'Failed to export your data', error: error.message });
+    }
+  });
+
+  // Permanently delete the logged-in user's account
+  app.delete('/api/user/account', authenticateToken, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const validationResult = accountDeletionRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Password is required to delete your account',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const { password } = validationResult.data;
+
+      const user = await mongoStorage.getUser(req.user.userId);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      const isValidPassword = await bcrypt.compare(password, user.passwordHash);
+      if (!isValidPassword) {
+        return res.status(400).json({ message: 'Password is incorrect' });
+      }
+
+      if (user.role === 'super_admin') {
+        return res.status(403).json({ message: 'Super admin accounts cannot be deleted. Transfer the role to another user first.' });
+      }
+
+      // Free the user's event seats first so waitlisted users get promoted and
+      // emailed, and refund paid seats. A failure here mustn't stop the deletion.
+      const registrations = await mongoStorage.getUserEventRegistrations(req.user.userId);
+      for (const registration of registrations) {
+        try {
+          const { promoted, paidPayment } = await mongoStorage.withdrawEventRegistration(registration._id!);
+          const event = await mongoStorage.getEvent(registration.eventId);
+          if (event) {
+            await emailPromotedRegistrations(event, promoted);
+            if (paidPayment) {
+              await refundEventPayment(event, paidPayment, 'Your account has been deleted, so your place at this event has been cancelled.');
+            }
+          }
+        } catch (error) {
+          console.error(`Failed to release registration ${registration._id} during account deletion:`, error);
+        }
+      }
+
+      await mongoStorage.deleteUserAccount(req.user.userId);
+      clearAuthCookie(req, res);
+
+      res.json({ message: 'Your account has been deleted' });
+    } catch (error: any) {
+      console.error('Delete account error:', error);
+      res.status(500).json({ message: 'Failed to delete account', error: error.message });
+    }
+  });
+
+  // Notification preference routes
+  app.get('/api/user/notifications', authenticateToken, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const preferences = await mongoStorage.getNotificationPreferences(req.user.userId);
+      res.json(preferences);
+    } catch (error: any) {
+      console.error('Get notification preferences error:', error);
+      res.status(500).json({ message: 'Failed to get notification preferences', error: error.message });
+    }
+  });
+
+  app.put('/api/user/notifications', authenticateToken, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const validationResult = notificationPreferencesSchema.partial().strict().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid notification preferences',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const preferences = await mongoStorage.updateNotificationPreferences(req.user.userId, validationResult.data);
+      res.json({ message: 'Notification preferences updated', preferences });
+    } catch (error: any) {
+      console.error('Update notification preferences error:', error);
+      res.status(500).json({ message: 'Failed to update notification preferences', error: error.message });
+    }
+  });
+
+  // Unsubscribe link in email footers. Link scanners and prefetchers follow GET
+  // links, so GET only asks for confirmation; the button, and mail clients using
+  // the List-Unsubscribe-Post header, POST to actually unsubscribe.
+  const invalidUnsubscribeLink = '<p>This unsubscribe link is invalid or has expired. You can turn off emails from your account settings.</p>';
+
+  app.get('/api/user/notifications/unsubscribe', (req, res) => {
+    const token = (req.query.token as string) || '';
+    if (!verifyUnsubscribeToken(token)) {
+      return res.status(400).send(invalidUnsubscribeLink);
+    }
+
+    res.send(`<form method="POST" action="/api/user/notifications/unsubscribe?token=${encodeURIComponent(token)}">
+  <p>Stop receiving emails from Nsasa?</p>
+  <button type="submit">Unsubscribe</button>
+</form>`);
+  });
+
+  app.post('/api/user/notifications/unsubscribe', async (req, res) => {
+    try {
+      const userId = verifyUnsubscribeToken((req.query.token as string) || '');
+      if (!userId) {
+        return res.status(400).send(invalidUnsubscribeLink);
       }
 
-      res.json(staffWithUserData);
+      await mongoStorage.updateNotificationPreferences(userId, { emailNotifications: false });
+      res.send('<p>You have been unsubscribed from Nsasa emails. You can turn them back on from your account settings.</p>');
     } catch (error: any) {
-      console.error('Get staff profile error:', error);
-      res.status(500).json({ message: 'Failed to get staff profile', error: error.message });
+      console.error('Unsubscribe error:', error);
+      res.status(500).send('<p>Failed to unsubscribe. Please try again later.</p>');
     }
   });
 
-  app.post('/api/staff', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+  // Notification routes
+  app.get('/api/notifications', authenticateToken, async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: 'Authentication required' });
       }
 
-      const { userId, customName, ...profileData } = req.body;
-
-      // Either userId or customName must be provided
-      if (!userId && !customName) {
-        return res.status(400).json({ message: 'Either userId or customName is required' });
-      }
-
-      // If userId is provided, validate that the user exists
-      if (userId) {
-        const user = await mongoStorage.getUser(userId);
-        if (!user) {
-          return res.status(404).json({ message: 'User not found' });
-        }
-
-        const existingProfile = await mongoStorage.getStaffProfile(userId);
-        if (existingProfile) {
-          return res.status(400).json({ message: 'Staff profile already exists for this user' });
-        }
-
-        // Create profile for existing user
-        const profile = await mongoStorage.createStaffProfile(userId, profileData);
-        res.status(201).json(profile);
-      } else {
-        // Create profile for custom staff member (no userId)
-        const profile = await mongoStorage.createStaffProfile(undefined, {
-          ...profileData,
-          customName,
-        });
-        res.status(201).json(profile);
-      }
+      // Capped so a single request can't pull the whole collection
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+      const notifications = await mongoStorage.getUserNotifications(req.user.userId, limit, offset);
+      res.json(notifications);
     } catch (error: any) {
-      console.error('Create staff profile error:', error);
-      res.status(500).json({ message: 'Failed to create staff profile', error: error.message });
+      console.error('Get notifications error:', error);
+      res.status(500).json({ message: 'Failed to get notifications', error: error.message });
     }
   });
 
-  app.put('/api/staff/:id', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+  app.get('/api/notifications/unread-count', authenticateToken, async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: 'Authentication required' });
       }
 
-      const profile = await mongoStorage.getStaffProfileById(req.params.id);
-      if (!profile) {
-        return res.status(404).json({ message: 'Staff profile not found' });
-      }
-
-      // Update by ID instead of userId to support both userId and customName profiles
-      const updatedProfile = await mongoStorage.updateStaffProfileById(req.params.id, req.body);
-      res.json(updatedProfile);
+      const count = await mongoStorage.getUnreadNotificationCount(req.user.userId);
+      res.json({ count });
     } catch (error: any) {
-      console.error('Update staff profile error:', error);
-      res.status(500).json({ message: 'Failed to update staff profile', error: error.message });
+      console.error('Get unread notification count error:', error);
+      res.status(500).json({ message: 'Failed to get unread notification count', error: error.message });
     }
   });
 
-  app.delete('/api/staff/:id', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+  app.put('/api/notifications/read-all', authenticateToken, async (req, res) => {
     try {
       if (!req.user) {
         return res.status(401).json({ message: 'Authentication required' });
       }
 
-      await mongoStorage.deleteStaffProfile(req.params.id);
-      res.status(204).send();
+      const updated = await mongoStorage.markAllNotificationsRead(req.user.userId);
+      res.json({ message: 'All notifications marked as read', updated });
     } catch (error: any) {
-      console.error('Delete staff profile error:', error);
-      res.status(500).json({ message: 'Failed to delete staff profile', error: error.message });
+      console.error('Mark all notifications read error:', error);
+      res.status(500).json({ message: 'Failed to mark notifications as read', error: error.message });
     }
   });
 
-  // Contact routes
-  app.post('/api/contact', async (req, res) => {
+  app.put('/api/notifications/:id/read', authenticateToken, async (req, res) => {
     try {
-      const submission = await mongoStorage.createContactSubmission(req.body);
-      res.status(201).json({
-        message: 'Contact form submitted successfully',
-        submission
-      });
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const notification = await mongoStorage.markNotificationRead(req.user.userId, req.params.id);
+      res.json(notification);
     } catch (error: any) {
-      console.error('Contact submission error:', error);
-      res.status(500).json({ message: 'Failed to submit contact form', error: error.message });
+      if (error.message === 'Notification not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Mark notification read error:', error);
+      res.status(500).json({ message: 'Failed to mark notification as read', error: error.message });
     }
   });
 
-  // Poll routes
-  // Create a new poll (admin only)
-  app.post('/api/polls', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+  // Bookmark routes
+  app.get('/api/bookmarks', authenticateToken, async (req, res) => {
     try {
-      // Validate request body using pollCreationSchema
-      const validationResult = pollCreationSchema.safeParse(req.body);
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const validationResult = bookmarkListQuerySchema.safeParse(req.query);
       if (!validationResult.success) {
         return res.status(400).json({
-          message: 'Invalid poll data',
+          message: 'Invalid bookmark filters',
           errors: validationResult.error.issues
         });
       }
 
-      const { question, options, allowMultipleVotes, expiresAt, targetLevels } = validationResult.data;
+      const bookmarks = await mongoStorage.getBookmarks(req.user.userId, await getResourceViewer(req), validationResult.data.type);
+      res.json(bookmarks);
+    } catch (error: any) {
+      console.error('Get bookmarks error:', error);
+      res.status(500).json({ message: 'Failed to get bookmarks', error: error.message });
+    }
+  });
 
-      // Transform option strings into option objects with server-generated UUIDs
-      const optionsWithIds = options.map(text => ({
-        id: randomUUID(),
-        text,
-        votes: 0
-      }));
+  app.post('/api/bookmarks', authenticateToken, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
 
-      // Create poll with properly formatted options
-      const poll = await mongoStorage.createPoll(req.user!.userId, {
-        question,
-        options: optionsWithIds,
-        allowMultipleVotes,
-        expiresAt,
-        targetLevels
-      });
+      const validationResult = savedItemRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid bookmark',
+          errors: validationResult.error.issues
+        });
+      }
 
-      res.status(201).json(poll);
+      await mongoStorage.addBookmark(req.user.userId, validationResult.data, await getResourceViewer(req));
+      res.status(201).json(validationResult.data);
     } catch (error: any) {
-      console.error('Create poll error:', error);
-      res.status(400).json({ message: 'Failed to create poll', error: error.message });
+      if (error.message === 'Item not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Add bookmark error:', error);
+      res.status(500).json({ message: 'Failed to save item', error: error.message });
     }
   });
 
-  // Get all polls (optionally filter by status)
-  app.get('/api/polls', optionalAuth, async (req, res) => {
+  app.delete('/api/bookmarks/:itemType/:itemId', authenticateToken, async (req, res) => {
     try {
-      const status = req.query.status as 'active' | 'closed' | undefined;
-      const polls = await mongoStorage.getPolls(status);
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
 
-      // If user is authenticated, add hasVoted flag for each poll
-      if (req.user?.userId) {
-        const pollsWithVoteStatus = await Promise.all(
-          polls.map(async (poll) => {
-            const hasVoted = await mongoStorage.hasUserVoted(req.user!.userId, poll._id!);
-            const userVote = hasVoted ? await mongoStorage.getUserVote(req.user!.userId, poll._id!) : undefined;
-            return {
-              ...poll,
-              hasVoted,
-              userVoteOptionId: userVote?.optionId
-            };
-          })
-        );
-        return res.json(pollsWithVoteStatus);
+      const validationResult = savedItemRequestSchema.safeParse(req.params);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid bookmark',
+          errors: validationResult.error.issues
+        });
       }
 
-      res.json(polls);
+      await mongoStorage.removeBookmark(req.user.userId, validationResult.data);
+      res.status(204).send();
     } catch (error: any) {
-      console.error('Get polls error:', error);
-      res.status(500).json({ message: 'Failed to get polls', error: error.message });
+      console.error('Remove bookmark error:', error);
+      res.status(500).json({ message: 'Failed to remove bookmark', error: error.message });
     }
   });
 
-  // Get a specific poll
-  app.get('/api/polls/:id', optionalAuth, async (req, res) => {
+  // Study collection routes
+  app.get('/api/collections', authenticateToken, async (req, res) => {
     try {
-      const { id } = req.params;
-      const poll = await mongoStorage.getPoll(id);
-
-      if (!poll) {
-        return res.status(404).json({ message: 'Poll not found' });
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
       }
 
-      // If user is authenticated, add hasVoted flag
-      if (req.user?.userId) {
-        const hasVoted = await mongoStorage.hasUserVoted(req.user.userId, id);
-        const userVote = hasVoted ? await mongoStorage.getUserVote(req.user.userId, id) : undefined;
-        return res.json({
-          ...poll,
-          hasVoted,
-          userVoteOptionId: userVote?.optionId
-        });
+      const collections = await mongoStorage.getStudyCollections(req.user.userId);
+      res.json(collections);
+    } catch (error: any) {
+      console.error('Get collections error:', error);
+      res.status(500).json({ message: 'Failed to get collections', error: error.message });
+    }
+  });
+
+  // Anyone with the link can view a shared collection
+  app.get('/api/collections/shared/:token', optionalAuth, async (req, res) => {
+    try {
+      const collection = await mongoStorage.getSharedStudyCollection(req.params.token, await getResourceViewer(req));
+      if (!collection) {
+        return res.status(404).json({ message: 'Collection not found' });
       }
 
-      res.json(poll);
+      const { shareToken, ...sharedCollection } = collection;
+      res.json(sharedCollection);
     } catch (error: any) {
-      console.error('Get poll error:', error);
-      res.status(500).json({ message: 'Failed to get poll', error: error.message });
+      console.error('Get shared collection error:', error);
+      res.status(500).json({ message: 'Failed to get collection', error: error.message });
     }
   });
 
-  // Vote on a poll (authenticated users only)
-  app.post('/api/polls/:id/vote', authenticateToken, async (req, res) => {
+  app.get('/api/collections/:id', authenticateToken, async (req, res) => {
     try {
-      const { id } = req.params;
-      const { optionId } = req.body;
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
 
-      if (!optionId) {
-        return res.status(400).json({ message: 'Option ID is required' });
+      const collection = await mongoStorage.getStudyCollection(req.params.id, req.user.userId, await getResourceViewer(req));
+      if (!collection) {
+        return res.status(404).json({ message: 'Collection not found' });
       }
+      res.json(collection);
+    } catch (error: any) {
+      console.error('Get collection error:', error);
+      res.status(500).json({ message: 'Failed to get collection', error: error.message });
+    }
+  });
 
-      await mongoStorage.votePoll(req.user!.userId, id, optionId);
+  app.post('/api/collections', authenticateToken, async (req, res) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
 
-      // Get updated poll with vote counts
-      const updatedPoll = await mongoStorage.getPoll(id);
+      const validationResult = studyCollectionRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid collection data',
+          errors: validationResult.error.issues
+        });
+      }
 
-      res.json({
-        message: 'Vote recorded successfully',
-        poll: updatedPoll
-      });
+      const collection = await mongoStorage.createStudyCollection(req.user.userId, validationResult.data);
+      res.status(201).json(collection);
     } catch (error: any) {
-      console.error('Vote poll error:', error);
-      res.status(400).json({ message: error.message || 'Failed to vote on poll' });
+      console.error('Create collection error:', error);
+      res.status(500).json({ message: 'Failed to create collection', error: error.message });
     }
   });
 
-  // Close a poll (admin only)
-  app.put('/api/polls/:id/close', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+  app.put('/api/collections/:id', authenticateToken, async (req, res) => {
     try {
-      const { id } = req.params;
-      const poll = await mongoStorage.closePoll(id);
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
 
-      res.json({
-        message: 'Poll closed successfully',
-        poll
-      });
+      const validationResult = studyCollectionRequestSchema.partial().safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid collection data',
+          errors: validationResult.error.issues
+        });
+      }
+
+      const collection = await mongoStorage.updateStudyCollection(req.params.id, req.user.userId, validationResult.data);
+      res.json(collection);
     } catch (error: any) {
-      console.error('Close poll error:', error);
-      res.status(400).json({ message: 'Failed to close poll', error: error.message });
+      if (error.message === 'Collection not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Update collection error:', error);
+      res.status(500).json({ message: 'Failed to update collection', error: error.message });
     }
   });
 
-  // Delete a poll (admin only)
-  app.delete('/api/polls/:id', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+  app.delete('/api/collections/:id', authenticateToken, async (req, res) => {
     try {
-      const { id } = req.params;
-      await mongoStorage.deletePoll(id);
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
 
-      res.json({ message: 'Poll deleted successfully' });
+      await mongoStorage.deleteStudyCollection(req.params.id, req.user.userId);
+      res.status(204).send();
     } catch (error: any) {
-      console.error('Delete poll error:', error);
-      res.status(500).json({ message: 'Failed to delete poll', error: error.message });
+      if (error.message === 'Collection not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Delete collection error:', error);
+      res.status(500).json({ message: 'Failed to delete collection', error: error.message });
     }
   });
 
-  // Get poll voters (admin only)
-  app.get('/api/polls/:id/voters', authenticateToken, requireRole(['admin', 'super_admin']), async (req, res) => {
+  app.post('/api/collections/:id/items', authenticateToken, async (req, res) => {
     try {
-      const { id } = req.params;
-      const voters = await mongoStorage.getPollVoters(id);
-      res.json(voters);
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
+      }
+
+      const validationResult = savedItemRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid collection item',
+          errors: validationResult.error.issues
+        });
+      }
+
+      await mongoStorage.addStudyCollectionItem(req.params.id, req.user.userId, validationResult.data, await getResourceViewer(req));
+      res.status(201).json(validationResult.data);
     } catch (error: any) {
-      console.error('Get poll voters error:', error);
-      res.status(500).json({ message: 'Failed to get poll voters', error: error.message });
+      if (error.message === 'Collection not found' || error.message === 'Item not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Add collection item error:', error);
+      res.status(500).json({ message: 'Failed to add to collection', error: error.message });
     }
   });
 
-  // Newsletter routes
-  app.post('/api/newsletter/subscribe', async (req, res) => {
+  app.delete('/api/collections/:id/items/:itemType/:itemId', authenticateToken, async (req, res) => {
     try {
-      const { email } = req.body;
-      if (!email) {
-        return res.status(400).json({ message: 'Email is required' });
+      if (!req.user) {
+        return res.status(401).json({ message: 'Authentication required' });
       }
 
-      await mongoStorage.subscribeNewsletter(email);
-      res.json({ message: 'Successfully subscribed to newsletter' });
+      const validationResult = savedItemRequestSchema.safeParse(req.params);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: 'Invalid collection item',
+          errors: validationResult.error.issues
+        });
+      }
+
+      await mongoStorage.removeStudyCollectionItem(req.params.id, req.user.userId, validationResult.data);
+      res.status(204).send();
     } catch (error: any) {
-      console.error('Newsletter subscription error:', error);
-      res.status(500).json({ message: 'Failed to subscribe to newsletter', error: error.message });
+      if (error.message === 'Collection not found') {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Remove collection item error:', error);
+      res.status(500).json({ message: 'Failed to remove from collection', error: error.message });
     }
   });
 
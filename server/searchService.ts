@@ -0,0 +1,127 @@
+export const SEARCH_TYPES = ['blogs', 'events', 'resources', 'staff', 'polls'] as const;
+export type SearchType = typeof SEARCH_TYPES[number];
+
+export interface SearchResult {
+  id: string;
+  type: SearchType;
+  // title and snippet are HTML: escaped text with matched words wrapped in <mark>
+  title: string;
+  snippet: string;
+  url: string;
+  // For resources matched inside their file, the page that matched best
+  page?: number;
+  score: number;
+  date?: Date;
+}
+
+export interface SearchResults {
+  query: string;
+  total: number;
+  counts: Record<SearchType, number>;
+  results: Record<SearchType, SearchResult[]>;
+}
+
+export interface SearchSuggestion {
+  id: string;
+  type: SearchType;
+  title: string;
+  url: string;
+}
+
+const SNIPPET_LENGTH = 160;
+
+// Words from the query worth highlighting. Mongo drops negated terms
+// ("-word") and matches stems, so highlighting matches word prefixes.
+export function getSearchTerms(query: string): string[] {
+  const terms = query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(term => term && !term.startsWith('-'))
+    .map(term => term.replace(/^["']+|["']+$/g, ''))
+    .filter(term => term.length >= 2);
+  return Array.from(new Set(terms));
+}
+
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Matches whole words starting with any of the terms
+function termsPattern(terms: string[]): RegExp | null {
+  if (terms.length === 0) return null;
+  const stems = terms
+    // Highlight "study" for "studies": compare on a shortened stem for longer words
+    .map(term => escapeRegex(term.length > 5 ? term.slice(0, Math.max(4, term.length - 3)) : term))
+    .sort((a, b) => b.length - a.length);
+  return new RegExp(`\\b(?:${stems.join('|')})[\\w'-]*`, 'gi');
+}
+
+export function highlight(text: string, terms: string[]): string {
+  const pattern = termsPattern(terms);
+  if (!pattern) return escapeHtml(text);
+
+  let html = '';
+  let last = 0;
+  for (const match of Array.from(text.matchAll(pattern))) {
+    html += escapeHtml(text.slice(last, match.index)) + `<mark>${escapeHtml(match[0])}</mark>`;
+    last = match.index! + match[0].length;
+  }
+  return html + escapeHtml(text.slice(last));
+}
+
+// A window of the text around the first matched term, highlighted
+export function buildSnippet(text: string, terms: string[], length = SNIPPET_LENGTH): string {
+  const plain = text.replace(/\s+/g, ' ').trim();
+  if (plain.length <= length) {
+    return highlight(plain, terms);
+  }
+
+  const pattern = termsPattern(terms);
+  const firstMatch = pattern ? plain.search(new RegExp(pattern.source, 'i')) : -1;
+  // Start a little before the match so it has some context
+  let start = firstMatch > 0 ? Math.max(0, firstMatch - Math.floor(length / 4)) : 0;
+  let end = Math.min(plain.length, start + length);
+  start = Math.max(0, end - length);
+
+  // Don't cut words in half
+  if (start > 0) {
+    const space = plain.indexOf(' ', start);
+    if (space !== -1 && space < firstMatch) start = space + 1;
+  }
+  if (end < plain.length) {
+    const space = plain.lastIndexOf(' ', end);
+    if (space > start) end = space;
+  }
+
+  return `${start > 0 ? '… ' : ''}${highlight(plain.slice(start, end), terms)}${end < plain.length ? ' …' : ''}`;
+}
+
+// Picks the most relevant text field for a snippet: the first that mentions a term
+export function pickSnippetSource(fields: Array<string | undefined>, terms: string[]): string {
+  const pattern = termsPattern(terms);
+  const present = fields.filter((field): field is string => !!field && field.trim().length > 0);
+  return present.find(field => pattern && new RegExp(pattern.source, 'i').test(field)) ?? present[0] ?? '';
+}
@@ -2,6 +2,7 @@
 // @ts-ignore
 import bcrypt from 'bcryptjs';
 import { initializeMongoDB, getCollection, COLLECTIONS } from './mongoDb';
+import { PASSWORD_HASH_ROUNDS } from './mongoStorage';
 import type { User } from '@shared/mongoSchema';
 import dotenv from 'dotenv';
 
@@ -33,7 +34,7 @@ class AdminSeeder {
     }
     
     // Hash password
-    const passwordHash = await bcrypt.hash(adminData.password, 12);
+    const passwordHash = await bcrypt.hash(adminData.password, PASSWORD_HASH_ROUNDS);
     
     // Create admin user document
     const adminDoc: Omit<User, '_id'> = {
@@ -0,0 +1,37 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import QRCode from 'qrcode';
+
+const TICKET_SECRET = process.env.JWT_SECRET || 'fallback-secret-key-change-in-production';
+
+// Ticket codes are "<registrationId>-<signature>". They are short enough to
+// type in by hand at the door, and the signature stops anyone guessing a
+// valid code from a registration id.
+
+function signRegistrationId(registrationId: string): string {
+  return createHmac('sha256', TICKET_SECRET)
+    .update(`ticket:${registrationId}`)
+    .digest('hex')
+    .slice(0, 12);
+}
+
+export function generateTicketCode(registrationId: string): string {
+  return `${registrationId}-${signRegistrationId(registrationId)}`;
+}
+
+// Returns the registration id encoded in a ticket code, or null if the code is invalid
+export function verifyTicketCode(code: string): string | null {
+  const match = code.trim().toLowerCase().match(/^([0-9a-f]{24})-([0-9a-f]{12})$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, registrationId, signature] = match;
+  const expected = signRegistrationId(registrationId);
+
+  return timingSafeEqual(Buffer.from(signature), Buffer.from(expected)) ? registrationId : null;
+}
+
+// PNG of the ticket code for attaching to emails
+export function generateTicketQrCode(code: string): Promise<Buffer> {
+  return QRCode.toBuffer(code, { width: 240, margin: 1 });
+}
@@ -1,5 +1,14 @@
 import { z } from "zod";
 
+// Per-user notification preferences - missing keys default to enabled
+export const notificationPreferencesSchema = z.object({
+  emailNotifications: z.boolean().default(true),
+  pushNotifications: z.boolean().default(true), // In-app notifications behind the header bell
+  blogNotifications: z.boolean().default(true),
+  eventNotifications: z.boolean().default(true),
+  resourceNotifications: z.boolean().default(true),
+});
+
 // User schema for MongoDB
 export const userSchema = z.object({
   _id: z.string().optional(),
@@ -26,6 +35,14 @@ export const userSchema = z.object({
   approvalStatus: z.enum(['pending', 'approved', 'rejected']).default('pending'),
   profileCompletion: z.number().default(0),
 
+  // Incremented whenever the password changes; JWTs carrying an older version are rejected
+  tokenVersion: z.number().optional(),
+
+  // Incremented to revoke the user's calendar feed URL
+  calendarFeedVersion: z.number().optional(),
+
+  notificationPreferences: notificationPreferencesSchema.optional(),
+
   createdAt: z.date().default(() => new Date()),
   updatedAt: z.date().default(() => new Date()),
 });
@@ -44,6 +61,13 @@ export const blogPostSchema = z.object({
   approvalStatus: z.enum(['pending', 'approved', 'rejected']).default('pending'),
   rejectionReason: z.string().optional(),
 
+  // A private draft, submitted for approval, approved and waiting for publishAt, or live.
+  // `published` is kept in step and is true only for 'published'.
+  status: z.enum(['draft', 'submitted', 'scheduled', 'published']).default('submitted'),
+  publishAt: z.date().optional(),
+  publishedAt: z.date().optional(),
+  notifySubscribers: z.boolean().optional(), // Email newsletter subscribers when a scheduled post goes live
+
   published: z.boolean().default(false),
   featured: z.boolean().default(false),
 
@@ -54,10 +78,44 @@ export const blogPostSchema = z.object({
   imageUrl: z.string().optional(),
   imageUrls: z.array(z.string()).optional().default([]),
 
+  // Revision numbers of the live text and of an edit waiting for approval
+  currentRevision: z.number().int().optional(),
+  pendingRevision: z.number().int().optional(),
+
   createdAt: z.date().default(() => new Date()),
   updatedAt: z.date().default(() => new Date()),
 });
 
+// Fields of a blog post that are kept in its revisions
+export const BLOG_REVISION_FIELDS = ['title', 'excerpt', 'content', 'category', 'tags', 'imageUrl', 'imageUrls'] as const;
+
+// A saved edit of a blog post. 'applied' revisions went live when they were made or approved;
+// a student's edit to an approved post is 'pending' until an admin approves or rejects it,
+// and is 'superseded' if the student edits the post again first.
+export const blogRevisionSchema = blogPostSchema.pick({
+  title: true,
+  excerpt: true,
+  content: true,
+  category: true,
+  tags: true,
+  imageUrl: true,
+  imageUrls: true,
+}).extend({
+  _id: z.string().optional(),
+  blogPostId: z.string(),
+  revision: z.number().int().min(1),
+
+  authorId: z.string(), // Who made the edit, not necessarily the post's author
+  status: z.enum(['applied', 'pending', 'rejected', 'superseded']),
+  restoredFrom: z.number().int().optional(),
+
+  reviewedById: z.string().optional(),
+  reviewedAt: z.date().optional(),
+  rejectionReason: z.string().optional(),
+
+  createdAt: z.date().default(() => new Date()),
+});
+
 // Base comment schema (without refinement) - used for creating insert schema
 const baseCommentSchema = z.object({
   _id: z.string().optional(),
@@ -103,19 +161,61 @@ export const eventSchema = z.object({
 
   type: z.enum(['workshop', 'seminar', 'conference', 'social', 'academic']),
   capacity: z.number(),
-  price: z.number().default(0), // Price in cents, 0 for free
+  price: z.number().default(0), // Price in kobo, 0 for free
+
+  // Seats taken, kept in step with registrations so capacity can be enforced atomically
+  registeredCount: z.number().optional(),
 
   organizerId: z.string(),
 
   tags: z.array(z.string()).default([]),
+  courseIds: z.array(z.string()).optional().default([]),
   imageUrl: z.string().optional(),
   imageUrls: z.array(z.string()).optional().default([]),
   videoUrl: z.string().optional(), // Video URL for event recordings
 
+  // Sessions of a series point back to it. occurrenceDate is the scheduled day
+  // (YYYY-MM-DD) and stays fixed even if the session itself is moved.
+  seriesId: z.string().optional(),
+  occurrenceDate: z.string().optional(),
+  // Fields edited on this session alone, which series edits leave untouched
+  overriddenFields: z.array(z.string()).optional(),
+  cancelled: z.boolean().optional(),
+
   createdAt: z.date().default(() => new Date()),
   updatedAt: z.date().default(() => new Date()),
 });
 
+const calendarDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be in YYYY-MM-DD format');
+
+// When the sessions of an event series take place. Weekly and biweekly series
+// repeat from startDate until endDate or for count sessions; custom series
+// list their dates explicitly.
+export const eventRecurrenceSchema = z.object({
+  frequency: z.enum(['weekly', 'biweekly', 'custom']),
+  startDate: calendarDateSchema.optional(),
+  endDate: calendarDateSchema.optional(),
+  count: z.number().int().min(1).optional(),
+  dates: z.array(calendarDateSchema).optional(),
+}).refine(
+  (data) => data.frequency === 'custom'
+    ? !!data.dates?.length
+    : !!data.startDate && (!!data.endDate || !!data.count),
+  { message: 'Weekly series need a start date and an end date or session count; custom series need at least one date' }
+);
+
+// Event series schema - the shared details every session starts from
+export const eventSeriesSchema = eventSchema.omit({
+  date: true,
+  registeredCount: true,
+  seriesId: true,
+  occurrenceDate: true,
+  overriddenFields: true,
+  cancelled: true,
+}).extend({
+  recurrence: eventRecurrenceSchema,
+});
+
 // Event registration schema
 export const eventRegistrationSchema = z.object({
   _id: z.string().optional(),
@@ -123,11 +223,50 @@ export const eventRegistrationSchema = z.object({
   userId: z.string(),
   eventId: z.string(),
 
-  status: z.enum(['registered', 'attended', 'cancelled']).default('registered'),
+  // pending_payment holds a seat at a paid event until checkout completes or holdExpiresAt passes
+  status: z.enum(['registered', 'attended', 'cancelled', 'waitlisted', 'pending_payment']).default('registered'),
+
+  // Set when an admin scans the ticket at the door
+  checkedInAt: z.date().optional(),
+  checkedInBy: z.string().optional(),
+
+  // Paid events only
+  paymentStatus: z.enum(['paid', 'refunded']).optional(),
+  paymentReference: z.string().optional(),
+  holdExpiresAt: z.date().optional(),
+
+  createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().optional(), // Last status change; orders the waitlist
+});
+
+// Payment schema - one checkout attempt for a paid event registration
+export const paymentSchema = z.object({
+  _id: z.string().optional(),
+  reference: z.string(), // Our reference, shared with the payment provider
+  provider: z.string(),
+
+  userId: z.string(),
+  eventId: z.string(),
+  registrationId: z.string(),
+
+  amount: z.number(), // In kobo
+  currency: z.string().default('NGN'),
+  status: z.enum(['pending', 'paid', 'failed', 'abandoned', 'refund_pending', 'refunded']).default('pending'),
+
+  paidAt: z.date().optional(),
+  refundedAt: z.date().optional(),
+  providerRefundId: z.string().optional(),
 
   createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().default(() => new Date()),
 });
 
+// A student's level; courses and level-restricted resources use the same values
+export const studentLevelSchema = z.enum(['100', '200', '300', '400', 'postgraduate']);
+
+// Who can see and download a learning resource. Admins can always.
+export const resourceVisibilitySchema = z.enum(['public', 'students', 'levels', 'admins']);
+
 // Learning resource schema
 export const learningResourceSchema = z.object({
   _id: z.string().optional(),
@@ -146,14 +285,107 @@ export const learningResourceSchema = z.object({
   downloads: z.number().default(0),
   rating: z.number().default(0), // Average rating * 10 (for precision)
   ratingCount: z.number().default(0),
+  ratingTotal: z.number().optional(), // Sum of the published reviews' stars, kept so the average can be updated in place
 
   difficulty: z.enum(['100l', '200l', '300l', '400l']),
   tags: z.array(z.string()).default([]),
+  courseIds: z.array(z.string()).optional().default([]),
+
+  // 'students' is anyone signed in; 'levels' is signed-in users whose level is in allowedLevels
+  visibility: resourceVisibilitySchema.default('public'),
+  allowedLevels: z.array(studentLevelSchema).default([]),
 
   previewAvailable: z.boolean().default(false),
   thumbnailUrl: z.string().optional(),
   imageUrls: z.array(z.string()).optional().default([]),
 
+  // Filled in by text extraction after the file is uploaded
+  pageCount: z.number().optional(),
+  textStatus: z.enum(['pending', 'processing', 'ready', 'failed', 'unsupported']).optional(),
+  textError: z.string().optional(),
+
+  // The version whose file is in fileUrl/fileName/fileSize; missing on resources uploaded before versioning
+  currentVersion: z.number().int().min(1).optional(),
+
+  createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().default(() => new Date()),
+});
+
+// One uploaded file of a learning resource. Downloads and ratings stay on the resource;
+// a version only counts how often its own file was downloaded.
+export const resourceVersionSchema = z.object({
+  _id: z.string().optional(),
+  resourceId: z.string(),
+  version: z.number().int().min(1),
+
+  fileUrl: z.string(),
+  fileName: z.string(),
+  fileSize: z.string(),
+
+  changelog: z.string().optional(),
+  uploadedById: z.string(),
+  downloads: z.number().default(0),
+
+  createdAt: z.date().default(() => new Date()),
+});
+
+// A user's rating of a learning resource, with optional written feedback.
+// Stored in the resource ratings collection; ratings from before reviews have no text.
+export const resourceReviewSchema = z.object({
+  _id: z.string().optional(),
+  resourceId: z.string(),
+  userId: z.string(),
+
+  rating: z.number().int().min(1).max(5),
+  comment: z.string().max(2000).optional(),
+
+  helpfulCount: z.number().default(0),
+
+  // Hidden reviews don't show and don't count towards the resource's rating
+  status: z.enum(['published', 'hidden']).default('published'),
+  flags: z.array(z.object({
+    userId: z.string(),
+    reason: z.string().max(500).optional(),
+    createdAt: z.date().default(() => new Date()),
+  })).default([]),
+  flagCount: z.number().default(0),
+  moderatedById: z.string().optional(),
+  moderatedAt: z.date().optional(),
+  moderationNote: z.string().optional(),
+
+  // The uploader's response
+  reply: z.object({
+    authorId: z.string(),
+    content: z.string().max(2000),
+    createdAt: z.date().default(() => new Date()),
+    updatedAt: z.date().default(() => new Date()),
+  }).optional(),
+
+  createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().default(() => new Date()),
+});
+
+// Extracted text of one page of a learning resource (documents without pages are stored as page 1)
+export const resourcePageSchema = z.object({
+  _id: z.string().optional(),
+  resourceId: z.string(),
+  page: z.number().min(1),
+  text: z.string(),
+});
+
+// Course schema. Levels use the same values as a student's level.
+export const courseSchema = z.object({
+  _id: z.string().optional(),
+  code: z.string().min(1), // e.g. "SOC 201", stored upper-case with one space
+  title: z.string().min(1),
+  description: z.string().optional(),
+
+  level: studentLevelSchema,
+  semester: z.enum(['first', 'second']),
+  units: z.number().int().min(0).optional(),
+
+  lecturerIds: z.array(z.string()).default([]), // Staff profile ids
+
   createdAt: z.date().default(() => new Date()),
   updatedAt: z.date().default(() => new Date()),
 });
@@ -197,6 +429,14 @@ export const staffProfileSchema = staffProfileBaseSchema.refine(
   { message: "Either userId or customName must be provided" }
 );
 
+// Admin replies to a contact submission, as emailed to the sender
+export const contactReplySchema = z.object({
+  message: z.string(),
+  sentById: z.string(),
+  sentByName: z.string(),
+  sentAt: z.date().default(() => new Date()),
+});
+
 // Contact submission schema
 export const contactSubmissionSchema = z.object({
   _id: z.string().optional(),
@@ -208,8 +448,10 @@ export const contactSubmissionSchema = z.object({
   message: z.string(),
 
   status: z.enum(['new', 'read', 'responded', 'closed']).default('new'),
+  replies: z.array(contactReplySchema).default([]),
 
   createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().optional(),
 });
 
 // Newsletter subscription schema
@@ -257,12 +499,200 @@ export const pollVoteSchema = z.object({
   createdAt: z.date().default(() => new Date()),
 });
 
+// Notification schema - in-app notifications shown behind the header bell
+export const notificationSchema = z.object({
+  _id: z.string().optional(),
+  userId: z.string(),
+
+  type: z.enum(['blog_approved', 'blog_rejected', 'comment_reply', 'comment_like', 'poll_created', 'event_updated', 'event_cancelled', 'review_reply', 'badge_earned']),
+  title: z.string(),
+  message: z.string(),
+  link: z.string().optional(), // Client route to open when the notification is clicked
+
+  read: z.boolean().default(false),
+
+  createdAt: z.date().default(() => new Date()),
+});
+
+// Blog posts, events and learning resources can be bookmarked and put in study collections
+export const savedItemTypeSchema = z.enum(['blog', 'event', 'resource']);
+
+export const savedItemRefSchema = z.object({
+  itemType: savedItemTypeSchema,
+  itemId: z.string(),
+});
+
+export const bookmarkSchema = savedItemRefSchema.extend({
+  _id: z.string().optional(),
+  userId: z.string(),
+
+  createdAt: z.date().default(() => new Date()),
+});
+
+export const studyCollectionItemSchema = savedItemRefSchema.extend({
+  addedAt: z.date().default(() => new Date()),
+});
+
+// A named list of saved items, e.g. "SOC 301 exam prep". With link visibility,
+// anyone who has the share link can view it.
+export const studyCollectionSchema = z.object({
+  _id: z.string().optional(),
+  ownerId: z.string(),
+
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  visibility: z.enum(['private', 'link']).default('private'),
+  shareToken: z.string(),
+
+  items: z.array(studyCollectionItemSchema).default([]),
+
+  createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().default(() => new Date()),
+});
+
+// Actions that earn points. Each one is written to the activity ledger once, for
+// example a like is recorded once per liker and a download once per resource.
+export const activityActionSchema = z.enum([
+  'blog_post_approved',
+  'comment_posted',
+  'like_received',
+  'resource_downloaded',
+  'event_attended',
+  'poll_voted',
+]);
+
+export const ACTIVITY_ACTION_LABELS: Record<z.infer<typeof activityActionSchema>, string> = {
+  blog_post_approved: 'Blog post approved',
+  comment_posted: 'Posted a comment',
+  like_received: 'Received a like',
+  resource_downloaded: 'Downloaded a resource',
+  event_attended: 'Attended an event',
+  poll_voted: 'Voted in a poll',
+};
+
+// One entry in the activity ledger. XP, levels, streaks and badges are all worked out
+// from these; points are copied from the rules when the entry is written, so changing
+// a rule doesn't rewrite past activity.
+export const activityEventSchema = z.object({
+  _id: z.string().optional(),
+  userId: z.string(), // Who earned the points
+  action: activityActionSchema,
+  points: z.number().int(),
+
+  // Identifies the action so it is only recorded once, e.g. like:<postId>:<likerId>
+  key: z.string(),
+  subjectType: z.enum(['blog', 'comment', 'resource', 'event', 'poll']),
+  subjectId: z.string(),
+  actorId: z.string().optional(), // Who gave the like, when it isn't the earner
+  capped: z.boolean().optional(), // Points were cut to keep within the cap for one subject
+
+  createdAt: z.date().default(() => new Date()),
+});
+
+// Points awarded for an action, as set by admins
+export const gamificationRuleSchema = z.object({
+  action: activityActionSchema,
+  points: z.number().int().min(0).max(1000),
+  updatedAt: z.date().default(() => new Date()),
+});
+
+// Downloads, views and likes that were throttled instead of counted, tallied per
+// user (or per IP address for anonymous views) and hour for the admin report
+export const engagementKindSchema = z.enum(['download', 'view', 'like']);
+
+export const engagementRejectionSchema = z.object({
+  _id: z.string().optional(),
+  userId: z.string().nullable(),
+  ip: z.string().nullable(), // Only kept for anonymous views
+  kind: engagementKindSchema,
+  reason: z.enum(['duplicate', 'rate_limited']),
+  hour: z.date(), // Start of the hour the attempts were made in
+  count: z.number().int(),
+});
+
+export const leaderboardPeriodSchema = z.enum(['week', 'month', 'all']);
+
+// Icons admins can pick for a badge; the client maps each name to an icon component
+export const badgeIconSchema = z.enum([
+  'award',
+  'trophy',
+  'medal',
+  'star',
+  'flame',
+  'zap',
+  'target',
+  'heart',
+  'message-square',
+  'book-open',
+  'download',
+  'calendar-check',
+  'graduation-cap',
+  'vote',
+]);
+
+// One requirement of a badge, worked out from the activity ledger
+export const badgeConditionSchema = z.discriminatedUnion('metric', [
+  // Done an action at least this many times; event attendance can be narrowed to one type of event
+  z.object({
+    metric: z.literal('activity'),
+    action: activityActionSchema,
+    atLeast: z.number().int().min(1).max(10000),
+    eventType: eventSchema.shape.type.optional(),
+  }),
+  z.object({
+    metric: z.literal('xp'),
+    atLeast: z.number().int().min(1).max(1000000),
+  }),
+  // Longest run of active days
+  z.object({
+    metric: z.literal('streak'),
+    atLeast: z.number().int().min(1).max(365),
+  }),
+  // Ranked this high on a leaderboard at the time badges are checked
+  z.object({
+    metric: z.literal('leaderboard_rank'),
+    period: leaderboardPeriodSchema,
+    atMost: z.number().int().min(1).max(100),
+  }),
+]);
+
+// A badge defined by admins. It is awarded once every condition holds, and
+// kept from then on even if the user later falls below them.
+export const badgeDefinitionSchema = z.object({
+  _id: z.string().optional(),
+  name: z.string().trim().min(1).max(60),
+  description: z.string().trim().max(200).default(''),
+  icon: badgeIconSchema.default('award'),
+  criteria: z.array(badgeConditionSchema).min(1).max(5).refine(
+    criteria => criteria.every(condition => condition.metric !== 'activity' || !condition.eventType || condition.action === 'event_attended'),
+    { message: 'An event type can only be set on event attendance' }
+  ),
+  // Inactive badges are no longer awarded; users who earned one keep it
+  active: z.boolean().default(true),
+
+  createdBy: z.string().optional(),
+  createdAt: z.date().default(() => new Date()),
+  updatedAt: z.date().default(() => new Date()),
+});
+
+export const userBadgeSchema = z.object({
+  _id: z.string().optional(),
+  userId: z.string(),
+  badgeId: z.string(),
+  awardedAt: z.date().default(() => new Date()),
+});
+
 // Insert schemas (for validation)
 export const insertUserSchema = userSchema.omit({ _id: true, createdAt: true, updatedAt: true });
-export const insertBlogPostSchema = blogPostSchema.omit({ _id: true, createdAt: true, updatedAt: true, authorId: true });
-export const insertCommentSchema = baseCommentSchema.omit({ _id: true, createdAt: true, updatedAt: true, authorId: true, blogPostId: true });
-export const insertEventSchema = eventSchema.omit({ _id: true, createdAt: true, updatedAt: true, organizerId: true });
-export const insertLearningResourceSchema = learningResourceSchema.omit({ _id: true, createdAt: true, updatedAt: true, uploadedById: true });
+// Counters and moderation state are left out of the insert schemas: storage sets them
+export const insertBlogPostSchema = blogPostSchema.omit({ _id: true, createdAt: true, updatedAt: true, authorId: true, currentRevision: true, pendingRevision: true, publishedAt: true, likes: true, views: true, readTime: true });
+export const insertCommentSchema = baseCommentSchema.omit({ _id: true, createdAt: true, updatedAt: true, authorId: true, blogPostId: true, eventId: true, resourceId: true, likes: true });
+export const insertEventSchema = eventSchema.omit({
+  _id: true, createdAt: true, updatedAt: true, organizerId: true, registeredCount: true,
+  seriesId: true, occurrenceDate: true, overriddenFields: true, cancelled: true
+});
+export const insertEventSeriesSchema = eventSeriesSchema.omit({ _id: true, createdAt: true, updatedAt: true, organizerId: true });
+export const insertLearningResourceSchema = learningResourceSchema.omit({ _id: true, createdAt: true, updatedAt: true, uploadedById: true, pageCount: true, textStatus: true, textError: true, currentVersion: true, downloads: true, rating: true, ratingCount: true, ratingTotal: true, previewAvailable: true });
 // Use base schema for omit, then add refinement
 export const insertStaffProfileSchema = staffProfileBaseSchema
   .omit({ _id: true, createdAt: true, updatedAt: true })
@@ -270,32 +700,55 @@ export const insertStaffProfileSchema = staffProfileBaseSchema
     (data) => data.userId || data.customName,
     { message: "Either userId or customName must be provided" }
   );
-export const insertContactSubmissionSchema = contactSubmissionSchema.omit({ _id: true, createdAt: true });
+export const insertCourseSchema = courseSchema.omit({ _id: true, createdAt: true, updatedAt: true });
+export const insertContactSubmissionSchema = contactSubmissionSchema.omit({ _id: true, status: true, replies: true, createdAt: true, updatedAt: true });
 export const insertPollSchema = pollSchema.omit({ _id: true, createdAt: true, updatedAt: true, createdById: true, status: true });
 export const insertPollVoteSchema = pollVoteSchema.omit({ _id: true, createdAt: true });
+export const insertBadgeDefinitionSchema = badgeDefinitionSchema.omit({ _id: true, createdBy: true, createdAt: true, updatedAt: true });
+export const insertNotificationSchema = notificationSchema.omit({ _id: true, createdAt: true, read: true });
+export const insertStudyCollectionSchema = studyCollectionSchema.omit({ _id: true, ownerId: true, shareToken: true, items: true, createdAt: true, updatedAt: true });
 
 // Type exports
 export type User = z.infer<typeof userSchema>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type RegisterUser = Omit<InsertUser, 'passwordHash'> & { password: string };
+export type NotificationPreferences = z.infer<typeof notificationPreferencesSchema>;
 
 export type BlogPost = z.infer<typeof blogPostSchema>;
+export type BlogPostStatus = BlogPost['status'];
 export type InsertBlogPost = z.infer<typeof insertBlogPostSchema>;
+export type BlogRevision = z.infer<typeof blogRevisionSchema>;
+export type BlogRevisionStatus = BlogRevision['status'];
 
 export type Comment = z.infer<typeof commentSchema>;
 export type InsertComment = z.infer<typeof insertCommentSchema>;
 
 export type Event = z.infer<typeof eventSchema>;
+// An event in the events list, where a series is listed once by its next session
+export type EventListing = Event & { seriesSessionCount?: number };
 export type InsertEvent = z.infer<typeof insertEventSchema>;
 
+export type EventRecurrence = z.infer<typeof eventRecurrenceSchema>;
+export type EventSeries = z.infer<typeof eventSeriesSchema>;
+export type InsertEventSeries = z.infer<typeof insertEventSeriesSchema>;
+
 export type EventRegistration = z.infer<typeof eventRegistrationSchema>;
 
+export type Payment = z.infer<typeof paymentSchema>;
+
 export type LearningResource = z.infer<typeof learningResourceSchema>;
 export type InsertLearningResource = z.infer<typeof insertLearningResourceSchema>;
+export type ResourcePage = z.infer<typeof resourcePageSchema>;
+export type ResourceVersion = z.infer<typeof resourceVersionSchema>;
+export type ResourceReview = z.infer<typeof resourceReviewSchema>;
+export type ResourceVisibility = z.infer<typeof resourceVisibilitySchema>;
+export type Course = z.infer<typeof courseSchema>;
+export type InsertCourse = z.infer<typeof insertCourseSchema>;
 
 export type StaffProfile = z.infer<typeof staffProfileSchema>;
 export type InsertStaffProfile = z.infer<typeof insertStaffProfileSchema>;
 
+export type ContactReply = z.infer<typeof contactReplySchema>;
 export type ContactSubmission = z.infer<typeof contactSubmissionSchema>;
 export type InsertContactSubmission = z.infer<typeof insertContactSubmissionSchema>;
 
@@ -306,4 +759,26 @@ export type InsertPoll = z.infer<typeof insertPollSchema>;
 export type PollOption = z.infer<typeof pollOptionSchema>;
 
 export type PollVote = z.infer<typeof pollVoteSchema>;
-export type InsertPollVote = z.infer<typeof insertPollVoteSchema>;
\ No newline at end of file
+export type InsertPollVote = z.infer<typeof insertPollVoteSchema>;
+
+export type Notification = z.infer<typeof notificationSchema>;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+
+export type ActivityAction = z.infer<typeof activityActionSchema>;
+export type ActivityEvent = z.infer<typeof activityEventSchema>;
+export type GamificationRule = z.infer<typeof gamificationRuleSchema>;
+export type EngagementKind = z.infer<typeof engagementKindSchema>;
+export type EngagementRejection = z.infer<typeof engagementRejectionSchema>;
+export type LeaderboardPeriod = z.infer<typeof leaderboardPeriodSchema>;
+export type BadgeIcon = z.infer<typeof badgeIconSchema>;
+export type BadgeCondition = z.infer<typeof badgeConditionSchema>;
+export type BadgeDefinition = z.infer<typeof badgeDefinitionSchema>;
+export type InsertBadgeDefinition = z.infer<typeof insertBadgeDefinitionSchema>;
+export type UserBadge = z.infer<typeof userBadgeSchema>;
+
+export type SavedItemType = z.infer<typeof savedItemTypeSchema>;
+export type SavedItemRef = z.infer<typeof savedItemRefSchema>;
+export type Bookmark = z.infer<typeof bookmarkSchema>;
+export type StudyCollectionItem = z.infer<typeof studyCollectionItemSchema>;
+export type StudyCollection = z.infer<typeof studyCollectionSchema>;
+export type InsertStudyCollection = z.infer<typeof insertStudyCollectionSchema>;